@@ -1,5 +1,5 @@
 // Dependency as stored in issues.jsonl (full object format)
-interface IssueDependencyObject {
+export interface IssueDependencyObject {
   issue_id: string
   depends_on_id: string
   type: string
@@ -30,6 +30,28 @@ export interface GraphApiResponse {
   IssueMap: Record<string, BdIssue>
 }
 
+/**
+ * Normalize an issue's dependencies to full dependency objects.
+ * Handles both the old string ID format and the new object format.
+ */
+export function getIssueDependencies(issue: BdIssue): BdDependency[] {
+  if (!issue.dependencies || !Array.isArray(issue.dependencies)) {
+    return []
+  }
+
+  return issue.dependencies.map(dep => {
+    if (typeof dep === 'string') {
+      return { issue_id: issue.id, depends_on_id: dep, type: 'blocks' }
+    }
+    // Object format: { issue_id, depends_on_id, type, ... }
+    return {
+      issue_id: issue.id,
+      depends_on_id: dep.depends_on_id,
+      type: dep.type || 'blocks',
+    }
+  })
+}
+
 export function buildGraphsFromIssues(issues: BdIssue[]): GraphApiResponse[] {
   if (issues.length === 0) {
     return []
@@ -42,14 +64,7 @@ export function buildGraphsFromIssues(issues: BdIssue[]): GraphApiResponse[] {
 
   for (const issue of issues) {
     if (issue.dependencies && Array.isArray(issue.dependencies)) {
-      // Extract dependency IDs - handle both string format and object format
-      const depIds: string[] = issue.dependencies.map(dep => {
-        if (typeof dep === 'string') {
-          return dep
-        }
-        // Object format: { issue_id, depends_on_id, type, ... }
-        return dep.depends_on_id
-      })
+      const depIds = getIssueDependencies(issue).map(dep => dep.depends_on_id)
 
       dependsOnMap.set(issue.id, new Set(depIds))
       for (const depId of depIds) {
@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it } from 'bun:test'
+import {
+  applyChangeset,
+  type Changeset,
+  isProposableTool,
+  proposeChange,
+} from './changeset'
+import { FakeIssueTracker } from './issue-tracker'
+
+describe('Changesets', () => {
+  let tracker: FakeIssueTracker
+  let changeset: Changeset
+  let existingIssueIds: Set<string>
+
+  beforeEach(async () => {
+    tracker = new FakeIssueTracker()
+    const existing = await tracker.createIssue({ title: 'Existing issue' })
+    existingIssueIds = new Set([existing.data?.id ?? ''])
+    changeset = { changes: [] }
+  })
+
+  describe('isProposableTool', () => {
+    it('proposes tools that change the graph and runs queries', () => {
+      expect(isProposableTool('create_issue')).toBe(true)
+      expect(isProposableTool('add_label')).toBe(true)
+      expect(isProposableTool('list_issues')).toBe(false)
+    })
+  })
+
+  describe('proposeChange', () => {
+    it('gives new issues placeholder IDs that later changes can use', () => {
+      const [existingId] = existingIssueIds
+
+      const created = proposeChange(
+        changeset,
+        'create_issue',
+        { title: 'Write docs', type: 'task' },
+        existingIssueIds
+      )
+      const linked = proposeChange(
+        changeset,
+        'add_dependency',
+        { blocked_issue_id: existingId, blocker_issue_id: 'new-1' },
+        existingIssueIds
+      )
+
+      expect(created).toEqual({
+        success: true,
+        result: { proposed: true, change_id: 'change-1', issue_id: 'new-1' },
+      })
+      expect(linked.success).toBe(true)
+      expect(changeset.changes).toEqual([
+        {
+          id: 'change-1',
+          type: 'createIssue',
+          toolName: 'create_issue',
+          input: { title: 'Write docs', type: 'task' },
+          summary: 'Create task "Write docs"',
+          issueId: 'new-1',
+        },
+        {
+          id: 'change-2',
+          type: 'addDependency',
+          toolName: 'add_dependency',
+          input: { blocked_issue_id: existingId, blocker_issue_id: 'new-1' },
+          summary: `new-1 blocks ${existingId}`,
+        },
+      ])
+    })
+
+    it('rejects changes to issues that do not exist', () => {
+      const result = proposeChange(
+        changeset,
+        'close_issue',
+        { issue_id: 'bd-missing' },
+        existingIssueIds
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Issue not found: bd-missing',
+      })
+      expect(changeset.changes).toEqual([])
+    })
+
+    it('does not make any changes', async () => {
+      const [existingId] = existingIssueIds
+
+      proposeChange(
+        changeset,
+        'close_issue',
+        { issue_id: existingId },
+        existingIssueIds
+      )
+
+      expect((await tracker.getIssue(existingId)).data?.status).toBe('open')
+    })
+
+    it('describes dependencies by their type', () => {
+      const [existingId] = existingIssueIds
+      proposeChange(
+        changeset,
+        'create_issue',
+        { title: 'Write docs' },
+        existingIssueIds
+      )
+
+      proposeChange(
+        changeset,
+        'add_dependency',
+        {
+          blocked_issue_id: 'new-1',
+          blocker_issue_id: existingId,
+          type: 'parent-child',
+        },
+        existingIssueIds
+      )
+      const invalid = proposeChange(
+        changeset,
+        'add_dependency',
+        {
+          blocked_issue_id: 'new-1',
+          blocker_issue_id: existingId,
+          type: 'duplicates',
+        },
+        existingIssueIds
+      )
+
+      expect(changeset.changes[1].summary).toBe(
+        `${existingId} is the parent of new-1`
+      )
+      expect(invalid.success).toBe(false)
+      expect(changeset.changes).toHaveLength(2)
+    })
+  })
+
+  describe('applyChangeset', () => {
+    it('applies the selected changes with the real issue IDs', async () => {
+      const [existingId] = existingIssueIds
+      proposeChange(
+        changeset,
+        'create_issue',
+        { title: 'Write docs' },
+        existingIssueIds
+      )
+      proposeChange(
+        changeset,
+        'add_dependency',
+        { blocked_issue_id: existingId, blocker_issue_id: 'new-1' },
+        existingIssueIds
+      )
+      proposeChange(
+        changeset,
+        'close_issue',
+        { issue_id: existingId },
+        existingIssueIds
+      )
+
+      const result = await applyChangeset(
+        changeset,
+        ['change-1', 'change-2'],
+        tracker
+      )
+
+      const createdId = result.applied[0].issueId
+      expect(createdId).toBeTruthy()
+      expect(result.applied.map(({ change }) => change.id)).toEqual([
+        'change-1',
+        'change-2',
+      ])
+      expect(result.failed).toEqual([])
+      expect(result.commitMessages).toHaveLength(2)
+
+      const graph = (await tracker.getGraph()).data
+      expect(graph?.dependencies).toContainEqual(
+        expect.objectContaining({
+          issue_id: existingId,
+          depends_on_id: createdId,
+        })
+      )
+      // The deselected change is dropped
+      expect(graph?.issueMap[existingId].status).toBe('open')
+    })
+
+    it('fails changes that need an issue that was not created', async () => {
+      const [existingId] = existingIssueIds
+      proposeChange(
+        changeset,
+        'create_issue',
+        { title: 'Write docs' },
+        existingIssueIds
+      )
+      proposeChange(
+        changeset,
+        'add_dependency',
+        { blocked_issue_id: existingId, blocker_issue_id: 'new-1' },
+        existingIssueIds
+      )
+
+      const result = await applyChangeset(changeset, ['change-2'], tracker)
+
+      expect(result.applied).toEqual([])
+      expect(result.failed).toEqual([
+        {
+          change: changeset.changes[1],
+          error: 'Issue new-1 was not created',
+        },
+      ])
+      expect(result.commitMessages).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,237 @@
+import type { IssueTracker } from './issue-tracker'
+import * as log from './logger'
+import {
+  type AddDependencyInput,
+  describeDependency,
+  executeTool,
+  type ToolExecutionResult,
+  validateDependencyType,
+} from './tool-executor'
+
+/**
+ * A graph change the assistant proposed instead of making. Issues it
+ * proposes to create get a placeholder ID (new-1, new-2, ...) that later
+ * changes can refer to until the issue exists.
+ */
+export interface ProposedChange {
+  id: string
+  type: 'createIssue' | 'updateIssue' | 'addDependency' | 'removeDependency'
+  toolName: string
+  input: Record<string, unknown>
+  /** One line describing the change, for review */
+  summary: string
+  /** The issue created or changed; a placeholder for new issues */
+  issueId?: string
+}
+
+/**
+ * Changes proposed in a conversation, waiting to be applied or discarded
+ */
+export interface Changeset {
+  changes: ProposedChange[]
+}
+
+export interface ChangesetApplyResult {
+  applied: { change: ProposedChange; issueId?: string }[]
+  failed: { change: ProposedChange; error: string }[]
+  commitMessages: string[]
+}
+
+// Tools that change the graph, by the kind of change they make
+const PROPOSABLE_TOOLS: Record<string, ProposedChange['type']> = {
+  create_issue: 'createIssue',
+  update_issue: 'updateIssue',
+  close_issue: 'updateIssue',
+  reopen_issue: 'updateIssue',
+  add_label: 'updateIssue',
+  remove_label: 'updateIssue',
+  add_dependency: 'addDependency',
+  remove_dependency: 'removeDependency',
+}
+
+// Inputs that hold issue IDs, which may be placeholders
+const ISSUE_ID_FIELDS_BY_TYPE: Record<ProposedChange['type'], string[]> = {
+  createIssue: [],
+  updateIssue: ['issue_id'],
+  addDependency: ['blocked_issue_id', 'blocker_issue_id'],
+  removeDependency: ['blocked_issue_id', 'blocker_issue_id'],
+}
+
+const PLACEHOLDER_PREFIX = 'new-'
+
+/**
+ * Whether a tool changes the graph, so it is proposed rather than run in
+ * propose mode
+ */
+export function isProposableTool(toolName: string): boolean {
+  return toolName in PROPOSABLE_TOOLS
+}
+
+// Placeholder IDs of the issues a changeset creates
+function placeholderIds(changeset: Changeset): Set<string> {
+  return new Set(
+    changeset.changes.flatMap(change =>
+      change.type === 'createIssue' && change.issueId ? [change.issueId] : []
+    )
+  )
+}
+
+function summarizeChange(
+  toolName: string,
+  input: Record<string, unknown>
+): string {
+  switch (toolName) {
+    case 'create_issue':
+      return `Create ${input.type ?? 'task'} "${input.title}"`
+    case 'update_issue': {
+      const fields = Object.keys(input).filter(key => key !== 'issue_id')
+      return `Update ${input.issue_id} (${fields.join(', ')})`
+    }
+    case 'close_issue':
+      return `Close ${input.issue_id}`
+    case 'reopen_issue':
+      return `Reopen ${input.issue_id}`
+    case 'add_label':
+      return `Add label ${input.label} to ${input.issue_id}`
+    case 'remove_label':
+      return `Remove label ${input.label} from ${input.issue_id}`
+    case 'add_dependency':
+      return describeDependency(input as unknown as AddDependencyInput)
+    default:
+      return `${input.blocker_issue_id} no longer blocks ${input.blocked_issue_id}`
+  }
+}
+
+/**
+ * Add a tool call to a changeset instead of running it. Issue IDs must be
+ * existing issues or placeholders for issues created earlier in the
+ * changeset, so mistakes are caught while the assistant can still fix them.
+ * @param existingIssueIds - IDs of the issues in the graph
+ * @returns The result to give the assistant for the tool call
+ */
+export function proposeChange(
+  changeset: Changeset,
+  toolName: string,
+  input: Record<string, unknown>,
+  existingIssueIds: Set<string>
+): ToolExecutionResult {
+  const type = PROPOSABLE_TOOLS[toolName]
+  if (!type) {
+    return { success: false, error: `Unknown tool: ${toolName}` }
+  }
+
+  if (type === 'createIssue' && !input.title) {
+    return { success: false, error: 'title is required' }
+  }
+  const typeError =
+    type === 'addDependency' ? validateDependencyType(input.type) : undefined
+  if (typeError) {
+    return { success: false, error: typeError }
+  }
+  const placeholders = placeholderIds(changeset)
+  for (const field of ISSUE_ID_FIELDS_BY_TYPE[type]) {
+    const issueId = input[field]
+    if (
+      typeof issueId !== 'string' ||
+      (!existingIssueIds.has(issueId) && !placeholders.has(issueId))
+    ) {
+      return { success: false, error: `Issue not found: ${issueId}` }
+    }
+  }
+
+  const change: ProposedChange = {
+    id: `change-${changeset.changes.length + 1}`,
+    type,
+    toolName,
+    input,
+    summary: summarizeChange(toolName, input),
+  }
+  if (type === 'createIssue') {
+    change.issueId = `${PLACEHOLDER_PREFIX}${placeholders.size + 1}`
+  } else if (type === 'updateIssue') {
+    change.issueId = input.issue_id as string
+  }
+  changeset.changes.push(change)
+
+  return {
+    success: true,
+    result: {
+      proposed: true,
+      change_id: change.id,
+      ...(change.type === 'createIssue' && { issue_id: change.issueId }),
+    },
+  }
+}
+
+/**
+ * Run the selected changes of a changeset in order. Placeholder IDs are
+ * swapped for the IDs of the issues created for them; changes that refer to
+ * an issue that wasn't created fail.
+ * @param changeIds - The changes to apply; the rest are dropped
+ */
+export async function applyChangeset(
+  changeset: Changeset,
+  changeIds: string[],
+  tracker: IssueTracker
+): Promise<ChangesetApplyResult> {
+  const selected = new Set(changeIds)
+  const placeholders = placeholderIds(changeset)
+  const createdIds = new Map<string, string>()
+  const result: ChangesetApplyResult = {
+    applied: [],
+    failed: [],
+    commitMessages: [],
+  }
+
+  for (const change of changeset.changes) {
+    if (!selected.has(change.id)) continue
+
+    const input = { ...change.input }
+    const idFields = ISSUE_ID_FIELDS_BY_TYPE[change.type]
+    const missing = idFields
+      .map(field => input[field])
+      .find(
+        issueId =>
+          typeof issueId === 'string' &&
+          placeholders.has(issueId) &&
+          !createdIds.has(issueId)
+      )
+    if (missing) {
+      result.failed.push({
+        change,
+        error: `Issue ${missing} was not created`,
+      })
+      continue
+    }
+    for (const field of idFields) {
+      const issueId = input[field]
+      if (typeof issueId === 'string' && createdIds.has(issueId)) {
+        input[field] = createdIds.get(issueId)
+      }
+    }
+
+    const toolResult = await executeTool(change.toolName, input, tracker)
+    if (!toolResult.success) {
+      log.warn(`Failed to apply ${change.summary}: ${toolResult.error}`)
+      result.failed.push({
+        change,
+        error: toolResult.error ?? 'Unknown error',
+      })
+      continue
+    }
+
+    let issueId = input.issue_id as string | undefined
+    if (change.type === 'createIssue' && change.issueId) {
+      issueId = (toolResult.result as { id?: string } | undefined)?.id
+      if (issueId) {
+        createdIds.set(change.issueId, issueId)
+      }
+    }
+    result.applied.push({ change, ...(issueId && { issueId }) })
+    if (toolResult.commitMessage) {
+      result.commitMessages.push(toolResult.commitMessage)
+    }
+  }
+
+  return result
+}
@@ -1,5 +1,7 @@
 import * as os from 'node:os'
 import * as path from 'node:path'
+import type { IssueTrackerBackend } from './issue-tracker/IssueTracker'
+import type { LlmProviderConfig, LlmProviderName } from './llm/LlmProvider'
 
 /** Default directory for cloned GitHub repositories */
 export const DEFAULT_GITHUB_REPOS_DIR = path.join(
@@ -7,12 +9,115 @@ export const DEFAULT_GITHUB_REPOS_DIR = path.join(
   'bead-feeder-github-repos'
 )
 
+/** Default directory for data the app keeps outside repositories */
+export const DEFAULT_DATA_DIR = path.join(os.homedir(), '.bead-feeder')
+
 /**
  * Application configuration
  */
 export interface AppConfig {
   /** Root directory where all repository data is stored */
   rootDataDir: string
+  /** Directory for app data kept outside repositories, e.g. chat history */
+  dataDir: string
+  /**
+   * Issue tracker backend to use for every repository.
+   * When unset, the backend is chosen per repository from .beads/config.yaml
+   */
+  issueTrackerBackend?: IssueTrackerBackend
+  /** Chat model provider, model and connection settings */
+  llm: LlmProviderConfig
+  /** Digest of the repository's graph included in the chat system prompt */
+  chatGraphContext: {
+    enabled: boolean
+    /** Approximate token budget for the digest */
+    maxTokens: number
+  }
+}
+
+/** Model used when BEAD_FEEDER_LLM_MODEL is unset */
+const DEFAULT_LLM_MODELS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+  'openai-compatible': 'llama3.1',
+  fake: 'fake',
+}
+
+/** Ollama's OpenAI-compatible endpoint */
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'
+
+const DEFAULT_LLM_MAX_TOKENS = 1024
+
+const DEFAULT_CHAT_GRAPH_CONTEXT_TOKENS = 1500
+
+function parseIssueTrackerBackend(
+  value: string | undefined
+): IssueTrackerBackend | undefined {
+  if (value === 'beads' || value === 'jsonl' || value === 'fake') {
+    return value
+  }
+  return undefined
+}
+
+function parseLlmProviderName(
+  value: string | undefined,
+  baseUrl: string | undefined,
+  scriptPath: string | undefined
+): LlmProviderName {
+  if (
+    value === 'openai' ||
+    value === 'anthropic' ||
+    value === 'openai-compatible' ||
+    value === 'fake'
+  ) {
+    return value
+  }
+  if (scriptPath) {
+    return 'fake'
+  }
+  // A base URL on its own points at a local OpenAI-compatible server
+  return baseUrl ? 'openai-compatible' : 'openai'
+}
+
+function parseLlmConfig(): LlmProviderConfig {
+  const baseUrl = process.env.BEAD_FEEDER_LLM_BASE_URL || undefined
+  const scriptPath = process.env.BEAD_FEEDER_LLM_FAKE_SCRIPT || undefined
+  const provider = parseLlmProviderName(
+    process.env.BEAD_FEEDER_LLM_PROVIDER,
+    baseUrl,
+    scriptPath
+  )
+  const maxTokens = Number.parseInt(
+    process.env.BEAD_FEEDER_LLM_MAX_TOKENS ?? '',
+    10
+  )
+
+  return {
+    provider,
+    model: process.env.BEAD_FEEDER_LLM_MODEL || DEFAULT_LLM_MODELS[provider],
+    maxTokens: maxTokens > 0 ? maxTokens : DEFAULT_LLM_MAX_TOKENS,
+    apiKey: process.env.BEAD_FEEDER_LLM_API_KEY || undefined,
+    baseUrl:
+      baseUrl ??
+      (provider === 'openai-compatible'
+        ? DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+        : undefined),
+    scriptPath,
+  }
+}
+
+function parseChatGraphContext(): AppConfig['chatGraphContext'] {
+  const enabled = !['false', 'off', '0'].includes(
+    (process.env.BEAD_FEEDER_CHAT_GRAPH_CONTEXT ?? '').toLowerCase()
+  )
+  const maxTokens = Number.parseInt(
+    process.env.BEAD_FEEDER_CHAT_GRAPH_CONTEXT_TOKENS ?? '',
+    10
+  )
+  return {
+    enabled,
+    maxTokens: maxTokens > 0 ? maxTokens : DEFAULT_CHAT_GRAPH_CONTEXT_TOKENS,
+  }
 }
 
 /**
@@ -23,6 +128,12 @@ export function getConfig(): AppConfig {
     rootDataDir:
       process.env.BEAD_FEEDER_GITHUB_REPOS_DIR ||
       path.resolve(DEFAULT_GITHUB_REPOS_DIR),
+    dataDir: process.env.BEAD_FEEDER_DATA_DIR || DEFAULT_DATA_DIR,
+    issueTrackerBackend: parseIssueTrackerBackend(
+      process.env.BEAD_FEEDER_ISSUE_TRACKER
+    ),
+    llm: parseLlmConfig(),
+    chatGraphContext: parseChatGraphContext(),
   }
 }
 
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ConversationStore, titleFromMessages } from './conversation-store'
+import type { UserScope } from './user-scope'
+
+describe('ConversationStore', () => {
+  let tempDir: string
+  let store: ConversationStore
+  const alice: UserScope = {
+    userId: '1',
+    owner: 'acme',
+    repo: 'widgets',
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'conversation-store-test-'))
+    store = new ConversationStore(tempDir)
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('saves and loads conversations with tool calls and results', async () => {
+    const conversation = store.create([
+      { role: 'user', content: 'Close bd-1' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call-1', name: 'close_issue', input: { issue_id: 'bd-1' } },
+        ],
+      },
+      { role: 'tool', toolCallId: 'call-1', content: '{"id":"bd-1"}' },
+      { role: 'assistant', content: 'Closed bd-1.' },
+    ])
+    await store.save(alice, conversation)
+
+    const loaded = await store.get(alice, conversation.id)
+
+    expect(loaded?.title).toBe('Close bd-1')
+    expect(loaded?.messages).toEqual(conversation.messages)
+  })
+
+  it('lists conversations most recently updated first', async () => {
+    const older = store.create([{ role: 'user', content: 'First' }])
+    const newer = store.create([{ role: 'user', content: 'Second' }])
+    await store.save(alice, older)
+    await Bun.sleep(5)
+    await store.save(alice, newer)
+
+    const summaries = await store.list(alice)
+
+    expect(summaries.map(summary => summary.title)).toEqual(['Second', 'First'])
+    expect(summaries[0]).toMatchObject({ id: newer.id, messageCount: 1 })
+  })
+
+  it('keeps conversations separate per user and repository', async () => {
+    await store.save(alice, store.create([{ role: 'user', content: 'Hi' }]))
+
+    expect(await store.list({ ...alice, userId: '2' })).toEqual([])
+    expect(await store.list({ ...alice, repo: 'gadgets' })).toEqual([])
+    expect(await store.list({ userId: 'local' })).toEqual([])
+    expect(await store.list(alice)).toHaveLength(1)
+  })
+
+  it('renames conversations', async () => {
+    const conversation = store.create([{ role: 'user', content: 'Hi' }])
+    await store.save(alice, conversation)
+
+    const renamed = await store.rename(alice, conversation.id, 'Planning')
+
+    expect(renamed?.title).toBe('Planning')
+    expect((await store.get(alice, conversation.id))?.title).toBe('Planning')
+    expect(await store.rename(alice, 'missing', 'Planning')).toBeNull()
+  })
+
+  it('deletes conversations', async () => {
+    const conversation = store.create([{ role: 'user', content: 'Hi' }])
+    await store.save(alice, conversation)
+
+    expect(await store.delete(alice, conversation.id)).toBe(true)
+    expect(await store.get(alice, conversation.id)).toBeNull()
+    expect(await store.delete(alice, conversation.id)).toBe(false)
+  })
+
+  it('does not read outside the store directory', async () => {
+    expect(await store.get(alice, '..')).toBeNull()
+    await expect(
+      store.list({ userId: '1', owner: '..', repo: '..' })
+    ).rejects.toThrow('Invalid conversation scope')
+  })
+})
+
+describe('titleFromMessages', () => {
+  it('uses the first line of the first user message', () => {
+    expect(
+      titleFromMessages([
+        { role: 'user', content: '  Plan the release\nwith details' },
+      ])
+    ).toBe('Plan the release')
+  })
+
+  it('truncates long titles', () => {
+    const title = titleFromMessages([
+      { role: 'user', content: 'x'.repeat(100) },
+    ])
+
+    expect(title).toHaveLength(60)
+    expect(title.endsWith('...')).toBe(true)
+  })
+
+  it('falls back to a generic title', () => {
+    expect(titleFromMessages([])).toBe('New conversation')
+  })
+})
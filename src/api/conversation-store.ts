@@ -0,0 +1,186 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { Changeset } from './changeset'
+import { getConfig } from './config'
+import type { LlmMessage } from './llm'
+import { isSafeSegment, scopeSegments, type UserScope } from './user-scope'
+
+/**
+ * A chat conversation, including the tool calls made in each turn and
+ * their results, so it can be shown and resumed later
+ */
+export interface Conversation {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messages: LlmMessage[]
+  /** Changes proposed in propose mode that haven't been applied yet */
+  changeset?: Changeset
+}
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+}
+
+// Titles are taken from the first message
+const MAX_TITLE_LENGTH = 60
+
+/**
+ * Title for a new conversation: the first line of its first user message
+ */
+export function titleFromMessages(messages: LlmMessage[]): string {
+  const first = messages.find(message => message.role === 'user')
+  const line = first?.content.trim().split('\n')[0] ?? ''
+  if (!line) {
+    return 'New conversation'
+  }
+  return line.length > MAX_TITLE_LENGTH
+    ? `${line.slice(0, MAX_TITLE_LENGTH - 3)}...`
+    : line
+}
+
+/**
+ * Stores chat conversations as one JSON file each, in a directory per user
+ * and repository
+ */
+export class ConversationStore {
+  private baseDir: string
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir
+  }
+
+  private scopeDir(scope: UserScope): string {
+    const segments = scopeSegments(scope)
+    if (!segments.every(isSafeSegment)) {
+      throw new Error('Invalid conversation scope')
+    }
+    return join(this.baseDir, ...segments)
+  }
+
+  private conversationPath(scope: UserScope, id: string): string {
+    if (!isSafeSegment(id)) {
+      throw new Error('Invalid conversation ID')
+    }
+    return join(this.scopeDir(scope), `${id}.json`)
+  }
+
+  /**
+   * Start a conversation; it isn't stored until saved
+   */
+  create(messages: LlmMessage[] = []): Conversation {
+    const now = new Date().toISOString()
+    return {
+      id: randomUUID(),
+      title: titleFromMessages(messages),
+      createdAt: now,
+      updatedAt: now,
+      messages,
+    }
+  }
+
+  /**
+   * List conversations, most recently updated first
+   */
+  async list(scope: UserScope): Promise<ConversationSummary[]> {
+    let files: string[]
+    try {
+      files = await readdir(this.scopeDir(scope))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw error
+    }
+
+    const conversations = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(scope, file.slice(0, -'.json'.length)))
+    )
+    return conversations
+      .filter((conversation): conversation is Conversation => !!conversation)
+      .map(({ id, title, createdAt, updatedAt, messages }) => ({
+        id,
+        title,
+        createdAt,
+        updatedAt,
+        messageCount: messages.length,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  /**
+   * Get a conversation, or null if there is none with the ID
+   */
+  async get(scope: UserScope, id: string): Promise<Conversation | null> {
+    if (!isSafeSegment(id)) {
+      return null
+    }
+    try {
+      const content = await readFile(this.conversationPath(scope, id), 'utf-8')
+      return JSON.parse(content) as Conversation
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async save(scope: UserScope, conversation: Conversation): Promise<void> {
+    await mkdir(this.scopeDir(scope), { recursive: true })
+    await writeFile(
+      this.conversationPath(scope, conversation.id),
+      JSON.stringify({ ...conversation, updatedAt: new Date().toISOString() })
+    )
+  }
+
+  /**
+   * Rename a conversation, returning null if there is none with the ID
+   */
+  async rename(
+    scope: UserScope,
+    id: string,
+    title: string
+  ): Promise<Conversation | null> {
+    const conversation = await this.get(scope, id)
+    if (!conversation) {
+      return null
+    }
+    const renamed = { ...conversation, title }
+    await this.save(scope, renamed)
+    return renamed
+  }
+
+  /**
+   * Delete a conversation, returning false if there is none with the ID
+   */
+  async delete(scope: UserScope, id: string): Promise<boolean> {
+    if (!(await this.get(scope, id))) {
+      return false
+    }
+    await rm(this.conversationPath(scope, id))
+    return true
+  }
+}
+
+let conversationStore: ConversationStore | null = null
+
+/**
+ * Get the conversation store in the configured data directory
+ */
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    conversationStore = new ConversationStore(
+      join(getConfig().dataDir, 'conversations')
+    )
+  }
+  return conversationStore
+}
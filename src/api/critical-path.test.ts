@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'bun:test'
+import { getCriticalPath } from './critical-path'
+import { blocks, createGraph, createIssue } from './test-fixtures'
+
+describe('getCriticalPath', () => {
+  it('returns an empty path for an empty graph', () => {
+    expect(getCriticalPath(createGraph([]))).toEqual({
+      issueIds: [],
+      length: 0,
+      weighted: false,
+    })
+  })
+
+  it('follows the longest chain of blockers', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c', 'd', 'e'].map(id => createIssue(id)),
+      [blocks('a', 'b'), blocks('b', 'c'), blocks('d', 'c'), blocks('c', 'e')]
+    )
+
+    expect(getCriticalPath(graph)).toEqual({
+      issueIds: ['a', 'b', 'c', 'e'],
+      length: 4,
+      weighted: false,
+    })
+  })
+
+  it('leaves out closed issues and non-blocking links', () => {
+    const graph = createGraph(
+      [
+        createIssue('done', { status: 'closed' }),
+        createIssue('a'),
+        createIssue('b'),
+        createIssue('c'),
+      ],
+      [blocks('done', 'a'), blocks('a', 'b', 'related'), blocks('b', 'c')]
+    )
+
+    expect(getCriticalPath(graph).issueIds).toEqual(['b', 'c'])
+  })
+
+  it('weights issues by their estimates', () => {
+    const graph = createGraph(
+      [
+        createIssue('short-1', { estimated_minutes: 30 }),
+        createIssue('short-2', { estimated_minutes: 30 }),
+        createIssue('long', { estimated_minutes: 240 }),
+        createIssue('end', { estimated_minutes: 60 }),
+      ],
+      [
+        blocks('short-1', 'short-2'),
+        blocks('short-2', 'end'),
+        blocks('long', 'end'),
+      ]
+    )
+
+    expect(getCriticalPath(graph).issueIds).toEqual([
+      'short-1',
+      'short-2',
+      'end',
+    ])
+    expect(getCriticalPath(graph, { weighted: true })).toEqual({
+      issueIds: ['long', 'end'],
+      length: 300,
+      weighted: true,
+    })
+  })
+
+  it('counts issues without an estimate as the average estimate', () => {
+    const graph = createGraph(
+      [
+        createIssue('a', { estimated_minutes: 60 }),
+        createIssue('b'),
+        createIssue('c', { estimated_minutes: 120 }),
+      ],
+      [blocks('a', 'b')]
+    )
+
+    expect(getCriticalPath(graph, { weighted: true })).toEqual({
+      issueIds: ['a', 'b'],
+      length: 150,
+      weighted: true,
+    })
+  })
+
+  it('counts issues when nothing has an estimate', () => {
+    const graph = createGraph(
+      [createIssue('a'), createIssue('b')],
+      [blocks('a', 'b')]
+    )
+
+    expect(getCriticalPath(graph, { weighted: true })).toEqual({
+      issueIds: ['a', 'b'],
+      length: 2,
+      weighted: false,
+    })
+  })
+
+  it('skips issues caught in a cycle', () => {
+    const graph = createGraph(
+      ['a', 'b', 'c'].map(id => createIssue(id)),
+      [blocks('a', 'b'), blocks('b', 'a'), blocks('b', 'c')]
+    )
+
+    expect(getCriticalPath(graph)).toEqual({
+      issueIds: [],
+      length: 0,
+      weighted: false,
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import type { IssueGraph } from './issue-tracker'
+import { isBlockingDependency } from './ready-queue'
+
+export interface CriticalPath {
+  /** Unfinished issues on the path, each blocking the next */
+  issueIds: string[]
+  /** Number of issues on the path, or their total estimate in minutes */
+  length: number
+  /** Whether the path was weighted by estimates */
+  weighted: boolean
+}
+
+/**
+ * Find the longest chain of unfinished issues, each blocking the next: the
+ * work standing between the graph and done. Closed issues and non-blocking
+ * links are left out.
+ *
+ * Weighted by estimate, issues without one count as the average estimate so
+ * they aren't treated as free. With no estimates at all the path is counted
+ * in issues and `weighted` is false.
+ * @param options.weighted - Weight issues by their estimated minutes
+ */
+export function getCriticalPath(
+  graph: IssueGraph,
+  options: { weighted?: boolean } = {}
+): CriticalPath {
+  const unfinished = graph.issues.filter(issue => issue.status !== 'closed')
+  const unfinishedIds = new Set(unfinished.map(issue => issue.id))
+
+  const estimates = unfinished
+    .map(issue => issue.estimated_minutes)
+    .filter((minutes): minutes is number => typeof minutes === 'number')
+  const weighted = Boolean(options.weighted) && estimates.length > 0
+  const averageEstimate = weighted
+    ? estimates.reduce((sum, minutes) => sum + minutes, 0) / estimates.length
+    : 0
+  const weightOf = (issueId: string): number =>
+    weighted
+      ? (graph.issueMap[issueId]?.estimated_minutes ?? averageEstimate)
+      : 1
+
+  // blocker -> issues it blocks, and how many unfinished blockers each has
+  const blocks = new Map<string, string[]>()
+  const blockerCount = new Map<string, number>()
+  for (const dep of graph.dependencies) {
+    if (
+      !isBlockingDependency(dep) ||
+      !unfinishedIds.has(dep.issue_id) ||
+      !unfinishedIds.has(dep.depends_on_id)
+    ) {
+      continue
+    }
+    blocks.set(dep.depends_on_id, [
+      ...(blocks.get(dep.depends_on_id) ?? []),
+      dep.issue_id,
+    ])
+    blockerCount.set(dep.issue_id, (blockerCount.get(dep.issue_id) ?? 0) + 1)
+  }
+
+  // Longest path ending at each issue, visiting blockers before the issues
+  // they block. Issues in a cycle are never reached.
+  const lengthTo = new Map<string, number>()
+  const previous = new Map<string, string>()
+  const queue = unfinished
+    .filter(issue => !blockerCount.has(issue.id))
+    .map(issue => issue.id)
+  for (const id of queue) {
+    lengthTo.set(id, weightOf(id))
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i]
+    const length = lengthTo.get(id) ?? 0
+    for (const blockedId of blocks.get(id) ?? []) {
+      const through = length + weightOf(blockedId)
+      if (through > (lengthTo.get(blockedId) ?? -1)) {
+        lengthTo.set(blockedId, through)
+        previous.set(blockedId, id)
+      }
+      const remaining = (blockerCount.get(blockedId) ?? 0) - 1
+      blockerCount.set(blockedId, remaining)
+      if (remaining === 0) {
+        queue.push(blockedId)
+      }
+    }
+  }
+
+  let end: string | undefined
+  for (const id of queue) {
+    if (
+      end === undefined ||
+      (lengthTo.get(id) ?? 0) > (lengthTo.get(end) ?? 0)
+    ) {
+      end = id
+    }
+  }
+  if (end === undefined) {
+    return { issueIds: [], length: 0, weighted }
+  }
+
+  const issueIds = [end]
+  for (let id = previous.get(end); id; id = previous.get(id)) {
+    issueIds.unshift(id)
+  }
+  return { issueIds, length: lengthTo.get(end) ?? 0, weighted }
+}
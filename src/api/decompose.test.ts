@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test'
+import { buildDecomposeMessage } from './decompose'
+import { blocks, createGraph, createIssue } from './test-fixtures'
+
+describe('buildDecomposeMessage', () => {
+  it('describes the issue and its neighbours', () => {
+    const graph = createGraph(
+      [
+        createIssue('bd-1', { title: 'Set up database', status: 'closed' }),
+        createIssue('bd-2', {
+          title: 'User accounts',
+          type: 'feature',
+          priority: 1,
+          description: 'Sign up, log in and log out',
+        }),
+        createIssue('bd-3', { title: 'Launch' }),
+        createIssue('bd-4', { title: 'Unrelated' }),
+      ],
+      [
+        blocks('bd-1', 'bd-2'),
+        blocks('bd-2', 'bd-3'),
+        blocks('bd-4', 'bd-2', 'related'),
+      ]
+    )
+
+    expect(buildDecomposeMessage(graph, 'bd-2')).toBe(
+      [
+        'Break down bd-2 into subtasks.',
+        '',
+        'bd-2 [P1 feature] User accounts',
+        'Sign up, log in and log out',
+        '',
+        'Blocked by:',
+        '- bd-1 (closed): Set up database',
+        '',
+        'Blocks:',
+        '- bd-3 (open): Launch',
+        '',
+        'Create a small set of concrete subtasks that together complete bd-2, without repeating work the issues above already cover. Make every subtask a child of bd-2 with a parent-child dependency (the subtask as the blocked issue, bd-2 as the blocker). Add a blocks dependency between two subtasks only when one must be done before the other.',
+      ].join('\n')
+    )
+  })
+
+  it('caps the neighbours listed', () => {
+    const dependents = Array.from({ length: 12 }, (_, i) =>
+      createIssue(`bd-${i + 2}`)
+    )
+    const graph = createGraph(
+      [createIssue('bd-1'), ...dependents],
+      dependents.map(issue => blocks('bd-1', issue.id))
+    )
+
+    const message = buildDecomposeMessage(graph, 'bd-1')
+
+    expect(message).toContain('- bd-11 (open): Issue bd-11')
+    expect(message).not.toContain('bd-12 (open)')
+    expect(message).toContain('- ...and 2 more')
+  })
+
+  it('lists the subtasks the issue already has', () => {
+    const graph = createGraph(
+      [createIssue('bd-1', { type: 'epic' }), createIssue('bd-2')],
+      [blocks('bd-1', 'bd-2', 'parent-child')]
+    )
+
+    const message = buildDecomposeMessage(graph, 'bd-1')
+
+    expect(message).toContain('Existing subtasks:\n- bd-2 (open): Issue bd-2')
+    expect(message).not.toContain('Blocks:')
+  })
+
+  it('returns null for an unknown issue', () => {
+    expect(buildDecomposeMessage(createGraph([]), 'bd-1')).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+import type { Issue, IssueGraph } from './issue-tracker'
+import { isBlockingDependency } from './ready-queue'
+
+// Longer descriptions are cut so the request stays a reasonable size
+const MAX_DESCRIPTION_LENGTH = 2000
+
+// Blockers and dependents listed before the rest are counted
+const MAX_NEIGHBOURS = 10
+
+function describeNeighbours(heading: string, issues: Issue[]): string[] {
+  if (issues.length === 0) {
+    return []
+  }
+  const lines = issues
+    .slice(0, MAX_NEIGHBOURS)
+    .map(issue => `- ${issue.id} (${issue.status}): ${issue.title}`)
+  if (issues.length > MAX_NEIGHBOURS) {
+    lines.push(`- ...and ${issues.length - MAX_NEIGHBOURS} more`)
+  }
+  return ['', heading, ...lines]
+}
+
+/**
+ * Build the chat message asking the assistant to break an issue down into
+ * subtasks: the issue, the issues next to it in the graph, and how the
+ * subtasks should be linked. Subtasks become children of the issue, so they
+ * are shown in its group and count towards its progress; 'blocks' links
+ * only order the subtasks among themselves.
+ * @returns The message, or null if there is no issue with the ID
+ */
+export function buildDecomposeMessage(
+  graph: IssueGraph,
+  issueId: string
+): string | null {
+  const issue = graph.issueMap[issueId]
+  if (!issue) {
+    return null
+  }
+
+  const blocking = graph.dependencies.filter(isBlockingDependency)
+  const blockers = blocking
+    .filter(dep => dep.issue_id === issueId)
+    .map(dep => graph.issueMap[dep.depends_on_id])
+    .filter((blocker): blocker is Issue => !!blocker)
+  const dependents = blocking
+    .filter(dep => dep.depends_on_id === issueId)
+    .map(dep => graph.issueMap[dep.issue_id])
+    .filter((dependent): dependent is Issue => !!dependent)
+  const children = graph.dependencies
+    .filter(dep => dep.type === 'parent-child' && dep.depends_on_id === issueId)
+    .map(dep => graph.issueMap[dep.issue_id])
+    .filter((child): child is Issue => !!child)
+
+  const description = issue.description?.trim()
+  const lines = [
+    `Break down ${issue.id} into subtasks.`,
+    '',
+    `${issue.id} [P${issue.priority ?? 2} ${issue.type ?? 'task'}] ${issue.title}`,
+    ...(description
+      ? [
+          description.length > MAX_DESCRIPTION_LENGTH
+            ? `${description.slice(0, MAX_DESCRIPTION_LENGTH)}...`
+            : description,
+        ]
+      : []),
+    ...describeNeighbours('Blocked by:', blockers),
+    ...describeNeighbours('Blocks:', dependents),
+    ...describeNeighbours('Existing subtasks:', children),
+    '',
+    `Create a small set of concrete subtasks that together complete ${issue.id}, without repeating work the issues above already cover. Make every subtask a child of ${issue.id} with a parent-child dependency (the subtask as the blocked issue, ${issue.id} as the blocker). Add a blocks dependency between two subtasks only when one must be done before the other.`,
+  ]
+  return lines.join('\n')
+}
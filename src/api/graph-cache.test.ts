@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { GraphCache } from './graph-cache'
+import type { GraphChange } from './graph-diff'
+import type { IssueGraph, OperationResult } from './issue-tracker'
+import { resetSyncDebouncer } from './sync-debouncer'
+
+function graphWith(title: string): IssueGraph {
+  const issue = {
+    id: 'bead-1',
+    title,
+    status: 'open' as const,
+    labels: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    dependency_count: 0,
+    dependent_count: 0,
+  }
+  return { issues: [issue], dependencies: [], issueMap: { [issue.id]: issue } }
+}
+
+describe('GraphCache', () => {
+  let cache: GraphCache
+  let repoPath: string
+
+  beforeEach(() => {
+    cache = new GraphCache()
+    repoPath = join(
+      tmpdir(),
+      `graph-cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    )
+    mkdirSync(join(repoPath, '.beads'), { recursive: true })
+  })
+
+  afterEach(() => {
+    cache.close()
+    resetSyncDebouncer()
+    rmSync(repoPath, { recursive: true, force: true })
+  })
+
+  it('loads the graph once and serves it from the cache', async () => {
+    const load = mock(
+      async (): Promise<OperationResult<IssueGraph>> => ({
+        success: true,
+        data: graphWith('First'),
+      })
+    )
+
+    const first = await cache.get(repoPath, load)
+    const second = await cache.get(repoPath, load)
+
+    expect(load).toHaveBeenCalledTimes(1)
+    expect(second.data).toBe(first.data)
+    expect(JSON.parse(first.data?.body as string)).toEqual(graphWith('First'))
+    expect(first.data?.etag).toMatch(/^"[0-9a-f]{40}"$/)
+  })
+
+  it('reloads after invalidation with a new ETag when the graph changed', async () => {
+    let title = 'First'
+    const load = async (): Promise<OperationResult<IssueGraph>> => ({
+      success: true,
+      data: graphWith(title),
+    })
+
+    const first = await cache.get(repoPath, load)
+    title = 'Second'
+    cache.invalidate(repoPath)
+    const second = await cache.get(repoPath, load)
+
+    expect(second.data?.etag).not.toBe(first.data?.etag)
+  })
+
+  it('keeps the ETag and Last-Modified when a reload produces the same graph', async () => {
+    const load = async (): Promise<OperationResult<IssueGraph>> => ({
+      success: true,
+      data: graphWith('Same'),
+    })
+
+    const first = await cache.get(repoPath, load)
+    cache.invalidate(repoPath)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const second = await cache.get(repoPath, load)
+
+    expect(second.data?.etag).toBe(first.data?.etag as string)
+    expect(second.data?.lastModified).toBe(first.data?.lastModified as number)
+  })
+
+  it('invalidates when issues.jsonl changes', async () => {
+    const load = mock(
+      async (): Promise<OperationResult<IssueGraph>> => ({
+        success: true,
+        data: graphWith('Watched'),
+      })
+    )
+
+    await cache.get(repoPath, load)
+    writeFileSync(join(repoPath, '.beads', 'issues.jsonl'), '{}\n')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    await cache.get(repoPath, load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores changes to bd bookkeeping files', async () => {
+    const load = mock(
+      async (): Promise<OperationResult<IssueGraph>> => ({
+        success: true,
+        data: graphWith('Watched'),
+      })
+    )
+
+    await cache.get(repoPath, load)
+    writeFileSync(join(repoPath, '.beads', 'last-touched'), 'now')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    await cache.get(repoPath, load)
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not cache repositories without a .beads directory', async () => {
+    rmSync(join(repoPath, '.beads'), { recursive: true, force: true })
+    const load = mock(
+      async (): Promise<OperationResult<IssueGraph>> => ({
+        success: true,
+        data: graphWith('Unwatched'),
+      })
+    )
+
+    await cache.get(repoPath, load)
+    await cache.get(repoPath, load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('pushes changes to subscribers when the graph is invalidated', async () => {
+    let title = 'Before'
+    const load = async (): Promise<OperationResult<IssueGraph>> => ({
+      success: true,
+      data: graphWith(title),
+    })
+    const received: GraphChange[][] = []
+
+    const unsubscribe = await cache.subscribe(repoPath, load, changes =>
+      received.push(changes)
+    )
+    title = 'After'
+    cache.invalidate(repoPath)
+    await new Promise(resolve => setTimeout(resolve, 200))
+    unsubscribe()
+
+    expect(received).toHaveLength(1)
+    expect(received[0]).toMatchObject([
+      { type: 'issueUpdated', issue: { id: 'bead-1', title: 'After' } },
+    ])
+  })
+
+  it('does not push anything when a rebuild produces the same graph', async () => {
+    const load = async (): Promise<OperationResult<IssueGraph>> => ({
+      success: true,
+      data: graphWith('Same'),
+    })
+    const received: GraphChange[][] = []
+
+    const unsubscribe = await cache.subscribe(repoPath, load, changes =>
+      received.push(changes)
+    )
+    cache.invalidate(repoPath)
+    await new Promise(resolve => setTimeout(resolve, 200))
+    unsubscribe()
+
+    expect(received).toEqual([])
+  })
+
+  it('does not cache failed loads', async () => {
+    const load = mock(
+      async (): Promise<OperationResult<IssueGraph>> => ({
+        success: false,
+        error: 'bd not found',
+      })
+    )
+
+    const result = await cache.get(repoPath, load)
+    await cache.get(repoPath, load)
+
+    expect(result).toEqual({ success: false, error: 'bd not found' })
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+})
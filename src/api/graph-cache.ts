@@ -0,0 +1,298 @@
+import { createHash } from 'node:crypto'
+import { existsSync, type FSWatcher, watch } from 'node:fs'
+import { join } from 'node:path'
+import { diffGraphs, type GraphChange } from './graph-diff'
+import type { IssueGraph, OperationResult } from './issue-tracker'
+import * as log from './logger'
+import { getSyncDebouncer } from './sync-debouncer'
+
+/**
+ * A graph built for one repository, with the validators used for
+ * conditional GETs
+ */
+export interface CachedGraph {
+  graph: IssueGraph
+  /** Serialized graph, reused as the response body */
+  body: string
+  /** Strong ETag derived from the body */
+  etag: string
+  /** Time (ms since epoch) the graph content last changed */
+  lastModified: number
+}
+
+/**
+ * Only issue data changes invalidate the cache. bd also writes lock, socket
+ * and bookkeeping files into .beads/ while reading, which must not trigger
+ * a rebuild on every request.
+ */
+function isIssueDataFile(filename: string | null): boolean {
+  if (!filename) {
+    // Some platforms don't report the filename - assume the worst
+    return true
+  }
+  return /\.jsonl$|\.db(-wal)?$/.test(filename)
+}
+
+type GraphLoader = () => Promise<OperationResult<IssueGraph>>
+type GraphChangeHandler = (changes: GraphChange[]) => void
+
+// Coalesces the burst of watcher events a single bd write produces
+const REFRESH_DELAY_MS = 100
+
+/**
+ * In-process cache of issue graphs keyed by repository path.
+ *
+ * Entries are invalidated when issue data in the repository's .beads/
+ * directory changes, or when its SyncDebouncer completes a sync.
+ * Repositories without a .beads/ directory are never cached, because
+ * there would be nothing to watch for changes.
+ *
+ * Subscribers are pushed the changes between the last graph they were sent
+ * and the rebuilt graph whenever their repository is invalidated.
+ */
+export class GraphCache {
+  private entries: Map<string, CachedGraph> = new Map()
+  private stale: Set<string> = new Set()
+  // Incremented on invalidation so in-flight loads don't cache stale data
+  private versions: Map<string, number> = new Map()
+  private watchers: Map<string, FSWatcher> = new Map()
+  private unsubscribers: Map<string, () => void> = new Map()
+  private subscribers: Map<string, Set<GraphChangeHandler>> = new Map()
+  private loaders: Map<string, GraphLoader> = new Map()
+  // Last graph sent to subscribers, which diffs are computed against
+  private published: Map<string, IssueGraph> = new Map()
+  private refreshTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+
+  /**
+   * Get the graph for a repository, loading it if it isn't cached
+   * @param repoPath - Repository working directory
+   * @param load - Builds the graph when the cache is empty or stale
+   */
+  async get(
+    repoPath: string,
+    load: GraphLoader
+  ): Promise<OperationResult<CachedGraph>> {
+    const cached = this.entries.get(repoPath)
+    if (cached && !this.stale.has(repoPath)) {
+      return { success: true, data: cached }
+    }
+
+    const watching = this.watch(repoPath)
+    const version = this.versions.get(repoPath) ?? 0
+
+    const result = await load()
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error }
+    }
+
+    const body = JSON.stringify(result.data)
+    const etag = `"${createHash('sha1').update(body).digest('hex')}"`
+    const entry: CachedGraph = {
+      graph: result.data,
+      body,
+      etag,
+      // Keep the previous timestamp when a rebuild produced the same graph
+      lastModified: cached?.etag === etag ? cached.lastModified : Date.now(),
+    }
+
+    if (watching && (this.versions.get(repoPath) ?? 0) === version) {
+      this.entries.set(repoPath, entry)
+      this.stale.delete(repoPath)
+    }
+
+    return { success: true, data: entry }
+  }
+
+  /**
+   * Mark a repository's cached graph as stale
+   */
+  invalidate(repoPath: string): void {
+    this.versions.set(repoPath, (this.versions.get(repoPath) ?? 0) + 1)
+    if (this.entries.has(repoPath)) {
+      log.debug(`Graph cache invalidated for ${repoPath}`)
+      this.stale.add(repoPath)
+    }
+    if (this.subscribers.get(repoPath)?.size) {
+      this.scheduleRefresh(repoPath)
+    }
+  }
+
+  /**
+   * Subscribe to changes in a repository's graph
+   * @param repoPath - Repository working directory
+   * @param load - Builds the graph when changes are detected
+   * @param handler - Called with the changes after each rebuild
+   * @returns Unsubscribe function
+   */
+  async subscribe(
+    repoPath: string,
+    load: GraphLoader,
+    handler: GraphChangeHandler
+  ): Promise<() => void> {
+    this.loaders.set(repoPath, load)
+    if (!this.subscribers.has(repoPath)) {
+      this.subscribers.set(repoPath, new Set())
+    }
+    this.subscribers.get(repoPath)?.add(handler)
+
+    if (!this.published.has(repoPath)) {
+      const result = await this.get(repoPath, load)
+      if (result.success && result.data && !this.published.has(repoPath)) {
+        this.published.set(repoPath, result.data.graph)
+      }
+    }
+
+    return () => {
+      const handlers = this.subscribers.get(repoPath)
+      handlers?.delete(handler)
+      if (handlers?.size === 0) {
+        this.subscribers.delete(repoPath)
+        this.loaders.delete(repoPath)
+        this.published.delete(repoPath)
+        clearTimeout(this.refreshTimers.get(repoPath))
+        this.refreshTimers.delete(repoPath)
+      }
+    }
+  }
+
+  /**
+   * Stop all watchers and clear the cache
+   */
+  close(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close()
+    }
+    for (const unsubscribe of this.unsubscribers.values()) {
+      unsubscribe()
+    }
+    for (const timer of this.refreshTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.watchers.clear()
+    this.unsubscribers.clear()
+    this.entries.clear()
+    this.stale.clear()
+    this.versions.clear()
+    this.subscribers.clear()
+    this.loaders.clear()
+    this.published.clear()
+    this.refreshTimers.clear()
+  }
+
+  private scheduleRefresh(repoPath: string): void {
+    clearTimeout(this.refreshTimers.get(repoPath))
+    this.refreshTimers.set(
+      repoPath,
+      setTimeout(() => {
+        this.refreshTimers.delete(repoPath)
+        this.refresh(repoPath).catch(error => {
+          const message =
+            error instanceof Error ? error.message : 'Unknown error'
+          log.warn(`Graph refresh failed for ${repoPath}: ${message}`)
+        })
+      }, REFRESH_DELAY_MS)
+    )
+  }
+
+  /**
+   * Rebuild a repository's graph and push the changes to its subscribers
+   */
+  private async refresh(repoPath: string): Promise<void> {
+    const load = this.loaders.get(repoPath)
+    if (!load) {
+      return
+    }
+
+    const result = await this.get(repoPath, load)
+    const handlers = this.subscribers.get(repoPath)
+    if (!result.success || !result.data || !handlers) {
+      return
+    }
+
+    const previous = this.published.get(repoPath)
+    this.published.set(repoPath, result.data.graph)
+    if (!previous) {
+      return
+    }
+
+    const changes = diffGraphs(previous, result.data.graph)
+    if (changes.length === 0) {
+      return
+    }
+
+    log.debug(`Graph changed for ${repoPath}: ${changes.length} change(s)`)
+    for (const handler of handlers) {
+      handler(changes)
+    }
+  }
+
+  /**
+   * Start watching a repository for changes.
+   * @returns true if changes to the repository will invalidate the cache
+   */
+  private watch(repoPath: string): boolean {
+    if (this.watchers.has(repoPath)) {
+      return true
+    }
+
+    const beadsDir = join(repoPath, '.beads')
+    if (!existsSync(beadsDir)) {
+      return false
+    }
+
+    try {
+      const watcher = watch(beadsDir, (_event, filename) => {
+        if (isIssueDataFile(filename?.toString() ?? null)) {
+          this.invalidate(repoPath)
+        }
+      })
+      watcher.on('error', error => {
+        log.warn(`Graph cache watcher failed for ${repoPath}: ${error}`)
+        this.unwatch(repoPath)
+      })
+      this.watchers.set(repoPath, watcher)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      log.warn(`Unable to watch ${beadsDir}: ${message}`)
+      return false
+    }
+
+    this.unsubscribers.set(
+      repoPath,
+      getSyncDebouncer({ cwd: repoPath }).on('syncComplete', () =>
+        this.invalidate(repoPath)
+      )
+    )
+
+    return true
+  }
+
+  private unwatch(repoPath: string): void {
+    this.watchers.get(repoPath)?.close()
+    this.watchers.delete(repoPath)
+    this.unsubscribers.get(repoPath)?.()
+    this.unsubscribers.delete(repoPath)
+    this.entries.delete(repoPath)
+    this.stale.delete(repoPath)
+  }
+}
+
+let graphCache: GraphCache | null = null
+
+/**
+ * Get the shared graph cache
+ */
+export function getGraphCache(): GraphCache {
+  if (!graphCache) {
+    graphCache = new GraphCache()
+  }
+  return graphCache
+}
+
+/**
+ * Reset the shared graph cache (for testing)
+ */
+export function resetGraphCache(): void {
+  graphCache?.close()
+  graphCache = null
+}
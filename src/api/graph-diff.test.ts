@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test'
+import { diffGraphs } from './graph-diff'
+import { blocks, createGraph, createIssue } from './test-fixtures'
+
+describe('diffGraphs', () => {
+  it('returns no changes for identical graphs', () => {
+    const graph = createGraph([createIssue('bead-1')])
+
+    expect(diffGraphs(graph, createGraph([createIssue('bead-1')]))).toEqual([])
+  })
+
+  it('reports created, updated and removed issues', () => {
+    const previous = createGraph([createIssue('bead-1'), createIssue('bead-2')])
+    const next = createGraph([
+      createIssue('bead-1', { title: 'Renamed' }),
+      createIssue('bead-3'),
+    ])
+
+    expect(diffGraphs(previous, next)).toEqual([
+      { type: 'issueUpdated', issue: next.issueMap['bead-1'] },
+      { type: 'issueCreated', issue: next.issueMap['bead-3'] },
+      { type: 'issueRemoved', issueId: 'bead-2' },
+    ])
+  })
+
+  it('reports closing an issue as issueClosed', () => {
+    const closed = createIssue('bead-1', { status: 'closed' })
+
+    expect(
+      diffGraphs(createGraph([createIssue('bead-1')]), createGraph([closed]))
+    ).toEqual([{ type: 'issueClosed', issue: closed }])
+  })
+
+  it('reports added and removed dependencies after issue changes', () => {
+    const issues = [createIssue('bead-1'), createIssue('bead-2')]
+    const oldDependency = blocks('bead-1', 'bead-2')
+    const newIssue = createIssue('bead-3')
+    const newDependency = blocks('bead-2', 'bead-3')
+
+    const changes = diffGraphs(
+      createGraph(issues, [oldDependency]),
+      createGraph([...issues, newIssue], [newDependency])
+    )
+
+    expect(changes).toEqual([
+      { type: 'issueCreated', issue: newIssue },
+      { type: 'dependencyAdded', dependency: newDependency },
+      { type: 'dependencyRemoved', dependency: oldDependency },
+    ])
+  })
+})
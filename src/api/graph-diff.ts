@@ -0,0 +1,64 @@
+import type { Dependency, Issue, IssueGraph } from './issue-tracker'
+
+/**
+ * A single change between two versions of an issue graph
+ */
+export type GraphChange =
+  | { type: 'issueCreated'; issue: Issue }
+  | { type: 'issueUpdated'; issue: Issue }
+  | { type: 'issueClosed'; issue: Issue }
+  | { type: 'issueRemoved'; issueId: string }
+  | { type: 'dependencyAdded'; dependency: Dependency }
+  | { type: 'dependencyRemoved'; dependency: Dependency }
+
+function dependencyKey(dependency: Dependency): string {
+  return `${dependency.depends_on_id}->${dependency.issue_id}:${dependency.type}`
+}
+
+/**
+ * Compute the changes that turn one issue graph into another.
+ * Issue changes come before dependency changes, so a dependency is never
+ * added before both of its issues exist.
+ */
+export function diffGraphs(
+  previous: IssueGraph,
+  next: IssueGraph
+): GraphChange[] {
+  const changes: GraphChange[] = []
+
+  for (const issue of next.issues) {
+    const before = previous.issueMap[issue.id]
+    if (!before) {
+      changes.push({ type: 'issueCreated', issue })
+    } else if (JSON.stringify(before) !== JSON.stringify(issue)) {
+      if (issue.status === 'closed' && before.status !== 'closed') {
+        changes.push({ type: 'issueClosed', issue })
+      } else {
+        changes.push({ type: 'issueUpdated', issue })
+      }
+    }
+  }
+
+  for (const issue of previous.issues) {
+    if (!next.issueMap[issue.id]) {
+      changes.push({ type: 'issueRemoved', issueId: issue.id })
+    }
+  }
+
+  const previousDependencies = new Set(previous.dependencies.map(dependencyKey))
+  const nextDependencies = new Set(next.dependencies.map(dependencyKey))
+
+  for (const dependency of next.dependencies) {
+    if (!previousDependencies.has(dependencyKey(dependency))) {
+      changes.push({ type: 'dependencyAdded', dependency })
+    }
+  }
+
+  for (const dependency of previous.dependencies) {
+    if (!nextDependencies.has(dependencyKey(dependency))) {
+      changes.push({ type: 'dependencyRemoved', dependency })
+    }
+  }
+
+  return changes
+}
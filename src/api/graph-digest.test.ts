@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test'
+import { buildGraphDigest, estimateTokens } from './graph-digest'
+import { blocks, createGraph, createIssue } from './test-fixtures'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+describe('buildGraphDigest', () => {
+  it('summarizes counts, the ready queue, issues and dependencies', () => {
+    const graph = createGraph(
+      [
+        createIssue('bd-1', { title: 'Set up database', priority: 1 }),
+        createIssue('bd-2', {
+          title: 'Login page',
+          type: 'feature',
+          status: 'in_progress',
+          assignee: 'alice',
+        }),
+        createIssue('bd-3', { title: 'Old spike', status: 'closed' }),
+      ],
+      [blocks('bd-1', 'bd-2'), blocks('bd-3', 'bd-1')]
+    )
+
+    expect(buildGraphDigest(graph, { maxTokens: 1000, now: NOW })).toBe(
+      [
+        '3 issues: 1 open, 1 in progress, 1 closed.',
+        'Ready to work on, in order: bd-1',
+        '',
+        'Unfinished issues:',
+        'bd-2 [P2 feature in_progress @alice] Login page',
+        'bd-1 [P1 task] Set up database',
+        '',
+        'Dependencies (blocker -> blocked):',
+        'bd-1 -> bd-2',
+      ].join('\n')
+    )
+  })
+
+  it('leaves out non-blocking links', () => {
+    const graph = createGraph(
+      [createIssue('bd-1'), createIssue('bd-2')],
+      [blocks('bd-1', 'bd-2', 'related')]
+    )
+
+    expect(
+      buildGraphDigest(graph, { maxTokens: 1000, now: NOW })
+    ).not.toContain('Dependencies')
+  })
+
+  it('truncates long titles', () => {
+    const graph = createGraph([createIssue('bd-1', { title: 'x'.repeat(200) })])
+
+    const digest = buildGraphDigest(graph, { maxTokens: 1000, now: NOW })
+
+    expect(digest).toContain(`bd-1 [P2 task] ${'x'.repeat(77)}...`)
+  })
+
+  it('caps the ready queue', () => {
+    const graph = createGraph(
+      Array.from({ length: 15 }, (_, i) => createIssue(`bd-${i + 1}`))
+    )
+
+    const digest = buildGraphDigest(graph, { maxTokens: 1000, now: NOW })
+
+    expect(digest).toContain(
+      'Ready to work on, in order: bd-1, bd-2, bd-3, bd-4, bd-5, bd-6, bd-7, bd-8, bd-9, bd-10 (and 5 more)'
+    )
+  })
+
+  it('keeps the most urgent issues within the budget and summarizes the rest', () => {
+    const issues = Array.from({ length: 200 }, (_, i) =>
+      createIssue(`bd-${i + 1}`, { priority: i < 5 ? 0 : 3 })
+    )
+    const dependencies = issues
+      .slice(1)
+      .map((issue, i) => blocks(issues[i].id, issue.id))
+    const graph = createGraph(issues, dependencies)
+
+    const digest = buildGraphDigest(graph, { maxTokens: 400, now: NOW })
+
+    expect(estimateTokens(digest)).toBeLessThanOrEqual(400)
+    expect(digest).toContain('bd-1 [P0 task]')
+    expect(digest).toContain('bd-5 [P0 task]')
+    expect(digest).not.toContain('bd-200 [')
+    expect(digest).toMatch(
+      /\.\.\.and \d+ more unfinished issues \(P3: \d+\)\. Use list_issues to see them\./
+    )
+    expect(digest).toMatch(/\.\.\.and \d+ more dependencies\./)
+  })
+
+  it('describes an empty graph', () => {
+    expect(buildGraphDigest(createGraph([]), { maxTokens: 1000 })).toBe(
+      '0 issues: 0 open, 0 in progress, 0 closed.'
+    )
+  })
+})
@@ -0,0 +1,168 @@
+import type { Issue, IssueGraph } from './issue-tracker'
+import { getReadyIssues, isBlockingDependency } from './ready-queue'
+
+// Rough token estimate; close enough for budgeting English and IDs
+const CHARS_PER_TOKEN = 4
+
+// Longer titles are cut so one issue can't crowd out the rest
+const MAX_TITLE_LENGTH = 80
+
+// Ready issues listed by ID before the rest are summarized
+const MAX_READY_ISSUES = 10
+
+// Share of the budget left after the header that issue lines may use;
+// dependency edges get the remainder
+const ISSUE_BUDGET_SHARE = 0.7
+
+// Priority bd assigns when none is set
+const DEFAULT_PRIORITY = 2
+
+export interface GraphDigestOptions {
+  /** Approximate token budget for the whole digest */
+  maxTokens: number
+  /** Current time, used to order the ready queue */
+  now?: Date
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text
+}
+
+/**
+ * One line per issue: ID, priority, type, status when not open, assignee
+ * and title
+ */
+function formatIssue(issue: Issue): string {
+  const tags = [`P${issue.priority ?? DEFAULT_PRIORITY}`, issue.type ?? 'task']
+  if (issue.status !== 'open') tags.push(issue.status)
+  if (issue.assignee) tags.push(`@${issue.assignee}`)
+  return `${issue.id} [${tags.join(' ')}] ${truncate(issue.title, MAX_TITLE_LENGTH)}`
+}
+
+/**
+ * Build a section from as many lines as fit in the budget. When some don't,
+ * the last lines that fit are swapped for a summary of what was left out.
+ * @returns The section, empty when there are no lines, and the tokens it uses
+ */
+function fitSection(
+  heading: string,
+  lines: string[],
+  budget: number,
+  summarize: (omitted: number) => string
+): { text: string; tokens: number } {
+  if (lines.length === 0) {
+    return { text: '', tokens: 0 }
+  }
+
+  // Separators count towards the budget too
+  const headingText = `\n\n${heading}`
+  const lineTokens = (line: string) => estimateTokens(`\n${line}`)
+  let tokens = estimateTokens(headingText)
+  const total = lines.reduce((sum, line) => sum + lineTokens(line), tokens)
+  if (total <= budget) {
+    return { text: [headingText, ...lines].join('\n'), tokens: total }
+  }
+
+  const fitted: string[] = []
+  for (const line of lines) {
+    const summaryTokens = lineTokens(
+      summarize(lines.length - fitted.length - 1)
+    )
+    if (tokens + lineTokens(line) + summaryTokens > budget) break
+    fitted.push(line)
+    tokens += lineTokens(line)
+  }
+
+  const summary = summarize(lines.length - fitted.length)
+  return {
+    text: [headingText, ...fitted, summary].join('\n'),
+    tokens: tokens + lineTokens(summary),
+  }
+}
+
+function countByPriority(issues: Issue[]): string {
+  const counts = new Map<number, number>()
+  for (const issue of issues) {
+    const priority = issue.priority ?? DEFAULT_PRIORITY
+    counts.set(priority, (counts.get(priority) ?? 0) + 1)
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([priority, count]) => `P${priority}: ${count}`)
+    .join(', ')
+}
+
+/**
+ * Build a compact text digest of a graph for the chat system prompt: issue
+ * counts, the ready queue, unfinished issues and the dependencies between
+ * them. Closed issues are only counted.
+ *
+ * Large graphs are cut to the token budget: the most urgent issues are kept
+ * (in progress, then by priority) and the rest are summarized by priority;
+ * dependency edges that don't fit are counted.
+ */
+export function buildGraphDigest(
+  graph: IssueGraph,
+  { maxTokens, now = new Date() }: GraphDigestOptions
+): string {
+  const unfinished = graph.issues.filter(issue => issue.status !== 'closed')
+  const inProgress = unfinished.filter(
+    issue => issue.status === 'in_progress'
+  ).length
+  const closed = graph.issues.length - unfinished.length
+  const ready = getReadyIssues(graph, now)
+
+  const header = [
+    `${graph.issues.length} issues: ${unfinished.length - inProgress} open, ${inProgress} in progress, ${closed} closed.`,
+  ]
+  if (ready.length > 0) {
+    const readyIds = ready.slice(0, MAX_READY_ISSUES).map(issue => issue.id)
+    const more =
+      ready.length > MAX_READY_ISSUES
+        ? ` (and ${ready.length - MAX_READY_ISSUES} more)`
+        : ''
+    header.push(`Ready to work on, in order: ${readyIds.join(', ')}${more}`)
+  }
+  const headerTokens = estimateTokens(header.join('\n'))
+
+  // In progress first, then by priority; stable sort keeps graph order
+  const byUrgency = [...unfinished].sort(
+    (a, b) =>
+      Number(b.status === 'in_progress') - Number(a.status === 'in_progress') ||
+      (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY)
+  )
+  const remaining = Math.max(0, maxTokens - headerTokens)
+  const issues = fitSection(
+    'Unfinished issues:',
+    byUrgency.map(formatIssue),
+    Math.floor(remaining * ISSUE_BUDGET_SHARE),
+    omitted => {
+      const omittedIssues = byUrgency.slice(byUrgency.length - omitted)
+      return `...and ${omitted} more unfinished issues (${countByPriority(omittedIssues)}). Use list_issues to see them.`
+    }
+  )
+
+  // Dependencies on closed issues no longer block anything
+  const unfinishedIds = new Set(unfinished.map(issue => issue.id))
+  const edges = graph.dependencies
+    .filter(
+      dep =>
+        isBlockingDependency(dep) &&
+        unfinishedIds.has(dep.issue_id) &&
+        unfinishedIds.has(dep.depends_on_id)
+    )
+    .map(dep => `${dep.depends_on_id} -> ${dep.issue_id}`)
+  const dependencies = fitSection(
+    'Dependencies (blocker -> blocked):',
+    edges,
+    remaining - issues.tokens,
+    omitted =>
+      `...and ${omitted} more dependencies. Use get_blockers and get_dependents to see them.`
+  )
+
+  return `${header.join('\n')}${issues.text}${dependencies.text}`
+}
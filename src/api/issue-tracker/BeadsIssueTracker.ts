@@ -4,16 +4,18 @@
 
 import { spawn } from 'node:child_process'
 import * as log from '../logger'
-import type {
-  CreateIssueInput,
-  Dependency,
-  Issue,
-  IssueGraph,
-  IssueTracker,
-  IssueTrackerConfig,
-  IssueType,
-  OperationResult,
-  UpdateIssueInput,
+import {
+  type CreateIssueInput,
+  type Dependency,
+  type DependencyType,
+  type Issue,
+  type IssueGraph,
+  type IssueTracker,
+  type IssueTrackerConfig,
+  type IssueType,
+  normalizeLabels,
+  type OperationResult,
+  type UpdateIssueInput,
 } from './IssueTracker'
 
 /**
@@ -28,11 +30,13 @@ interface BdRawIssue {
   description?: string
   owner?: string
   assignee?: string
+  labels?: string[]
   created_at: string
   created_by?: string
   updated_at: string
   closed_at?: string
   close_reason?: string
+  estimated_minutes?: number
   dependency_count?: number
   dependent_count?: number
   // bd show includes dependencies array
@@ -84,6 +88,9 @@ function transformIssue(raw: BdRawIssue): Issue {
     priority: raw.priority as Issue['priority'],
     description: raw.description,
     assignee: raw.assignee,
+    labels: raw.labels ?? [],
+    close_reason: raw.status === 'closed' ? raw.close_reason : undefined,
+    estimated_minutes: raw.estimated_minutes,
     created_at: raw.created_at,
     updated_at: raw.updated_at,
     dependency_count: dependencyCount,
@@ -163,7 +170,7 @@ export class BeadsIssueTracker implements IssueTracker {
     try {
       const args = ['create', input.title.trim(), '--json']
 
-      if (input.description) {
+      if (input.description !== undefined) {
         args.push('--description', input.description)
       }
 
@@ -175,6 +182,11 @@ export class BeadsIssueTracker implements IssueTracker {
         args.push('--priority', String(input.priority))
       }
 
+      const labels = normalizeLabels(input.labels ?? [])
+      if (labels.length > 0) {
+        args.push('--labels', labels.join(','))
+      }
+
       const output = await runBdCommand(args, this.cwd)
       // bd create outputs warnings before JSON, extract just the JSON part
       const json = extractJson(output)
@@ -233,7 +245,7 @@ export class BeadsIssueTracker implements IssueTracker {
         args.push('--title', input.title)
       }
 
-      if (input.description) {
+      if (input.description !== undefined) {
         args.push('--description', input.description)
       }
 
@@ -249,10 +261,16 @@ export class BeadsIssueTracker implements IssueTracker {
         args.push('--status', input.status)
       }
 
-      if (input.assignee) {
+      if (input.assignee !== undefined) {
+        // An empty value unassigns the issue
         args.push('--assignee', input.assignee)
       }
 
+      if (input.labels !== undefined) {
+        // An empty value clears all labels
+        args.push(`--set-labels=${normalizeLabels(input.labels).join(',')}`)
+      }
+
       args.push('--json')
 
       const output = await runBdCommand(args, this.cwd)
@@ -308,12 +326,53 @@ export class BeadsIssueTracker implements IssueTracker {
     }
   }
 
+  async reopenIssue(
+    issueId: string,
+    reason?: string
+  ): Promise<OperationResult<Issue>> {
+    try {
+      const args = ['reopen', issueId, '--json']
+
+      if (reason) {
+        args.push('--reason', reason)
+      }
+
+      const output = await runBdCommand(args, this.cwd)
+      const json = extractJson(output)
+      // bd reopen returns an array with a single element
+      const rawArray = JSON.parse(json) as BdRawIssue[]
+      if (!Array.isArray(rawArray) || rawArray.length === 0) {
+        return { success: false, error: 'Issue not found' }
+      }
+      return { success: true, data: transformIssue(rawArray[0]) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      // Normalize error message for consistency with FakeIssueTracker
+      if (
+        message.toLowerCase().includes('not found') ||
+        message.toLowerCase().includes('no issue found')
+      ) {
+        return { success: false, error: 'Issue not found' }
+      }
+      return { success: false, error: message }
+    }
+  }
+
   async addDependency(
     blockedId: string,
-    blockerId: string
+    blockerId: string,
+    type: DependencyType = 'blocks'
   ): Promise<OperationResult<Dependency>> {
     try {
-      const args = ['dep', 'add', blockedId, blockerId, '--json']
+      const args = [
+        'dep',
+        'add',
+        blockedId,
+        blockerId,
+        '--type',
+        type,
+        '--json',
+      ]
 
       const output = await runBdCommand(args, this.cwd)
       const result = JSON.parse(output) as Dependency
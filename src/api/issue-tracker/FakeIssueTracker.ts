@@ -6,15 +6,17 @@
  * - Cycle detection for dependencies
  */
 
-import type {
-  CreateIssueInput,
-  Dependency,
-  Issue,
-  IssueGraph,
-  IssueTracker,
-  IssueTrackerConfig,
-  OperationResult,
-  UpdateIssueInput,
+import {
+  type CreateIssueInput,
+  type Dependency,
+  type DependencyType,
+  type Issue,
+  type IssueGraph,
+  type IssueTracker,
+  type IssueTrackerConfig,
+  normalizeLabels,
+  type OperationResult,
+  type UpdateIssueInput,
 } from './IssueTracker'
 
 // ID generation similar to beads format
@@ -147,10 +149,13 @@ export class FakeIssueTracker implements IssueTracker {
     }
 
     // Validate type if provided
-    if (input.type && !['task', 'bug', 'feature'].includes(input.type)) {
+    if (
+      input.type &&
+      !['task', 'bug', 'feature', 'epic'].includes(input.type)
+    ) {
       return {
         success: false,
-        error: `Invalid type: ${input.type}. Must be task, bug, or feature`,
+        error: `Invalid type: ${input.type}. Must be task, bug, feature, or epic`,
       }
     }
 
@@ -173,6 +178,7 @@ export class FakeIssueTracker implements IssueTracker {
       type: input.type || 'task',
       priority: input.priority ?? 2,
       description: input.description,
+      labels: normalizeLabels(input.labels ?? []),
       created_at: now,
       updated_at: now,
       dependency_count: 0,
@@ -206,10 +212,13 @@ export class FakeIssueTracker implements IssueTracker {
     }
 
     // Validate type if provided
-    if (input.type && !['task', 'bug', 'feature'].includes(input.type)) {
+    if (
+      input.type &&
+      !['task', 'bug', 'feature', 'epic'].includes(input.type)
+    ) {
       return {
         success: false,
-        error: `Invalid type: ${input.type}. Must be task, bug, or feature`,
+        error: `Invalid type: ${input.type}. Must be task, bug, feature, or epic`,
       }
     }
 
@@ -251,6 +260,9 @@ export class FakeIssueTracker implements IssueTracker {
     if (input.assignee !== undefined) {
       issue.assignee = input.assignee
     }
+    if (input.labels !== undefined) {
+      issue.labels = normalizeLabels(input.labels)
+    }
     issue.updated_at = new Date().toISOString()
 
     return { success: true, data: { ...issue } }
@@ -258,7 +270,7 @@ export class FakeIssueTracker implements IssueTracker {
 
   async closeIssue(
     issueId: string,
-    _reason?: string
+    reason?: string
   ): Promise<OperationResult<Issue>> {
     const issue = this.issues.get(issueId)
     if (!issue) {
@@ -266,33 +278,55 @@ export class FakeIssueTracker implements IssueTracker {
     }
 
     issue.status = 'closed'
+    issue.close_reason = reason || 'Closed'
     issue.updated_at = new Date().toISOString()
 
     return { success: true, data: { ...issue } }
   }
 
+  async reopenIssue(
+    issueId: string,
+    _reason?: string
+  ): Promise<OperationResult<Issue>> {
+    const issue = this.issues.get(issueId)
+    if (!issue) {
+      return { success: false, error: 'Issue not found' }
+    }
+
+    issue.status = 'open'
+    delete issue.close_reason
+    issue.updated_at = new Date().toISOString()
+
+    return { success: true, data: { ...issue } }
+  }
+
+  /**
+   * Add a dependency of any type; a parent-child link goes from the child
+   * (issueId) to the parent (dependsOnId)
+   */
   async addDependency(
-    blockedId: string,
-    blockerId: string
+    issueId: string,
+    dependsOnId: string,
+    type: DependencyType = 'blocks'
   ): Promise<OperationResult<Dependency>> {
     // Validate both issues exist
-    if (!this.issues.has(blockedId)) {
+    if (!this.issues.has(issueId)) {
       return { success: false, error: 'Issue not found' }
     }
-    if (!this.issues.has(blockerId)) {
+    if (!this.issues.has(dependsOnId)) {
       return { success: false, error: 'Issue not found' }
     }
 
     // Check for duplicate dependency
     const existing = this.dependencies.find(
-      d => d.issue_id === blockedId && d.depends_on_id === blockerId
+      d => d.issue_id === issueId && d.depends_on_id === dependsOnId
     )
     if (existing) {
       return { success: false, error: 'Dependency already exists' }
     }
 
     // Check for cycles
-    const cycleResult = this.detectCycle(blockedId, blockerId)
+    const cycleResult = this.detectCycle(issueId, dependsOnId)
     if (cycleResult.hasCycle) {
       return {
         success: false,
@@ -301,9 +335,9 @@ export class FakeIssueTracker implements IssueTracker {
     }
 
     const dependency: Dependency = {
-      issue_id: blockedId,
-      depends_on_id: blockerId,
-      type: 'blocks',
+      issue_id: issueId,
+      depends_on_id: dependsOnId,
+      type,
       created_at: new Date().toISOString(),
     }
 
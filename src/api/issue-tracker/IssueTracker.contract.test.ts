@@ -1,16 +1,17 @@
 /**
  * Contract tests for IssueTracker implementations.
- * Runs the same tests against both FakeIssueTracker and BeadsIssueTracker
- * to ensure identical behavior.
+ * Runs the same tests against FakeIssueTracker, BeadsIssueTracker and
+ * JsonlIssueTracker to ensure identical behavior.
  */
 
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
-import { mkdirSync, rmSync } from 'node:fs'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { BeadsIssueTracker } from './BeadsIssueTracker'
 import { FakeIssueTracker } from './FakeIssueTracker'
 import type { IssueTracker } from './IssueTracker'
+import { JsonlIssueTracker } from './JsonlIssueTracker'
 
 // Contract test adapter interface
 interface TestAdapter {
@@ -101,9 +102,34 @@ function createBeadsAdapter(): TestAdapter {
   }
 }
 
-// Run contract tests against both implementations
-// Create a fresh beads adapter for each describe block to avoid shared state
-const adapters = [fakeAdapter, createBeadsAdapter()]
+// JSONL adapter - creates temp directory with an empty .beads/issues.jsonl
+function createJsonlAdapter(): TestAdapter {
+  let tempDir: string | undefined
+
+  return {
+    name: 'jsonl',
+    createTracker: async () => {
+      tempDir = join(
+        tmpdir(),
+        `jsonl-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      )
+      mkdirSync(join(tempDir, '.beads'), { recursive: true })
+      writeFileSync(join(tempDir, '.beads', 'issues.jsonl'), '')
+
+      return new JsonlIssueTracker({ cwd: tempDir })
+    },
+    cleanup: async () => {
+      if (tempDir) {
+        rmSync(tempDir, { recursive: true, force: true })
+        tempDir = undefined
+      }
+    },
+  }
+}
+
+// Run contract tests against all implementations
+// Create fresh adapters for each describe block to avoid shared state
+const adapters = [fakeAdapter, createBeadsAdapter(), createJsonlAdapter()]
 
 // Helper to run tests for each adapter (bun:test doesn't have describe.each)
 for (const adapter of adapters) {
@@ -169,6 +195,16 @@ for (const adapter of adapters) {
         expect(result.data?.type).toBe('feature')
       })
 
+      it('creates issue with epic type', async () => {
+        const result = await tracker.createIssue({
+          title: 'New epic',
+          type: 'epic',
+        })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.type).toBe('epic')
+      })
+
       it('creates issue with P0 priority', async () => {
         const result = await tracker.createIssue({
           title: 'Urgent issue',
@@ -188,6 +224,23 @@ for (const adapter of adapters) {
         expect(result.success).toBe(true)
         expect(result.data?.priority).toBe(3)
       })
+
+      it('creates issue with labels', async () => {
+        const result = await tracker.createIssue({
+          title: 'Labelled',
+          labels: ['frontend', 'ux'],
+        })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.labels.sort()).toEqual(['frontend', 'ux'])
+      })
+
+      it('creates issue without labels', async () => {
+        const result = await tracker.createIssue({ title: 'Unlabelled' })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.labels).toEqual([])
+      })
     })
 
     describe('getIssue', () => {
@@ -299,6 +352,36 @@ for (const adapter of adapters) {
         expect(result.data?.priority).toBe(0)
       })
 
+      it('replaces labels', async () => {
+        const created = await tracker.createIssue({
+          title: 'Task',
+          labels: ['backend'],
+        })
+        expect(created.data).toBeDefined()
+        const issueId = created.data?.id as string
+
+        const result = await tracker.updateIssue(issueId, {
+          labels: ['api', 'frontend'],
+        })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.labels.sort()).toEqual(['api', 'frontend'])
+      })
+
+      it('clears labels with an empty list', async () => {
+        const created = await tracker.createIssue({
+          title: 'Task',
+          labels: ['backend'],
+        })
+        expect(created.data).toBeDefined()
+        const issueId = created.data?.id as string
+
+        const result = await tracker.updateIssue(issueId, { labels: [] })
+
+        expect(result.success).toBe(true)
+        expect(result.data?.labels).toEqual([])
+      })
+
       it('fails on non-existent issue', async () => {
         const result = await tracker.updateIssue('bead-nonexistent', {
           title: 'New',
@@ -333,6 +416,17 @@ for (const adapter of adapters) {
         expect(result.data?.status).toBe('closed')
       })
 
+      it('records the close reason', async () => {
+        const created = await tracker.createIssue({ title: 'Duplicate' })
+        expect(created.data).toBeDefined()
+        const issueId = created.data?.id as string
+
+        const result = await tracker.closeIssue(issueId, 'Duplicate of bd-1')
+
+        expect(result.success).toBe(true)
+        expect(result.data?.close_reason).toBe('Duplicate of bd-1')
+      })
+
       it('fails on non-existent issue', async () => {
         const result = await tracker.closeIssue('bead-nonexistent')
 
@@ -341,6 +435,40 @@ for (const adapter of adapters) {
       })
     })
 
+    describe('reopenIssue', () => {
+      it('reopens closed issue', async () => {
+        const created = await tracker.createIssue({ title: 'Not done yet' })
+        expect(created.data).toBeDefined()
+        const issueId = created.data?.id as string
+        await tracker.closeIssue(issueId, 'Done')
+
+        const result = await tracker.reopenIssue(issueId, 'Still broken')
+
+        expect(result.success).toBe(true)
+        expect(result.data?.status).toBe('open')
+        expect(result.data?.close_reason).toBeUndefined()
+      })
+
+      it('persists the reopened status', async () => {
+        const created = await tracker.createIssue({ title: 'Not done yet' })
+        expect(created.data).toBeDefined()
+        const issueId = created.data?.id as string
+        await tracker.closeIssue(issueId)
+        await tracker.reopenIssue(issueId)
+
+        const result = await tracker.getIssue(issueId)
+
+        expect(result.data?.status).toBe('open')
+      })
+
+      it('fails on non-existent issue', async () => {
+        const result = await tracker.reopenIssue('bead-nonexistent')
+
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('not found')
+      })
+    })
+
     describe('addDependency', () => {
       it('adds dependency between existing issues', async () => {
         const blocked = await tracker.createIssue({ title: 'Blocked task' })
@@ -357,6 +485,25 @@ for (const adapter of adapters) {
         expect(result.data?.depends_on_id).toBe(blockerId)
       })
 
+      it('adds a dependency of the given type', async () => {
+        const a = await tracker.createIssue({ title: 'A' })
+        const b = await tracker.createIssue({ title: 'B' })
+        const aId = a.data?.id as string
+        const bId = b.data?.id as string
+
+        const result = await tracker.addDependency(aId, bId, 'related')
+        const graph = await tracker.getGraph()
+
+        expect(result.success).toBe(true)
+        expect(graph.data?.dependencies).toEqual([
+          expect.objectContaining({
+            issue_id: aId,
+            depends_on_id: bId,
+            type: 'related',
+          }),
+        ])
+      })
+
       it('fails when blocked issue does not exist', async () => {
         const blocker = await tracker.createIssue({ title: 'Blocker' })
         expect(blocker.data).toBeDefined()
@@ -507,6 +654,65 @@ for (const adapter of adapters) {
       })
     })
 
+    describe('parent-child links', () => {
+      it('links a child to its parent', async () => {
+        const parent = await tracker.createIssue({
+          title: 'Epic',
+          type: 'epic',
+        })
+        const child = await tracker.createIssue({ title: 'Child' })
+        const parentId = parent.data?.id as string
+        const childId = child.data?.id as string
+
+        const result = await tracker.addDependency(
+          childId,
+          parentId,
+          'parent-child'
+        )
+        const graph = await tracker.getGraph()
+
+        expect(result.success).toBe(true)
+        expect(graph.data?.dependencies).toEqual([
+          expect.objectContaining({
+            issue_id: childId,
+            depends_on_id: parentId,
+            type: 'parent-child',
+          }),
+        ])
+      })
+
+      it('fails when the parent is a descendant of the child', async () => {
+        const parent = await tracker.createIssue({ title: 'Parent' })
+        const child = await tracker.createIssue({ title: 'Child' })
+        const parentId = parent.data?.id as string
+        const childId = child.data?.id as string
+        await tracker.addDependency(childId, parentId, 'parent-child')
+
+        const result = await tracker.addDependency(
+          parentId,
+          childId,
+          'parent-child'
+        )
+
+        expect(result.success).toBe(false)
+        expect(result.error?.toLowerCase()).toContain('cycle')
+      })
+
+      it('removes the link to the parent', async () => {
+        const parent = await tracker.createIssue({ title: 'Parent' })
+        const child = await tracker.createIssue({ title: 'Child' })
+        const parentId = parent.data?.id as string
+        const childId = child.data?.id as string
+        await tracker.addDependency(childId, parentId, 'parent-child')
+
+        const result = await tracker.removeDependency(childId, parentId)
+        const graph = await tracker.getGraph()
+
+        expect(result.success).toBe(true)
+        expect(graph.data?.dependencies).toEqual([])
+      })
+    })
+
     describe('getGraph', () => {
       it('returns empty graph for no issues', async () => {
         const result = await tracker.getGraph()
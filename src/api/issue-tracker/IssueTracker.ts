@@ -4,7 +4,7 @@
  */
 
 // Core types
-export type IssueType = 'task' | 'bug' | 'feature'
+export type IssueType = 'task' | 'bug' | 'feature' | 'epic'
 export type IssueStatus = 'open' | 'in_progress' | 'closed'
 export type IssuePriority = 0 | 1 | 2 | 3
 
@@ -16,15 +16,34 @@ export interface Issue {
   priority?: IssuePriority
   description?: string
   assignee?: string
+  labels: string[]
+  // Why the issue was closed, while it is closed
+  close_reason?: string
+  // Expected effort, in minutes
+  estimated_minutes?: number
   created_at: string
   updated_at: string
   dependency_count: number
   dependent_count: number
 }
 
+// Which types hold up work is decided by isBlockingDependency in ready-queue
+export type DependencyType =
+  | 'blocks'
+  | 'related'
+  | 'parent-child'
+  | 'discovered-from'
+
+export const DEPENDENCY_TYPES: DependencyType[] = [
+  'blocks',
+  'related',
+  'parent-child',
+  'discovered-from',
+]
+
 export interface Dependency {
-  issue_id: string // blocked issue
-  depends_on_id: string // blocker issue
+  issue_id: string // blocked issue, or the child of a parent-child link
+  depends_on_id: string // blocker issue, or the parent
   type: string
   created_at?: string
 }
@@ -41,18 +60,31 @@ export interface OperationResult<T = void> {
   error?: string
 }
 
+// 'beads' spawns the bd CLI, 'jsonl' reads .beads/issues.jsonl directly,
+// 'fake' keeps issues in memory for offline testing
+export type IssueTrackerBackend = 'beads' | 'jsonl' | 'fake'
+
 export interface IssueTrackerConfig {
   owner?: string
   repo?: string
   cwd?: string
 }
 
+/**
+ * Trim labels and drop empty and duplicate ones. Every backend applies this
+ * to the labels it is given, so they store the same labels.
+ */
+export function normalizeLabels(labels: string[]): string[] {
+  return [...new Set(labels.map(label => label.trim()).filter(Boolean))]
+}
+
 // Input types
 export interface CreateIssueInput {
   title: string
   description?: string
   type?: IssueType
   priority?: IssuePriority
+  labels?: string[]
 }
 
 export interface UpdateIssueInput {
@@ -62,6 +94,8 @@ export interface UpdateIssueInput {
   priority?: IssuePriority
   status?: 'open' | 'in_progress'
   assignee?: string
+  // Replaces the issue's labels
+  labels?: string[]
 }
 
 // Full interface - sync is part of the contract
@@ -77,11 +111,14 @@ export interface IssueTracker {
     input: UpdateIssueInput
   ): Promise<OperationResult<Issue>>
   closeIssue(issueId: string, reason?: string): Promise<OperationResult<Issue>>
+  reopenIssue(issueId: string, reason?: string): Promise<OperationResult<Issue>>
 
-  // Dependency operations
+  // Dependency operations - an epic's children are linked to it with
+  // 'parent-child' dependencies from the child to the parent
   addDependency(
     blockedId: string,
-    blockerId: string
+    blockerId: string,
+    type?: DependencyType
   ): Promise<OperationResult<Dependency>>
   removeDependency(
     blockedId: string,
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { JsonlIssueTracker } from './JsonlIssueTracker'
+
+describe('JsonlIssueTracker', () => {
+  let tempDir: string
+  let jsonlPath: string
+
+  function writeIssues(issues: Record<string, unknown>[]): void {
+    writeFileSync(
+      jsonlPath,
+      `${issues.map(issue => JSON.stringify(issue)).join('\n')}\n`
+    )
+  }
+
+  function readIssues(): Record<string, unknown>[] {
+    return readFileSync(jsonlPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line))
+  }
+
+  beforeEach(() => {
+    tempDir = join(
+      tmpdir(),
+      `jsonl-tracker-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    )
+    mkdirSync(join(tempDir, '.beads'), { recursive: true })
+    jsonlPath = join(tempDir, '.beads', 'issues.jsonl')
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('returns an empty graph when issues.jsonl does not exist', async () => {
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    const result = await tracker.getGraph()
+
+    expect(result.success).toBe(true)
+    expect(result.data?.issues).toEqual([])
+  })
+
+  it('reads issues exported by bd, mapping issue_type to type', async () => {
+    writeIssues([
+      {
+        id: 'proj-abc',
+        title: 'Exported issue',
+        status: 'in_progress',
+        priority: 1,
+        issue_type: 'feature',
+        assignee: 'alice',
+        created_at: '2026-01-15T19:47:52.726289589Z',
+        updated_at: '2026-01-15T19:51:21.111882838Z',
+      },
+    ])
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    const result = await tracker.getIssue('proj-abc')
+
+    expect(result.data).toMatchObject({
+      id: 'proj-abc',
+      title: 'Exported issue',
+      status: 'in_progress',
+      type: 'feature',
+      priority: 1,
+      assignee: 'alice',
+    })
+  })
+
+  it('reads dependencies in both string and object format', async () => {
+    writeIssues([
+      {
+        id: 'proj-a',
+        title: 'A',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+      },
+      {
+        id: 'proj-b',
+        title: 'B',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+        dependencies: ['proj-a'],
+      },
+      {
+        id: 'proj-c',
+        title: 'C',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+        dependencies: [
+          { issue_id: 'proj-c', depends_on_id: 'proj-b', type: 'related' },
+        ],
+      },
+    ])
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    const result = await tracker.getGraph()
+
+    expect(result.data?.dependencies).toEqual([
+      { issue_id: 'proj-b', depends_on_id: 'proj-a', type: 'blocks' },
+      { issue_id: 'proj-c', depends_on_id: 'proj-b', type: 'related' },
+    ])
+    expect(result.data?.issueMap['proj-b'].dependency_count).toBe(1)
+    expect(result.data?.issueMap['proj-b'].dependent_count).toBe(1)
+  })
+
+  it('skips tombstones and dependencies on them', async () => {
+    writeIssues([
+      {
+        id: 'proj-a',
+        title: 'Deleted',
+        status: 'tombstone',
+        created_at: '',
+        updated_at: '',
+      },
+      {
+        id: 'proj-b',
+        title: 'B',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+        dependencies: ['proj-a'],
+      },
+    ])
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    const result = await tracker.getGraph()
+
+    expect(result.data?.issues.map(issue => issue.id)).toEqual(['proj-b'])
+    expect(result.data?.dependencies).toEqual([])
+    expect((await tracker.getIssue('proj-a')).success).toBe(false)
+  })
+
+  it('preserves unknown fields when rewriting the file', async () => {
+    writeIssues([
+      {
+        id: 'proj-a',
+        title: 'Original',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+        created_by: 'Someone',
+        labels: ['frontend'],
+      },
+    ])
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    await tracker.updateIssue('proj-a', { title: 'Renamed' })
+
+    expect(readIssues()[0]).toMatchObject({
+      id: 'proj-a',
+      title: 'Renamed',
+      created_by: 'Someone',
+      labels: ['frontend'],
+    })
+  })
+
+  it('creates issues with the prefix used by existing issues', async () => {
+    writeIssues([
+      {
+        id: 'proj-a',
+        title: 'A',
+        status: 'open',
+        created_at: '',
+        updated_at: '',
+      },
+    ])
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    const result = await tracker.createIssue({ title: 'New' })
+
+    expect(result.data?.id).toMatch(/^proj-[a-z0-9]{3}$/)
+  })
+
+  it('writes issues sorted by ID', async () => {
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+
+    await tracker.createIssue({ title: 'One' })
+    await tracker.createIssue({ title: 'Two' })
+    await tracker.createIssue({ title: 'Three' })
+
+    const ids = readIssues().map(issue => issue.id as string)
+    expect(ids).toEqual([...ids].sort())
+  })
+
+  it('records close reason and closed_at when closing', async () => {
+    const tracker = new JsonlIssueTracker({ cwd: tempDir })
+    const created = await tracker.createIssue({ title: 'Done soon' })
+
+    await tracker.closeIssue(created.data?.id as string, 'Shipped')
+
+    expect(readIssues()[0]).toMatchObject({
+      status: 'closed',
+      close_reason: 'Shipped',
+    })
+    expect(readIssues()[0].closed_at).toBeDefined()
+  })
+})
@@ -0,0 +1,562 @@
+/**
+ * IssueTracker implementation that reads and writes .beads/issues.jsonl
+ * directly, without spawning the bd CLI.
+ *
+ * Each operation reads the whole file and writes it back synchronously, so
+ * concurrent requests in the same process cannot interleave their writes.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  type BdIssue,
+  getIssueDependencies,
+  type IssueDependencyObject,
+} from '../buildGraphsFromIssues'
+import * as log from '../logger'
+import {
+  type CreateIssueInput,
+  type Dependency,
+  type DependencyType,
+  type Issue,
+  type IssueGraph,
+  type IssueTracker,
+  type IssueTrackerConfig,
+  type IssueType,
+  normalizeLabels,
+  type OperationResult,
+  type UpdateIssueInput,
+} from './IssueTracker'
+
+/**
+ * Raw issue as stored in issues.jsonl (uses issue_type instead of type).
+ * Fields we don't model are preserved when the file is rewritten.
+ */
+interface JsonlRawIssue extends BdIssue {
+  description?: string
+  issue_type?: string
+  owner?: string
+  assignee?: string
+  labels?: string[]
+  created_at: string
+  created_by?: string
+  updated_at: string
+  closed_at?: string
+  close_reason?: string
+  estimated_minutes?: number
+  [key: string]: unknown
+}
+
+const DEFAULT_ID_PREFIX = 'bead'
+const ID_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+/**
+ * Deleted issues stay in the JSONL as tombstones so deletions can sync
+ */
+function isLive(raw: JsonlRawIssue): boolean {
+  return raw.status !== 'tombstone'
+}
+
+type DependencyCounts = Map<
+  string,
+  { dependencyCount: number; dependentCount: number }
+>
+
+/**
+ * Count dependencies and dependents for each issue
+ */
+function countDependencies(issues: JsonlRawIssue[]): DependencyCounts {
+  const counts: DependencyCounts = new Map()
+  for (const issue of issues) {
+    counts.set(issue.id, { dependencyCount: 0, dependentCount: 0 })
+  }
+
+  for (const issue of issues) {
+    for (const dep of getIssueDependencies(issue)) {
+      const blocked = counts.get(dep.issue_id)
+      const blocker = counts.get(dep.depends_on_id)
+      if (blocked && blocker) {
+        blocked.dependencyCount++
+        blocker.dependentCount++
+      }
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Transform a JSONL issue to IssueTracker Issue type
+ */
+function transformIssue(
+  raw: JsonlRawIssue,
+  dependencyCounts: DependencyCounts
+): Issue {
+  const counts = dependencyCounts.get(raw.id)
+
+  return {
+    id: raw.id,
+    title: raw.title,
+    status: raw.status as Issue['status'],
+    type: raw.issue_type as IssueType | undefined,
+    priority: raw.priority as Issue['priority'],
+    description: raw.description,
+    assignee: raw.assignee,
+    labels: raw.labels ?? [],
+    close_reason: raw.status === 'closed' ? raw.close_reason : undefined,
+    estimated_minutes: raw.estimated_minutes,
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+    dependency_count: counts?.dependencyCount ?? 0,
+    dependent_count: counts?.dependentCount ?? 0,
+  }
+}
+
+export class JsonlIssueTracker implements IssueTracker {
+  readonly config: IssueTrackerConfig
+
+  constructor(config: IssueTrackerConfig = {}) {
+    this.config = config
+  }
+
+  private get jsonlPath(): string {
+    return join(this.config.cwd ?? process.cwd(), '.beads', 'issues.jsonl')
+  }
+
+  /**
+   * Read every issue from issues.jsonl, including tombstones
+   */
+  private load(): JsonlRawIssue[] {
+    if (!existsSync(this.jsonlPath)) {
+      return []
+    }
+
+    return readFileSync(this.jsonlPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as JsonlRawIssue)
+  }
+
+  /**
+   * Write all issues back to issues.jsonl, sorted by ID like bd export
+   */
+  private save(issues: JsonlRawIssue[]): void {
+    const sorted = [...issues].sort((a, b) => a.id.localeCompare(b.id))
+    const content = sorted.map(issue => JSON.stringify(issue)).join('\n')
+    // Write to a temp file first so readers never see a partial file
+    const tempPath = `${this.jsonlPath}.tmp`
+    writeFileSync(tempPath, content ? `${content}\n` : '')
+    renameSync(tempPath, this.jsonlPath)
+  }
+
+  /**
+   * Pick the ID prefix used by existing issues, falling back to 'bead'
+   */
+  private getIdPrefix(issues: JsonlRawIssue[]): string {
+    const prefixCounts = new Map<string, number>()
+    for (const issue of issues) {
+      const separator = issue.id.lastIndexOf('-')
+      if (separator > 0) {
+        const prefix = issue.id.slice(0, separator)
+        prefixCounts.set(prefix, (prefixCounts.get(prefix) ?? 0) + 1)
+      }
+    }
+
+    let bestPrefix = DEFAULT_ID_PREFIX
+    let bestCount = 0
+    for (const [prefix, count] of prefixCounts) {
+      if (count > bestCount) {
+        bestPrefix = prefix
+        bestCount = count
+      }
+    }
+    return bestPrefix
+  }
+
+  private generateId(issues: JsonlRawIssue[]): string {
+    const prefix = this.getIdPrefix(issues)
+    const existingIds = new Set(issues.map(issue => issue.id))
+
+    let id: string
+    do {
+      let suffix = ''
+      for (let i = 0; i < 3; i++) {
+        suffix += ID_CHARS.charAt(Math.floor(Math.random() * ID_CHARS.length))
+      }
+      id = `${prefix}-${suffix}`
+    } while (existingIds.has(id))
+    return id
+  }
+
+  private wouldCreateCycle(
+    issues: JsonlRawIssue[],
+    blockedId: string,
+    blockerId: string
+  ): boolean {
+    if (blockedId === blockerId) {
+      return true
+    }
+
+    // issue_id -> depends_on_ids
+    const graph = new Map<string, string[]>()
+    for (const issue of issues) {
+      graph.set(
+        issue.id,
+        getIssueDependencies(issue).map(dep => dep.depends_on_id)
+      )
+    }
+
+    // Adding "blockedId depends on blockerId" creates a cycle if blockerId
+    // already (transitively) depends on blockedId
+    const visited = new Set<string>()
+    const stack = [blockerId]
+    while (stack.length > 0) {
+      const current = stack.pop() as string
+      if (current === blockedId) {
+        return true
+      }
+      if (visited.has(current)) {
+        continue
+      }
+      visited.add(current)
+      stack.push(...(graph.get(current) ?? []))
+    }
+    return false
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<OperationResult<Issue>> {
+    if (!input.title || input.title.trim() === '') {
+      return { success: false, error: 'Title is required' }
+    }
+
+    if (
+      input.type &&
+      !['task', 'bug', 'feature', 'epic'].includes(input.type)
+    ) {
+      return {
+        success: false,
+        error: `Invalid type: ${input.type}. Must be task, bug, feature, or epic`,
+      }
+    }
+
+    if (
+      input.priority !== undefined &&
+      ![0, 1, 2, 3].includes(input.priority)
+    ) {
+      return {
+        success: false,
+        error: `Invalid priority: ${input.priority}. Must be 0, 1, 2, or 3`,
+      }
+    }
+
+    try {
+      const issues = this.load()
+      const now = new Date().toISOString()
+      const raw: JsonlRawIssue = {
+        id: this.generateId(issues),
+        title: input.title.trim(),
+        description: input.description,
+        status: 'open',
+        priority: input.priority ?? 2,
+        issue_type: input.type || 'task',
+        ...(input.labels?.length
+          ? { labels: normalizeLabels(input.labels) }
+          : {}),
+        created_at: now,
+        updated_at: now,
+      }
+
+      issues.push(raw)
+      this.save(issues)
+      return {
+        success: true,
+        data: transformIssue(raw, countDependencies(issues)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async getIssue(issueId: string): Promise<OperationResult<Issue>> {
+    try {
+      const issues = this.load().filter(isLive)
+      const raw = issues.find(issue => issue.id === issueId)
+      if (!raw) {
+        return { success: false, error: 'Issue not found' }
+      }
+      return {
+        success: true,
+        data: transformIssue(raw, countDependencies(issues)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async listIssues(): Promise<OperationResult<Issue[]>> {
+    try {
+      const issues = this.load().filter(isLive)
+      const counts = countDependencies(issues)
+      return {
+        success: true,
+        data: issues.map(raw => transformIssue(raw, counts)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async updateIssue(
+    issueId: string,
+    input: UpdateIssueInput
+  ): Promise<OperationResult<Issue>> {
+    if (
+      input.type &&
+      !['task', 'bug', 'feature', 'epic'].includes(input.type)
+    ) {
+      return {
+        success: false,
+        error: `Invalid type: ${input.type}. Must be task, bug, feature, or epic`,
+      }
+    }
+
+    if (
+      input.priority !== undefined &&
+      ![0, 1, 2, 3].includes(input.priority)
+    ) {
+      return {
+        success: false,
+        error: `Invalid priority: ${input.priority}. Must be 0, 1, 2, or 3`,
+      }
+    }
+
+    if (input.status && !['open', 'in_progress'].includes(input.status)) {
+      return {
+        success: false,
+        error: `Invalid status: ${input.status}. Must be open or in_progress`,
+      }
+    }
+
+    try {
+      const issues = this.load()
+      const raw = issues.find(issue => issue.id === issueId && isLive(issue))
+      if (!raw) {
+        return { success: false, error: 'Issue not found' }
+      }
+
+      if (input.title !== undefined) {
+        raw.title = input.title.trim()
+      }
+      if (input.description !== undefined) {
+        raw.description = input.description
+      }
+      if (input.type !== undefined) {
+        raw.issue_type = input.type
+      }
+      if (input.priority !== undefined) {
+        raw.priority = input.priority
+      }
+      if (input.status !== undefined) {
+        raw.status = input.status
+      }
+      if (input.assignee !== undefined) {
+        raw.assignee = input.assignee
+      }
+      if (input.labels !== undefined) {
+        raw.labels = normalizeLabels(input.labels)
+      }
+      raw.updated_at = new Date().toISOString()
+
+      this.save(issues)
+      return {
+        success: true,
+        data: transformIssue(raw, countDependencies(issues)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async closeIssue(
+    issueId: string,
+    reason?: string
+  ): Promise<OperationResult<Issue>> {
+    try {
+      const issues = this.load()
+      const raw = issues.find(issue => issue.id === issueId && isLive(issue))
+      if (!raw) {
+        return { success: false, error: 'Issue not found' }
+      }
+
+      const now = new Date().toISOString()
+      raw.status = 'closed'
+      raw.closed_at = now
+      raw.close_reason = reason || 'Closed'
+      raw.updated_at = now
+
+      this.save(issues)
+      return {
+        success: true,
+        data: transformIssue(raw, countDependencies(issues)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async reopenIssue(
+    issueId: string,
+    _reason?: string
+  ): Promise<OperationResult<Issue>> {
+    try {
+      const issues = this.load()
+      const raw = issues.find(issue => issue.id === issueId && isLive(issue))
+      if (!raw) {
+        return { success: false, error: 'Issue not found' }
+      }
+
+      // bd keeps the reason for reopening as an event, which isn't part of
+      // the JSONL export
+      raw.status = 'open'
+      delete raw.closed_at
+      delete raw.close_reason
+      raw.updated_at = new Date().toISOString()
+
+      this.save(issues)
+      return {
+        success: true,
+        data: transformIssue(raw, countDependencies(issues)),
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  /**
+   * Add a dependency of any type; a parent-child link goes from the child
+   * (issueId) to the parent (dependsOnId)
+   */
+  async addDependency(
+    issueId: string,
+    dependsOnId: string,
+    type: DependencyType = 'blocks'
+  ): Promise<OperationResult<Dependency>> {
+    try {
+      const issues = this.load()
+      const live = issues.filter(isLive)
+      const issue = live.find(candidate => candidate.id === issueId)
+      if (!issue || !live.some(candidate => candidate.id === dependsOnId)) {
+        return { success: false, error: 'Issue not found' }
+      }
+
+      const existing = getIssueDependencies(issue).some(
+        dep => dep.depends_on_id === dependsOnId
+      )
+      if (existing) {
+        return { success: false, error: 'Dependency already exists' }
+      }
+
+      if (this.wouldCreateCycle(live, issueId, dependsOnId)) {
+        return {
+          success: false,
+          error: 'Adding this dependency would create a cycle',
+        }
+      }
+
+      const dependency: IssueDependencyObject = {
+        issue_id: issueId,
+        depends_on_id: dependsOnId,
+        type,
+        created_at: new Date().toISOString(),
+      }
+      issue.dependencies = [...(issue.dependencies ?? []), dependency]
+
+      this.save(issues)
+      return {
+        success: true,
+        data: {
+          issue_id: dependency.issue_id,
+          depends_on_id: dependency.depends_on_id,
+          type: dependency.type,
+          created_at: dependency.created_at,
+        },
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async removeDependency(
+    blockedId: string,
+    blockerId: string
+  ): Promise<OperationResult<void>> {
+    try {
+      const issues = this.load()
+      const blocked = issues.find(
+        issue => issue.id === blockedId && isLive(issue)
+      )
+      // getIssueDependencies preserves order, so indexes line up with the raw array
+      const index = blocked
+        ? getIssueDependencies(blocked).findIndex(
+            dep => dep.depends_on_id === blockerId
+          )
+        : -1
+
+      if (!blocked?.dependencies || index === -1) {
+        return { success: false, error: 'Dependency not found' }
+      }
+
+      blocked.dependencies = blocked.dependencies.filter((_, i) => i !== index)
+      if (blocked.dependencies.length === 0) {
+        delete blocked.dependencies
+      }
+
+      this.save(issues)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async getGraph(): Promise<OperationResult<IssueGraph>> {
+    try {
+      const live = this.load().filter(isLive)
+      const counts = countDependencies(live)
+      const issues = live.map(raw => transformIssue(raw, counts))
+      const issueMap: Record<string, Issue> = {}
+      for (const issue of issues) {
+        issueMap[issue.id] = issue
+      }
+
+      // Skip dependencies on issues that no longer exist
+      const dependencies: Dependency[] = live
+        .flatMap(getIssueDependencies)
+        .filter(dep => issueMap[dep.issue_id] && issueMap[dep.depends_on_id])
+
+      return {
+        success: true,
+        data: { issues, dependencies, issueMap },
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { success: false, error: message }
+    }
+  }
+
+  async sync(_options?: {
+    importOnly?: boolean
+  }): Promise<OperationResult<void>> {
+    // issues.jsonl is the source of truth - there is no database to import
+    // into or export from. Git commit/pull/push is handled by the caller.
+    log.debug(`Skipping sync for JSONL tracker in ${this.config.cwd}`)
+    return { success: true }
+  }
+}
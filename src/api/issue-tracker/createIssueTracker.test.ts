@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { BeadsIssueTracker } from './BeadsIssueTracker'
+import {
+  createIssueTracker,
+  getIssueTrackerBackend,
+} from './createIssueTracker'
+import { FakeIssueTracker } from './FakeIssueTracker'
+import { JsonlIssueTracker } from './JsonlIssueTracker'
+
+describe('createIssueTracker', () => {
+  let tempDir: string
+  const originalBackend = process.env.BEAD_FEEDER_ISSUE_TRACKER
+
+  beforeEach(() => {
+    delete process.env.BEAD_FEEDER_ISSUE_TRACKER
+    tempDir = join(
+      tmpdir(),
+      `create-tracker-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    )
+    mkdirSync(join(tempDir, '.beads'), { recursive: true })
+  })
+
+  afterEach(() => {
+    if (originalBackend === undefined) {
+      delete process.env.BEAD_FEEDER_ISSUE_TRACKER
+    } else {
+      process.env.BEAD_FEEDER_ISSUE_TRACKER = originalBackend
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('uses the beads backend by default', () => {
+    expect(getIssueTrackerBackend(tempDir)).toBe('beads')
+    expect(createIssueTracker({ cwd: tempDir })).toBeInstanceOf(
+      BeadsIssueTracker
+    )
+  })
+
+  it('uses the jsonl backend for repositories in no-db mode', () => {
+    writeFileSync(
+      join(tempDir, '.beads', 'config.yaml'),
+      '# Use no-db mode\nno-db: true\n'
+    )
+
+    expect(getIssueTrackerBackend(tempDir)).toBe('jsonl')
+    expect(createIssueTracker({ cwd: tempDir })).toBeInstanceOf(
+      JsonlIssueTracker
+    )
+  })
+
+  it('ignores the commented-out no-db default', () => {
+    writeFileSync(
+      join(tempDir, '.beads', 'config.yaml'),
+      '# no-db: false\n# no-db: true\n'
+    )
+
+    expect(getIssueTrackerBackend(tempDir)).toBe('beads')
+  })
+
+  it('lets BEAD_FEEDER_ISSUE_TRACKER override the repository setting', () => {
+    writeFileSync(join(tempDir, '.beads', 'config.yaml'), 'no-db: true\n')
+    process.env.BEAD_FEEDER_ISSUE_TRACKER = 'beads'
+
+    expect(getIssueTrackerBackend(tempDir)).toBe('beads')
+
+    process.env.BEAD_FEEDER_ISSUE_TRACKER = 'jsonl'
+    rmSync(join(tempDir, '.beads', 'config.yaml'))
+
+    expect(getIssueTrackerBackend(tempDir)).toBe('jsonl')
+  })
+
+  it('shares one in-memory tracker per directory for the fake backend', () => {
+    process.env.BEAD_FEEDER_ISSUE_TRACKER = 'fake'
+
+    const tracker = createIssueTracker({ cwd: tempDir })
+    expect(tracker).toBeInstanceOf(FakeIssueTracker)
+    expect(createIssueTracker({ cwd: tempDir })).toBe(tracker)
+    expect(createIssueTracker({ cwd: join(tempDir, 'other') })).not.toBe(
+      tracker
+    )
+  })
+})
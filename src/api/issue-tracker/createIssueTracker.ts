@@ -0,0 +1,67 @@
+/**
+ * Chooses the IssueTracker backend for a repository.
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { getConfig } from '../config'
+import { BeadsIssueTracker } from './BeadsIssueTracker'
+import { FakeIssueTracker } from './FakeIssueTracker'
+import type {
+  IssueTracker,
+  IssueTrackerBackend,
+  IssueTrackerConfig,
+} from './IssueTracker'
+import { JsonlIssueTracker } from './JsonlIssueTracker'
+
+// In-memory trackers are shared per directory so state survives requests
+const fakeTrackers: Map<string, FakeIssueTracker> = new Map()
+
+/**
+ * Check whether a repository's .beads/config.yaml enables no-db mode,
+ * where issues.jsonl is the source of truth instead of the SQLite database
+ */
+function isNoDbRepository(cwd: string): boolean {
+  const configPath = join(cwd, '.beads', 'config.yaml')
+  if (!existsSync(configPath)) {
+    return false
+  }
+  const content = readFileSync(configPath, 'utf-8')
+  return /^no-db:\s*["']?true["']?\s*(#.*)?$/m.test(content)
+}
+
+/**
+ * Get the backend to use for a repository.
+ * BEAD_FEEDER_ISSUE_TRACKER overrides the choice for every repository;
+ * otherwise repositories in bd no-db mode use the JSONL backend.
+ */
+export function getIssueTrackerBackend(cwd?: string): IssueTrackerBackend {
+  const { issueTrackerBackend } = getConfig()
+  if (issueTrackerBackend) {
+    return issueTrackerBackend
+  }
+  return isNoDbRepository(cwd ?? process.cwd()) ? 'jsonl' : 'beads'
+}
+
+/**
+ * Create an IssueTracker using the backend selected for the repository
+ */
+export function createIssueTracker(
+  config: IssueTrackerConfig = {}
+): IssueTracker {
+  switch (getIssueTrackerBackend(config.cwd)) {
+    case 'jsonl':
+      return new JsonlIssueTracker(config)
+    case 'fake': {
+      const cwd = config.cwd ?? process.cwd()
+      let tracker = fakeTrackers.get(cwd)
+      if (!tracker) {
+        tracker = new FakeIssueTracker(config)
+        fakeTrackers.set(cwd, tracker)
+      }
+      return tracker
+    }
+    case 'beads':
+      return new BeadsIssueTracker(config)
+  }
+}
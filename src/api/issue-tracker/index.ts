@@ -3,5 +3,10 @@
  */
 
 export { BeadsIssueTracker } from './BeadsIssueTracker'
+export {
+  createIssueTracker,
+  getIssueTrackerBackend,
+} from './createIssueTracker'
 export { FakeIssueTracker } from './FakeIssueTracker'
 export * from './IssueTracker'
+export { JsonlIssueTracker } from './JsonlIssueTracker'
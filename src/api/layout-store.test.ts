@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { isPinnedPositions, LayoutStore } from './layout-store'
+import type { UserScope } from './user-scope'
+
+describe('LayoutStore', () => {
+  let tempDir: string
+  let store: LayoutStore
+  const alice: UserScope = { userId: '1', owner: 'acme', repo: 'widgets' }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'layout-store-test-'))
+    store = new LayoutStore(tempDir)
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('has no pinned positions to begin with', async () => {
+    expect(await store.get(alice)).toEqual({})
+  })
+
+  it('pins positions, keeping ones pinned before', async () => {
+    await store.pin(alice, { 'bd-1': { x: 10, y: 20 } })
+    const pinned = await store.pin(alice, {
+      'bd-1': { x: 30, y: 40 },
+      'bd-2': { x: 0, y: 0 },
+    })
+
+    expect(pinned).toEqual({ 'bd-1': { x: 30, y: 40 }, 'bd-2': { x: 0, y: 0 } })
+    expect(await store.get(alice)).toEqual(pinned)
+  })
+
+  it('keeps layouts separate per user and repository', async () => {
+    await store.pin(alice, { 'bd-1': { x: 10, y: 20 } })
+
+    expect(await store.get({ ...alice, userId: '2' })).toEqual({})
+    expect(await store.get({ ...alice, repo: 'gadgets' })).toEqual({})
+    expect(await store.get({ userId: 'local' })).toEqual({})
+  })
+
+  it('keeps layouts separate per local repository path', async () => {
+    const checkout = { userId: 'local', localPath: '/work/checkout' }
+    await store.pin(checkout, { 'bd-1': { x: 10, y: 20 } })
+
+    expect(await store.get({ ...checkout, localPath: '/work/other' })).toEqual(
+      {}
+    )
+    expect(await store.get({ userId: 'local' })).toEqual({})
+    // The same repository by another route to its path
+    expect(
+      await store.get({ ...checkout, localPath: '/work/other/../checkout' })
+    ).toEqual({ 'bd-1': { x: 10, y: 20 } })
+  })
+
+  it('keeps every pin when pins are made at the same time', async () => {
+    await Promise.all([
+      store.pin(alice, { 'bd-1': { x: 1, y: 1 } }),
+      store.pin(alice, { 'bd-2': { x: 2, y: 2 } }),
+      store.pin(alice, { 'bd-3': { x: 3, y: 3 } }),
+    ])
+
+    expect(Object.keys(await store.get(alice)).sort()).toEqual([
+      'bd-1',
+      'bd-2',
+      'bd-3',
+    ])
+  })
+
+  it('rejects a layout file that does not hold positions', async () => {
+    mkdirSync(join(tempDir, '1', 'acme'), { recursive: true })
+    writeFileSync(
+      join(tempDir, '1', 'acme', 'widgets.json'),
+      JSON.stringify({ 'bd-1': 'here' })
+    )
+
+    await expect(store.get(alice)).rejects.toThrow('Invalid layout file')
+  })
+
+  it('resets the layout', async () => {
+    await store.pin(alice, { 'bd-1': { x: 10, y: 20 } })
+
+    await store.reset(alice)
+
+    expect(await store.get(alice)).toEqual({})
+    // Resetting a layout that was never saved is fine too
+    await store.reset({ userId: 'local' })
+  })
+
+  it('does not read outside the store directory', async () => {
+    await expect(
+      store.get({ userId: '..', owner: 'acme', repo: 'widgets' })
+    ).rejects.toThrow('Invalid layout scope')
+  })
+})
+
+describe('isPinnedPositions', () => {
+  it('accepts a map of issue IDs to positions', () => {
+    expect(isPinnedPositions({ 'bd-1': { x: 1.5, y: -2 } })).toBe(true)
+    expect(isPinnedPositions({})).toBe(true)
+  })
+
+  it('rejects anything else', () => {
+    expect(isPinnedPositions(null)).toBe(false)
+    expect(isPinnedPositions([])).toBe(false)
+    expect(isPinnedPositions({ 'bd-1': { x: '1', y: 2 } })).toBe(false)
+    expect(isPinnedPositions({ 'bd-1': { x: Number.NaN, y: 2 } })).toBe(false)
+    expect(isPinnedPositions({ 'bd-1': null })).toBe(false)
+  })
+})
@@ -0,0 +1,142 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { getConfig } from './config'
+import { isSafeSegment, scopeSegments, type UserScope } from './user-scope'
+
+export interface NodePosition {
+  x: number
+  y: number
+}
+
+/**
+ * Positions of nodes moved by hand, by issue ID. Issues in a group are
+ * positioned relative to the group, as on the canvas.
+ */
+export type PinnedPositions = Record<string, NodePosition>
+
+function isPosition(value: unknown): value is NodePosition {
+  const position = value as NodePosition
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isFinite(position.x) &&
+    Number.isFinite(position.y)
+  )
+}
+
+/**
+ * Check that a value is a map of issue IDs to positions
+ */
+export function isPinnedPositions(value: unknown): value is PinnedPositions {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(isPosition)
+  )
+}
+
+/**
+ * Stores pinned node positions as one JSON file per user and repository,
+ * outside the repository so they don't end up in its commits
+ */
+export class LayoutStore {
+  private baseDir: string
+  // Last write to each layout file, so writes to a file run one at a time
+  private writes = new Map<string, Promise<unknown>>()
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir
+  }
+
+  private layoutPath(scope: UserScope): string {
+    const segments = scopeSegments(scope)
+    if (!segments.every(isSafeSegment)) {
+      throw new Error('Invalid layout scope')
+    }
+    return `${join(this.baseDir, ...segments)}.json`
+  }
+
+  /**
+   * Run a write to a layout file after any earlier writes to it, so
+   * read-merge-write updates don't lose each other's changes
+   */
+  private serialize<T>(path: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(path) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(write)
+    this.writes.set(path, next)
+    next
+      .catch(() => {})
+      .finally(() => {
+        if (this.writes.get(path) === next) {
+          this.writes.delete(path)
+        }
+      })
+    return next
+  }
+
+  private async read(path: string): Promise<PinnedPositions> {
+    let content: string
+    try {
+      content = await readFile(path, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+    const pinned: unknown = JSON.parse(content)
+    if (!isPinnedPositions(pinned)) {
+      throw new Error('Invalid layout file')
+    }
+    return pinned
+  }
+
+  /**
+   * Get the pinned positions, or none if nothing has been pinned
+   */
+  async get(scope: UserScope): Promise<PinnedPositions> {
+    return this.read(this.layoutPath(scope))
+  }
+
+  /**
+   * Pin nodes at the given positions, keeping other pinned nodes where they
+   * are
+   * @returns All pinned positions
+   */
+  async pin(
+    scope: UserScope,
+    positions: PinnedPositions
+  ): Promise<PinnedPositions> {
+    const path = this.layoutPath(scope)
+    return this.serialize(path, async () => {
+      const pinned = { ...(await this.read(path)), ...positions }
+      // Write to a temp file and rename it, so readers never see half a file
+      const tempPath = `${path}.tmp`
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(tempPath, JSON.stringify(pinned))
+      await rename(tempPath, path)
+      return pinned
+    })
+  }
+
+  /**
+   * Unpin every node, leaving them all to the automatic layout
+   */
+  async reset(scope: UserScope): Promise<void> {
+    const path = this.layoutPath(scope)
+    await this.serialize(path, () => rm(path, { force: true }))
+  }
+}
+
+let layoutStore: LayoutStore | null = null
+
+/**
+ * Get the layout store in the configured data directory
+ */
+export function getLayoutStore(): LayoutStore {
+  if (!layoutStore) {
+    layoutStore = new LayoutStore(join(getConfig().dataDir, 'layouts'))
+  }
+  return layoutStore
+}
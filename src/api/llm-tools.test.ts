@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'bun:test'
 import {
   addDependencyTool,
+  addLabelTool,
   closeIssueTool,
   createIssueTool,
   llmTools,
   removeDependencyTool,
+  removeLabelTool,
+  reopenIssueTool,
   updateIssueTool,
 } from './llm-tools'
 
@@ -20,11 +23,11 @@ describe('LLM Tools', () => {
     })
 
     it('requires title', () => {
-      expect(createIssueTool.input_schema.required).toContain('title')
+      expect(createIssueTool.parameters.required).toContain('title')
     })
 
     it('defines title, description, type, and priority properties', () => {
-      const props = createIssueTool.input_schema.properties as Record<
+      const props = createIssueTool.parameters.properties as Record<
         string,
         unknown
       >
@@ -34,16 +37,16 @@ describe('LLM Tools', () => {
       expect(props.priority).toBeDefined()
     })
 
-    it('restricts type to task, bug, or feature', () => {
-      const props = createIssueTool.input_schema.properties as Record<
+    it('restricts type to task, bug, feature, or epic', () => {
+      const props = createIssueTool.parameters.properties as Record<
         string,
         { enum?: string[] }
       >
-      expect(props.type.enum).toEqual(['task', 'bug', 'feature'])
+      expect(props.type.enum).toEqual(['task', 'bug', 'feature', 'epic'])
     })
 
     it('restricts priority to 0, 1, 2, or 3', () => {
-      const props = createIssueTool.input_schema.properties as Record<
+      const props = createIssueTool.parameters.properties as Record<
         string,
         { enum?: number[] }
       >
@@ -61,22 +64,36 @@ describe('LLM Tools', () => {
     })
 
     it('requires blocked_issue_id and blocker_issue_id', () => {
-      expect(addDependencyTool.input_schema.required).toContain(
+      expect(addDependencyTool.parameters.required).toContain(
         'blocked_issue_id'
       )
-      expect(addDependencyTool.input_schema.required).toContain(
+      expect(addDependencyTool.parameters.required).toContain(
         'blocker_issue_id'
       )
     })
 
     it('defines blocked_issue_id and blocker_issue_id properties', () => {
-      const props = addDependencyTool.input_schema.properties as Record<
+      const props = addDependencyTool.parameters.properties as Record<
         string,
         unknown
       >
       expect(props.blocked_issue_id).toBeDefined()
       expect(props.blocker_issue_id).toBeDefined()
     })
+
+    it('has an optional type with every dependency type', () => {
+      const props = addDependencyTool.parameters.properties as Record<
+        string,
+        { enum?: string[] }
+      >
+      expect(props.type.enum).toEqual([
+        'blocks',
+        'related',
+        'parent-child',
+        'discovered-from',
+      ])
+      expect(addDependencyTool.parameters.required).not.toContain('type')
+    })
   })
 
   describe('removeDependencyTool', () => {
@@ -90,10 +107,10 @@ describe('LLM Tools', () => {
     })
 
     it('requires blocked_issue_id and blocker_issue_id', () => {
-      expect(removeDependencyTool.input_schema.required).toContain(
+      expect(removeDependencyTool.parameters.required).toContain(
         'blocked_issue_id'
       )
-      expect(removeDependencyTool.input_schema.required).toContain(
+      expect(removeDependencyTool.parameters.required).toContain(
         'blocker_issue_id'
       )
     })
@@ -109,11 +126,11 @@ describe('LLM Tools', () => {
     })
 
     it('requires issue_id', () => {
-      expect(updateIssueTool.input_schema.required).toContain('issue_id')
+      expect(updateIssueTool.parameters.required).toContain('issue_id')
     })
 
     it('defines issue_id and optional update fields', () => {
-      const props = updateIssueTool.input_schema.properties as Record<
+      const props = updateIssueTool.parameters.properties as Record<
         string,
         unknown
       >
@@ -127,7 +144,7 @@ describe('LLM Tools', () => {
     })
 
     it('restricts status to open or in_progress', () => {
-      const props = updateIssueTool.input_schema.properties as Record<
+      const props = updateIssueTool.parameters.properties as Record<
         string,
         { enum?: string[] }
       >
@@ -145,11 +162,11 @@ describe('LLM Tools', () => {
     })
 
     it('requires issue_id', () => {
-      expect(closeIssueTool.input_schema.required).toContain('issue_id')
+      expect(closeIssueTool.parameters.required).toContain('issue_id')
     })
 
     it('defines issue_id and optional reason', () => {
-      const props = closeIssueTool.input_schema.properties as Record<
+      const props = closeIssueTool.parameters.properties as Record<
         string,
         unknown
       >
@@ -158,9 +175,39 @@ describe('LLM Tools', () => {
     })
   })
 
+  describe('reopenIssueTool', () => {
+    it('has the correct name', () => {
+      expect(reopenIssueTool.name).toBe('reopen_issue')
+    })
+
+    it('requires issue_id', () => {
+      expect(reopenIssueTool.parameters.required).toEqual(['issue_id'])
+    })
+  })
+
+  describe('addLabelTool', () => {
+    it('has the correct name', () => {
+      expect(addLabelTool.name).toBe('add_label')
+    })
+
+    it('requires issue_id and label', () => {
+      expect(addLabelTool.parameters.required).toEqual(['issue_id', 'label'])
+    })
+  })
+
+  describe('removeLabelTool', () => {
+    it('has the correct name', () => {
+      expect(removeLabelTool.name).toBe('remove_label')
+    })
+
+    it('requires issue_id and label', () => {
+      expect(removeLabelTool.parameters.required).toEqual(['issue_id', 'label'])
+    })
+  })
+
   describe('llmTools array', () => {
-    it('exports all 5 tools', () => {
-      expect(llmTools).toHaveLength(5)
+    it('exports all 14 tools', () => {
+      expect(llmTools).toHaveLength(14)
     })
 
     it('contains all tool definitions', () => {
@@ -170,17 +217,31 @@ describe('LLM Tools', () => {
       expect(names).toContain('remove_dependency')
       expect(names).toContain('update_issue')
       expect(names).toContain('close_issue')
+      expect(names).toContain('reopen_issue')
+      expect(names).toContain('add_label')
+      expect(names).toContain('remove_label')
+      expect(names).toContain('list_issues')
+      expect(names).toContain('get_issue')
+      expect(names).toContain('search_issues')
+      expect(names).toContain('get_blockers')
+      expect(names).toContain('get_dependents')
+      expect(names).toContain('get_ready_issues')
+    })
+
+    it('has unique tool names', () => {
+      const names = llmTools.map(t => t.name)
+      expect(new Set(names).size).toBe(names.length)
     })
 
-    it('all tools have valid input_schema type', () => {
+    it('all tools have valid parameters type', () => {
       for (const tool of llmTools) {
-        expect(tool.input_schema.type).toBe('object')
+        expect(tool.parameters.type).toBe('object')
       }
     })
 
     it('all tools have required array', () => {
       for (const tool of llmTools) {
-        expect(Array.isArray(tool.input_schema.required)).toBe(true)
+        expect(Array.isArray(tool.parameters.required)).toBe(true)
       }
     })
   })
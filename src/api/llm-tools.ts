@@ -1,16 +1,17 @@
-import type { Tool } from '@anthropic-ai/sdk/resources/messages'
+import type { ToolDefinition } from './llm'
 
 /**
- * LLM tool definitions for graph manipulation.
- * Each tool maps to the corresponding bd CLI command.
+ * LLM tool definitions for querying and manipulating the graph.
+ * Each tool maps to the corresponding bd CLI command. These are the single
+ * source of truth; each LlmProvider converts them to its own format.
  */
 
-export const createIssueTool: Tool = {
+export const createIssueTool: ToolDefinition = {
   name: 'create_issue',
   description:
     'Create a new issue in the dependency graph. Use this when the user wants to add a new task, bug, or feature to track.',
-  input_schema: {
-    type: 'object' as const,
+  parameters: {
+    type: 'object',
     properties: {
       title: {
         type: 'string',
@@ -22,9 +23,9 @@ export const createIssueTool: Tool = {
       },
       type: {
         type: 'string',
-        enum: ['task', 'bug', 'feature'],
+        enum: ['task', 'bug', 'feature', 'epic'],
         description:
-          'The type of issue: task (default), bug (for defects), or feature (for new functionality)',
+          'The type of issue: task (default), bug (for defects), feature (for new functionality), or epic (for a body of work broken into child issues)',
       },
       priority: {
         type: 'number',
@@ -32,17 +33,23 @@ export const createIssueTool: Tool = {
         description:
           'Priority level: 0 (P0, highest/critical), 1 (P1, high), 2 (P2, medium/default), 3 (P3, low)',
       },
+      labels: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          'Labels grouping the issue by area, e.g. ["frontend", "auth"]',
+      },
     },
     required: ['title'],
   },
 }
 
-export const addDependencyTool: Tool = {
+export const addDependencyTool: ToolDefinition = {
   name: 'add_dependency',
   description:
     'Add a dependency relationship between two issues. The blocker issue must be completed before the blocked issue can start. Use this to express that one issue depends on another.',
-  input_schema: {
-    type: 'object' as const,
+  parameters: {
+    type: 'object',
     properties: {
       blocked_issue_id: {
         type: 'string',
@@ -54,17 +61,23 @@ export const addDependencyTool: Tool = {
         description:
           'The ID of the issue that blocks (must be completed first)',
       },
+      type: {
+        type: 'string',
+        enum: ['blocks', 'related', 'parent-child', 'discovered-from'],
+        description:
+          'The kind of link: blocks (default, the blocker must be done first), related (no ordering), parent-child (the blocked issue is a child of the blocker, e.g. a task in an epic), or discovered-from (the blocked issue was found while working on the blocker)',
+      },
     },
     required: ['blocked_issue_id', 'blocker_issue_id'],
   },
 }
 
-export const removeDependencyTool: Tool = {
+export const removeDependencyTool: ToolDefinition = {
   name: 'remove_dependency',
   description:
     'Remove a dependency relationship between two issues. Use this when an issue no longer depends on another.',
-  input_schema: {
-    type: 'object' as const,
+  parameters: {
+    type: 'object',
     properties: {
       blocked_issue_id: {
         type: 'string',
@@ -80,12 +93,12 @@ export const removeDependencyTool: Tool = {
   },
 }
 
-export const updateIssueTool: Tool = {
+export const updateIssueTool: ToolDefinition = {
   name: 'update_issue',
   description:
     'Update an existing issue. Use this to change the title, description, type, priority, status, or assignee of an issue.',
-  input_schema: {
-    type: 'object' as const,
+  parameters: {
+    type: 'object',
     properties: {
       issue_id: {
         type: 'string',
@@ -101,7 +114,7 @@ export const updateIssueTool: Tool = {
       },
       type: {
         type: 'string',
-        enum: ['task', 'bug', 'feature'],
+        enum: ['task', 'bug', 'feature', 'epic'],
         description: 'New type for the issue',
       },
       priority: {
@@ -124,12 +137,12 @@ export const updateIssueTool: Tool = {
   },
 }
 
-export const closeIssueTool: Tool = {
+export const closeIssueTool: ToolDefinition = {
   name: 'close_issue',
   description:
     'Close an issue, marking it as completed. Use this when work on an issue is finished.',
-  input_schema: {
-    type: 'object' as const,
+  parameters: {
+    type: 'object',
     properties: {
       issue_id: {
         type: 'string',
@@ -144,13 +157,197 @@ export const closeIssueTool: Tool = {
   },
 }
 
+export const reopenIssueTool: ToolDefinition = {
+  name: 'reopen_issue',
+  description:
+    'Reopen a closed issue. Use this when closed work turns out to be unfinished or needs revisiting.',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the issue to reopen (required)',
+      },
+      reason: {
+        type: 'string',
+        description: 'Optional reason for reopening the issue',
+      },
+    },
+    required: ['issue_id'],
+  },
+}
+
+export const addLabelTool: ToolDefinition = {
+  name: 'add_label',
+  description:
+    'Add a label to an issue. Labels group issues by area, component, or theme.',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the issue to label (required)',
+      },
+      label: {
+        type: 'string',
+        description: 'The label to add (required)',
+      },
+    },
+    required: ['issue_id', 'label'],
+  },
+}
+
+export const removeLabelTool: ToolDefinition = {
+  name: 'remove_label',
+  description:
+    'Remove a label from an issue. Use this when an issue no longer belongs to an area or theme.',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the issue to remove the label from (required)',
+      },
+      label: {
+        type: 'string',
+        description: 'The label to remove (required)',
+      },
+    },
+    required: ['issue_id', 'label'],
+  },
+}
+
+const limitProperty = {
+  type: 'number',
+  description: 'Maximum number of issues to return (default 25, at most 50)',
+}
+
+export const listIssuesTool: ToolDefinition = {
+  name: 'list_issues',
+  description:
+    'List issues as compact summaries, optionally filtered. Closed issues are only included when status is "closed". Use this to find existing issues before referring to them by ID.',
+  parameters: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['open', 'in_progress', 'closed'],
+        description: 'Only list issues with this status',
+      },
+      type: {
+        type: 'string',
+        enum: ['task', 'bug', 'feature', 'epic'],
+        description: 'Only list issues of this type',
+      },
+      priority: {
+        type: 'number',
+        enum: [0, 1, 2, 3],
+        description: 'Only list issues with this priority',
+      },
+      label: {
+        type: 'string',
+        description: 'Only list issues with this label',
+      },
+      limit: limitProperty,
+    },
+    required: [],
+  },
+}
+
+export const getIssueTool: ToolDefinition = {
+  name: 'get_issue',
+  description:
+    'Get the full details of an issue, including its description and the IDs of issues it is blocked by and blocks.',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the issue (required)',
+      },
+    },
+    required: ['issue_id'],
+  },
+}
+
+export const searchIssuesTool: ToolDefinition = {
+  name: 'search_issues',
+  description:
+    'Search issues of any status by text in their ID, title or description. Use this to find the ID of an issue the user refers to by name.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Text to search for, case-insensitive (required)',
+      },
+      limit: limitProperty,
+    },
+    required: ['query'],
+  },
+}
+
+export const getBlockersTool: ToolDefinition = {
+  name: 'get_blockers',
+  description:
+    'List the issues that block an issue, i.e. must be completed before it can start. Use this to answer "what is blocking X?".',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the blocked issue (required)',
+      },
+    },
+    required: ['issue_id'],
+  },
+}
+
+export const getDependentsTool: ToolDefinition = {
+  name: 'get_dependents',
+  description:
+    'List the issues that depend on an issue, i.e. are waiting for it to be completed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      issue_id: {
+        type: 'string',
+        description: 'The ID of the blocking issue (required)',
+      },
+    },
+    required: ['issue_id'],
+  },
+}
+
+export const getReadyIssuesTool: ToolDefinition = {
+  name: 'get_ready_issues',
+  description:
+    'List open issues with no open blockers, in the order they should be worked on. Use this to answer "what should I work on next?".',
+  parameters: {
+    type: 'object',
+    properties: {
+      limit: limitProperty,
+    },
+    required: [],
+  },
+}
+
 /**
- * All available LLM tools for graph manipulation
+ * All available LLM tools for querying and manipulating the graph
  */
-export const llmTools: Tool[] = [
+export const llmTools: ToolDefinition[] = [
   createIssueTool,
   addDependencyTool,
   removeDependencyTool,
   updateIssueTool,
   closeIssueTool,
+  reopenIssueTool,
+  addLabelTool,
+  removeLabelTool,
+  listIssuesTool,
+  getIssueTool,
+  searchIssuesTool,
+  getBlockersTool,
+  getDependentsTool,
+  getReadyIssuesTool,
 ]
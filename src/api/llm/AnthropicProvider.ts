@@ -0,0 +1,154 @@
+import Anthropic from '@anthropic-ai/sdk'
+import type {
+  ContentBlockParam,
+  MessageParam,
+  Tool,
+  ToolResultBlockParam,
+} from '@anthropic-ai/sdk/resources/messages'
+import {
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderConfig,
+  type LlmRequest,
+  type LlmStreamEvent,
+  parseToolInput,
+  type ToolDefinition,
+} from './LlmProvider'
+
+/**
+ * Convert a tool definition to an Anthropic tool
+ */
+export function toAnthropicTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: { ...tool.parameters },
+  }
+}
+
+/**
+ * Convert a conversation to Anthropic messages. Tool results are sent back
+ * as a user message, with results for the same turn grouped together.
+ */
+export function toAnthropicMessages(messages: LlmMessage[]): MessageParam[] {
+  const result: MessageParam[] = []
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'user':
+        result.push({ role: 'user', content: message.content })
+        break
+      case 'assistant': {
+        const content: ContentBlockParam[] = []
+        if (message.content) {
+          content.push({ type: 'text', text: message.content })
+        }
+        for (const toolCall of message.toolCalls ?? []) {
+          content.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.name,
+            input: toolCall.input,
+          })
+        }
+        result.push({ role: 'assistant', content })
+        break
+      }
+      case 'tool': {
+        const block: ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content,
+        }
+        const previous = result.at(-1)
+        if (
+          previous?.role === 'user' &&
+          Array.isArray(previous.content) &&
+          previous.content.every(part => part.type === 'tool_result')
+        ) {
+          previous.content.push(block)
+        } else {
+          result.push({ role: 'user', content: [block] })
+        }
+        break
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Chat through the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly config: LlmProviderConfig
+  private client: Anthropic | null = null
+
+  constructor(config: LlmProviderConfig) {
+    this.config = config
+  }
+
+  // Created on first request so a missing key only fails the chat call
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: this.config.apiKey ?? process.env.ANTHROPIC_API_KEY,
+        baseURL: this.config.baseUrl,
+      })
+    }
+    return this.client
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const stream = await this.getClient().messages.create({
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      system: request.system,
+      messages: toAnthropicMessages(request.messages),
+      tools: request.tools.map(toAnthropicTool),
+      stream: true,
+    })
+
+    // Tool use blocks stream their input as partial JSON, keyed by index
+    const partialToolCalls: Map<
+      number,
+      { id: string; name: string; arguments: string }
+    > = new Map()
+
+    for await (const event of stream) {
+      if (
+        event.type === 'content_block_start' &&
+        event.content_block.type === 'tool_use'
+      ) {
+        partialToolCalls.set(event.index, {
+          id: event.content_block.id,
+          name: event.content_block.name,
+          arguments: '',
+        })
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text }
+        } else if (event.delta.type === 'input_json_delta') {
+          const partial = partialToolCalls.get(event.index)
+          if (partial) {
+            partial.arguments += event.delta.partial_json
+          }
+        }
+      } else if (event.type === 'content_block_stop') {
+        const partial = partialToolCalls.get(event.index)
+        if (partial) {
+          partialToolCalls.delete(event.index)
+          yield {
+            type: 'toolCall',
+            toolCall: {
+              id: partial.id,
+              name: partial.name,
+              input: parseToolInput(partial.arguments),
+            },
+          }
+        }
+      }
+    }
+  }
+}
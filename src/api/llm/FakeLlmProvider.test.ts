@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FakeLlmProvider, parseFakeLlmScript } from './FakeLlmProvider'
+import type { LlmRequest, LlmStreamEvent } from './LlmProvider'
+
+const request: LlmRequest = {
+  system: 'Be helpful',
+  messages: [{ role: 'user', content: 'Create an issue' }],
+  tools: [],
+}
+
+async function collect(provider: FakeLlmProvider): Promise<LlmStreamEvent[]> {
+  const events: LlmStreamEvent[] = []
+  for await (const event of provider.stream(request)) {
+    events.push(event)
+  }
+  return events
+}
+
+describe('FakeLlmProvider', () => {
+  it('streams text chunks then tool calls', async () => {
+    const provider = new FakeLlmProvider({
+      responses: [
+        {
+          text: ['Creating ', 'it.'],
+          toolCalls: [{ name: 'create_issue', input: { title: 'A' } }],
+        },
+      ],
+    })
+
+    expect(await collect(provider)).toEqual([
+      { type: 'text', text: 'Creating ' },
+      { type: 'text', text: 'it.' },
+      {
+        type: 'toolCall',
+        toolCall: {
+          id: 'fake-call-1',
+          name: 'create_issue',
+          input: { title: 'A' },
+        },
+      },
+    ])
+  })
+
+  it('replays responses in order and starts over after the last', async () => {
+    const provider = new FakeLlmProvider({
+      responses: [{ text: ['first'] }, { text: ['second'] }],
+    })
+
+    expect(await collect(provider)).toEqual([{ type: 'text', text: 'first' }])
+    expect(await collect(provider)).toEqual([{ type: 'text', text: 'second' }])
+    expect(await collect(provider)).toEqual([{ type: 'text', text: 'first' }])
+  })
+
+  it('records requests', async () => {
+    const provider = new FakeLlmProvider({ responses: [] })
+
+    expect(await collect(provider)).toEqual([])
+    expect(provider.requests).toEqual([request])
+  })
+
+  it('keeps scripted tool call ids', async () => {
+    const provider = new FakeLlmProvider({
+      responses: [{ toolCalls: [{ id: 'call-9', name: 'close_issue' }] }],
+    })
+
+    expect(await collect(provider)).toEqual([
+      {
+        type: 'toolCall',
+        toolCall: { id: 'call-9', name: 'close_issue', input: {} },
+      },
+    ])
+  })
+
+  describe('scripts', () => {
+    let tempDir: string
+
+    beforeEach(() => {
+      tempDir = join(
+        tmpdir(),
+        `fake-llm-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      )
+      mkdirSync(tempDir, { recursive: true })
+    })
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    it('loads a script fixture', async () => {
+      const scriptPath = join(tempDir, 'script.json')
+      writeFileSync(
+        scriptPath,
+        JSON.stringify({ responses: [{ text: ['Hello'] }] })
+      )
+
+      const provider = FakeLlmProvider.fromFile(scriptPath)
+
+      expect(provider.config.scriptPath).toBe(scriptPath)
+      expect(await collect(provider)).toEqual([{ type: 'text', text: 'Hello' }])
+    })
+
+    it('names the fixture when it cannot be loaded', () => {
+      const scriptPath = join(tempDir, 'missing.json')
+
+      expect(() => FakeLlmProvider.fromFile(scriptPath)).toThrow(scriptPath)
+    })
+
+    it('rejects scripts that are not a list of responses', () => {
+      expect(() => parseFakeLlmScript('{}')).toThrow('responses')
+      expect(() =>
+        parseFakeLlmScript('{"responses":[{"text":"not chunks"}]}')
+      ).toThrow('responses')
+      expect(() =>
+        parseFakeLlmScript('{"responses":[{"toolCalls":[{}]}]}')
+      ).toThrow('responses')
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Scripted LlmProvider for testing.
+ * Replays responses from a fixture instead of calling a model, so the chat
+ * loop (streaming, tool execution, commits) runs offline and
+ * deterministically.
+ */
+
+import { readFileSync } from 'node:fs'
+import type {
+  LlmProvider,
+  LlmProviderConfig,
+  LlmRequest,
+  LlmStreamEvent,
+} from './LlmProvider'
+
+export interface FakeLlmToolCall {
+  /** Generated when omitted */
+  id?: string
+  name: string
+  input?: Record<string, unknown>
+}
+
+/**
+ * One model response: text streamed chunk by chunk, then tool calls
+ */
+export interface FakeLlmResponse {
+  text?: string[]
+  toolCalls?: FakeLlmToolCall[]
+}
+
+export interface FakeLlmScript {
+  responses: FakeLlmResponse[]
+}
+
+function isFakeLlmResponse(value: unknown): value is FakeLlmResponse {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const { text, toolCalls } = value as Record<string, unknown>
+  return (
+    (text === undefined ||
+      (Array.isArray(text) &&
+        text.every(chunk => typeof chunk === 'string'))) &&
+    (toolCalls === undefined ||
+      (Array.isArray(toolCalls) &&
+        toolCalls.every(
+          toolCall =>
+            typeof toolCall === 'object' &&
+            toolCall !== null &&
+            typeof toolCall.name === 'string'
+        )))
+  )
+}
+
+/**
+ * Parse a script fixture, throwing if it is not a list of responses
+ */
+export function parseFakeLlmScript(json: string): FakeLlmScript {
+  const script = JSON.parse(json) as { responses?: unknown }
+  if (
+    !Array.isArray(script?.responses) ||
+    !script.responses.every(isFakeLlmResponse)
+  ) {
+    throw new Error(
+      'Fake LLM script must be { "responses": [{ "text"?: string[], "toolCalls"?: [{ "name", "input" }] }] }'
+    )
+  }
+  return { responses: script.responses }
+}
+
+/**
+ * Replays scripted responses in order, one per stream() call. After the
+ * last response the script starts over, so every chat request against a
+ * long-running server replays the same conversation.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly config: LlmProviderConfig
+  /** Every request received, for assertions */
+  readonly requests: LlmRequest[] = []
+  private script: FakeLlmScript
+  private nextResponse = 0
+  private nextToolCallId = 1
+
+  constructor(script: FakeLlmScript, config?: Partial<LlmProviderConfig>) {
+    this.script = script
+    this.config = {
+      provider: 'fake',
+      model: 'fake',
+      maxTokens: 1024,
+      ...config,
+    }
+  }
+
+  /**
+   * Create a provider replaying the script fixture at a path
+   */
+  static fromFile(
+    scriptPath: string,
+    config?: Partial<LlmProviderConfig>
+  ): FakeLlmProvider {
+    try {
+      return new FakeLlmProvider(
+        parseFakeLlmScript(readFileSync(scriptPath, 'utf-8')),
+        { scriptPath, ...config }
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(
+        `Failed to load fake LLM script ${scriptPath}: ${message}`
+      )
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    this.requests.push(request)
+
+    const { responses } = this.script
+    if (responses.length === 0) {
+      return
+    }
+    const response = responses[this.nextResponse]
+    this.nextResponse = (this.nextResponse + 1) % responses.length
+
+    for (const text of response.text ?? []) {
+      yield { type: 'text', text }
+    }
+    for (const toolCall of response.toolCalls ?? []) {
+      yield {
+        type: 'toolCall',
+        toolCall: {
+          id: toolCall.id ?? `fake-call-${this.nextToolCallId++}`,
+          name: toolCall.name,
+          input: toolCall.input ?? {},
+        },
+      }
+    }
+  }
+}
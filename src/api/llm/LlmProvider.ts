@@ -0,0 +1,88 @@
+/**
+ * LlmProvider abstraction interface and types.
+ * Enables pluggable chat model backends (OpenAI, Anthropic, local
+ * OpenAI-compatible servers, etc.)
+ */
+
+/**
+ * JSON Schema for a tool's input. Every provider accepts this subset.
+ */
+export interface ToolParameters {
+  type: 'object'
+  properties: Record<string, unknown>
+  required?: string[]
+}
+
+/**
+ * Provider-neutral tool definition, converted to each provider's format
+ */
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: ToolParameters
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+export interface LlmRequest {
+  system: string
+  messages: LlmMessage[]
+  tools: ToolDefinition[]
+}
+
+/**
+ * Streamed as the model responds: text as it arrives, and each tool call
+ * once its arguments are complete
+ */
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; toolCall: ToolCall }
+
+// 'openai-compatible' talks to a local server (Ollama, llama.cpp) through
+// the OpenAI API at a custom base URL; 'fake' replays a script for testing
+export type LlmProviderName =
+  | 'openai'
+  | 'anthropic'
+  | 'openai-compatible'
+  | 'fake'
+
+export interface LlmProviderConfig {
+  provider: LlmProviderName
+  model: string
+  maxTokens: number
+  apiKey?: string
+  baseUrl?: string
+  /** Fixture replayed by the fake provider */
+  scriptPath?: string
+}
+
+export interface LlmProvider {
+  readonly config: LlmProviderConfig
+
+  stream(request: LlmRequest): AsyncIterable<LlmStreamEvent>
+}
+
+/**
+ * Parse streamed tool call arguments, treating malformed JSON as no input
+ * so the tool reports what is missing instead of failing the whole chat
+ */
+export function parseToolInput(json: string): Record<string, unknown> {
+  if (json.trim() === '') {
+    return {}
+  }
+  try {
+    const parsed = JSON.parse(json)
+    return typeof parsed === 'object' && parsed !== null ? parsed : {}
+  } catch {
+    return {}
+  }
+}
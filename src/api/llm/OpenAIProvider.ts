@@ -0,0 +1,151 @@
+import OpenAI from 'openai'
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions'
+import {
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderConfig,
+  type LlmRequest,
+  type LlmStreamEvent,
+  parseToolInput,
+  type ToolDefinition,
+} from './LlmProvider'
+
+/**
+ * Convert a tool definition to an OpenAI function tool
+ */
+export function toOpenAITool(tool: ToolDefinition): ChatCompletionTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: { ...tool.parameters },
+    },
+  }
+}
+
+function toOpenAIMessage(message: LlmMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content }
+    case 'assistant':
+      if (!message.toolCalls?.length) {
+        return { role: 'assistant', content: message.content }
+      }
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(toolCall => ({
+          id: toolCall.id,
+          type: 'function',
+          function: {
+            name: toolCall.name,
+            arguments: JSON.stringify(toolCall.input),
+          },
+        })),
+      }
+    case 'tool':
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      }
+  }
+}
+
+/**
+ * Convert a conversation to OpenAI chat messages
+ */
+export function toOpenAIMessages(
+  system: string,
+  messages: LlmMessage[]
+): ChatCompletionMessageParam[] {
+  return [{ role: 'system', content: system }, ...messages.map(toOpenAIMessage)]
+}
+
+/**
+ * Chat completions through the OpenAI API, or any server that implements
+ * it when a base URL is configured
+ */
+export class OpenAIProvider implements LlmProvider {
+  readonly config: LlmProviderConfig
+  private client: OpenAI | null = null
+
+  constructor(config: LlmProviderConfig) {
+    this.config = config
+  }
+
+  // Created on first request so a missing key only fails the chat call
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers usually don't check the key, but the SDK requires one
+        apiKey:
+          this.config.apiKey ??
+          (this.config.baseUrl ? 'not-needed' : process.env.OPENAI_API_KEY),
+        baseURL: this.config.baseUrl,
+      })
+    }
+    return this.client
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      messages: toOpenAIMessages(request.system, request.messages),
+      // OpenAI rejects an empty tools list
+      ...(request.tools.length > 0
+        ? { tools: request.tools.map(toOpenAITool) }
+        : {}),
+      stream: true,
+    })
+
+    // Tool calls stream in incrementally, keyed by index
+    const partialToolCalls: Map<
+      number,
+      { id: string; name: string; arguments: string }
+    > = new Map()
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+
+      if (delta?.content) {
+        yield { type: 'text', text: delta.content }
+      }
+
+      for (const toolCallDelta of delta?.tool_calls ?? []) {
+        let partial = partialToolCalls.get(toolCallDelta.index)
+        if (!partial) {
+          partial = { id: '', name: '', arguments: '' }
+          partialToolCalls.set(toolCallDelta.index, partial)
+        }
+        if (toolCallDelta.id) {
+          partial.id = toolCallDelta.id
+        }
+        if (toolCallDelta.function?.name) {
+          partial.name = toolCallDelta.function.name
+        }
+        if (toolCallDelta.function?.arguments) {
+          partial.arguments += toolCallDelta.function.arguments
+        }
+      }
+    }
+
+    for (const partial of partialToolCalls.values()) {
+      if (partial.id && partial.name) {
+        yield {
+          type: 'toolCall',
+          toolCall: {
+            id: partial.id,
+            name: partial.name,
+            input: parseToolInput(partial.arguments),
+          },
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { join } from 'node:path'
+import { getConfig } from '../config'
+import { AnthropicProvider } from './AnthropicProvider'
+import { createLlmProvider } from './createLlmProvider'
+import { FakeLlmProvider } from './FakeLlmProvider'
+import { OpenAIProvider } from './OpenAIProvider'
+
+const LLM_ENV_VARS = [
+  'BEAD_FEEDER_LLM_PROVIDER',
+  'BEAD_FEEDER_LLM_MODEL',
+  'BEAD_FEEDER_LLM_BASE_URL',
+  'BEAD_FEEDER_LLM_API_KEY',
+  'BEAD_FEEDER_LLM_MAX_TOKENS',
+  'BEAD_FEEDER_LLM_FAKE_SCRIPT',
+]
+
+describe('createLlmProvider', () => {
+  const originalEnv = Object.fromEntries(
+    LLM_ENV_VARS.map(name => [name, process.env[name]])
+  )
+
+  beforeEach(() => {
+    for (const name of LLM_ENV_VARS) {
+      delete process.env[name]
+    }
+  })
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = value
+      }
+    }
+  })
+
+  it('uses OpenAI gpt-4o by default', () => {
+    expect(getConfig().llm).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      maxTokens: 1024,
+      apiKey: undefined,
+      baseUrl: undefined,
+      scriptPath: undefined,
+    })
+    expect(createLlmProvider(getConfig().llm)).toBeInstanceOf(OpenAIProvider)
+  })
+
+  it('selects the Anthropic provider with its default model', () => {
+    process.env.BEAD_FEEDER_LLM_PROVIDER = 'anthropic'
+
+    const config = getConfig().llm
+    expect(config.provider).toBe('anthropic')
+    expect(config.model).toBe('claude-sonnet-4-5')
+    expect(createLlmProvider(config)).toBeInstanceOf(AnthropicProvider)
+  })
+
+  it('treats a base URL on its own as an OpenAI-compatible server', () => {
+    process.env.BEAD_FEEDER_LLM_BASE_URL = 'http://localhost:8080/v1'
+    process.env.BEAD_FEEDER_LLM_MODEL = 'qwen2.5-coder'
+
+    const config = getConfig().llm
+    expect(config).toMatchObject({
+      provider: 'openai-compatible',
+      model: 'qwen2.5-coder',
+      baseUrl: 'http://localhost:8080/v1',
+    })
+    expect(createLlmProvider(config)).toBeInstanceOf(OpenAIProvider)
+  })
+
+  it('defaults OpenAI-compatible servers to the Ollama endpoint', () => {
+    process.env.BEAD_FEEDER_LLM_PROVIDER = 'openai-compatible'
+
+    expect(getConfig().llm.baseUrl).toBe('http://localhost:11434/v1')
+  })
+
+  it('reads the API key and max tokens', () => {
+    process.env.BEAD_FEEDER_LLM_API_KEY = 'secret'
+    process.env.BEAD_FEEDER_LLM_MAX_TOKENS = '4096'
+
+    expect(getConfig().llm).toMatchObject({
+      apiKey: 'secret',
+      maxTokens: 4096,
+    })
+  })
+
+  it('falls back to defaults for invalid values', () => {
+    process.env.BEAD_FEEDER_LLM_PROVIDER = 'gemini'
+    process.env.BEAD_FEEDER_LLM_MAX_TOKENS = 'lots'
+
+    expect(getConfig().llm).toMatchObject({
+      provider: 'openai',
+      maxTokens: 1024,
+    })
+  })
+
+  it('replays a script fixture with the fake provider', () => {
+    process.env.BEAD_FEEDER_LLM_FAKE_SCRIPT = join(
+      import.meta.dir,
+      '../../../test/fixtures/llm/create-issues.json'
+    )
+
+    const config = getConfig().llm
+    expect(config.provider).toBe('fake')
+    expect(createLlmProvider(config)).toBeInstanceOf(FakeLlmProvider)
+  })
+
+  it('requires a script for the fake provider', () => {
+    process.env.BEAD_FEEDER_LLM_PROVIDER = 'fake'
+
+    expect(() => createLlmProvider()).toThrow('BEAD_FEEDER_LLM_FAKE_SCRIPT')
+  })
+})
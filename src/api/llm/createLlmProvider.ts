@@ -0,0 +1,34 @@
+/**
+ * Chooses the LlmProvider for chat.
+ */
+
+import { getConfig } from '../config'
+import { AnthropicProvider } from './AnthropicProvider'
+import { FakeLlmProvider } from './FakeLlmProvider'
+import type { LlmProvider, LlmProviderConfig } from './LlmProvider'
+import { OpenAIProvider } from './OpenAIProvider'
+
+/**
+ * Create an LlmProvider for the configured provider.
+ * BEAD_FEEDER_LLM_PROVIDER selects 'openai' (default), 'anthropic',
+ * 'openai-compatible' (with BEAD_FEEDER_LLM_BASE_URL) or 'fake' (replaying
+ * the script at BEAD_FEEDER_LLM_FAKE_SCRIPT)
+ */
+export function createLlmProvider(
+  config: LlmProviderConfig = getConfig().llm
+): LlmProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config)
+    case 'openai':
+    case 'openai-compatible':
+      return new OpenAIProvider(config)
+    case 'fake':
+      if (!config.scriptPath) {
+        throw new Error(
+          'BEAD_FEEDER_LLM_FAKE_SCRIPT is required for the fake LLM provider'
+        )
+      }
+      return FakeLlmProvider.fromFile(config.scriptPath, config)
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * LlmProvider module exports.
+ */
+
+export {
+  AnthropicProvider,
+  toAnthropicMessages,
+  toAnthropicTool,
+} from './AnthropicProvider'
+export { createLlmProvider } from './createLlmProvider'
+export {
+  FakeLlmProvider,
+  type FakeLlmResponse,
+  type FakeLlmScript,
+  parseFakeLlmScript,
+} from './FakeLlmProvider'
+export * from './LlmProvider'
+export {
+  OpenAIProvider,
+  toOpenAIMessages,
+  toOpenAITool,
+} from './OpenAIProvider'
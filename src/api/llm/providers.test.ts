@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test'
+import { createIssueTool } from '../llm-tools'
+import { toAnthropicMessages, toAnthropicTool } from './AnthropicProvider'
+import { type LlmMessage, parseToolInput } from './LlmProvider'
+import { toOpenAIMessages, toOpenAITool } from './OpenAIProvider'
+
+const conversation: LlmMessage[] = [
+  { role: 'user', content: 'Add two tasks' },
+  {
+    role: 'assistant',
+    content: 'Creating them now.',
+    toolCalls: [
+      { id: 'call-1', name: 'create_issue', input: { title: 'First' } },
+      { id: 'call-2', name: 'create_issue', input: { title: 'Second' } },
+    ],
+  },
+  { role: 'tool', toolCallId: 'call-1', content: '{"id":"bd-1"}' },
+  { role: 'tool', toolCallId: 'call-2', content: '{"id":"bd-2"}' },
+  { role: 'assistant', content: 'Done.' },
+]
+
+describe('parseToolInput', () => {
+  it('parses JSON objects', () => {
+    expect(parseToolInput('{"title":"A"}')).toEqual({ title: 'A' })
+  })
+
+  it('treats empty or malformed input as no arguments', () => {
+    expect(parseToolInput('')).toEqual({})
+    expect(parseToolInput('{"title":')).toEqual({})
+    expect(parseToolInput('"text"')).toEqual({})
+  })
+})
+
+describe('OpenAI conversion', () => {
+  it('wraps tool definitions as functions', () => {
+    expect(toOpenAITool(createIssueTool)).toEqual({
+      type: 'function',
+      function: {
+        name: 'create_issue',
+        description: createIssueTool.description,
+        parameters: { ...createIssueTool.parameters },
+      },
+    })
+  })
+
+  it('prepends the system prompt and encodes tool calls as JSON', () => {
+    const messages = toOpenAIMessages('Be helpful', conversation)
+
+    expect(messages[0]).toEqual({ role: 'system', content: 'Be helpful' })
+    expect(messages[2]).toEqual({
+      role: 'assistant',
+      content: 'Creating them now.',
+      tool_calls: [
+        {
+          id: 'call-1',
+          type: 'function',
+          function: { name: 'create_issue', arguments: '{"title":"First"}' },
+        },
+        {
+          id: 'call-2',
+          type: 'function',
+          function: { name: 'create_issue', arguments: '{"title":"Second"}' },
+        },
+      ],
+    })
+    expect(messages[3]).toEqual({
+      role: 'tool',
+      tool_call_id: 'call-1',
+      content: '{"id":"bd-1"}',
+    })
+    expect(messages).toHaveLength(6)
+  })
+})
+
+describe('Anthropic conversion', () => {
+  it('uses the parameters as the input schema', () => {
+    expect(toAnthropicTool(createIssueTool)).toEqual({
+      name: 'create_issue',
+      description: createIssueTool.description,
+      input_schema: { ...createIssueTool.parameters },
+    })
+  })
+
+  it('sends tool calls as tool_use blocks', () => {
+    const messages = toAnthropicMessages(conversation)
+
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Creating them now.' },
+        {
+          type: 'tool_use',
+          id: 'call-1',
+          name: 'create_issue',
+          input: { title: 'First' },
+        },
+        {
+          type: 'tool_use',
+          id: 'call-2',
+          name: 'create_issue',
+          input: { title: 'Second' },
+        },
+      ],
+    })
+  })
+
+  it('groups tool results from one turn into a single user message', () => {
+    const messages = toAnthropicMessages(conversation)
+
+    expect(messages).toHaveLength(4)
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'call-1',
+          content: '{"id":"bd-1"}',
+        },
+        {
+          type: 'tool_result',
+          tool_use_id: 'call-2',
+          content: '{"id":"bd-2"}',
+        },
+      ],
+    })
+  })
+
+  it('omits empty text from assistant tool call messages', () => {
+    const messages = toAnthropicMessages([
+      { role: 'user', content: 'Close bd-1' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call-1', name: 'close_issue', input: { issue_id: 'bd-1' } },
+        ],
+      },
+    ])
+
+    expect(messages[1].content).toEqual([
+      {
+        type: 'tool_use',
+        id: 'call-1',
+        name: 'close_issue',
+        input: { issue_id: 'bd-1' },
+      },
+    ])
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'bun:test'
+import type { Issue, IssueGraph } from './issue-tracker'
+import { getReadyIssues } from './ready-queue'
+import {
+  blocks,
+  createIssue as createFixtureIssue,
+  createGraph,
+} from './test-fixtures'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+// Issues are dated by how many hours before NOW they were created
+function createIssue(
+  id: string,
+  overrides: Partial<Issue> & { ageHours?: number } = {}
+): Issue {
+  const { ageHours = 1, ...rest } = overrides
+  const created = new Date(NOW.getTime() - ageHours * HOUR).toISOString()
+  return createFixtureIssue(id, {
+    created_at: created,
+    updated_at: created,
+    ...rest,
+  })
+}
+
+function readyIds(graph: IssueGraph): string[] {
+  return getReadyIssues(graph, NOW).map(issue => issue.id)
+}
+
+describe('getReadyIssues', () => {
+  it('returns open issues without blockers', () => {
+    const graph = createGraph([
+      createIssue('open'),
+      createIssue('working', { status: 'in_progress' }),
+      createIssue('done', { status: 'closed' }),
+    ])
+
+    expect(readyIds(graph)).toEqual(['open'])
+  })
+
+  it('excludes issues with an open or in-progress blocker', () => {
+    const graph = createGraph(
+      [
+        createIssue('a'),
+        createIssue('b', { status: 'in_progress' }),
+        createIssue('c'),
+        createIssue('d'),
+      ],
+      [blocks('a', 'c'), blocks('b', 'd')]
+    )
+
+    expect(readyIds(graph)).toEqual(['a'])
+  })
+
+  it('includes issues whose blockers are all closed', () => {
+    const graph = createGraph(
+      [createIssue('a', { status: 'closed' }), createIssue('b')],
+      [blocks('a', 'b')]
+    )
+
+    expect(readyIds(graph)).toEqual(['b'])
+  })
+
+  it('ignores non-blocking dependency types', () => {
+    const graph = createGraph(
+      [createIssue('a'), createIssue('b')],
+      [blocks('a', 'b', 'related')]
+    )
+
+    expect(readyIds(graph).sort()).toEqual(['a', 'b'])
+  })
+
+  it('does not block children on their open parent', () => {
+    const graph = createGraph(
+      [createIssue('epic'), createIssue('child')],
+      [blocks('epic', 'child', 'parent-child')]
+    )
+
+    expect(readyIds(graph).sort()).toEqual(['child', 'epic'])
+  })
+
+  it('excludes the descendants of a blocked parent', () => {
+    const graph = createGraph(
+      [
+        createIssue('blocker'),
+        createIssue('epic'),
+        createIssue('child'),
+        createIssue('grandchild'),
+      ],
+      [
+        blocks('blocker', 'epic'),
+        blocks('epic', 'child', 'parent-child'),
+        blocks('child', 'grandchild', 'parent-child'),
+      ]
+    )
+
+    expect(readyIds(graph)).toEqual(['blocker'])
+  })
+
+  it('orders recent issues by priority, ahead of older issues by age', () => {
+    const graph = createGraph([
+      createIssue('old-p0', { priority: 0, ageHours: 100 }),
+      createIssue('older-p3', { priority: 3, ageHours: 200 }),
+      createIssue('recent-p2', { priority: 2, ageHours: 2 }),
+      createIssue('recent-p1', { priority: 1, ageHours: 1 }),
+      createIssue('recent-p1-earlier', { priority: 1, ageHours: 5 }),
+    ])
+
+    expect(readyIds(graph)).toEqual([
+      'recent-p1-earlier',
+      'recent-p1',
+      'recent-p2',
+      'older-p3',
+      'old-p0',
+    ])
+  })
+})
@@ -0,0 +1,86 @@
+import type { Dependency, Issue, IssueGraph } from './issue-tracker'
+
+// bd ready ranks issues created in the last 48 hours by priority,
+// ahead of older issues which are worked oldest first
+const RECENT_WINDOW_MS = 48 * 60 * 60 * 1000
+
+// Priority bd assigns when none is set
+const DEFAULT_PRIORITY = 2
+
+/**
+ * Which dependencies hold up work, for the ready queue, critical path,
+ * blockers and focus mode alike. Only 'blocks' does: related and
+ * discovered-from links are informational, and a 'parent-child' link
+ * doesn't block a child on its open parent, since an epic stays open while
+ * its children are worked on. As in `bd ready`, a child is still held up
+ * while its parent is blocked (see `getReadyIssues`).
+ */
+export function isBlockingDependency(dependency: Dependency): boolean {
+  return !dependency.type || dependency.type === 'blocks'
+}
+
+/**
+ * Add the descendants of blocked issues to the blocked set, following
+ * parent-child links down
+ */
+function blockDescendants(dependencies: Dependency[], blocked: Set<string>) {
+  const childLinks = dependencies.filter(dep => dep.type === 'parent-child')
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const link of childLinks) {
+      if (blocked.has(link.depends_on_id) && !blocked.has(link.issue_id)) {
+        blocked.add(link.issue_id)
+        changed = true
+      }
+    }
+  }
+}
+
+function createdAt(issue: Issue): number {
+  const time = Date.parse(issue.created_at)
+  return Number.isNaN(time) ? 0 : time
+}
+
+/**
+ * Compute the issues `bd ready` would list: open issues whose blockers are
+ * all closed and which aren't in a blocked epic, in the order an agent will
+ * pick them up.
+ * @param graph - Issue graph to compute the queue from
+ * @param now - Current time, used to tell recent issues from older ones
+ */
+export function getReadyIssues(
+  graph: IssueGraph,
+  now: Date = new Date()
+): Issue[] {
+  const blocked = new Set<string>()
+  for (const dependency of graph.dependencies) {
+    if (!isBlockingDependency(dependency)) continue
+    const blocker = graph.issueMap[dependency.depends_on_id]
+    if (blocker && blocker.status !== 'closed') {
+      blocked.add(dependency.issue_id)
+    }
+  }
+  blockDescendants(graph.dependencies, blocked)
+
+  const recentSince = now.getTime() - RECENT_WINDOW_MS
+  const isRecent = (issue: Issue) => createdAt(issue) >= recentSince
+
+  return graph.issues
+    .filter(issue => issue.status === 'open' && !blocked.has(issue.id))
+    .sort((a, b) => {
+      const aRecent = isRecent(a)
+      const bRecent = isRecent(b)
+      if (aRecent !== bRecent) {
+        return aRecent ? -1 : 1
+      }
+      if (aRecent) {
+        const byPriority =
+          (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY)
+        if (byPriority !== 0) {
+          return byPriority
+        }
+      }
+      return createdAt(a) - createdAt(b)
+    })
+}
@@ -1,48 +1,67 @@
 import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
 import { type ChildProcess, spawn } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+/**
+ * Spawn the API server and wait until it is listening
+ */
+async function startServer(
+  port: number,
+  env: Record<string, string> = {}
+): Promise<ChildProcess> {
+  // Spawn server with NODE_ENV=development so logs go to stdout (not file)
+  // This allows the test to detect when the server starts
+  const serverProcess = spawn('bun', ['run', 'src/api/server.ts'], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      NODE_ENV: 'development',
+      ...env,
+    },
+    cwd: process.cwd(),
+  })
+  let serverReady = false
+
+  // Wait for server to start
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error('Server startup timeout after 30 seconds')),
+      30000
+    )
+    serverProcess.stdout?.on('data', data => {
+      const output = data.toString()
+      if (output.includes('API server started')) {
+        clearTimeout(timeout)
+        serverReady = true
+        resolve()
+      }
+    })
+    serverProcess.stderr?.on('data', data => {
+      console.error('Server stderr:', data.toString())
+    })
+    serverProcess.on('error', err => {
+      clearTimeout(timeout)
+      reject(err)
+    })
+    serverProcess.on('exit', code => {
+      if (!serverReady) {
+        clearTimeout(timeout)
+        reject(new Error(`Server process exited with code ${code}`))
+      }
+    })
+  })
+
+  return serverProcess
+}
 
 describe('API Server', () => {
   let serverProcess: ChildProcess
-  let serverReady = false
   const port = 3099
 
   beforeAll(async () => {
-    // Spawn server with NODE_ENV=development so logs go to stdout (not file)
-    // This allows the test to detect when the server starts
-    const env = { ...process.env, PORT: String(port), NODE_ENV: 'development' }
-    serverProcess = spawn('bun', ['run', 'src/api/server.ts'], {
-      env,
-      cwd: process.cwd(),
-    })
-
-    // Wait for server to start
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(
-        () => reject(new Error('Server startup timeout after 30 seconds')),
-        30000
-      )
-      serverProcess.stdout?.on('data', data => {
-        const output = data.toString()
-        if (output.includes('API server started')) {
-          clearTimeout(timeout)
-          serverReady = true
-          resolve()
-        }
-      })
-      serverProcess.stderr?.on('data', data => {
-        console.error('Server stderr:', data.toString())
-      })
-      serverProcess.on('error', err => {
-        clearTimeout(timeout)
-        reject(err)
-      })
-      serverProcess.on('exit', code => {
-        if (!serverReady) {
-          clearTimeout(timeout)
-          reject(new Error(`Server process exited with code ${code}`))
-        }
-      })
-    })
+    serverProcess = await startServer(port)
   }, 60000) // 60 second timeout for hook
 
   afterAll(() => {
@@ -174,6 +193,94 @@ describe('API Server', () => {
     })
   })
 
+  describe('PATCH /api/issues/:id - validation', () => {
+    it('returns 400 when there is nothing to update', async () => {
+      const response = await fetch(`http://localhost:${port}/api/issues/bd-1`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ unknown: 'field' }),
+      })
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toBe('No fields to update')
+    })
+
+    it('returns 400 for an empty title', async () => {
+      const response = await fetch(`http://localhost:${port}/api/issues/bd-1`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: '  ' }),
+      })
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('title')
+    })
+
+    it('returns 400 for a closed status', async () => {
+      const response = await fetch(`http://localhost:${port}/api/issues/bd-1`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'closed' }),
+      })
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('status')
+    })
+
+    it('returns 400 for an out of range priority', async () => {
+      const response = await fetch(`http://localhost:${port}/api/issues/bd-1`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority: 4 }),
+      })
+
+      expect(response.status).toBe(400)
+      expect(response.headers.get('access-control-allow-origin')).toBe('*')
+    })
+
+    it('returns 401 when owner/repo provided without authentication', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/issues/bd-1?owner=test-owner&repo=test-repo`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ priority: 1 }),
+        }
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('POST /api/issues/:id/close and /reopen - validation', () => {
+    it('returns 400 for a non-string reason', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/issues/bd-1/close`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason: 42 }),
+        }
+      )
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('reason')
+    })
+
+    it('returns 401 when owner/repo provided without authentication', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/issues/bd-1/reopen?owner=test-owner&repo=test-repo`,
+        { method: 'POST' }
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+
   describe('POST /api/dependencies - validation', () => {
     // Note: We only test validation here, not successful dependency creation,
     // to avoid creating test artifacts in the local beads repository.
@@ -223,6 +330,25 @@ describe('API Server', () => {
       expect(response.status).toBe(400)
     })
 
+    it('returns 400 for an unknown dependency type', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/dependencies`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            blocked: 'some-id',
+            blocker: 'other-id',
+            type: 'duplicates',
+          }),
+        }
+      )
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('type must be one of')
+    })
+
     it('includes CORS headers on validation error response', async () => {
       const response = await fetch(
         `http://localhost:${port}/api/dependencies`,
@@ -237,6 +363,51 @@ describe('API Server', () => {
     })
   })
 
+  describe('DELETE /api/dependencies - validation', () => {
+    it('returns 400 for missing blocked', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/dependencies`,
+        {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ blocker: 'bead-1' }),
+        }
+      )
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('blocked')
+    })
+
+    it('returns 400 for empty blocker', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/dependencies`,
+        {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ blocked: 'bead-1', blocker: ' ' }),
+        }
+      )
+
+      expect(response.status).toBe(400)
+      const error = await response.json()
+      expect(error.error).toContain('blocker')
+    })
+
+    it('returns 401 when owner/repo provided without authentication', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/dependencies?owner=test-owner&repo=test-repo`,
+        {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ blocked: 'bead-1', blocker: 'bead-2' }),
+        }
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+
   describe('Auth endpoints', () => {
     it('POST /api/auth/github/callback returns 400 for missing code', async () => {
       const response = await fetch(
@@ -410,6 +581,40 @@ describe('API Server', () => {
     })
   })
 
+  describe('GET /api/ready', () => {
+    it('returns a JSON array of ready issues', async () => {
+      const response = await fetch(`http://localhost:${port}/api/ready`)
+
+      expect(response.ok).toBe(true)
+      expect(response.headers.get('access-control-allow-origin')).toBe('*')
+      const issues = await response.json()
+      expect(Array.isArray(issues)).toBe(true)
+      for (const issue of issues) {
+        expect(issue.status).toBe('open')
+      }
+    })
+
+    it('returns 401 when owner/repo provided without authentication', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/ready?owner=test-owner&repo=test-repo`
+      )
+
+      expect(response.status).toBe(401)
+      const error = await response.json()
+      expect(error).toHaveProperty('error', 'Authentication required')
+    })
+  })
+
+  describe('GET /api/critical-path', () => {
+    it('returns 401 when owner/repo provided without authentication', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/critical-path?owner=test-owner&repo=test-repo`
+      )
+
+      expect(response.status).toBe(401)
+    })
+  })
+
   describe('POST /api/repos/:owner/:repo/pull', () => {
     it('returns 401 without authentication', async () => {
       const response = await fetch(
@@ -442,3 +647,459 @@ describe('API Server', () => {
   // Note: /api/sync/resolve endpoint was removed - conflict resolution is now
   // handled by bd sync's 3-way merge algorithm with LWW (last-writer-wins)
 })
+
+describe('POST /api/chat with the fake LLM provider', () => {
+  let serverProcess: ChildProcess
+  let reposDir: string
+  let dataDir: string
+  const port = 3098
+
+  /**
+   * Post a chat request and parse its server-sent events
+   */
+  async function chat(body: Record<string, unknown>): Promise<{
+    response: Response
+    events: Record<string, unknown>[]
+    done: boolean
+  }> {
+    const response = await fetch(`http://localhost:${port}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = (await response.text())
+      .split('\n\n')
+      .filter(chunk => chunk.startsWith('data: '))
+      .map(chunk => chunk.slice('data: '.length))
+    return {
+      response,
+      events: data
+        .filter(event => event !== '[DONE]')
+        .map(event => JSON.parse(event)),
+      done: data.at(-1) === '[DONE]',
+    }
+  }
+
+  beforeAll(async () => {
+    reposDir = mkdtempSync(join(tmpdir(), 'chat-server-test-'))
+    dataDir = mkdtempSync(join(tmpdir(), 'chat-server-data-'))
+    serverProcess = await startServer(port, {
+      BEAD_FEEDER_LLM_FAKE_SCRIPT: join(
+        import.meta.dir,
+        '../../test/fixtures/llm/create-issues.json'
+      ),
+      BEAD_FEEDER_ISSUE_TRACKER: 'fake',
+      BEAD_FEEDER_GITHUB_REPOS_DIR: reposDir,
+      BEAD_FEEDER_DATA_DIR: dataDir,
+    })
+  }, 60000)
+
+  afterAll(() => {
+    serverProcess?.kill()
+    rmSync(reposDir, { recursive: true, force: true })
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('streams scripted text, runs tool calls and reports the graph update', async () => {
+    const { response, events, done } = await chat({
+      messages: [{ role: 'user', content: 'Add the login issues' }],
+    })
+
+    expect(response.ok).toBe(true)
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(done).toBe(true)
+    expect(
+      events
+        .filter(event => event.text)
+        .map(event => event.text)
+        .join('')
+    ).toBe("I'll create those issues.Created both issues.")
+    expect(events.at(-1)).toEqual({
+      graphUpdated: true,
+      toolsUsed: ['create_issue', 'create_issue'],
+    })
+
+    // Local chat works in the repos directory
+    const graphResponse = await fetch(
+      `http://localhost:${port}/api/graph?local=${encodeURIComponent(reposDir)}`
+    )
+    const { issues } = (await graphResponse.json()) as {
+      issues: { title: string }[]
+    }
+    expect(issues.map(issue => issue.title).sort()).toEqual([
+      'Design login page',
+      'Fix logout redirect',
+    ])
+  })
+
+  it('streams tool call progress and the commit', async () => {
+    const { events } = await chat({
+      messages: [{ role: 'user', content: 'Add the login issues' }],
+    })
+
+    const progress = events.filter(
+      event => event.toolCallStarted || event.toolCallResult || event.commit
+    )
+    const [started, finished] = progress as {
+      toolCallStarted?: { id: string }
+      toolCallResult?: { id: string }
+    }[]
+    expect(progress).toEqual([
+      {
+        toolCallStarted: {
+          id: expect.any(String),
+          name: 'create_issue',
+          input: { title: 'Design login page', type: 'feature' },
+        },
+      },
+      {
+        toolCallResult: {
+          id: expect.any(String),
+          name: 'create_issue',
+          success: true,
+          result: expect.objectContaining({ title: 'Design login page' }),
+        },
+      },
+      { toolCallStarted: expect.objectContaining({ name: 'create_issue' }) },
+      { toolCallResult: expect.objectContaining({ success: true }) },
+      {
+        commit: expect.objectContaining({
+          message: expect.stringContaining('Create issue'),
+        }),
+      },
+    ])
+    expect(finished.toolCallResult?.id).toBe(started.toolCallStarted?.id)
+    // Local repositories are not pushed
+    expect(events.some(event => event.push)).toBe(false)
+  })
+
+  it('stores conversations with their tool calls and resumes them', async () => {
+    const conversationsUrl = `http://localhost:${port}/api/conversations`
+    const first = await chat({
+      messages: [{ role: 'user', content: 'Plan the login work' }],
+    })
+    const conversationId = first.events[0].conversationId as string
+    expect(conversationId).toBeTruthy()
+
+    const listResponse = await fetch(conversationsUrl)
+    const summaries = (await listResponse.json()) as {
+      id: string
+      title: string
+    }[]
+    expect(summaries.find(summary => summary.id === conversationId)).toEqual(
+      expect.objectContaining({ title: 'Plan the login work' })
+    )
+
+    const conversationResponse = await fetch(
+      `${conversationsUrl}/${conversationId}`
+    )
+    const conversation = (await conversationResponse.json()) as {
+      messages: { role: string; toolCalls?: { name: string }[] }[]
+    }
+    expect(conversation.messages.map(message => message.role)).toEqual([
+      'user',
+      'assistant',
+      'tool',
+      'tool',
+      'assistant',
+    ])
+    expect(
+      conversation.messages[1].toolCalls?.map(toolCall => toolCall.name)
+    ).toEqual(['create_issue', 'create_issue'])
+
+    // Only the new message is sent when resuming
+    const second = await chat({
+      conversationId,
+      messages: [{ role: 'user', content: 'And again' }],
+    })
+    expect(second.events[0]).toEqual({ conversationId })
+    const resumed = (await (
+      await fetch(`${conversationsUrl}/${conversationId}`)
+    ).json()) as { messages: unknown[] }
+    expect(resumed.messages).toHaveLength(10)
+  })
+
+  it('keeps conversations separate per local repository', async () => {
+    const checkout = mkdtempSync(join(tmpdir(), 'chat-server-checkout-'))
+    try {
+      const { events } = await chat({
+        local: checkout,
+        messages: [{ role: 'user', content: 'Plan the checkout work' }],
+      })
+      const conversationId = events[0].conversationId as string
+      const listIds = async (query: string) =>
+        (
+          (await (
+            await fetch(`http://localhost:${port}/api/conversations${query}`)
+          ).json()) as { id: string }[]
+        ).map(summary => summary.id)
+
+      expect(await listIds(`?local=${encodeURIComponent(checkout)}`)).toContain(
+        conversationId
+      )
+      expect(await listIds('')).not.toContain(conversationId)
+      expect(
+        await listIds(`?local=${encodeURIComponent(reposDir)}`)
+      ).not.toContain(conversationId)
+    } finally {
+      rmSync(checkout, { recursive: true, force: true })
+    }
+  })
+
+  it('renames and deletes conversations', async () => {
+    const { events } = await chat({
+      messages: [{ role: 'user', content: 'Something to rename' }],
+    })
+    const conversationUrl = `http://localhost:${port}/api/conversations/${events[0].conversationId}`
+
+    const renameResponse = await fetch(conversationUrl, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'Renamed' }),
+    })
+    expect(renameResponse.ok).toBe(true)
+    expect(await renameResponse.json()).toHaveProperty('title', 'Renamed')
+
+    const emptyTitleResponse = await fetch(conversationUrl, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: '  ' }),
+    })
+    expect(emptyTitleResponse.status).toBe(400)
+
+    const deleteResponse = await fetch(conversationUrl, { method: 'DELETE' })
+    expect(deleteResponse.status).toBe(204)
+    expect((await fetch(conversationUrl)).status).toBe(404)
+  })
+
+  it('proposes changes for review and applies the selected ones', async () => {
+    const graphUrl = `http://localhost:${port}/api/graph?local=${encodeURIComponent(reposDir)}`
+    const countIssues = async () =>
+      ((await (await fetch(graphUrl)).json()) as { issues: unknown[] }).issues
+        .length
+    const before = await countIssues()
+
+    const { events } = await chat({
+      mode: 'propose',
+      messages: [{ role: 'user', content: 'Propose the login issues' }],
+    })
+
+    expect(events.some(event => event.graphUpdated)).toBe(false)
+    const changeset = events.findLast(event => event.changeset)?.changeset as {
+      changes: { id: string; type: string; issueId: string }[]
+    }
+    expect(changeset.changes).toEqual([
+      expect.objectContaining({
+        id: 'change-1',
+        type: 'createIssue',
+        issueId: 'new-1',
+      }),
+      expect.objectContaining({
+        id: 'change-2',
+        type: 'createIssue',
+        issueId: 'new-2',
+      }),
+    ])
+    expect(await countIssues()).toBe(before)
+
+    const conversationUrl = `http://localhost:${port}/api/conversations/${events[0].conversationId}`
+    const applyResponse = await fetch(`${conversationUrl}/changeset/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changeIds: ['change-2'] }),
+    })
+    expect(applyResponse.ok).toBe(true)
+    const { applied, failed } = (await applyResponse.json()) as {
+      applied: { change: { id: string }; issueId: string }[]
+      failed: unknown[]
+    }
+    expect(applied.map(({ change }) => change.id)).toEqual(['change-2'])
+    expect(failed).toEqual([])
+    expect(await countIssues()).toBe(before + 1)
+
+    // The proposal is done with, and the outcome is part of the conversation
+    const conversation = (await (await fetch(conversationUrl)).json()) as {
+      changeset?: unknown
+      messages: { role: string; content: string }[]
+    }
+    expect(conversation.changeset).toBeUndefined()
+    expect(conversation.messages.at(-1)?.content).toContain(
+      `Create bug "Fix logout redirect" as ${applied[0].issueId}`
+    )
+  })
+
+  it('discards proposed changes', async () => {
+    const { events } = await chat({
+      mode: 'propose',
+      messages: [{ role: 'user', content: 'Propose the login issues' }],
+    })
+    const changesetUrl = `http://localhost:${port}/api/conversations/${events[0].conversationId}/changeset`
+
+    const discardResponse = await fetch(changesetUrl, { method: 'DELETE' })
+    expect(discardResponse.status).toBe(204)
+
+    const applyResponse = await fetch(`${changesetUrl}/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changeIds: ['change-1'] }),
+    })
+    expect(applyResponse.status).toBe(404)
+  })
+
+  it('proposes subtasks when decomposing an issue', async () => {
+    const graphResponse = await fetch(
+      `http://localhost:${port}/api/graph?local=${encodeURIComponent(reposDir)}`
+    )
+    const { issues } = (await graphResponse.json()) as {
+      issues: { id: string; title: string }[]
+    }
+    const parent = issues[0]
+
+    const { events } = await chat({ decompose: parent.id })
+
+    expect(events.some(event => event.graphUpdated)).toBe(false)
+    const changeset = events.findLast(event => event.changeset)?.changeset as {
+      changes: { type: string }[]
+    }
+    expect(changeset.changes.map(change => change.type)).toEqual([
+      'createIssue',
+      'createIssue',
+    ])
+    const conversation = (await (
+      await fetch(
+        `http://localhost:${port}/api/conversations/${events[0].conversationId}`
+      )
+    ).json()) as { messages: { role: string; content: string }[] }
+    expect(conversation.messages[0].content).toContain(
+      `Break down ${parent.id} into subtasks.`
+    )
+    expect(conversation.messages[0].content).toContain(parent.title)
+  })
+
+  it('returns 404 when decomposing an unknown issue', async () => {
+    const { response } = await chat({ decompose: 'missing' })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('returns 404 when resuming an unknown conversation', async () => {
+    const { response } = await chat({
+      conversationId: 'missing',
+      messages: [{ role: 'user', content: 'Hello?' }],
+    })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('returns 401 for repository conversations without authentication', async () => {
+    const response = await fetch(
+      `http://localhost:${port}/api/conversations?owner=test-owner&repo=test-repo`
+    )
+
+    expect(response.status).toBe(401)
+  })
+
+  it('connects issues in the local repository being viewed', async () => {
+    const graphUrl = `http://localhost:${port}/api/graph?local=${encodeURIComponent(reposDir)}`
+    const { issues } = (await (await fetch(graphUrl)).json()) as {
+      issues: { id: string }[]
+    }
+    const [blocker, blocked] = issues
+
+    const response = await fetch(
+      `http://localhost:${port}/api/dependencies?local=${encodeURIComponent(reposDir)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          blocked: blocked.id,
+          blocker: blocker.id,
+          type: 'related',
+        }),
+      }
+    )
+
+    expect(response.status).toBe(201)
+    const { dependencies } = (await (await fetch(graphUrl)).json()) as {
+      dependencies: unknown[]
+    }
+    expect(dependencies).toContainEqual(
+      expect.objectContaining({
+        issue_id: blocked.id,
+        depends_on_id: blocker.id,
+        type: 'related',
+      })
+    )
+  })
+
+  it('returns the critical path of the local graph', async () => {
+    const response = await fetch(
+      `http://localhost:${port}/api/critical-path?local=${encodeURIComponent(reposDir)}&weighted=true`
+    )
+
+    expect(response.ok).toBe(true)
+    const path = (await response.json()) as {
+      issueIds: string[]
+      length: number
+      weighted: boolean
+    }
+    // No issue has an estimate to weight by, so the path is counted in issues
+    expect(path.weighted).toBe(false)
+    expect(path.length).toBe(path.issueIds.length)
+  })
+
+  it('pins, merges and resets node positions', async () => {
+    const layoutUrl = `http://localhost:${port}/api/layout`
+    const pin = (positions: unknown) =>
+      fetch(layoutUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ positions }),
+      })
+
+    expect(await (await fetch(layoutUrl)).json()).toEqual({ positions: {} })
+
+    await pin({ 'bd-1': { x: 10, y: 20 } })
+    const pinResponse = await pin({ 'bd-2': { x: 30, y: 40 } })
+    expect(await pinResponse.json()).toEqual({
+      positions: { 'bd-1': { x: 10, y: 20 }, 'bd-2': { x: 30, y: 40 } },
+    })
+
+    const resetResponse = await fetch(layoutUrl, { method: 'DELETE' })
+    expect(resetResponse.status).toBe(204)
+    expect(await (await fetch(layoutUrl)).json()).toEqual({ positions: {} })
+  })
+
+  it('keeps node positions separate per local repository', async () => {
+    const layoutUrl = (path: string) =>
+      `http://localhost:${port}/api/layout?local=${encodeURIComponent(path)}`
+    await fetch(layoutUrl('/tmp/checkout-a'), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ positions: { 'bd-1': { x: 10, y: 20 } } }),
+    })
+
+    expect(await (await fetch(layoutUrl('/tmp/checkout-b'))).json()).toEqual({
+      positions: {},
+    })
+    await fetch(layoutUrl('/tmp/checkout-a'), { method: 'DELETE' })
+  })
+
+  it('rejects invalid node positions', async () => {
+    const response = await fetch(`http://localhost:${port}/api/layout`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ positions: { 'bd-1': { x: 'left' } } }),
+    })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('returns 401 for a repository layout without authentication', async () => {
+    const response = await fetch(
+      `http://localhost:${port}/api/layout?owner=test-owner&repo=test-repo`
+    )
+
+    expect(response.status).toBe(401)
+  })
+})
@@ -1,25 +1,51 @@
 import { mkdirSync } from 'node:fs'
-import OpenAI from 'openai'
-import type {
-  ChatCompletionMessageFunctionToolCall,
-  ChatCompletionMessageParam,
-} from 'openai/resources/chat/completions'
+import {
+  applyChangeset,
+  type Changeset,
+  type ChangesetApplyResult,
+  isProposableTool,
+  proposeChange,
+} from './changeset'
 import {
   DEFAULT_GITHUB_REPOS_DIR,
+  getConfig,
   getLocalRepoPath,
   getRepoPath,
 } from './config'
+import { type Conversation, getConversationStore } from './conversation-store'
+import { getCriticalPath } from './critical-path'
+import { buildDecomposeMessage } from './decompose'
 import {
   ensureRepoCloned,
   getUserIdFromToken,
   listUserRepositories,
   pushRepository,
 } from './git-service'
-import { BeadsIssueTracker, type IssueTracker } from './issue-tracker'
+import { getGraphCache } from './graph-cache'
+import { buildGraphDigest } from './graph-digest'
+import {
+  createIssueTracker,
+  DEPENDENCY_TYPES,
+  type DependencyType,
+  type IssueTracker,
+} from './issue-tracker'
+import { getLayoutStore, isPinnedPositions } from './layout-store'
+import {
+  createLlmProvider,
+  type LlmMessage,
+  type LlmProvider,
+  type ToolCall,
+} from './llm'
+import { llmTools } from './llm-tools'
 import * as log from './logger'
-import { openaiTools } from './openai-tools'
-import { getSyncDebouncer } from './sync-debouncer'
-import { executeTool } from './tool-executor'
+import { getReadyIssues } from './ready-queue'
+import { combineCommitMessages, getSyncDebouncer } from './sync-debouncer'
+import {
+  executeTool,
+  type ToolExecutionResult,
+  type UpdateIssueInput,
+} from './tool-executor'
+import type { UserScope } from './user-scope'
 
 const PORT = process.env.PORT || 3001
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID
@@ -27,7 +53,17 @@ const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET
 const GITHUB_TOKEN_URL = 'https://github.com/login/oauth/access_token'
 const GITHUB_USER_URL = 'https://api.github.com/user'
 
-const openai = new OpenAI()
+let llmProvider: LlmProvider | null = null
+
+function getLlmProvider(): LlmProvider {
+  if (!llmProvider) {
+    llmProvider = createLlmProvider()
+    log.info(
+      `Using ${llmProvider.config.provider} chat provider (${llmProvider.config.model})`
+    )
+  }
+  return llmProvider
+}
 
 function getTokenFromCookies(req: Request): string | null {
   const cookieHeader = req.headers.get('cookie') || ''
@@ -52,17 +88,422 @@ You have access to tools that let you:
 - Add dependencies between issues (to show that one issue blocks another)
 - Remove dependencies
 - Update issue properties (title, description, type, priority, status)
-- Close issues when they are completed
+- Close issues when they are completed, and reopen them if work turns out to be unfinished
+- Add and remove labels that group issues by area
+- Look up issues: list and search them, get an issue's details, its blockers and dependents, and the issues ready to work on
 
 When users ask you to perform these actions, use the appropriate tools. After using a tool, briefly confirm what you did.
 
+Never guess issue IDs. When the user refers to an issue by name, search for it first. Answer questions about the graph, such as what is blocking an issue, by looking it up rather than from memory.
+
 Keep your responses concise and helpful. When listing or discussing issues, use their issue IDs so users can reference them.`
 
+const PROPOSE_PROMPT = `The user has asked to review changes before they are made. Tools that change the graph don't change it yet: each call adds a change to a proposal and returns its change ID, and create_issue returns a placeholder issue ID (such as new-1) to use in later changes until the issue exists. When you are done, briefly summarize the proposal; the user applies the changes they want.`
+
+/**
+ * Build the chat system prompt, with a digest of the repository's graph
+ * unless BEAD_FEEDER_CHAT_GRAPH_CONTEXT turns it off
+ * @param propose - Whether changes are proposed for review instead of made
+ */
+async function buildSystemPrompt(
+  tracker: IssueTracker,
+  repoPath: string,
+  propose: boolean
+): Promise<string> {
+  const prompt = propose
+    ? `${SYSTEM_PROMPT}\n\n${PROPOSE_PROMPT}`
+    : SYSTEM_PROMPT
+  const { chatGraphContext } = getConfig()
+  if (!chatGraphContext.enabled) {
+    return prompt
+  }
+
+  const result = await getGraphCache().get(repoPath, () => tracker.getGraph())
+  if (!result.success || !result.data) {
+    log.warn(`Chat started without graph context: ${result.error}`)
+    return prompt
+  }
+
+  const digest = buildGraphDigest(result.data.graph, {
+    maxTokens: chatGraphContext.maxTokens,
+  })
+  return `${prompt}
+
+The graph at the start of this conversation (use the query tools for details and for changes since):
+
+${digest}`
+}
+
 /**
  * Create an IssueTracker for the given repository path
  */
 function createTrackerForPath(cwd?: string): IssueTracker {
-  return new BeadsIssueTracker({ cwd })
+  return createIssueTracker({ cwd })
+}
+
+/**
+ * Check whether a conditional GET can be answered with 304 Not Modified
+ */
+function isNotModified(
+  req: Request,
+  etag: string,
+  lastModified: number
+): boolean {
+  const ifNoneMatch = req.headers.get('if-none-match')
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence over If-Modified-Since
+    return ifNoneMatch
+      .split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .some(tag => tag === etag || tag === '*')
+  }
+
+  const ifModifiedSince = req.headers.get('if-modified-since')
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince)
+    // HTTP dates have second precision
+    return (
+      !Number.isNaN(since) && Math.floor(lastModified / 1000) * 1000 <= since
+    )
+  }
+
+  return false
+}
+
+/**
+ * Respond with a repository's graph from the graph cache, answering
+ * conditional GETs with 304 when the graph hasn't changed
+ */
+async function graphResponse(
+  req: Request,
+  tracker: IssueTracker,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const repoPath = tracker.config.cwd ?? process.cwd()
+  const result = await getGraphCache().get(repoPath, () => tracker.getGraph())
+  if (!result.success || !result.data) {
+    throw new Error(result.error)
+  }
+
+  const { body, etag, lastModified } = result.data
+  const headers = {
+    ...corsHeaders,
+    ETag: etag,
+    'Last-Modified': new Date(lastModified).toUTCString(),
+    'Cache-Control': 'no-cache',
+    'Access-Control-Expose-Headers': 'ETag, Last-Modified',
+  }
+
+  if (isNotModified(req, etag, lastModified)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  return new Response(body, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * CORS headers for repository requests: GitHub repos are accessed with the
+ * user's cookie, so they need a specific origin and credentials
+ */
+function repoCorsHeaders(
+  owner: string | null,
+  repo: string | null,
+  origin: string
+): Record<string, string> {
+  if (owner && repo) {
+    return {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Credentials': 'true',
+    }
+  }
+  return { 'Access-Control-Allow-Origin': '*' }
+}
+
+/**
+ * Get whose stored conversations and layouts a request is about: the
+ * signed-in user's for a GitHub repository, otherwise the local repository's
+ * (optionally at the 'local' path)
+ * @throws If the user can't be identified
+ */
+async function getUserScope(
+  owner: string | null | undefined,
+  repo: string | null | undefined,
+  token: string | null,
+  localPath?: string | null
+): Promise<UserScope> {
+  if (!owner || !repo) {
+    return localPath ? { userId: 'local', localPath } : { userId: 'local' }
+  }
+  // Never fall back to the local repository for a GitHub one
+  if (!token) {
+    throw new Error('Authentication required')
+  }
+  const userIdResult = await getUserIdFromToken(token)
+  if (!userIdResult.success || !userIdResult.userId) {
+    throw new Error(
+      `Failed to get user ID: ${userIdResult.error || 'Unknown error'}`
+    )
+  }
+  return { userId: userIdResult.userId, owner, repo }
+}
+
+/**
+ * Get the tracker for a repository request: the user's clone of a GitHub
+ * repository when owner and repo are given, otherwise the local repository
+ * (optionally at the 'local' path)
+ * @throws If the user can't be identified or the repository can't be cloned
+ */
+async function getRepoTracker(
+  owner: string | null,
+  repo: string | null,
+  localPath: string | null,
+  token: string | null
+): Promise<IssueTracker> {
+  if (!owner || !repo || !token) {
+    // No owner/repo - use local bd command
+    return createTrackerForPath(localPath ?? undefined)
+  }
+
+  // Get user ID for per-user clone directory
+  const userIdResult = await getUserIdFromToken(token)
+  if (!userIdResult.success || !userIdResult.userId) {
+    throw new Error(
+      `Failed to get user ID: ${userIdResult.error || 'Unknown error'}`
+    )
+  }
+
+  // Ensure repo is cloned locally (sparse clone - only .beads directory)
+  // Skip pull to avoid slow network I/O - bd sync merges remote changes
+  // when edits are committed
+  const repoPath = getRepoPath(owner, repo, userIdResult.userId)
+  const cloneResult = await ensureRepoCloned(owner, repo, repoPath, token, {
+    skipPull: true,
+  })
+  if (!cloneResult.success) {
+    throw new Error(`Failed to clone repository: ${cloneResult.error}`)
+  }
+
+  return createTrackerForPath(repoPath)
+}
+
+const ISSUE_TYPES = ['task', 'bug', 'feature', 'epic']
+const EDITABLE_STATUSES = ['open', 'in_progress']
+
+/**
+ * Validate the body of an issue update, keeping only the editable fields
+ */
+function parseIssueUpdate(
+  body: unknown
+):
+  | { success: true; changes: Omit<UpdateIssueInput, 'issue_id'> }
+  | { success: false; error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { success: false, error: 'Request body must be a JSON object' }
+  }
+  const { title, description, type, priority, status, assignee } =
+    body as Record<string, unknown>
+  const changes: Omit<UpdateIssueInput, 'issue_id'> = {}
+
+  if (title !== undefined) {
+    if (typeof title !== 'string' || title.trim() === '') {
+      return { success: false, error: 'title must be a non-empty string' }
+    }
+    changes.title = title.trim()
+  }
+  if (description !== undefined) {
+    if (typeof description !== 'string') {
+      return { success: false, error: 'description must be a string' }
+    }
+    changes.description = description
+  }
+  if (type !== undefined) {
+    if (typeof type !== 'string' || !ISSUE_TYPES.includes(type)) {
+      return {
+        success: false,
+        error: `type must be one of ${ISSUE_TYPES.join(', ')}`,
+      }
+    }
+    changes.type = type as UpdateIssueInput['type']
+  }
+  if (priority !== undefined) {
+    if (
+      typeof priority !== 'number' ||
+      !Number.isInteger(priority) ||
+      priority < 0 ||
+      priority > 3
+    ) {
+      return {
+        success: false,
+        error: 'priority must be an integer from 0 to 3',
+      }
+    }
+    changes.priority = priority as UpdateIssueInput['priority']
+  }
+  if (status !== undefined) {
+    if (typeof status !== 'string' || !EDITABLE_STATUSES.includes(status)) {
+      return {
+        success: false,
+        error: `status must be one of ${EDITABLE_STATUSES.join(', ')}`,
+      }
+    }
+    changes.status = status as UpdateIssueInput['status']
+  }
+  if (assignee !== undefined) {
+    if (typeof assignee !== 'string') {
+      return { success: false, error: 'assignee must be a string' }
+    }
+    changes.assignee = assignee.trim()
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { success: false, error: 'No fields to update' }
+  }
+  return { success: true, changes }
+}
+
+// Repositories with a push scheduled after their next sync
+const pendingPushes = new Set<string>()
+
+/**
+ * Commit a .beads change through the repository's sync debouncer, so rapid
+ * edits are batched into a single commit. Remote repositories are pushed
+ * once the sync completes.
+ * @param token - GitHub token to push with, or null for local repositories
+ */
+function enqueueBeadsCommit(
+  repoPath: string,
+  message: string,
+  token: string | null
+): void {
+  const syncDebouncer = getSyncDebouncer({ cwd: repoPath })
+
+  if (token && !pendingPushes.has(repoPath)) {
+    pendingPushes.add(repoPath)
+    const unsubscribers: (() => void)[] = []
+    const stopWaiting = () => {
+      pendingPushes.delete(repoPath)
+      for (const unsubscribe of unsubscribers) {
+        unsubscribe()
+      }
+    }
+    unsubscribers.push(
+      syncDebouncer.on('syncComplete', async () => {
+        stopWaiting()
+        const pushResult = await pushRepository(repoPath, token, 'origin')
+        if (pushResult.success) {
+          log.info('Pushed changes to remote repository')
+        } else {
+          log.warn(`Failed to push changes: ${pushResult.error}`)
+        }
+      }),
+      syncDebouncer.on('syncError', stopWaiting)
+    )
+  }
+
+  syncDebouncer.enqueue(message)
+}
+
+/**
+ * Outcome of committing or pushing chat changes, reported to the client
+ */
+interface ChatSyncResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Commit changes made through chat right away, rather than debounced
+ * @returns The commit message, and whether the commit and sync succeeded
+ */
+async function commitChatChanges(
+  repoPath: string,
+  commitMessages: string[]
+): Promise<ChatSyncResult & { message: string }> {
+  getGraphCache().invalidate(repoPath)
+
+  // Use sync debouncer to commit and run bd sync --no-push
+  const syncDebouncer = getSyncDebouncer({ cwd: repoPath })
+  for (const commitMessage of commitMessages) {
+    syncDebouncer.enqueue(commitMessage)
+  }
+  await syncDebouncer.flush()
+
+  const message = combineCommitMessages(commitMessages)
+  const { status, lastError } = syncDebouncer.getState()
+  if (status === 'error') {
+    return { success: false, message, error: lastError ?? 'Sync failed' }
+  }
+  return { success: true, message }
+}
+
+/**
+ * Push chat changes to a GitHub repository with explicit token auth
+ * (bd sync --no-push doesn't push, so we need to push separately)
+ */
+async function pushChatChanges(
+  repoPath: string,
+  token: string
+): Promise<ChatSyncResult> {
+  const pushResult = await pushRepository(repoPath, token, 'origin')
+  if (!pushResult.success) {
+    log.warn(`Failed to push changes: ${pushResult.error}`)
+    return { success: false, error: pushResult.error }
+  }
+  log.info('Pushed changes to remote repository')
+  return { success: true }
+}
+
+/**
+ * Describe the outcome of applying a changeset, for the conversation
+ */
+function describeAppliedChanges({
+  applied,
+  failed,
+}: ChangesetApplyResult): string {
+  const lines = [
+    `Applied ${applied.length} of ${applied.length + failed.length} proposed changes.`,
+    ...applied.map(({ change, issueId }) =>
+      change.type === 'createIssue' && issueId
+        ? `- ${change.summary} as ${issueId}`
+        : `- ${change.summary}`
+    ),
+  ]
+  if (failed.length > 0) {
+    lines.push(
+      'Failed:',
+      ...failed.map(({ change, error }) => `- ${change.summary}: ${error}`)
+    )
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Change an issue through one of the chat tools, so edits made in the UI
+ * get the same commit messages as changes made in chat. The commit is
+ * debounced rather than flushed, so a run of edits (such as reordering
+ * several issues) lands in one commit.
+ * @param pushToken - GitHub token to push with, or null for local repositories
+ * @throws If the tool fails
+ */
+async function runIssueTool(
+  toolName: string,
+  input: Record<string, unknown>,
+  tracker: IssueTracker,
+  pushToken: string | null
+): Promise<ToolExecutionResult> {
+  const result = await executeTool(toolName, input, tracker)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+
+  const repoPath = tracker.config.cwd ?? process.cwd()
+  getGraphCache().invalidate(repoPath)
+  if (result.commitMessage) {
+    enqueueBeadsCommit(repoPath, result.commitMessage, pushToken)
+  }
+  return result
 }
 
 async function handleRequest(req: Request): Promise<Response> {
@@ -75,8 +516,9 @@ async function handleRequest(req: Request): Promise<Response> {
     return new Response(null, {
       headers: {
         'Access-Control-Allow-Origin': origin,
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers':
+          'Content-Type, If-None-Match, If-Modified-Since',
         'Access-Control-Allow-Credentials': 'true',
       },
     })
@@ -110,11 +552,12 @@ async function handleRequest(req: Request): Promise<Response> {
   if (url.pathname === '/api/issues' && req.method === 'POST') {
     try {
       const body = await req.json()
-      const { title, description, type, priority } = body as {
+      const { title, description, type, priority, labels } = body as {
         title?: string
         description?: string
         type?: string
         priority?: number
+        labels?: string[]
       }
 
       if (!title || typeof title !== 'string' || title.trim() === '') {
@@ -132,17 +575,36 @@ async function handleRequest(req: Request): Promise<Response> {
         )
       }
 
+      if (
+        labels !== undefined &&
+        (!Array.isArray(labels) ||
+          labels.some(label => typeof label !== 'string'))
+      ) {
+        return new Response(
+          JSON.stringify({ error: 'labels must be an array of strings' }),
+          {
+            status: 400,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': '*',
+            },
+          }
+        )
+      }
+
       const tracker = createTrackerForPath()
       const result = await tracker.createIssue({
         title: title.trim(),
         description,
-        type: type as 'task' | 'bug' | 'feature' | undefined,
+        type: type as 'task' | 'bug' | 'feature' | 'epic' | undefined,
         priority: priority as 0 | 1 | 2 | 3 | undefined,
+        labels,
       })
 
       if (!result.success) {
         throw new Error(result.error)
       }
+      getGraphCache().invalidate(process.cwd())
 
       return new Response(JSON.stringify(result.data), {
         status: 201,
@@ -161,188 +623,649 @@ async function handleRequest(req: Request): Promise<Response> {
         },
       })
     }
-  }
-
-  if (url.pathname === '/api/dependencies' && req.method === 'POST') {
-    try {
-      const body = await req.json()
-      const { blocked, blocker } = body as {
-        blocked?: string
-        blocker?: string
-      }
+  }
+
+  const issueMatch = url.pathname.match(/^\/api\/issues\/([^/]+)$/)
+  if (issueMatch && req.method === 'PATCH') {
+    const issueId = decodeURIComponent(issueMatch[1])
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const parsed = parseIssueUpdate(await req.json())
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: parsed.error }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        })
+      }
+
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      const result = await runIssueTool(
+        'update_issue',
+        { issue_id: issueId, ...parsed.changes },
+        tracker,
+        owner && repo ? token : null
+      )
+
+      return new Response(JSON.stringify(result.result), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  const issueActionMatch = url.pathname.match(
+    /^\/api\/issues\/([^/]+)\/(close|reopen)$/
+  )
+  if (issueActionMatch && req.method === 'POST') {
+    const issueId = decodeURIComponent(issueActionMatch[1])
+    const action = issueActionMatch[2]
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      // The reason is optional, so the body may be empty
+      const body = (await req.json().catch(() => ({}))) as { reason?: unknown }
+      const { reason } = body ?? {}
+      if (reason !== undefined && typeof reason !== 'string') {
+        return new Response(
+          JSON.stringify({ error: 'reason must be a string' }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          }
+        )
+      }
+
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      const result = await runIssueTool(
+        action === 'close' ? 'close_issue' : 'reopen_issue',
+        { issue_id: issueId, reason: reason?.trim() || undefined },
+        tracker,
+        owner && repo ? token : null
+      )
+
+      return new Response(JSON.stringify(result.result), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  if (url.pathname === '/api/dependencies' && req.method === 'POST') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const body = await req.json()
+      const { blocked, blocker, type } = body as {
+        blocked?: unknown
+        blocker?: unknown
+        type?: unknown
+      }
+
+      for (const [name, value] of [
+        ['blocked', blocked],
+        ['blocker', blocker],
+      ] as const) {
+        if (typeof value !== 'string' || value.trim() === '') {
+          return new Response(
+            JSON.stringify({
+              error: `${name} is required and must be a non-empty string`,
+            }),
+            {
+              status: 400,
+              headers: { 'Content-Type': 'application/json', ...corsHeaders },
+            }
+          )
+        }
+      }
+
+      if (
+        type !== undefined &&
+        (typeof type !== 'string' ||
+          !DEPENDENCY_TYPES.includes(type as DependencyType))
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `type must be one of ${DEPENDENCY_TYPES.join(', ')}`,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          }
+        )
+      }
+
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      const result = await runIssueTool(
+        'add_dependency',
+        {
+          blocked_issue_id: (blocked as string).trim(),
+          blocker_issue_id: (blocker as string).trim(),
+          type,
+        },
+        tracker,
+        owner && repo ? token : null
+      )
+
+      return new Response(JSON.stringify(result.result), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      if (message.includes('cycle') || message.includes('circular')) {
+        return new Response(
+          JSON.stringify({
+            error: 'Adding this dependency would create a cycle',
+            details: message,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          }
+        )
+      }
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  if (url.pathname === '/api/dependencies' && req.method === 'DELETE') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const body = await req.json()
+      const { blocked, blocker } = body as {
+        blocked?: unknown
+        blocker?: unknown
+      }
+
+      for (const [name, value] of [
+        ['blocked', blocked],
+        ['blocker', blocker],
+      ] as const) {
+        if (typeof value !== 'string' || value.trim() === '') {
+          return new Response(
+            JSON.stringify({
+              error: `${name} is required and must be a non-empty string`,
+            }),
+            {
+              status: 400,
+              headers: { 'Content-Type': 'application/json', ...corsHeaders },
+            }
+          )
+        }
+      }
+
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      await runIssueTool(
+        'remove_dependency',
+        {
+          blocked_issue_id: (blocked as string).trim(),
+          blocker_issue_id: (blocker as string).trim(),
+        },
+        tracker,
+        owner && repo ? token : null
+      )
+
+      return new Response(null, { status: 204, headers: corsHeaders })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: message.includes('not found') ? 404 : 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  if (url.pathname === '/api/graph' && req.method === 'GET') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    // If owner and repo provided, use local clone of remote repo
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      return await graphResponse(req, tracker, corsHeaders)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  if (url.pathname === '/api/ready' && req.method === 'GET') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      const repoPath = tracker.config.cwd ?? process.cwd()
+      const result = await getGraphCache().get(repoPath, () =>
+        tracker.getGraph()
+      )
+      if (!result.success || !result.data) {
+        throw new Error(result.error)
+      }
+
+      return new Response(JSON.stringify(getReadyIssues(result.data.graph)), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  // Longest chain of unfinished blocking issues, optionally by estimate
+  if (url.pathname === '/api/critical-path' && req.method === 'GET') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const weighted = url.searchParams.get('weighted') === 'true'
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const tracker = await getRepoTracker(owner, repo, localPath, token)
+      const repoPath = tracker.config.cwd ?? process.cwd()
+      const result = await getGraphCache().get(repoPath, () =>
+        tracker.getGraph()
+      )
+      if (!result.success || !result.data) {
+        throw new Error(result.error)
+      }
+
+      return new Response(
+        JSON.stringify(getCriticalPath(result.data.graph, { weighted })),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  // Get, pin or reset the hand-placed node positions for a repository
+  if (
+    url.pathname === '/api/layout' &&
+    (req.method === 'GET' || req.method === 'PATCH' || req.method === 'DELETE')
+  ) {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      let positions: unknown
+      if (req.method === 'PATCH') {
+        positions = ((await req.json()) as { positions?: unknown }).positions
+        if (!isPinnedPositions(positions)) {
+          return new Response(
+            JSON.stringify({
+              error: 'positions must map issue IDs to {x, y} positions',
+            }),
+            {
+              status: 400,
+              headers: { 'Content-Type': 'application/json', ...corsHeaders },
+            }
+          )
+        }
+      }
+
+      const scope = await getUserScope(owner, repo, token, localPath)
+      const store = getLayoutStore()
+
+      if (req.method === 'DELETE') {
+        await store.reset(scope)
+        return new Response(null, { status: 204, headers: corsHeaders })
+      }
+
+      const pinned = isPinnedPositions(positions)
+        ? await store.pin(scope, positions)
+        : await store.get(scope)
+      return new Response(JSON.stringify({ positions: pinned }), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  // List chat conversations for a repository
+  if (url.pathname === '/api/conversations' && req.method === 'GET') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const scope = await getUserScope(owner, repo, token, localPath)
+      const conversations = await getConversationStore().list(scope)
+      return new Response(JSON.stringify(conversations), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return new Response(JSON.stringify({ error: message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+  }
+
+  // Get, rename or delete a chat conversation
+  const conversationMatch = url.pathname.match(
+    /^\/api\/conversations\/([^/]+)$/
+  )
+  if (
+    conversationMatch &&
+    (req.method === 'GET' || req.method === 'PATCH' || req.method === 'DELETE')
+  ) {
+    const conversationId = decodeURIComponent(conversationMatch[1])
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
+
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
 
-      if (!blocked || typeof blocked !== 'string' || blocked.trim() === '') {
-        return new Response(
-          JSON.stringify({
-            error: 'blocked is required and must be a non-empty string',
-          }),
-          {
-            status: 400,
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Origin': '*',
-            },
-          }
-        )
-      }
+    const notFound = () =>
+      new Response(JSON.stringify({ error: 'Conversation not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
 
-      if (!blocker || typeof blocker !== 'string' || blocker.trim() === '') {
-        return new Response(
-          JSON.stringify({
-            error: 'blocker is required and must be a non-empty string',
-          }),
-          {
+    try {
+      let title: string | undefined
+      if (req.method === 'PATCH') {
+        const body = (await req.json()) as { title?: unknown }
+        title = typeof body.title === 'string' ? body.title.trim() : ''
+        if (!title) {
+          return new Response(JSON.stringify({ error: 'title is required' }), {
             status: 400,
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Origin': '*',
-            },
-          }
-        )
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          })
+        }
       }
 
-      const tracker = createTrackerForPath()
-      const result = await tracker.addDependency(blocked.trim(), blocker.trim())
+      const scope = await getUserScope(owner, repo, token, localPath)
+      const store = getConversationStore()
 
-      if (!result.success) {
-        // Check for cycle detection errors
-        if (
-          result.error?.includes('cycle') ||
-          result.error?.includes('circular')
-        ) {
-          return new Response(
-            JSON.stringify({
-              error: 'Adding this dependency would create a cycle',
-              details: result.error,
-            }),
-            {
-              status: 400,
-              headers: {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*',
-              },
-            }
-          )
+      if (req.method === 'DELETE') {
+        if (!(await store.delete(scope, conversationId))) {
+          return notFound()
         }
-        throw new Error(result.error)
+        return new Response(null, { status: 204, headers: corsHeaders })
       }
 
-      return new Response(JSON.stringify(result.data), {
-        status: 201,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
+      const conversation =
+        title === undefined
+          ? await store.get(scope, conversationId)
+          : await store.rename(scope, conversationId, title)
+      if (!conversation) {
+        return notFound()
+      }
+      return new Response(JSON.stringify(conversation), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
       })
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
       return new Response(JSON.stringify({ error: message }), {
         status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
       })
     }
   }
 
-  if (url.pathname === '/api/graph' && req.method === 'GET') {
+  // Apply or discard the changes proposed in a conversation
+  const changesetMatch = url.pathname.match(
+    /^\/api\/conversations\/([^/]+)\/changeset(\/apply)?$/
+  )
+  if (
+    changesetMatch &&
+    ((changesetMatch[2] && req.method === 'POST') ||
+      (!changesetMatch[2] && req.method === 'DELETE'))
+  ) {
+    const conversationId = decodeURIComponent(changesetMatch[1])
     const owner = url.searchParams.get('owner')
     const repo = url.searchParams.get('repo')
     const localPath = url.searchParams.get('local')
+    const corsHeaders = repoCorsHeaders(owner, repo, origin)
 
-    // If owner and repo provided, use local clone of remote repo
-    if (owner && repo) {
-      const token = getTokenFromCookies(req)
-      if (!token) {
+    const token = getTokenFromCookies(req)
+    if (owner && repo && !token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        {
+          status: 401,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        }
+      )
+    }
+
+    try {
+      const scope = await getUserScope(owner, repo, token, localPath)
+      const store = getConversationStore()
+      const conversation = await store.get(scope, conversationId)
+      if (!conversation?.changeset) {
         return new Response(
-          JSON.stringify({ error: 'Authentication required' }),
+          JSON.stringify({ error: 'No proposed changes to apply' }),
           {
-            status: 401,
-            headers: {
-              'Content-Type': 'application/json',
-              'Access-Control-Allow-Origin': origin,
-              'Access-Control-Allow-Credentials': 'true',
-            },
+            status: 404,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
           }
         )
       }
+      const changeset: Changeset = conversation.changeset
 
-      try {
-        // Get user ID for per-user clone directory
-        const userIdResult = await getUserIdFromToken(token)
-        if (!userIdResult.success || !userIdResult.userId) {
-          throw new Error(
-            `Failed to get user ID: ${userIdResult.error || 'Unknown error'}`
-          )
-        }
-        const userId = userIdResult.userId
+      if (req.method === 'DELETE') {
+        await store.save(scope, { ...conversation, changeset: undefined })
+        return new Response(null, { status: 204, headers: corsHeaders })
+      }
 
-        // Ensure repo is cloned locally (sparse clone - only .beads directory)
-        // Skip pull for read-only graph requests to avoid slow network I/O
-        const repoPath = getRepoPath(owner, repo, userId)
-        const cloneResult = await ensureRepoCloned(
-          owner,
-          repo,
-          repoPath,
-          token,
+      const body = (await req.json()) as { changeIds?: unknown }
+      if (
+        !Array.isArray(body.changeIds) ||
+        !body.changeIds.every(id => typeof id === 'string')
+      ) {
+        return new Response(
+          JSON.stringify({ error: 'changeIds must be an array of strings' }),
           {
-            skipPull: true,
+            status: 400,
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
           }
         )
-        if (!cloneResult.success) {
-          throw new Error(`Failed to clone repository: ${cloneResult.error}`)
-        }
-
-        const tracker = createTrackerForPath(repoPath)
-        const result = await tracker.getGraph()
-        if (!result.success) {
-          throw new Error(result.error)
-        }
-
-        return new Response(JSON.stringify(result.data), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': origin,
-            'Access-Control-Allow-Credentials': 'true',
-          },
-        })
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error'
-        return new Response(JSON.stringify({ error: message }), {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': origin,
-            'Access-Control-Allow-Credentials': 'true',
-          },
-        })
       }
-    }
 
-    // No owner/repo - use local bd command
-    // Optionally use 'local' query param to specify repository path
-    try {
-      const tracker = createTrackerForPath(localPath ?? undefined)
-      const result = await tracker.getGraph()
-      if (!result.success) {
-        throw new Error(result.error)
+      // Local chat works on the local repository, so changes apply there too
+      const tracker = await getRepoTracker(
+        owner,
+        repo,
+        localPath ?? getLocalRepoPath(),
+        token
+      )
+      const result = await applyChangeset(changeset, body.changeIds, tracker)
+      const repoPath = tracker.config.cwd ?? process.cwd()
+      let commit: ChatSyncResult | undefined
+      let push: ChatSyncResult | undefined
+      if (result.commitMessages.length > 0) {
+        commit = await commitChatChanges(repoPath, result.commitMessages)
+        if (owner && repo && token) {
+          push = await pushChatChanges(repoPath, token)
+        }
       }
 
-      return new Response(JSON.stringify(result.data), {
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
+      // Record the outcome, so the assistant knows the real issue IDs
+      await store.save(scope, {
+        ...conversation,
+        changeset: undefined,
+        messages: [
+          ...conversation.messages,
+          { role: 'assistant', content: describeAppliedChanges(result) },
+        ],
       })
+
+      return new Response(
+        JSON.stringify({
+          applied: result.applied,
+          failed: result.failed,
+          commit,
+          push,
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      )
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
       return new Response(JSON.stringify({ error: message }), {
         status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
       })
     }
   }
@@ -350,13 +1273,27 @@ async function handleRequest(req: Request): Promise<Response> {
   if (url.pathname === '/api/chat' && req.method === 'POST') {
     try {
       const body = await req.json()
-      const { messages, owner, repo } = body as {
-        messages?: ChatMessage[]
-        owner?: string
-        repo?: string
-      }
+      const { messages, conversationId, mode, decompose, owner, repo, local } =
+        body as {
+          // New messages, appended to the conversation when resuming one
+          messages?: ChatMessage[]
+          conversationId?: string
+          // 'propose' collects graph changes for review instead of making them
+          mode?: 'apply' | 'propose'
+          // ID of an issue to break down into subtasks, in propose mode
+          decompose?: string
+          owner?: string
+          repo?: string
+          // Path of the local repository, when not the server's
+          local?: string
+        }
 
-      if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      // Decomposing an issue needs no message of its own
+      const hasMessages = Array.isArray(messages) && messages.length > 0
+      if (
+        !hasMessages &&
+        !(typeof decompose === 'string' && decompose && messages === undefined)
+      ) {
         // Use specific origin with credentials for validation errors too
         // since this endpoint may receive credentialed requests
         return new Response(
@@ -377,6 +1314,7 @@ async function handleRequest(req: Request): Promise<Response> {
       // For remote repos, get token and userId early for per-user clones
       let repoWorkDir: string
       let token: string | null = null
+      let scope: UserScope = { userId: 'local' }
 
       if (owner && repo) {
         token = getTokenFromCookies(req)
@@ -413,6 +1351,7 @@ async function handleRequest(req: Request): Promise<Response> {
         }
 
         repoWorkDir = getRepoPath(owner, repo, userIdResult.userId)
+        scope = { userId: userIdResult.userId, owner, repo }
 
         const cloneResult = await ensureRepoCloned(
           owner,
@@ -435,6 +1374,9 @@ async function handleRequest(req: Request): Promise<Response> {
             }
           )
         }
+      } else if (typeof local === 'string' && local) {
+        repoWorkDir = local
+        scope = { userId: 'local', localPath: local }
       } else {
         repoWorkDir = getLocalRepoPath()
       }
@@ -442,172 +1384,204 @@ async function handleRequest(req: Request): Promise<Response> {
       // Create tracker for the working directory
       const tracker = createTrackerForPath(repoWorkDir)
 
-      // Convert chat messages to OpenAI format
-      const openaiMessages: ChatCompletionMessageParam[] = [
-        { role: 'system', content: SYSTEM_PROMPT },
-        ...messages.map(
-          m =>
-            ({
-              role: m.role,
-              content: m.content,
-            }) as ChatCompletionMessageParam
-        ),
-      ]
+      const newMessages: LlmMessage[] = (messages ?? []).map(m => ({
+        role: m.role,
+        content: m.content,
+      }))
+
+      // The assistant is asked to decompose the issue as the user
+      if (decompose) {
+        const graphResult = await getGraphCache().get(repoWorkDir, () =>
+          tracker.getGraph()
+        )
+        if (!graphResult.success || !graphResult.data) {
+          throw new Error(graphResult.error ?? 'Failed to load issues')
+        }
+        const content = buildDecomposeMessage(graphResult.data.graph, decompose)
+        if (!content) {
+          return new Response(JSON.stringify({ error: 'Issue not found' }), {
+            status: 404,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': origin,
+              'Access-Control-Allow-Credentials': 'true',
+            },
+          })
+        }
+        newMessages.push({ role: 'user', content })
+      }
+
+      // Resume a stored conversation, or start a new one
+      const store = getConversationStore()
+      let conversation: Conversation
+      if (conversationId) {
+        const stored = await store.get(scope, conversationId)
+        if (!stored) {
+          return new Response(
+            JSON.stringify({ error: 'Conversation not found' }),
+            {
+              status: 404,
+              headers: {
+                'Content-Type': 'application/json',
+                'Access-Control-Allow-Origin': origin,
+                'Access-Control-Allow-Credentials': 'true',
+              },
+            }
+          )
+        }
+        conversation = {
+          ...stored,
+          messages: [...stored.messages, ...newMessages],
+        }
+      } else {
+        conversation = store.create(newMessages)
+      }
+
+      const propose = mode === 'propose' || !!decompose
+      const provider = getLlmProvider()
+      const system = await buildSystemPrompt(tracker, repoWorkDir, propose)
+
+      // Proposed changes may only refer to issues that exist
+      let existingIssueIds: Set<string> | null = null
+      const getExistingIssueIds = async (): Promise<Set<string>> => {
+        if (!existingIssueIds) {
+          const result = await getGraphCache().get(repoWorkDir, () =>
+            tracker.getGraph()
+          )
+          existingIssueIds = new Set(
+            result.data?.graph.issues.map(issue => issue.id)
+          )
+        }
+        return existingIssueIds
+      }
 
       const responseStream = new ReadableStream({
         async start(controller) {
           const encoder = new TextEncoder()
-          const currentMessages = [...openaiMessages]
+          const send = (event: Record<string, unknown>) => {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+            )
+          }
           const toolsUsed: string[] = []
+          // Query tools don't change the graph
+          let graphChanged = false
+
+          // Tell the client which conversation to resume next time
+          send({ conversationId: conversation.id })
 
-          // Agentic loop - keep running until no more tool calls
-          while (true) {
-            const stream = await openai.chat.completions.create({
-              model: 'gpt-4o',
-              max_tokens: 1024,
-              messages: currentMessages,
-              tools: openaiTools,
-              stream: true,
-            })
-
-            // Collect the full response
-            let textContent = ''
-            const toolCalls: ChatCompletionMessageFunctionToolCall[] = []
-            // Track partial tool calls as they stream in
-            const partialToolCalls: Map<
-              number,
-              { id: string; name: string; arguments: string }
-            > = new Map()
-
-            for await (const chunk of stream) {
-              const delta = chunk.choices[0]?.delta
-
-              // Handle text content
-              if (delta?.content) {
-                textContent += delta.content
-                const data = `data: ${JSON.stringify({ text: delta.content })}\n\n`
-                controller.enqueue(encoder.encode(data))
+          try {
+            // Agentic loop - keep running until no more tool calls
+            while (true) {
+              // Collect the full response
+              let textContent = ''
+              const toolCalls: ToolCall[] = []
+
+              for await (const event of provider.stream({
+                system,
+                messages: conversation.messages,
+                tools: llmTools,
+              })) {
+                if (event.type === 'text') {
+                  textContent += event.text
+                  send({ text: event.text })
+                } else {
+                  toolCalls.push(event.toolCall)
+                }
               }
 
-              // Handle tool calls (they stream in incrementally)
-              if (delta?.tool_calls) {
-                for (const toolCallDelta of delta.tool_calls) {
-                  const index = toolCallDelta.index
-                  let partial = partialToolCalls.get(index)
-
-                  if (!partial) {
-                    partial = { id: '', name: '', arguments: '' }
-                    partialToolCalls.set(index, partial)
-                  }
-
-                  if (toolCallDelta.id) {
-                    partial.id = toolCallDelta.id
-                  }
-                  if (toolCallDelta.function?.name) {
-                    partial.name = toolCallDelta.function.name
-                  }
-                  if (toolCallDelta.function?.arguments) {
-                    partial.arguments += toolCallDelta.function.arguments
-                  }
+              // If no tool calls, we're done
+              if (toolCalls.length === 0) {
+                if (textContent) {
+                  conversation.messages.push({
+                    role: 'assistant',
+                    content: textContent,
+                  })
                 }
+                break
               }
-            }
 
-            // Convert partial tool calls to complete tool calls
-            for (const [, partial] of partialToolCalls) {
-              if (partial.id && partial.name) {
-                toolCalls.push({
-                  id: partial.id,
-                  type: 'function',
-                  function: {
-                    name: partial.name,
-                    arguments: partial.arguments,
+              // Execute tools and build tool results
+              const toolResults: LlmMessage[] = []
+              const commitMessages: string[] = []
+              let changesetUpdated = false
+              for (const toolCall of toolCalls) {
+                toolsUsed.push(toolCall.name)
+                send({ toolCallStarted: toolCall })
+                let result: ToolExecutionResult
+                if (propose && isProposableTool(toolCall.name)) {
+                  conversation.changeset ??= { changes: [] }
+                  result = proposeChange(
+                    conversation.changeset,
+                    toolCall.name,
+                    toolCall.input,
+                    await getExistingIssueIds()
+                  )
+                  changesetUpdated ||= result.success
+                } else {
+                  result = await executeTool(
+                    toolCall.name,
+                    toolCall.input,
+                    tracker
+                  )
+                }
+
+                // The result is the issue created or changed, if any
+                send({
+                  toolCallResult: {
+                    id: toolCall.id,
+                    name: toolCall.name,
+                    success: result.success,
+                    ...(result.success
+                      ? { result: result.result }
+                      : { error: result.error }),
                   },
                 })
-              }
-            }
-
-            // If no tool calls, we're done
-            if (toolCalls.length === 0) {
-              break
-            }
 
-            // Execute tools and build tool results
-            const toolResults: {
-              role: 'tool'
-              tool_call_id: string
-              content: string
-            }[] = []
-            const commitMessages: string[] = []
-            for (const toolCall of toolCalls) {
-              toolsUsed.push(toolCall.function.name)
-              const args = JSON.parse(toolCall.function.arguments)
-              const result = await executeTool(
-                toolCall.function.name,
-                args,
-                tracker
-              )
+                toolResults.push({
+                  role: 'tool',
+                  toolCallId: toolCall.id,
+                  content: result.success
+                    ? JSON.stringify(result.result)
+                    : `Error: ${result.error}`,
+                })
 
-              toolResults.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: result.success
-                  ? JSON.stringify(result.result)
-                  : `Error: ${result.error}`,
-              })
-
-              // Collect commit messages from successful tool executions
-              if (result.success && result.commitMessage) {
-                commitMessages.push(result.commitMessage)
+                // Collect commit messages from successful tool executions
+                if (result.success && result.commitMessage) {
+                  commitMessages.push(result.commitMessage)
+                }
               }
-            }
 
-            // If any tools modified beads, commit and sync
-            if (commitMessages.length > 0) {
-              const commitMessage =
-                commitMessages.length === 1
-                  ? commitMessages[0]
-                  : `feat(beads): Multiple changes\n\n${commitMessages.map(m => `- ${m}`).join('\n')}`
-
-              // Use sync debouncer to commit and run bd sync --no-push
-              // For chat operations, we flush immediately
-              const syncDebouncer = getSyncDebouncer({ cwd: repoWorkDir })
-              syncDebouncer.enqueue(commitMessage)
-              await syncDebouncer.flush()
-
-              // For remote repos, push with explicit token auth
-              // (bd sync --no-push doesn't push, so we need to push separately)
-              if (token && owner && repo) {
-                const pushResult = await pushRepository(
-                  repoWorkDir,
-                  token,
-                  'origin'
-                )
-                if (pushResult.success) {
-                  log.info('Pushed changes to remote repository')
-                } else {
-                  log.warn(`Failed to push changes: ${pushResult.error}`)
+              // If any tools modified beads, commit and sync
+              if (commitMessages.length > 0) {
+                graphChanged = true
+                send({
+                  commit: await commitChatChanges(repoWorkDir, commitMessages),
+                })
+                if (token) {
+                  send({ push: await pushChatChanges(repoWorkDir, token) })
                 }
               }
-            }
 
-            // Add assistant message with tool calls
-            currentMessages.push({
-              role: 'assistant',
-              content: textContent || null,
-              tool_calls: toolCalls,
-            })
+              // Send the whole proposal, so the client can show it as is
+              if (changesetUpdated) {
+                send({ changeset: conversation.changeset })
+              }
 
-            // Add tool results
-            for (const toolResult of toolResults) {
-              currentMessages.push(toolResult)
+              // Add assistant message with tool calls, then their results
+              conversation.messages.push(
+                { role: 'assistant', content: textContent, toolCalls },
+                ...toolResults
+              )
             }
+          } finally {
+            // Keep whatever was said, even if the model call failed
+            await store.save(scope, conversation)
           }
 
-          // Send graph update notification if tools were used
-          if (toolsUsed.length > 0) {
-            const graphUpdate = `data: ${JSON.stringify({ graphUpdated: true, toolsUsed })}\n\n`
-            controller.enqueue(encoder.encode(graphUpdate))
+          // Send graph update notification if tools changed the graph
+          if (graphChanged) {
+            send({ graphUpdated: true, toolsUsed })
           }
 
           controller.enqueue(encoder.encode('data: [DONE]\n\n'))
@@ -1108,6 +2082,112 @@ async function handleRequest(req: Request): Promise<Response> {
     })
   }
 
+  if (url.pathname === '/api/graph/events' && req.method === 'GET') {
+    const owner = url.searchParams.get('owner')
+    const repo = url.searchParams.get('repo')
+    const localPath = url.searchParams.get('local')
+    let graphCwd: string
+    let corsHeaders: Record<string, string>
+
+    if (owner && repo) {
+      const token = getTokenFromCookies(req)
+      if (!token) {
+        return new Response(
+          JSON.stringify({ error: 'Authentication required' }),
+          {
+            status: 401,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': origin,
+              'Access-Control-Allow-Credentials': 'true',
+            },
+          }
+        )
+      }
+      const userIdResult = await getUserIdFromToken(token)
+      if (!userIdResult.success || !userIdResult.userId) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to get user ID' }),
+          {
+            status: 500,
+            headers: {
+              'Content-Type': 'application/json',
+              'Access-Control-Allow-Origin': origin,
+              'Access-Control-Allow-Credentials': 'true',
+            },
+          }
+        )
+      }
+      graphCwd = getRepoPath(owner, repo, userIdResult.userId)
+      corsHeaders = {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Credentials': 'true',
+      }
+    } else {
+      // Same repository /api/graph uses without owner/repo
+      graphCwd = localPath ?? process.cwd()
+      corsHeaders = { 'Access-Control-Allow-Origin': '*' }
+    }
+
+    const tracker = createTrackerForPath(graphCwd)
+    const encoder = new TextEncoder()
+    let cleanup: (() => void) | null = null
+
+    const responseStream = new ReadableStream({
+      async start(controller) {
+        const send = (data: unknown) => {
+          try {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+            )
+          } catch {
+            // Connection closed
+            cleanup?.()
+          }
+        }
+
+        const unsubscribe = await getGraphCache().subscribe(
+          graphCwd,
+          () => tracker.getGraph(),
+          changes => send({ type: 'changes', changes })
+        )
+
+        // Send heartbeat every 30 seconds to keep connection alive
+        const heartbeatInterval = setInterval(() => {
+          try {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'))
+          } catch {
+            cleanup?.()
+          }
+        }, 30000)
+
+        cleanup = () => {
+          clearInterval(heartbeatInterval)
+          unsubscribe()
+          cleanup = null
+        }
+
+        // Lets the client detect changes made before it subscribed
+        const cached = await getGraphCache().get(graphCwd, () =>
+          tracker.getGraph()
+        )
+        send({ type: 'connected', etag: cached.data?.etag ?? null })
+      },
+      cancel() {
+        cleanup?.()
+      },
+    })
+
+    return new Response(responseStream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...corsHeaders,
+      },
+    })
+  }
+
   return new Response('Not found', { status: 404 })
 }
 
@@ -8,6 +8,7 @@ import {
   spyOn,
 } from 'bun:test'
 import {
+  combineCommitMessages,
   getSyncDebouncer,
   resetSyncDebouncer,
   SyncDebouncer,
@@ -122,4 +123,31 @@ describe('SyncDebouncer', () => {
       debouncer2.stop()
     })
   })
+
+  describe('combineCommitMessages', () => {
+    it('uses a single message as is', () => {
+      expect(
+        combineCommitMessages([
+          'feat(beads): Update issue bd-1 (priority -> P0)',
+        ])
+      ).toBe('feat(beads): Update issue bd-1 (priority -> P0)')
+    })
+
+    it('lists multiple messages in one commit', () => {
+      expect(
+        combineCommitMessages([
+          'feat(beads): Update issue bd-1 (priority -> P0)',
+          'feat(beads): Update issue bd-2 (priority -> P3)',
+        ])
+      ).toBe(
+        'feat(beads): Multiple changes\n\n' +
+          '- feat(beads): Update issue bd-1 (priority -> P0)\n' +
+          '- feat(beads): Update issue bd-2 (priority -> P3)'
+      )
+    })
+
+    it('falls back to a default message', () => {
+      expect(combineCommitMessages([])).toBe('Update beads')
+    })
+  })
 })
@@ -20,6 +20,19 @@ export interface SyncDebouncerState {
 type SyncEventType = 'statusChange' | 'syncComplete' | 'syncError'
 type SyncEventHandler = (data: unknown) => void
 
+/**
+ * Combine the messages of changes synced together into one commit message
+ */
+export function combineCommitMessages(messages: string[]): string {
+  if (messages.length === 0) {
+    return 'Update beads'
+  }
+  if (messages.length === 1) {
+    return messages[0]
+  }
+  return `feat(beads): Multiple changes\n\n${messages.map(m => `- ${m}`).join('\n')}`
+}
+
 /**
  * Simple debouncer for git sync operations.
  * After a change, waits for debounce period then:
@@ -36,7 +49,7 @@ export class SyncDebouncer {
   private debounceTimer: ReturnType<typeof setTimeout> | null = null
   private pending = false
   private processing = false
-  private pendingMessage: string | null = null
+  private pendingMessages: string[] = []
   private config: { debounceMs: number; cwd: string }
   private eventHandlers: Map<SyncEventType, Set<SyncEventHandler>> = new Map()
 
@@ -104,12 +117,13 @@ export class SyncDebouncer {
 
   /**
    * Queue a sync after a change.
-   * Multiple rapid calls will be debounced into a single sync.
+   * Multiple rapid calls will be debounced into a single sync, committing
+   * all of their changes together.
    * @param message - Commit message for the changes
    */
   enqueue(message: string): void {
     this.pending = true
-    this.pendingMessage = message
+    this.pendingMessages.push(message)
 
     // Clear any existing debounce timer
     if (this.debounceTimer) {
@@ -134,8 +148,8 @@ export class SyncDebouncer {
 
     this.processing = true
     this.pending = false
-    const message = this.pendingMessage || 'Update beads'
-    this.pendingMessage = null
+    const message = combineCommitMessages(this.pendingMessages)
+    this.pendingMessages = []
 
     // Clear debounce timer if flush was called manually
     if (this.debounceTimer) {
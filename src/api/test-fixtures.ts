@@ -0,0 +1,40 @@
+import type { Dependency, Issue, IssueGraph } from './issue-tracker'
+
+/**
+ * Issue graph fixtures shared by the graph analysis tests
+ */
+
+export function createIssue(id: string, overrides: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    labels: [],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    dependency_count: 0,
+    dependent_count: 0,
+    ...overrides,
+  }
+}
+
+export function blocks(
+  blocker: string,
+  blocked: string,
+  type = 'blocks'
+): Dependency {
+  return { issue_id: blocked, depends_on_id: blocker, type }
+}
+
+export function createGraph(
+  issues: Issue[],
+  dependencies: Dependency[] = []
+): IssueGraph {
+  return {
+    issues,
+    dependencies,
+    issueMap: Object.fromEntries(issues.map(issue => [issue.id, issue])),
+  }
+}
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it } from 'bun:test'
-import { FakeIssueTracker } from './issue-tracker'
-import { executeTool } from './tool-executor'
+import { FakeIssueTracker, type Issue } from './issue-tracker'
+import { executeTool, type IssueSummaryList } from './tool-executor'
 
 describe('Tool Executor', () => {
   let tracker: FakeIssueTracker
@@ -118,6 +118,24 @@ describe('Tool Executor', () => {
         `feat(beads): Update issue ${issueId} (status -> in_progress, priority -> P1)`
       )
     })
+
+    it('describes clearing the assignee in the commit message', async () => {
+      const createResult = await tracker.createIssue({
+        title: 'Original Title',
+      })
+      const issueId = createResult.data?.id as string
+
+      const result = await executeTool(
+        'update_issue',
+        { issue_id: issueId, assignee: '' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.commitMessage).toBe(
+        `feat(beads): Update issue ${issueId} (assignee -> unassigned)`
+      )
+    })
   })
 
   describe('close_issue', () => {
@@ -153,6 +171,35 @@ describe('Tool Executor', () => {
     })
   })
 
+  describe('reopen_issue', () => {
+    it('returns error for non-existent issue', async () => {
+      const result = await executeTool(
+        'reopen_issue',
+        { issue_id: 'nonexistent-issue-id-xyz' },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBeDefined()
+    })
+
+    it('reopens a closed issue', async () => {
+      const createResult = await tracker.createIssue({ title: 'Some Issue' })
+      const issueId = createResult.data?.id as string
+      await tracker.closeIssue(issueId)
+
+      const result = await executeTool(
+        'reopen_issue',
+        { issue_id: issueId, reason: 'Not fixed' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.result).toHaveProperty('status', 'open')
+      expect(result.commitMessage).toBe(`feat(beads): Reopen issue ${issueId}`)
+    })
+  })
+
   describe('add_dependency', () => {
     it('returns error for non-existent issues', async () => {
       const result = await executeTool(
@@ -191,6 +238,49 @@ describe('Tool Executor', () => {
         `feat(beads): Add dependency ${blockerId} blocks ${blockedId}`
       )
     })
+
+    it('adds a dependency of the given type', async () => {
+      const epic = await tracker.createIssue({ title: 'Epic', type: 'epic' })
+      const child = await tracker.createIssue({ title: 'Child Task' })
+      const epicId = epic.data?.id as string
+      const childId = child.data?.id as string
+
+      const result = await executeTool(
+        'add_dependency',
+        {
+          blocked_issue_id: childId,
+          blocker_issue_id: epicId,
+          type: 'parent-child',
+        },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.result).toHaveProperty('type', 'parent-child')
+      expect(result.commitMessage).toBe(
+        `feat(beads): Add dependency ${epicId} is the parent of ${childId}`
+      )
+    })
+
+    it('returns error for an unknown dependency type', async () => {
+      const blocked = await tracker.createIssue({ title: 'Blocked Task' })
+      const blocker = await tracker.createIssue({ title: 'Blocker Task' })
+
+      const result = await executeTool(
+        'add_dependency',
+        {
+          blocked_issue_id: blocked.data?.id,
+          blocker_issue_id: blocker.data?.id,
+          type: 'duplicates',
+        },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('type must be one of')
+      const graph = await tracker.getGraph()
+      expect(graph.data?.dependencies).toEqual([])
+    })
   })
 
   describe('remove_dependency', () => {
@@ -237,4 +327,311 @@ describe('Tool Executor', () => {
       )
     })
   })
+
+  describe('add_label', () => {
+    it('adds a label to an issue', async () => {
+      const created = await tracker.createIssue({
+        title: 'Label me',
+        labels: ['backend'],
+      })
+      const issueId = created.data?.id as string
+
+      const result = await executeTool(
+        'add_label',
+        { issue_id: issueId, label: 'frontend' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.result).toHaveProperty('labels', ['backend', 'frontend'])
+      expect(result.commitMessage).toBe(
+        `feat(beads): Add label frontend to issue ${issueId}`
+      )
+    })
+
+    it('does nothing when the issue already has the label', async () => {
+      const created = await tracker.createIssue({
+        title: 'Label me',
+        labels: ['backend'],
+      })
+      const issueId = created.data?.id as string
+
+      const result = await executeTool(
+        'add_label',
+        { issue_id: issueId, label: 'backend' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.commitMessage).toBeUndefined()
+    })
+
+    it('returns error for non-existent issue', async () => {
+      const result = await executeTool(
+        'add_label',
+        { issue_id: 'bead-nonexistent', label: 'frontend' },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('not found')
+    })
+
+    it('rejects a label that is not a string', async () => {
+      const created = await tracker.createIssue({ title: 'Label me' })
+
+      const result = await executeTool(
+        'add_label',
+        { issue_id: created.data?.id, label: 42 },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Label must be a string')
+    })
+  })
+
+  describe('remove_label', () => {
+    it('removes a label from an issue', async () => {
+      const created = await tracker.createIssue({
+        title: 'Unlabel me',
+        labels: ['backend', 'frontend'],
+      })
+      const issueId = created.data?.id as string
+
+      const result = await executeTool(
+        'remove_label',
+        { issue_id: issueId, label: 'backend' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.result).toHaveProperty('labels', ['frontend'])
+      expect(result.commitMessage).toBe(
+        `feat(beads): Remove label backend from issue ${issueId}`
+      )
+    })
+
+    it('returns error when the issue does not have the label', async () => {
+      const created = await tracker.createIssue({ title: 'Unlabelled' })
+      const issueId = created.data?.id as string
+
+      const result = await executeTool(
+        'remove_label',
+        { issue_id: issueId, label: 'backend' },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Label not found')
+    })
+
+    it('rejects a label that is not a string', async () => {
+      const created = await tracker.createIssue({
+        title: 'Unlabel me',
+        labels: ['backend'],
+      })
+
+      const result = await executeTool(
+        'remove_label',
+        { issue_id: created.data?.id, label: ['backend'] },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Label must be a string')
+      expect(result.commitMessage).toBeUndefined()
+    })
+  })
+
+  describe('query tools', () => {
+    const now = '2024-01-01T00:00:00Z'
+    const issue = (
+      id: string,
+      title: string,
+      fields: Partial<Issue> = {}
+    ): Issue => ({
+      id,
+      title,
+      status: 'open',
+      type: 'task',
+      priority: 2,
+      labels: [],
+      created_at: now,
+      updated_at: now,
+      dependency_count: 0,
+      dependent_count: 0,
+      ...fields,
+    })
+
+    beforeEach(() => {
+      tracker.seed(
+        [
+          issue('bd-1', 'Set up database', {
+            description: 'Postgres schema for accounts',
+            labels: ['backend'],
+          }),
+          issue('bd-2', 'Login page', { type: 'feature', priority: 1 }),
+          issue('bd-3', 'Fix logout redirect', {
+            type: 'bug',
+            status: 'in_progress',
+            assignee: 'alice',
+          }),
+          issue('bd-4', 'Old spike', {
+            status: 'closed',
+            close_reason: 'Done',
+          }),
+        ],
+        [
+          { issue_id: 'bd-2', depends_on_id: 'bd-1', type: 'blocks' },
+          { issue_id: 'bd-3', depends_on_id: 'bd-2', type: 'blocks' },
+          { issue_id: 'bd-3', depends_on_id: 'bd-4', type: 'related' },
+        ]
+      )
+    })
+
+    it('lists issues that are not closed as compact summaries', async () => {
+      const result = await executeTool('list_issues', {}, tracker)
+
+      expect(result.success).toBe(true)
+      expect(result.commitMessage).toBeUndefined()
+      expect(result.result).toEqual({
+        total: 3,
+        issues: [
+          {
+            id: 'bd-1',
+            title: 'Set up database',
+            status: 'open',
+            type: 'task',
+            priority: 2,
+            labels: ['backend'],
+          },
+          {
+            id: 'bd-2',
+            title: 'Login page',
+            status: 'open',
+            type: 'feature',
+            priority: 1,
+          },
+          {
+            id: 'bd-3',
+            title: 'Fix logout redirect',
+            status: 'in_progress',
+            type: 'bug',
+            priority: 2,
+            assignee: 'alice',
+          },
+        ],
+      })
+    })
+
+    it('filters listed issues', async () => {
+      const ids = async (input: Record<string, unknown>) => {
+        const result = await executeTool('list_issues', input, tracker)
+        return (result.result as IssueSummaryList).issues.map(i => i.id)
+      }
+
+      expect(await ids({ status: 'closed' })).toEqual(['bd-4'])
+      expect(await ids({ type: 'bug' })).toEqual(['bd-3'])
+      expect(await ids({ priority: 1 })).toEqual(['bd-2'])
+      expect(await ids({ label: 'backend' })).toEqual(['bd-1'])
+    })
+
+    it('limits listed issues but reports the total', async () => {
+      const result = await executeTool('list_issues', { limit: 1 }, tracker)
+
+      expect(result.result).toMatchObject({ total: 3 })
+      expect((result.result as IssueSummaryList).issues).toHaveLength(1)
+    })
+
+    it('gets an issue with its description and dependencies', async () => {
+      const result = await executeTool(
+        'get_issue',
+        { issue_id: 'bd-2' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.result).toMatchObject({
+        id: 'bd-2',
+        description: '',
+        blocked_by: ['bd-1'],
+        blocks: ['bd-3'],
+      })
+    })
+
+    it('returns error for an unknown issue', async () => {
+      const result = await executeTool(
+        'get_issue',
+        { issue_id: 'bd-99' },
+        tracker
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Issue not found: bd-99')
+    })
+
+    it('searches titles before descriptions, including closed issues', async () => {
+      const search = async (query: string) => {
+        const result = await executeTool('search_issues', { query }, tracker)
+        return (result.result as IssueSummaryList).issues.map(i => i.id)
+      }
+
+      expect(await search('LOGIN')).toEqual(['bd-2'])
+      expect(await search('accounts')).toEqual(['bd-1'])
+      expect(await search('spike')).toEqual(['bd-4'])
+      expect(await search('o')).toEqual(['bd-2', 'bd-3', 'bd-4', 'bd-1'])
+    })
+
+    it('requires a search query', async () => {
+      const result = await executeTool('search_issues', { query: ' ' }, tracker)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Query is required')
+    })
+
+    it('rejects a query that is not a string', async () => {
+      for (const query of [42, ['login']]) {
+        const result = await executeTool('search_issues', { query }, tracker)
+
+        expect(result.success).toBe(false)
+        expect(result.error).toBe('Query must be a string')
+      }
+    })
+
+    it('gets blockers, ignoring non-blocking links', async () => {
+      const result = await executeTool(
+        'get_blockers',
+        { issue_id: 'bd-3' },
+        tracker
+      )
+
+      expect(result.success).toBe(true)
+      expect((result.result as IssueSummaryList).issues.map(i => i.id)).toEqual(
+        ['bd-2']
+      )
+    })
+
+    it('gets dependents', async () => {
+      const result = await executeTool(
+        'get_dependents',
+        { issue_id: 'bd-1' },
+        tracker
+      )
+
+      expect((result.result as IssueSummaryList).issues.map(i => i.id)).toEqual(
+        ['bd-2']
+      )
+    })
+
+    it('gets ready issues', async () => {
+      const result = await executeTool('get_ready_issues', {}, tracker)
+
+      expect(result.success).toBe(true)
+      expect(result.result).toMatchObject({
+        total: 1,
+        issues: [{ id: 'bd-1' }],
+      })
+    })
+  })
 })
@@ -1,5 +1,13 @@
-import type { IssueTracker } from './issue-tracker'
+import {
+  DEPENDENCY_TYPES,
+  type DependencyType,
+  type Issue,
+  type IssueGraph,
+  type IssueStatus,
+  type IssueTracker,
+} from './issue-tracker'
 import * as log from './logger'
+import { getReadyIssues, isBlockingDependency } from './ready-queue'
 
 /**
  * Result of executing an LLM tool call
@@ -18,13 +26,16 @@ export interface ToolExecutionResult {
 export interface CreateIssueInput {
   title: string
   description?: string
-  type?: 'task' | 'bug' | 'feature'
+  type?: 'task' | 'bug' | 'feature' | 'epic'
   priority?: 0 | 1 | 2 | 3
+  labels?: string[]
 }
 
 export interface AddDependencyInput {
   blocked_issue_id: string
   blocker_issue_id: string
+  // 'blocks' when not given
+  type?: DependencyType
 }
 
 export interface RemoveDependencyInput {
@@ -36,7 +47,7 @@ export interface UpdateIssueInput {
   issue_id: string
   title?: string
   description?: string
-  type?: 'task' | 'bug' | 'feature'
+  type?: 'task' | 'bug' | 'feature' | 'epic'
   priority?: 0 | 1 | 2 | 3
   status?: 'open' | 'in_progress'
   assignee?: string
@@ -47,6 +58,112 @@ export interface CloseIssueInput {
   reason?: string
 }
 
+export interface ReopenIssueInput {
+  issue_id: string
+  reason?: string
+}
+
+export interface AddLabelInput {
+  issue_id: string
+  label: string
+}
+
+export interface RemoveLabelInput {
+  issue_id: string
+  label: string
+}
+
+export interface ListIssuesInput {
+  status?: IssueStatus
+  type?: 'task' | 'bug' | 'feature' | 'epic'
+  priority?: 0 | 1 | 2 | 3
+  label?: string
+  limit?: number
+}
+
+export interface GetIssueInput {
+  issue_id: string
+}
+
+export interface SearchIssuesInput {
+  query: string
+  limit?: number
+}
+
+export interface GetBlockersInput {
+  issue_id: string
+}
+
+export interface GetDependentsInput {
+  issue_id: string
+}
+
+export interface GetReadyIssuesInput {
+  limit?: number
+}
+
+// Query tools return at most this many issues so results fit the context
+const DEFAULT_QUERY_LIMIT = 25
+const MAX_QUERY_LIMIT = 50
+
+// get_issue truncates longer descriptions
+const MAX_DESCRIPTION_LENGTH = 2000
+
+/**
+ * The fields the assistant needs to identify an issue, without descriptions
+ */
+export interface IssueSummary {
+  id: string
+  title: string
+  status: IssueStatus
+  type?: string
+  priority?: number
+  assignee?: string
+  labels?: string[]
+}
+
+/**
+ * A page of issue summaries; total counts every match
+ */
+export interface IssueSummaryList {
+  total: number
+  issues: IssueSummary[]
+}
+
+export function summarizeIssue(issue: Issue): IssueSummary {
+  return {
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    ...(issue.type && { type: issue.type }),
+    ...(issue.priority !== undefined && { priority: issue.priority }),
+    ...(issue.assignee && { assignee: issue.assignee }),
+    ...(issue.labels.length > 0 && { labels: issue.labels }),
+  }
+}
+
+function summarizeIssues(issues: Issue[], limit?: number): IssueSummaryList {
+  const count = Math.min(
+    Math.max(1, Math.floor(limit ?? DEFAULT_QUERY_LIMIT)),
+    MAX_QUERY_LIMIT
+  )
+  return {
+    total: issues.length,
+    issues: issues.slice(0, count).map(summarizeIssue),
+  }
+}
+
+async function loadGraph(
+  tracker: IssueTracker
+): Promise<{ graph?: IssueGraph; error?: string }> {
+  const result = await tracker.getGraph()
+  if (!result.success || !result.data) {
+    log.error(`Failed to load issue graph: ${result.error}`)
+    return { error: result.error ?? 'Failed to load issues' }
+  }
+  return { graph: result.data }
+}
+
 /**
  * Execute create_issue tool
  */
@@ -63,6 +180,7 @@ async function executeCreateIssue(
     description: input.description,
     type: input.type,
     priority: input.priority,
+    labels: input.labels,
   })
 
   if (!result.success) {
@@ -79,6 +197,38 @@ async function executeCreateIssue(
   }
 }
 
+/**
+ * Check the type of an add_dependency call
+ * @returns An error for the assistant, or undefined if the type is valid
+ */
+export function validateDependencyType(type: unknown): string | undefined {
+  if (
+    type !== undefined &&
+    !DEPENDENCY_TYPES.includes(type as DependencyType)
+  ) {
+    return `type must be one of ${DEPENDENCY_TYPES.join(', ')}`
+  }
+  return undefined
+}
+
+/**
+ * Describe the link an add_dependency call makes, e.g. "bd-1 blocks bd-2"
+ */
+export function describeDependency(input: AddDependencyInput): string {
+  const blocker = input.blocker_issue_id
+  const blocked = input.blocked_issue_id
+  switch (input.type ?? 'blocks') {
+    case 'blocks':
+      return `${blocker} blocks ${blocked}`
+    case 'related':
+      return `${blocker} is related to ${blocked}`
+    case 'parent-child':
+      return `${blocker} is the parent of ${blocked}`
+    case 'discovered-from':
+      return `${blocked} was discovered from ${blocker}`
+  }
+}
+
 /**
  * Execute add_dependency tool
  */
@@ -86,29 +236,29 @@ async function executeAddDependency(
   tracker: IssueTracker,
   input: AddDependencyInput
 ): Promise<ToolExecutionResult> {
-  log.info(
-    `Adding dependency: ${input.blocker_issue_id} blocks ${input.blocked_issue_id}`
-  )
+  const typeError = validateDependencyType(input.type)
+  if (typeError) {
+    return { success: false, error: typeError }
+  }
+  const link = describeDependency(input)
+  log.info(`Adding dependency: ${link}`)
 
   const result = await tracker.addDependency(
     input.blocked_issue_id,
-    input.blocker_issue_id
+    input.blocker_issue_id,
+    input.type
   )
 
   if (!result.success) {
-    log.error(
-      `Failed to add dependency ${input.blocker_issue_id} blocks ${input.blocked_issue_id}: ${result.error}`
-    )
+    log.error(`Failed to add dependency ${link}: ${result.error}`)
     return { success: false, error: result.error }
   }
 
-  log.info(
-    `Dependency added: ${input.blocker_issue_id} blocks ${input.blocked_issue_id}`
-  )
+  log.info(`Dependency added: ${link}`)
   return {
     success: true,
     result: result.data,
-    commitMessage: `feat(beads): Add dependency ${input.blocker_issue_id} blocks ${input.blocked_issue_id}`,
+    commitMessage: `feat(beads): Add dependency ${link}`,
   }
 }
 
@@ -172,11 +322,12 @@ async function executeUpdateIssue(
   const changes: string[] = []
   if (input.status) changes.push(`status -> ${input.status}`)
   if (input.title) changes.push('title')
-  if (input.description) changes.push('description')
+  if (input.description !== undefined) changes.push('description')
   if (input.type) changes.push(`type -> ${input.type}`)
   if (input.priority !== undefined)
     changes.push(`priority -> P${input.priority}`)
-  if (input.assignee) changes.push(`assignee -> ${input.assignee}`)
+  if (input.assignee !== undefined)
+    changes.push(`assignee -> ${input.assignee || 'unassigned'}`)
   const changesSummary = changes.length > 0 ? changes.join(', ') : 'fields'
 
   log.info(`Issue updated: ${input.issue_id} (${changesSummary})`)
@@ -211,6 +362,296 @@ async function executeCloseIssue(
   }
 }
 
+/**
+ * Execute reopen_issue tool
+ */
+async function executeReopenIssue(
+  tracker: IssueTracker,
+  input: ReopenIssueInput
+): Promise<ToolExecutionResult> {
+  log.info(`Reopening issue: ${input.issue_id}`)
+
+  const result = await tracker.reopenIssue(input.issue_id, input.reason)
+
+  if (!result.success) {
+    log.error(`Failed to reopen issue ${input.issue_id}: ${result.error}`)
+    return { success: false, error: result.error }
+  }
+
+  log.info(`Issue reopened: ${input.issue_id}`)
+  return {
+    success: true,
+    result: result.data,
+    commitMessage: `feat(beads): Reopen issue ${input.issue_id}`,
+  }
+}
+
+/**
+ * Execute add_label tool
+ */
+async function executeAddLabel(
+  tracker: IssueTracker,
+  input: AddLabelInput
+): Promise<ToolExecutionResult> {
+  if (typeof input.label !== 'string') {
+    return { success: false, error: 'Label must be a string' }
+  }
+  const label = input.label.trim()
+  if (!label) {
+    return { success: false, error: 'Label is required' }
+  }
+
+  log.info(`Adding label "${label}" to issue ${input.issue_id}`)
+
+  const issueResult = await tracker.getIssue(input.issue_id)
+  if (!issueResult.success || !issueResult.data) {
+    log.error(`Failed to add label to ${input.issue_id}: ${issueResult.error}`)
+    return { success: false, error: issueResult.error }
+  }
+
+  const labels = issueResult.data.labels
+  if (labels.includes(label)) {
+    return { success: true, result: issueResult.data }
+  }
+
+  const result = await tracker.updateIssue(input.issue_id, {
+    labels: [...labels, label],
+  })
+
+  if (!result.success) {
+    log.error(`Failed to add label to ${input.issue_id}: ${result.error}`)
+    return { success: false, error: result.error }
+  }
+
+  log.info(`Label "${label}" added to issue ${input.issue_id}`)
+  return {
+    success: true,
+    result: result.data,
+    commitMessage: `feat(beads): Add label ${label} to issue ${input.issue_id}`,
+  }
+}
+
+/**
+ * Execute remove_label tool
+ */
+async function executeRemoveLabel(
+  tracker: IssueTracker,
+  input: RemoveLabelInput
+): Promise<ToolExecutionResult> {
+  if (typeof input.label !== 'string') {
+    return { success: false, error: 'Label must be a string' }
+  }
+  log.info(`Removing label "${input.label}" from issue ${input.issue_id}`)
+
+  const issueResult = await tracker.getIssue(input.issue_id)
+  if (!issueResult.success || !issueResult.data) {
+    log.error(
+      `Failed to remove label from ${input.issue_id}: ${issueResult.error}`
+    )
+    return { success: false, error: issueResult.error }
+  }
+
+  const labels = issueResult.data.labels
+  if (!labels.includes(input.label)) {
+    return { success: false, error: 'Label not found' }
+  }
+
+  const result = await tracker.updateIssue(input.issue_id, {
+    labels: labels.filter(label => label !== input.label),
+  })
+
+  if (!result.success) {
+    log.error(`Failed to remove label from ${input.issue_id}: ${result.error}`)
+    return { success: false, error: result.error }
+  }
+
+  log.info(`Label "${input.label}" removed from issue ${input.issue_id}`)
+  return {
+    success: true,
+    result: result.data,
+    commitMessage: `feat(beads): Remove label ${input.label} from issue ${input.issue_id}`,
+  }
+}
+
+/**
+ * Execute list_issues tool. Closed issues are only listed when asked for.
+ */
+async function executeListIssues(
+  tracker: IssueTracker,
+  input: ListIssuesInput
+): Promise<ToolExecutionResult> {
+  const result = await tracker.listIssues()
+  if (!result.success || !result.data) {
+    log.error(`Failed to list issues: ${result.error}`)
+    return { success: false, error: result.error }
+  }
+
+  const issues = result.data.filter(
+    issue =>
+      (input.status
+        ? issue.status === input.status
+        : issue.status !== 'closed') &&
+      (input.type === undefined || (issue.type ?? 'task') === input.type) &&
+      (input.priority === undefined || issue.priority === input.priority) &&
+      (input.label === undefined || issue.labels.includes(input.label))
+  )
+
+  return { success: true, result: summarizeIssues(issues, input.limit) }
+}
+
+/**
+ * Execute get_issue tool
+ */
+async function executeGetIssue(
+  tracker: IssueTracker,
+  input: GetIssueInput
+): Promise<ToolExecutionResult> {
+  const { graph, error } = await loadGraph(tracker)
+  if (!graph) {
+    return { success: false, error }
+  }
+
+  const issue = graph.issueMap[input.issue_id]
+  if (!issue) {
+    return { success: false, error: `Issue not found: ${input.issue_id}` }
+  }
+
+  const description = issue.description ?? ''
+  return {
+    success: true,
+    result: {
+      ...summarizeIssue(issue),
+      description:
+        description.length > MAX_DESCRIPTION_LENGTH
+          ? `${description.slice(0, MAX_DESCRIPTION_LENGTH)}...`
+          : description,
+      ...(issue.close_reason && { close_reason: issue.close_reason }),
+      blocked_by: graph.dependencies
+        .filter(dep => dep.issue_id === issue.id && isBlockingDependency(dep))
+        .map(dep => dep.depends_on_id),
+      blocks: graph.dependencies
+        .filter(
+          dep => dep.depends_on_id === issue.id && isBlockingDependency(dep)
+        )
+        .map(dep => dep.issue_id),
+    },
+  }
+}
+
+/**
+ * Execute search_issues tool. Matches IDs, titles and descriptions, with
+ * ID and title matches first.
+ */
+async function executeSearchIssues(
+  tracker: IssueTracker,
+  input: SearchIssuesInput
+): Promise<ToolExecutionResult> {
+  if (input.query !== undefined && typeof input.query !== 'string') {
+    return { success: false, error: 'Query must be a string' }
+  }
+  const query = input.query?.trim().toLowerCase()
+  if (!query) {
+    return { success: false, error: 'Query is required' }
+  }
+
+  const result = await tracker.listIssues()
+  if (!result.success || !result.data) {
+    log.error(`Failed to search issues: ${result.error}`)
+    return { success: false, error: result.error }
+  }
+
+  const titleMatches: Issue[] = []
+  const descriptionMatches: Issue[] = []
+  for (const issue of result.data) {
+    if (
+      issue.id.toLowerCase().includes(query) ||
+      issue.title.toLowerCase().includes(query)
+    ) {
+      titleMatches.push(issue)
+    } else if (issue.description?.toLowerCase().includes(query)) {
+      descriptionMatches.push(issue)
+    }
+  }
+
+  return {
+    success: true,
+    result: summarizeIssues(
+      [...titleMatches, ...descriptionMatches],
+      input.limit
+    ),
+  }
+}
+
+/**
+ * Execute get_blockers tool: the issues that must be completed before
+ * this one can start
+ */
+async function executeGetBlockers(
+  tracker: IssueTracker,
+  input: GetBlockersInput
+): Promise<ToolExecutionResult> {
+  const { graph, error } = await loadGraph(tracker)
+  if (!graph) {
+    return { success: false, error }
+  }
+  if (!graph.issueMap[input.issue_id]) {
+    return { success: false, error: `Issue not found: ${input.issue_id}` }
+  }
+
+  const blockers = graph.dependencies
+    .filter(dep => dep.issue_id === input.issue_id && isBlockingDependency(dep))
+    .map(dep => graph.issueMap[dep.depends_on_id])
+    .filter((issue): issue is Issue => issue !== undefined)
+
+  return { success: true, result: summarizeIssues(blockers, MAX_QUERY_LIMIT) }
+}
+
+/**
+ * Execute get_dependents tool: the issues waiting on this one
+ */
+async function executeGetDependents(
+  tracker: IssueTracker,
+  input: GetDependentsInput
+): Promise<ToolExecutionResult> {
+  const { graph, error } = await loadGraph(tracker)
+  if (!graph) {
+    return { success: false, error }
+  }
+  if (!graph.issueMap[input.issue_id]) {
+    return { success: false, error: `Issue not found: ${input.issue_id}` }
+  }
+
+  const dependents = graph.dependencies
+    .filter(
+      dep => dep.depends_on_id === input.issue_id && isBlockingDependency(dep)
+    )
+    .map(dep => graph.issueMap[dep.issue_id])
+    .filter((issue): issue is Issue => issue !== undefined)
+
+  return {
+    success: true,
+    result: summarizeIssues(dependents, MAX_QUERY_LIMIT),
+  }
+}
+
+/**
+ * Execute get_ready_issues tool, in the order `bd ready` lists them
+ */
+async function executeGetReadyIssues(
+  tracker: IssueTracker,
+  input: GetReadyIssuesInput
+): Promise<ToolExecutionResult> {
+  const { graph, error } = await loadGraph(tracker)
+  if (!graph) {
+    return { success: false, error }
+  }
+
+  return {
+    success: true,
+    result: summarizeIssues(getReadyIssues(graph), input.limit),
+  }
+}
+
 /**
  * Execute a tool by name with the given input
  * @param toolName - Name of the tool to execute
@@ -235,6 +676,24 @@ export async function executeTool(
       return executeUpdateIssue(tracker, input as UpdateIssueInput)
     case 'close_issue':
       return executeCloseIssue(tracker, input as CloseIssueInput)
+    case 'reopen_issue':
+      return executeReopenIssue(tracker, input as ReopenIssueInput)
+    case 'add_label':
+      return executeAddLabel(tracker, input as AddLabelInput)
+    case 'remove_label':
+      return executeRemoveLabel(tracker, input as RemoveLabelInput)
+    case 'list_issues':
+      return executeListIssues(tracker, input as ListIssuesInput)
+    case 'get_issue':
+      return executeGetIssue(tracker, input as GetIssueInput)
+    case 'search_issues':
+      return executeSearchIssues(tracker, input as SearchIssuesInput)
+    case 'get_blockers':
+      return executeGetBlockers(tracker, input as GetBlockersInput)
+    case 'get_dependents':
+      return executeGetDependents(tracker, input as GetDependentsInput)
+    case 'get_ready_issues':
+      return executeGetReadyIssues(tracker, input as GetReadyIssuesInput)
     default:
       log.error(`Unknown tool requested: ${toolName}`)
       return { success: false, error: `Unknown tool: ${toolName}` }
@@ -0,0 +1,41 @@
+import { createHash } from 'node:crypto'
+import { resolve } from 'node:path'
+
+/**
+ * Whose stored data, about which repository: a GitHub repository by owner
+ * and repo, otherwise a local repository, optionally at a given path.
+ * Local repositories are stored under the 'local' user.
+ */
+export interface UserScope {
+  userId: string
+  owner?: string
+  repo?: string
+  localPath?: string
+}
+
+// Path segments must not be able to escape the store directory
+const SAFE_SEGMENT = /^[\w.-]+$/
+
+export function isSafeSegment(segment: string): boolean {
+  return SAFE_SEGMENT.test(segment) && segment !== '.' && segment !== '..'
+}
+
+/**
+ * Path segments a store keeps a scope's data under. A local repository at a
+ * given path gets a segment hashed from its resolved path, so checkouts
+ * don't share data. Check the segments with `isSafeSegment` before use.
+ */
+export function scopeSegments(scope: UserScope): string[] {
+  return scope.owner && scope.repo
+    ? [scope.userId, scope.owner, scope.repo]
+    : scope.localPath
+      ? [
+          scope.userId,
+          'local',
+          createHash('sha256')
+            .update(resolve(scope.localPath))
+            .digest('hex')
+            .slice(0, 16),
+        ]
+      : [scope.userId, 'local']
+}
@@ -51,4 +51,20 @@ describe('App', () => {
     )
     expect(screen.getByRole('img', { name: 'Bead Feeder' })).toBeDefined()
   })
+
+  it('switches between the graph and swimlane views of a local repo', () => {
+    render(
+      <MemoryRouter initialEntries={['/local/swimlanes?path=/tmp/test']}>
+        <AuthProvider>
+          <SyncProvider>
+            <App />
+          </SyncProvider>
+        </AuthProvider>
+      </MemoryRouter>
+    )
+    const graph = screen.getByRole('link', { name: 'Graph' })
+    const swimlanes = screen.getByRole('link', { name: 'Swimlanes' })
+    expect(graph.getAttribute('href')).toBe('/local?path=%2Ftmp%2Ftest')
+    expect(swimlanes.getAttribute('aria-current')).toBe('page')
+  })
 })
@@ -17,6 +17,18 @@ function App() {
   const { owner, repo } = useParams<{ owner?: string; repo?: string }>()
   const location = useLocation()
   const isHomePage = location.pathname === '/'
+  // Graph and swimlane views of the same repository
+  const graphPath =
+    owner && repo
+      ? `/repos/${owner}/${repo}`
+      : location.pathname.startsWith('/local')
+        ? '/local'
+        : null
+  const localPath = new URLSearchParams(location.search).get('path')
+  const viewSearch = localPath
+    ? `?${new URLSearchParams({ path: localPath })}`
+    : ''
+  const isSwimlaneView = location.pathname.endsWith('/swimlanes')
   const {
     status,
     lastSyncTime,
@@ -69,6 +81,37 @@ function App() {
                 />
               </>
             )}
+            {graphPath && (
+              <nav
+                style={{ display: 'flex', gap: '4px', fontSize: '13px' }}
+                data-testid="view-switcher"
+              >
+                {[
+                  { label: 'Graph', to: graphPath, active: !isSwimlaneView },
+                  {
+                    label: 'Swimlanes',
+                    to: `${graphPath}/swimlanes`,
+                    active: isSwimlaneView,
+                  },
+                ].map(view => (
+                  <Link
+                    key={view.label}
+                    to={`${view.to}${viewSearch}`}
+                    style={{
+                      padding: '4px 10px',
+                      borderRadius: '6px',
+                      textDecoration: 'none',
+                      color: view.active ? '#1d4ed8' : '#6b7280',
+                      backgroundColor: view.active ? '#eff6ff' : 'transparent',
+                      fontWeight: view.active ? 500 : 400,
+                    }}
+                    aria-current={view.active ? 'page' : undefined}
+                  >
+                    {view.label}
+                  </Link>
+                ))}
+              </nav>
+            )}
           </div>
           <div>
             {isLoading ? null : user ? (
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import type { ProposedChange } from '../transformers/changesetPreview'
+import ChangesetPanel from './ChangesetPanel'
+
+const changes: ProposedChange[] = [
+  {
+    id: 'change-1',
+    type: 'createIssue',
+    toolName: 'create_issue',
+    input: { title: 'Write docs' },
+    summary: 'Create task "Write docs"',
+    issueId: 'new-1',
+  },
+  {
+    id: 'change-2',
+    type: 'addDependency',
+    toolName: 'add_dependency',
+    input: { blocked_issue_id: 'new-1', blocker_issue_id: 'bd-2' },
+    summary: 'bd-2 blocks new-1',
+  },
+]
+
+function renderPanel(props: Partial<Parameters<typeof ChangesetPanel>[0]>) {
+  const handlers = {
+    onToggle: mock((_changeId: string) => {}),
+    onApply: mock(() => {}),
+    onDiscard: mock(() => {}),
+  }
+  render(
+    <ChangesetPanel
+      changes={changes}
+      deselectedIds={new Set()}
+      {...handlers}
+      {...props}
+    />
+  )
+  return handlers
+}
+
+describe('ChangesetPanel', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('lists the proposed changes in order', () => {
+    renderPanel({})
+    const items = screen.getAllByTestId('changeset-item')
+    expect(items.map(item => item.getAttribute('data-change-id'))).toEqual([
+      'change-1',
+      'change-2',
+    ])
+    expect(items[0]).toHaveTextContent('NewCreate task "Write docs"')
+  })
+
+  it('toggles changes', () => {
+    const { onToggle } = renderPanel({ deselectedIds: new Set(['change-2']) })
+    const checkboxes = screen.getAllByRole('checkbox')
+    expect(checkboxes[0]).toBeChecked()
+    expect(checkboxes[1]).not.toBeChecked()
+
+    fireEvent.click(checkboxes[0])
+    expect(onToggle).toHaveBeenCalledWith('change-1')
+  })
+
+  it('applies the selected changes', () => {
+    const { onApply } = renderPanel({ deselectedIds: new Set(['change-2']) })
+    const applyButton = screen.getByTestId('apply-changeset-button')
+    expect(applyButton).toHaveTextContent('Apply 1 change')
+
+    fireEvent.click(applyButton)
+    expect(onApply).toHaveBeenCalled()
+  })
+
+  it('cannot apply when every change is deselected', () => {
+    renderPanel({ deselectedIds: new Set(['change-1', 'change-2']) })
+    expect(screen.getByTestId('apply-changeset-button')).toBeDisabled()
+  })
+
+  it('discards the proposal', () => {
+    const { onDiscard } = renderPanel({})
+    fireEvent.click(screen.getByTestId('discard-changeset-button'))
+    expect(onDiscard).toHaveBeenCalled()
+  })
+
+  it('disables the controls while applying', () => {
+    renderPanel({ isApplying: true })
+    expect(screen.getByTestId('apply-changeset-button')).toHaveTextContent(
+      'Applying...'
+    )
+    expect(screen.getByTestId('discard-changeset-button')).toBeDisabled()
+  })
+})
@@ -0,0 +1,149 @@
+import { Button } from '@/components/ui/button'
+import type { ProposedChange } from '../transformers/changesetPreview'
+
+interface ChangesetPanelProps {
+  /** Changes proposed in chat, in the order they will be applied */
+  changes: ProposedChange[]
+  /** Changes the user has chosen not to apply */
+  deselectedIds: Set<string>
+  onToggle: (changeId: string) => void
+  onApply: () => void
+  onDiscard: () => void
+  isApplying?: boolean
+}
+
+const changeLabels: Record<ProposedChange['type'], string> = {
+  createIssue: 'New',
+  updateIssue: 'Edit',
+  addDependency: 'Link',
+  removeDependency: 'Unlink',
+}
+
+const changeColors: Record<ProposedChange['type'], string> = {
+  createIssue: '#15803d',
+  updateIssue: '#1d4ed8',
+  addDependency: '#1d4ed8',
+  removeDependency: '#b91c1c',
+}
+
+function ChangesetPanel({
+  changes,
+  deselectedIds,
+  onToggle,
+  onApply,
+  onDiscard,
+  isApplying = false,
+}: ChangesetPanelProps) {
+  const selectedCount = changes.filter(
+    change => !deselectedIds.has(change.id)
+  ).length
+
+  return (
+    <aside
+      aria-label="Proposed changes"
+      style={{
+        position: 'absolute',
+        bottom: '16px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 10,
+        width: '420px',
+        maxHeight: '40%',
+        display: 'flex',
+        flexDirection: 'column',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+      }}
+      data-testid="changeset-panel"
+    >
+      <div
+        style={{
+          padding: '10px 12px',
+          fontSize: '13px',
+          fontWeight: 600,
+          color: '#1f2937',
+        }}
+      >
+        Proposed changes
+      </div>
+
+      <ul
+        style={{
+          margin: 0,
+          padding: '0 0 8px',
+          listStyle: 'none',
+          overflowY: 'auto',
+        }}
+      >
+        {changes.map(change => (
+          <li key={change.id}>
+            <label
+              style={{
+                display: 'flex',
+                alignItems: 'baseline',
+                gap: '8px',
+                padding: '4px 12px',
+                cursor: 'pointer',
+                fontSize: '13px',
+                color: '#1f2937',
+              }}
+              data-testid="changeset-item"
+              data-change-id={change.id}
+            >
+              <input
+                type="checkbox"
+                checked={!deselectedIds.has(change.id)}
+                onChange={() => onToggle(change.id)}
+                disabled={isApplying}
+              />
+              <span
+                style={{
+                  color: changeColors[change.type],
+                  fontSize: '11px',
+                  fontWeight: 600,
+                }}
+              >
+                {changeLabels[change.type]}
+              </span>
+              <span style={{ flex: 1 }}>{change.summary}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px',
+          padding: '8px 12px',
+          borderTop: '1px solid #e5e7eb',
+        }}
+      >
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDiscard}
+          disabled={isApplying}
+          data-testid="discard-changeset-button"
+        >
+          Discard
+        </Button>
+        <Button
+          size="sm"
+          onClick={onApply}
+          disabled={isApplying || selectedCount === 0}
+          data-testid="apply-changeset-button"
+        >
+          {isApplying
+            ? 'Applying...'
+            : `Apply ${selectedCount} ${selectedCount === 1 ? 'change' : 'changes'}`}
+        </Button>
+      </div>
+    </aside>
+  )
+}
+
+export default ChangesetPanel
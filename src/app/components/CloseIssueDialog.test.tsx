@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import CloseIssueDialog from './CloseIssueDialog'
+import type { IssueNodeData } from './IssueNode'
+
+const issue: IssueNodeData = {
+  issueId: 'bead-1',
+  title: 'Fix login',
+  status: 'open',
+  type: 'bug',
+  priority: 'P1',
+}
+
+describe('CloseIssueDialog', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('does not render without an issue', () => {
+    render(
+      <CloseIssueDialog
+        issue={null}
+        onConfirm={mock(async () => {})}
+        onCancel={mock(() => {})}
+      />
+    )
+    expect(screen.queryByTestId('close-issue-dialog')).not.toBeInTheDocument()
+  })
+
+  it('closes the issue with the trimmed reason', () => {
+    const onConfirm = mock(async () => {})
+    render(
+      <CloseIssueDialog
+        issue={issue}
+        onConfirm={onConfirm}
+        onCancel={mock(() => {})}
+      />
+    )
+    fireEvent.change(screen.getByTestId('close-issue-reason'), {
+      target: { value: ' Duplicate of bead-2 ' },
+    })
+    fireEvent.click(screen.getByTestId('close-issue-confirm'))
+    expect(onConfirm).toHaveBeenCalledWith('bead-1', 'Duplicate of bead-2')
+  })
+
+  it('shows the error when closing fails', async () => {
+    render(
+      <CloseIssueDialog
+        issue={issue}
+        onConfirm={mock(async () => {
+          throw new Error('Issue not found')
+        })}
+        onCancel={mock(() => {})}
+      />
+    )
+    fireEvent.click(screen.getByTestId('close-issue-confirm'))
+    expect(await screen.findByTestId('close-issue-error')).toHaveTextContent(
+      'Issue not found'
+    )
+  })
+
+  it('calls onCancel when cancelled', () => {
+    const onCancel = mock(() => {})
+    render(
+      <CloseIssueDialog
+        issue={issue}
+        onConfirm={mock(async () => {})}
+        onCancel={onCancel}
+      />
+    )
+    fireEvent.click(screen.getByTestId('close-issue-cancel'))
+    expect(onCancel).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { IssueNodeData } from './IssueNode'
+
+interface CloseIssueDialogProps {
+  /** Issue to close, or null when the dialog is hidden */
+  issue: IssueNodeData | null
+  onConfirm: (issueId: string, reason: string) => Promise<void>
+  onCancel: () => void
+}
+
+function CloseIssueDialog({
+  issue,
+  onConfirm,
+  onCancel,
+}: CloseIssueDialogProps) {
+  const [reason, setReason] = useState('')
+  const [isClosing, setIsClosing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const issueId = issue?.issueId
+
+  // Start from a blank reason for each issue
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset on issue change
+  useEffect(() => {
+    setReason('')
+    setError(null)
+  }, [issueId])
+
+  const handleConfirm = async () => {
+    if (!issue) return
+    setIsClosing(true)
+    setError(null)
+    try {
+      await onConfirm(issue.issueId, reason.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close issue')
+    } finally {
+      setIsClosing(false)
+    }
+  }
+
+  return (
+    <Dialog open={issue !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent
+        data-testid="close-issue-dialog"
+        className="sm:max-w-[420px]"
+      >
+        {issue && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Close {issue.issueId}</DialogTitle>
+              <DialogDescription>{issue.title}</DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="close-issue-reason">Reason</Label>
+              <Textarea
+                id="close-issue-reason"
+                value={reason}
+                placeholder="Done, duplicate, won't fix..."
+                onChange={e => setReason(e.target.value)}
+                data-testid="close-issue-reason"
+              />
+            </div>
+
+            {error && (
+              <p
+                className="text-sm text-destructive"
+                data-testid="close-issue-error"
+              >
+                {error}
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={onCancel}
+                disabled={isClosing}
+                data-testid="close-issue-cancel"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                disabled={isClosing}
+                data-testid="close-issue-confirm"
+              >
+                {isClosing ? 'Closing...' : 'Close issue'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CloseIssueDialog
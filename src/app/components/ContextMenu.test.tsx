@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import ContextMenu from './ContextMenu'
+
+describe('ContextMenu', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('renders the items at the given position', () => {
+    render(
+      <ContextMenu
+        x={40}
+        y={60}
+        items={[
+          { label: 'Close issue', onSelect: mock(() => {}) },
+          { label: 'Delete', onSelect: mock(() => {}), danger: true },
+        ]}
+        onDismiss={mock(() => {})}
+      />
+    )
+    const menu = screen.getByTestId('context-menu')
+    expect(menu).toHaveStyle({ top: '60px', left: '40px' })
+    expect(
+      screen.getAllByRole('menuitem').map(item => item.textContent)
+    ).toEqual(['Close issue', 'Delete'])
+  })
+
+  it('runs the selected item and dismisses', () => {
+    const onSelect = mock(() => {})
+    const onDismiss = mock(() => {})
+    render(
+      <ContextMenu
+        x={0}
+        y={0}
+        items={[{ label: 'Close issue', onSelect }]}
+        onDismiss={onDismiss}
+      />
+    )
+    fireEvent.click(screen.getByText('Close issue'))
+    expect(onSelect).toHaveBeenCalled()
+    expect(onDismiss).toHaveBeenCalled()
+  })
+
+  it('dismisses on a click outside', () => {
+    const onDismiss = mock(() => {})
+    render(
+      <ContextMenu
+        x={0}
+        y={0}
+        items={[{ label: 'Close issue', onSelect: mock(() => {}) }]}
+        onDismiss={onDismiss}
+      />
+    )
+    fireEvent.mouseDown(document.body)
+    expect(onDismiss).toHaveBeenCalled()
+  })
+
+  it('dismisses on Escape', () => {
+    const onDismiss = mock(() => {})
+    render(
+      <ContextMenu
+        x={0}
+        y={0}
+        items={[{ label: 'Close issue', onSelect: mock(() => {}) }]}
+        onDismiss={onDismiss}
+      />
+    )
+    fireEvent.keyDown(document, { key: 'Escape' })
+    expect(onDismiss).toHaveBeenCalled()
+  })
+})
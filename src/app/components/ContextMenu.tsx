@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react'
+
+export interface ContextMenuItem {
+  label: string
+  onSelect: () => void
+  /** Styles the item as destructive */
+  danger?: boolean
+}
+
+interface ContextMenuProps {
+  /** Viewport position to open the menu at */
+  x: number
+  y: number
+  items: ContextMenuItem[]
+  onDismiss: () => void
+}
+
+function ContextMenu({ x, y, items, onDismiss }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Dismiss on a click outside the menu or Escape
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as globalThis.Node)) {
+        onDismiss()
+      }
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onDismiss()
+      }
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onDismiss])
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      style={{
+        position: 'fixed',
+        top: y,
+        left: x,
+        zIndex: 50,
+        minWidth: '160px',
+        padding: '4px',
+        borderRadius: '6px',
+        backgroundColor: '#ffffff',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+      }}
+      data-testid="context-menu"
+    >
+      {items.map(item => (
+        <button
+          key={item.label}
+          type="button"
+          role="menuitem"
+          onClick={() => {
+            item.onSelect()
+            onDismiss()
+          }}
+          style={{
+            display: 'block',
+            width: '100%',
+            padding: '6px 10px',
+            border: 'none',
+            borderRadius: '4px',
+            background: 'none',
+            cursor: 'pointer',
+            textAlign: 'left',
+            fontSize: '13px',
+            color: item.danger ? '#dc2626' : '#1f2937',
+          }}
+          data-testid="context-menu-item"
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default ContextMenu
@@ -1,6 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test'
 import { cleanup, fireEvent, render, screen } from '@testing-library/react'
-import CreateIssueModal, { type ChatMessage } from './CreateIssueModal'
+import CreateIssueModal, {
+  type ChatMessage,
+  type ConversationSummary,
+} from './CreateIssueModal'
 
 describe('CreateIssueModal', () => {
   const mockOnClose = mock(() => {})
@@ -292,4 +295,254 @@ describe('CreateIssueModal', () => {
       expect(scrollIntoViewMock).toHaveBeenCalledWith({ behavior: 'smooth' })
     })
   })
+
+  describe('Tool calls', () => {
+    it('shows the tools an assistant message used with their results', () => {
+      const messages: ChatMessage[] = [
+        {
+          id: '1',
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call-1',
+              name: 'close_issue',
+              input: { issue_id: 'bd-1' },
+              result: '{"id":"bd-1","status":"closed"}',
+            },
+          ],
+        },
+      ]
+      render(
+        <CreateIssueModal {...getDefaultProps()} chatMessages={messages} />
+      )
+
+      const toolCall = screen.getByTestId('tool-call')
+      expect(toolCall).toHaveTextContent('close_issue')
+      expect(toolCall).toHaveTextContent('"issue_id": "bd-1"')
+      expect(screen.getByTestId('tool-call-result')).toHaveTextContent(
+        '{"id":"bd-1","status":"closed"}'
+      )
+      // No empty bubble for a message that only called tools
+      expect(
+        screen
+          .getByTestId('message-assistant')
+          .querySelector('.markdown-content')
+      ).toBeNull()
+    })
+  })
+
+  describe('Activity', () => {
+    it('shows the status of each tool call', () => {
+      const messages: ChatMessage[] = [
+        {
+          id: '1',
+          role: 'assistant',
+          content: 'Working on it',
+          toolCalls: [
+            {
+              id: 'call-1',
+              name: 'create_issue',
+              input: { title: 'Docs' },
+              status: 'succeeded',
+              result: '{"id":"bd-7"}',
+            },
+            {
+              id: 'call-2',
+              name: 'close_issue',
+              input: { issue_id: 'bd-9' },
+              status: 'failed',
+              result: 'Error: Issue not found',
+            },
+            {
+              id: 'call-3',
+              name: 'add_label',
+              input: { issue_id: 'bd-7', label: 'docs' },
+              status: 'running',
+            },
+          ],
+        },
+      ]
+      render(
+        <CreateIssueModal {...getDefaultProps()} chatMessages={messages} />
+      )
+
+      const toolCalls = screen.getAllByTestId('tool-call')
+      expect(toolCalls.map(toolCall => toolCall.dataset.status)).toEqual([
+        'succeeded',
+        'failed',
+        'running',
+      ])
+      expect(
+        screen
+          .getAllByTestId('tool-call-status')
+          .map(status => status.textContent)
+      ).toEqual(['done', 'failed', 'running...'])
+    })
+
+    it('shows the commit and push as collapsible cards', () => {
+      const messages: ChatMessage[] = [
+        {
+          id: '1',
+          role: 'assistant',
+          content: '',
+          activity: [
+            {
+              kind: 'commit',
+              success: true,
+              detail: 'feat(beads): Create issue bd-7 - Docs',
+            },
+            { kind: 'push', success: false, detail: 'Permission denied' },
+          ],
+        },
+      ]
+      render(
+        <CreateIssueModal {...getDefaultProps()} chatMessages={messages} />
+      )
+
+      const commit = screen.getByTestId('activity-commit')
+      expect(commit.tagName).toBe('DETAILS')
+      expect(commit).toHaveTextContent('Committed changes')
+      expect(commit).toHaveTextContent('feat(beads): Create issue bd-7 - Docs')
+      const push = screen.getByTestId('activity-push')
+      expect(push).toHaveAttribute('data-status', 'failed')
+      expect(push).toHaveTextContent('Push failed')
+      expect(push).toHaveTextContent('Permission denied')
+      // No empty bubble for a message that only reports activity
+      expect(
+        screen
+          .getByTestId('message-assistant')
+          .querySelector('.markdown-content')
+      ).toBeNull()
+    })
+  })
+
+  describe('Conversation switcher', () => {
+    const conversations: ConversationSummary[] = [
+      {
+        id: 'c1',
+        title: 'Planning',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-02T00:00:00Z',
+        messageCount: 4,
+      },
+      {
+        id: 'c2',
+        title: 'Bugs',
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+        messageCount: 2,
+      },
+    ]
+
+    const getSwitcherProps = () => ({
+      ...getDefaultProps(),
+      conversations,
+      activeConversationId: 'c1',
+      onSelectConversation: mock((_id: string) => {}),
+      onNewConversation: mock(() => {}),
+      onRenameConversation: mock((_id: string, _title: string) => {}),
+      onDeleteConversation: mock((_id: string) => {}),
+    })
+
+    it('is hidden without conversation handlers', () => {
+      render(<CreateIssueModal {...getDefaultProps()} />)
+      expect(
+        screen.queryByTestId('conversation-switcher')
+      ).not.toBeInTheDocument()
+    })
+
+    it('lists conversations and selects one', () => {
+      const props = getSwitcherProps()
+      render(<CreateIssueModal {...props} />)
+
+      const select = screen.getByTestId('conversation-select')
+      expect(select).toHaveValue('c1')
+      expect(screen.getByRole('option', { name: 'Bugs' })).toBeInTheDocument()
+
+      fireEvent.change(select, { target: { value: 'c2' } })
+      expect(props.onSelectConversation).toHaveBeenCalledWith('c2')
+    })
+
+    it('starts a new conversation', () => {
+      const props = getSwitcherProps()
+      render(<CreateIssueModal {...props} />)
+
+      fireEvent.click(screen.getByTestId('new-conversation-button'))
+      expect(props.onNewConversation).toHaveBeenCalled()
+    })
+
+    it('renames the active conversation', () => {
+      const props = getSwitcherProps()
+      render(<CreateIssueModal {...props} />)
+
+      fireEvent.click(screen.getByTestId('rename-conversation-button'))
+      const input = screen.getByTestId('conversation-title-input')
+      expect(input).toHaveValue('Planning')
+      fireEvent.change(input, { target: { value: 'Release planning' } })
+      fireEvent.click(screen.getByTestId('save-conversation-title-button'))
+
+      expect(props.onRenameConversation).toHaveBeenCalledWith(
+        'c1',
+        'Release planning'
+      )
+      expect(screen.getByTestId('conversation-select')).toBeInTheDocument()
+    })
+
+    it('asks for confirmation before deleting', () => {
+      const props = getSwitcherProps()
+      render(<CreateIssueModal {...props} />)
+
+      fireEvent.click(screen.getByTestId('delete-conversation-button'))
+      expect(props.onDeleteConversation).not.toHaveBeenCalled()
+
+      fireEvent.click(screen.getByTestId('confirm-delete-conversation-button'))
+      expect(props.onDeleteConversation).toHaveBeenCalledWith('c1')
+    })
+
+    it('only offers rename and delete for a stored conversation', () => {
+      render(
+        <CreateIssueModal {...getSwitcherProps()} activeConversationId={null} />
+      )
+
+      expect(screen.getByTestId('conversation-select')).toHaveValue('')
+      expect(
+        screen.queryByTestId('rename-conversation-button')
+      ).not.toBeInTheDocument()
+      expect(
+        screen.queryByTestId('delete-conversation-button')
+      ).not.toBeInTheDocument()
+    })
+
+    it('is disabled while a reply is loading', () => {
+      render(<CreateIssueModal {...getSwitcherProps()} isChatLoading />)
+
+      expect(screen.getByTestId('conversation-select')).toBeDisabled()
+    })
+  })
+
+  describe('Propose mode', () => {
+    it('is hidden without a handler', () => {
+      render(<CreateIssueModal {...getDefaultProps()} />)
+      expect(
+        screen.queryByTestId('propose-mode-toggle')
+      ).not.toBeInTheDocument()
+    })
+
+    it('toggles propose mode', () => {
+      const onProposeModeChange = mock((_proposeMode: boolean) => {})
+      render(
+        <CreateIssueModal
+          {...getDefaultProps()}
+          proposeMode={false}
+          onProposeModeChange={onProposeModeChange}
+        />
+      )
+
+      const toggle = screen.getByTestId('propose-mode-toggle')
+      expect(toggle).not.toBeChecked()
+      fireEvent.click(toggle)
+      expect(onProposeModeChange).toHaveBeenCalledWith(true)
+    })
+  })
 })
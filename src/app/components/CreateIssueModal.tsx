@@ -1,16 +1,48 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import Markdown from 'react-markdown'
+import { Button } from '@/components/ui/button'
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+
+export interface ChatToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+  /** What the tool returned, once it has run */
+  result?: string
+  status?: 'running' | 'succeeded' | 'failed'
+}
+
+/**
+ * A step in saving the changes a reply made: the commit, then the push
+ * for GitHub repositories
+ */
+export interface ChatSyncActivity {
+  kind: 'commit' | 'push'
+  success: boolean
+  /** The commit message, or why the step failed */
+  detail?: string
+}
 
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
+  toolCalls?: ChatToolCall[]
+  activity?: ChatSyncActivity[]
+}
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
 }
 
 interface CreateIssueModalProps {
@@ -19,6 +51,236 @@ interface CreateIssueModalProps {
   chatMessages: ChatMessage[]
   onSendMessage: (message: string) => void
   isChatLoading?: boolean
+  /** Stored conversations; the switcher is shown when provided */
+  conversations?: ConversationSummary[]
+  /** Conversation being shown, or null for a new one */
+  activeConversationId?: string | null
+  onSelectConversation?: (conversationId: string) => void
+  onNewConversation?: () => void
+  onRenameConversation?: (conversationId: string, title: string) => void
+  onDeleteConversation?: (conversationId: string) => void
+  /** Whether changes are proposed for review instead of made right away */
+  proposeMode?: boolean
+  /** Shows the propose mode toggle when provided */
+  onProposeModeChange?: (proposeMode: boolean) => void
+}
+
+interface ConversationSwitcherProps {
+  conversations: ConversationSummary[]
+  activeConversationId: string | null
+  disabled: boolean
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+  onRename?: (conversationId: string, title: string) => void
+  onDelete?: (conversationId: string) => void
+}
+
+function ConversationSwitcher({
+  conversations,
+  activeConversationId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSwitcherProps) {
+  const [renameTitle, setRenameTitle] = useState<string | null>(null)
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false)
+  const active = conversations.find(c => c.id === activeConversationId)
+
+  // Start over when switching conversations
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset on conversation change
+  useEffect(() => {
+    setRenameTitle(null)
+    setIsConfirmingDelete(false)
+  }, [activeConversationId])
+
+  if (renameTitle !== null && active) {
+    const handleRename = (e: React.FormEvent) => {
+      e.preventDefault()
+      const title = renameTitle.trim()
+      if (title) {
+        onRename?.(active.id, title)
+        setRenameTitle(null)
+      }
+    }
+    return (
+      <form
+        onSubmit={handleRename}
+        className="flex items-center gap-2"
+        data-testid="conversation-switcher"
+      >
+        <Input
+          value={renameTitle}
+          onChange={e => setRenameTitle(e.target.value)}
+          aria-label="Conversation title"
+          className="h-8"
+          autoFocus
+          data-testid="conversation-title-input"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!renameTitle.trim()}
+          data-testid="save-conversation-title-button"
+        >
+          Save
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setRenameTitle(null)}
+        >
+          Cancel
+        </Button>
+      </form>
+    )
+  }
+
+  return (
+    <div
+      className="flex items-center gap-2"
+      data-testid="conversation-switcher"
+    >
+      <select
+        value={activeConversationId ?? ''}
+        onChange={e => (e.target.value ? onSelect(e.target.value) : onNew())}
+        disabled={disabled}
+        aria-label="Conversation"
+        className="h-8 min-w-0 flex-1 rounded-md border bg-transparent px-2 text-sm"
+        data-testid="conversation-select"
+      >
+        <option value="">New conversation</option>
+        {conversations.map(conversation => (
+          <option key={conversation.id} value={conversation.id}>
+            {conversation.title}
+          </option>
+        ))}
+      </select>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onNew}
+        disabled={disabled || !activeConversationId}
+        data-testid="new-conversation-button"
+      >
+        New
+      </Button>
+      {active && onRename && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setRenameTitle(active.title)}
+          disabled={disabled}
+          data-testid="rename-conversation-button"
+        >
+          Rename
+        </Button>
+      )}
+      {active &&
+        onDelete &&
+        (isConfirmingDelete ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => onDelete(active.id)}
+            disabled={disabled}
+            data-testid="confirm-delete-conversation-button"
+          >
+            Confirm delete
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsConfirmingDelete(true)}
+            disabled={disabled}
+            data-testid="delete-conversation-button"
+          >
+            Delete
+          </Button>
+        ))}
+    </div>
+  )
+}
+
+const toolCallStatusLabels: Record<
+  NonNullable<ChatToolCall['status']>,
+  string
+> = {
+  running: 'running...',
+  succeeded: 'done',
+  failed: 'failed',
+}
+
+const syncActivityLabels: Record<
+  ChatSyncActivity['kind'],
+  { succeeded: string; failed: string }
+> = {
+  commit: { succeeded: 'Committed changes', failed: 'Commit failed' },
+  push: { succeeded: 'Pushed to GitHub', failed: 'Push failed' },
+}
+
+/**
+ * A tool the assistant ran, collapsed to its name and status until expanded
+ */
+function ToolCallDetails({ toolCall }: { toolCall: ChatToolCall }) {
+  return (
+    <details
+      className="mt-1 max-w-[90%] rounded-md border bg-gray-50 px-2 py-1 text-xs"
+      data-testid="tool-call"
+      data-status={toolCall.status}
+    >
+      <summary className="cursor-pointer font-mono text-gray-600">
+        {toolCall.name}
+        {toolCall.status && (
+          <span
+            className={`ml-2 font-sans ${toolCall.status === 'failed' ? 'text-red-600' : 'text-gray-400'}`}
+            data-testid="tool-call-status"
+          >
+            {toolCallStatusLabels[toolCall.status]}
+          </span>
+        )}
+      </summary>
+      <pre className="mt-1 whitespace-pre-wrap break-all text-gray-700">
+        {JSON.stringify(toolCall.input, null, 2)}
+      </pre>
+      {toolCall.result !== undefined && (
+        <pre
+          className="mt-1 whitespace-pre-wrap break-all border-t pt-1 text-gray-500"
+          data-testid="tool-call-result"
+        >
+          {toolCall.result}
+        </pre>
+      )}
+    </details>
+  )
+}
+
+/**
+ * A commit or push made for a reply, collapsed until expanded
+ */
+function SyncActivityDetails({ activity }: { activity: ChatSyncActivity }) {
+  const labels = syncActivityLabels[activity.kind]
+  return (
+    <details
+      className={`mt-1 max-w-[90%] rounded-md border px-2 py-1 text-xs ${activity.success ? 'bg-gray-50' : 'border-red-200 bg-red-50'}`}
+      data-testid={`activity-${activity.kind}`}
+      data-status={activity.success ? 'succeeded' : 'failed'}
+    >
+      <summary
+        className={`cursor-pointer ${activity.success ? 'text-gray-600' : 'text-red-600'}`}
+      >
+        {activity.success ? labels.succeeded : labels.failed}
+      </summary>
+      {activity.detail && (
+        <pre className="mt-1 whitespace-pre-wrap break-all text-gray-700">
+          {activity.detail}
+        </pre>
+      )}
+    </details>
+  )
 }
 
 function CreateIssueModal({
@@ -27,6 +289,14 @@ function CreateIssueModal({
   chatMessages,
   onSendMessage,
   isChatLoading = false,
+  conversations,
+  activeConversationId = null,
+  onSelectConversation,
+  onNewConversation,
+  onRenameConversation,
+  onDeleteConversation,
+  proposeMode = false,
+  onProposeModeChange,
 }: CreateIssueModalProps) {
   const [chatInput, setChatInput] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -73,6 +343,18 @@ function CreateIssueModal({
           <DialogTitle>Issue Assistant</DialogTitle>
         </DialogHeader>
 
+        {conversations && onSelectConversation && onNewConversation && (
+          <ConversationSwitcher
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            disabled={isChatLoading}
+            onSelect={onSelectConversation}
+            onNew={onNewConversation}
+            onRename={onRenameConversation}
+            onDelete={onDeleteConversation}
+          />
+        )}
+
         {/* Chat Section */}
         <div className="flex flex-col flex-1 min-h-0" data-testid="chat-panel">
           {/* Message History */}
@@ -98,21 +380,35 @@ function CreateIssueModal({
                 className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
                 data-testid={`message-${message.role}`}
               >
-                <div
-                  className={`max-w-[90%] px-3 py-2 rounded-lg text-sm ${
-                    message.role === 'user'
-                      ? 'bg-blue-500 text-white rounded-br-sm'
-                      : 'bg-white border shadow-sm rounded-bl-sm'
-                  }`}
-                >
-                  {message.role === 'assistant' ? (
-                    <div className="markdown-content prose prose-sm max-w-none">
-                      <Markdown>{message.content}</Markdown>
-                    </div>
-                  ) : (
-                    message.content
-                  )}
-                </div>
+                {(message.content ||
+                  (!message.toolCalls?.length &&
+                    !message.activity?.length)) && (
+                  <div
+                    className={`max-w-[90%] px-3 py-2 rounded-lg text-sm ${
+                      message.role === 'user'
+                        ? 'bg-blue-500 text-white rounded-br-sm'
+                        : 'bg-white border shadow-sm rounded-bl-sm'
+                    }`}
+                  >
+                    {message.role === 'assistant' ? (
+                      <div className="markdown-content prose prose-sm max-w-none">
+                        <Markdown>{message.content}</Markdown>
+                      </div>
+                    ) : (
+                      message.content
+                    )}
+                  </div>
+                )}
+                {message.toolCalls?.map(toolCall => (
+                  <ToolCallDetails key={toolCall.id} toolCall={toolCall} />
+                ))}
+                {message.activity?.map((activity, index) => (
+                  <SyncActivityDetails
+                    // biome-ignore lint/suspicious/noArrayIndexKey: activity is only ever appended
+                    key={index}
+                    activity={activity}
+                  />
+                ))}
                 <div className="text-xs text-gray-400 mt-1">
                   {message.role === 'user' ? 'You' : 'Assistant'}
                 </div>
@@ -167,6 +463,17 @@ function CreateIssueModal({
               </button>
             </div>
           </form>
+          {onProposeModeChange && (
+            <label className="flex items-center gap-2 mt-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={proposeMode}
+                onChange={e => onProposeModeChange(e.target.checked)}
+                data-testid="propose-mode-toggle"
+              />
+              Review changes on the graph before they are made
+            </label>
+          )}
         </div>
 
         <style>{`
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import CriticalPathPanel from './CriticalPathPanel'
+
+function renderPanel(
+  props: Partial<Parameters<typeof CriticalPathPanel>[0]> = {}
+) {
+  return render(
+    <CriticalPathPanel
+      enabled={true}
+      onEnabledChange={() => {}}
+      weighted={false}
+      onWeightedChange={() => {}}
+      path={{ issueIds: ['a', 'b'], length: 2, weighted: false }}
+      {...props}
+    />
+  )
+}
+
+describe('CriticalPathPanel', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('toggles the highlight', () => {
+    const onEnabledChange = mock(() => {})
+    renderPanel({ enabled: false, onEnabledChange })
+
+    fireEvent.click(screen.getByTestId('critical-path-toggle'))
+
+    expect(onEnabledChange).toHaveBeenCalledWith(true)
+    expect(screen.queryByTestId('critical-path-weighted')).toBeNull()
+  })
+
+  it('shows the length of the path', () => {
+    renderPanel()
+
+    expect(screen.getByTestId('critical-path-length')).toHaveTextContent(
+      '2 issues'
+    )
+  })
+
+  it('switches to weighting by estimate', () => {
+    const onWeightedChange = mock(() => {})
+    renderPanel({ onWeightedChange })
+
+    fireEvent.click(screen.getByTestId('critical-path-weighted'))
+
+    expect(onWeightedChange).toHaveBeenCalledWith(true)
+  })
+
+  it('says when there is nothing left to do', () => {
+    renderPanel({ path: { issueIds: [], length: 0, weighted: false } })
+
+    expect(screen.getByTestId('critical-path-length')).toHaveTextContent(
+      'Nothing left to do'
+    )
+  })
+})
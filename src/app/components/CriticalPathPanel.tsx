@@ -0,0 +1,98 @@
+import {
+  type CriticalPath,
+  formatCriticalPathLength,
+} from '../transformers/criticalPath'
+
+interface CriticalPathPanelProps {
+  /** Whether the path is highlighted on the canvas */
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  /** Measure the path by estimates rather than by issue count */
+  weighted: boolean
+  onWeightedChange: (weighted: boolean) => void
+  /** The current path, once loaded */
+  path: CriticalPath | null
+}
+
+function CriticalPathPanel({
+  enabled,
+  onEnabledChange,
+  weighted,
+  onWeightedChange,
+  path,
+}: CriticalPathPanelProps) {
+  return (
+    <aside
+      aria-label="Critical path"
+      style={{
+        position: 'absolute',
+        bottom: '16px',
+        left: '64px',
+        zIndex: 10,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '8px 12px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        fontSize: '12px',
+        color: '#374151',
+      }}
+      data-testid="critical-path-panel"
+    >
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          cursor: 'pointer',
+          fontWeight: 600,
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={event => onEnabledChange(event.target.checked)}
+          data-testid="critical-path-toggle"
+        />
+        Critical path
+      </label>
+
+      {enabled && (
+        <>
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={weighted}
+              onChange={event => onWeightedChange(event.target.checked)}
+              data-testid="critical-path-weighted"
+            />
+            By estimate
+          </label>
+          {path && (
+            <span
+              style={{
+                color: path.issueIds.length > 0 ? '#dc2626' : '#6b7280',
+              }}
+              data-testid="critical-path-length"
+            >
+              {path.issueIds.length > 0
+                ? formatCriticalPathLength(path)
+                : 'Nothing left to do'}
+            </span>
+          )}
+        </>
+      )}
+    </aside>
+  )
+}
+
+export default CriticalPathPanel
@@ -38,4 +38,23 @@ describe('DagCanvas', () => {
     expect(screen.getByText('Node 1')).toBeDefined()
     expect(screen.getByText('Node 2')).toBeDefined()
   })
+
+  it('accepts edge deletion and context menu callbacks', () => {
+    const nodes = [
+      { id: '1', position: { x: 0, y: 0 }, data: { label: 'Node 1' } },
+      { id: '2', position: { x: 100, y: 100 }, data: { label: 'Node 2' } },
+    ]
+    const edges = [{ id: '1-2', source: '1', target: '2' }]
+
+    render(
+      <DagCanvas
+        nodes={nodes}
+        edges={edges}
+        onEdgesDelete={mock(() => {})}
+        onEdgeContextMenu={mock(() => {})}
+      />
+    )
+
+    expect(screen.getByText('Node 1')).toBeDefined()
+  })
 })
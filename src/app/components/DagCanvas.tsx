@@ -1,9 +1,12 @@
 import type {
   Connection,
   Edge,
+  EdgeMouseHandler,
   Node,
+  NodeMouseHandler,
   OnConnect,
   OnEdgesChange,
+  OnNodeDrag,
   OnNodesChange,
 } from '@xyflow/react'
 import {
@@ -19,10 +22,19 @@ import {
 import { useCallback, useEffect } from 'react'
 import '@xyflow/react/dist/style.css'
 import { dagLog } from '../utils/dagLogger'
+import DependencyEdge from './DependencyEdge'
+import EpicNode from './EpicNode'
 import IssueNode from './IssueNode'
+import SwimlaneNode from './SwimlaneNode'
 
 const nodeTypes = {
   issue: IssueNode,
+  epic: EpicNode,
+  swimlane: SwimlaneNode,
+}
+
+const edgeTypes = {
+  dependency: DependencyEdge,
 }
 
 interface DagCanvasProps {
@@ -31,14 +43,30 @@ interface DagCanvasProps {
   onNodesChange?: OnNodesChange
   onEdgesChange?: OnEdgesChange
   onConnect?: OnConnect
+  onNodeContextMenu?: NodeMouseHandler
+  onEdgeContextMenu?: EdgeMouseHandler
+  /** Called when nodes have been dragged to a new position */
+  onNodeDragStop?: OnNodeDrag
+  /** Called when selected edges are deleted with the keyboard */
+  onEdgesDelete?: (edges: Edge[]) => void
+  /** Issues can be moved around but not linked */
+  readOnly?: boolean
 }
 
+// Backspace matches React Flow's default, Delete is what most keyboards label it
+const DELETE_KEYS = ['Backspace', 'Delete']
+
 function DagCanvasInner({
   nodes: initialNodes,
   edges: initialEdges,
   onNodesChange: externalOnNodesChange,
   onEdgesChange: externalOnEdgesChange,
   onConnect: externalOnConnect,
+  onNodeContextMenu,
+  onEdgeContextMenu,
+  onNodeDragStop,
+  onEdgesDelete,
+  readOnly = false,
 }: DagCanvasProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes)
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges)
@@ -71,15 +99,35 @@ function DagCanvasInner({
     [setEdges, externalOnConnect]
   )
 
+  // Nodes are issues and can't be deleted from the canvas, so only let
+  // selected edges through (React Flow also offers the edges of selected nodes)
+  const handleBeforeDelete = useCallback(
+    async ({ edges: deleting }: { nodes: Node[]; edges: Edge[] }) => {
+      const selectedEdges = deleting.filter(edge => edge.selected)
+      return selectedEdges.length > 0
+        ? { nodes: [], edges: selectedEdges }
+        : false
+    },
+    []
+  )
+
   return (
     <div style={{ width: '100%', height: '100%' }}>
       <ReactFlow
         nodes={nodes}
         edges={edges}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         onNodesChange={externalOnNodesChange ?? onNodesChange}
         onEdgesChange={externalOnEdgesChange ?? onEdgesChange}
         onConnect={handleConnect}
+        onNodeContextMenu={onNodeContextMenu}
+        onEdgeContextMenu={onEdgeContextMenu}
+        onNodeDragStop={onNodeDragStop}
+        onBeforeDelete={handleBeforeDelete}
+        onEdgesDelete={onEdgesDelete}
+        deleteKeyCode={onEdgesDelete ? DELETE_KEYS : null}
+        nodesConnectable={!readOnly}
         fitView
         fitViewOptions={{ maxZoom: 1 }}
         panOnScroll
@@ -0,0 +1,46 @@
+import type { EdgeProps } from '@xyflow/react'
+import { BaseEdge, getBezierPath } from '@xyflow/react'
+import { getDependencyTypeInfo } from '../transformers/dependencyToEdge'
+
+/**
+ * A dependency between two issues, with a tooltip saying how they are linked
+ */
+function DependencyEdge({
+  source,
+  target,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  data,
+}: EdgeProps) {
+  const [path] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  })
+  const dependencyType = data?.dependencyType
+
+  return (
+    <g
+      data-testid="dependency-edge"
+      data-dependency-type={
+        typeof dependencyType === 'string' ? dependencyType : undefined
+      }
+    >
+      <title>
+        {getDependencyTypeInfo(dependencyType).describe(source, target)}
+      </title>
+      <BaseEdge path={path} style={style} markerEnd={markerEnd} />
+    </g>
+  )
+}
+
+export default DependencyEdge
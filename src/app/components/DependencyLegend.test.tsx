@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import DependencyLegend from './DependencyLegend'
+
+function renderLegend(
+  props: Partial<Parameters<typeof DependencyLegend>[0]> = {}
+) {
+  return render(
+    <DependencyLegend
+      connectType="blocks"
+      onConnectTypeChange={() => {}}
+      hideNonBlocking={false}
+      onHideNonBlockingChange={() => {}}
+      {...props}
+    />
+  )
+}
+
+describe('DependencyLegend', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('lists each dependency type', () => {
+    renderLegend()
+
+    expect(
+      screen
+        .getAllByTestId('dependency-legend-item')
+        .map(item => item.textContent)
+    ).toEqual(['Blocks', 'Related', 'Parent / child', 'Discovered from'])
+  })
+
+  it('changes the type of new links', () => {
+    const onConnectTypeChange = mock(() => {})
+    renderLegend({ onConnectTypeChange })
+
+    fireEvent.change(screen.getByTestId('connect-type-select'), {
+      target: { value: 'related' },
+    })
+
+    expect(onConnectTypeChange).toHaveBeenCalledWith('related')
+  })
+
+  it('toggles hiding non-blocking links', () => {
+    const onHideNonBlockingChange = mock(() => {})
+    renderLegend({ onHideNonBlockingChange })
+
+    fireEvent.click(screen.getByTestId('hide-non-blocking-toggle'))
+
+    expect(onHideNonBlockingChange).toHaveBeenCalledWith(true)
+  })
+
+  it('collapses to its title', () => {
+    renderLegend()
+
+    fireEvent.click(screen.getByTestId('dependency-legend-toggle'))
+
+    expect(screen.queryByTestId('dependency-legend-item')).toBeNull()
+  })
+})
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import {
+  DEPENDENCY_TYPES,
+  type DependencyType,
+  dependencyTypeInfo,
+} from '../transformers/dependencyToEdge'
+
+interface DependencyLegendProps {
+  /** Type given to dependencies drawn by connecting two issues */
+  connectType: DependencyType
+  onConnectTypeChange: (type: DependencyType) => void
+  /** Leave edges that don't block out of the graph and its layout */
+  hideNonBlocking: boolean
+  onHideNonBlockingChange: (hide: boolean) => void
+}
+
+/**
+ * Key to the edge styles, with the type new connections get and whether
+ * non-blocking edges are shown
+ */
+function DependencyLegend({
+  connectType,
+  onConnectTypeChange,
+  hideNonBlocking,
+  onHideNonBlockingChange,
+}: DependencyLegendProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false)
+
+  return (
+    <aside
+      aria-label="Dependency types"
+      style={{
+        position: 'absolute',
+        bottom: '16px',
+        right: '96px',
+        zIndex: 10,
+        width: isCollapsed ? 'auto' : '220px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+      }}
+      data-testid="dependency-legend"
+    >
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(collapsed => !collapsed)}
+        aria-expanded={!isCollapsed}
+        style={{
+          display: 'block',
+          width: '100%',
+          textAlign: 'left',
+          padding: '10px 12px',
+          border: 'none',
+          background: 'none',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: 600,
+          color: '#1f2937',
+        }}
+        data-testid="dependency-legend-toggle"
+      >
+        Dependencies
+      </button>
+
+      {!isCollapsed && (
+        <div style={{ padding: '0 12px 10px', fontSize: '12px' }}>
+          <ul style={{ margin: 0, padding: 0, listStyle: 'none' }}>
+            {DEPENDENCY_TYPES.map(type => (
+              <li
+                key={type}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '2px 0',
+                  color: '#374151',
+                }}
+                data-testid="dependency-legend-item"
+              >
+                <svg width="32" height="8" aria-hidden="true">
+                  <line
+                    x1="0"
+                    y1="4"
+                    x2="32"
+                    y2="4"
+                    style={dependencyTypeInfo[type].style}
+                  />
+                </svg>
+                {dependencyTypeInfo[type].label}
+              </li>
+            ))}
+          </ul>
+
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              marginTop: '8px',
+              color: '#374151',
+            }}
+          >
+            New links
+            <select
+              value={connectType}
+              onChange={event =>
+                onConnectTypeChange(event.target.value as DependencyType)
+              }
+              style={{ flex: 1, fontSize: '12px' }}
+              data-testid="connect-type-select"
+            >
+              {DEPENDENCY_TYPES.map(type => (
+                <option key={type} value={type}>
+                  {dependencyTypeInfo[type].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              marginTop: '6px',
+              color: '#374151',
+              cursor: 'pointer',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={hideNonBlocking}
+              onChange={event => onHideNonBlockingChange(event.target.checked)}
+              data-testid="hide-non-blocking-toggle"
+            />
+            Hide non-blocking links
+          </label>
+        </div>
+      )}
+    </aside>
+  )
+}
+
+export default DependencyLegend
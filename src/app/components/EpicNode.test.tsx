@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import { ReactFlowProvider } from '@xyflow/react'
+import type { EpicNodeData } from './EpicNode'
+import EpicNode from './EpicNode'
+
+const defaultData: EpicNodeData = {
+  issueId: 'epic-1',
+  title: 'Launch the new editor',
+  status: 'open',
+  type: 'epic',
+  priority: 'P1',
+  progress: { closed: 2, total: 5 },
+  collapsed: false,
+}
+
+function renderEpicNode(data: EpicNodeData = defaultData) {
+  return render(
+    <ReactFlowProvider>
+      <EpicNode
+        id="test-node"
+        data={data as unknown as Record<string, unknown>}
+        type="epic"
+        dragging={false}
+        draggable={true}
+        zIndex={0}
+        isConnectable={true}
+        positionAbsoluteX={0}
+        positionAbsoluteY={0}
+        selectable={true}
+        deletable={false}
+        selected={false}
+      />
+    </ReactFlowProvider>
+  )
+}
+
+describe('EpicNode', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('renders the title and rollup progress', () => {
+    renderEpicNode()
+
+    expect(screen.getByTestId('issue-title')).toHaveTextContent(
+      'Launch the new editor'
+    )
+    expect(screen.getByTestId('epic-progress')).toHaveTextContent('2/5 closed')
+  })
+
+  it('toggles collapse for the epic', () => {
+    const onToggleCollapse = mock(() => {})
+    renderEpicNode({ ...defaultData, onToggleCollapse })
+
+    fireEvent.click(screen.getByTestId('epic-toggle'))
+
+    expect(onToggleCollapse).toHaveBeenCalledWith('epic-1')
+  })
+
+  it('offers to expand a collapsed epic', () => {
+    renderEpicNode({ ...defaultData, collapsed: true })
+
+    expect(screen.getByTestId('epic-node')).toHaveAttribute(
+      'data-epic-collapsed',
+      'true'
+    )
+    expect(screen.getByTestId('epic-toggle')).toHaveTextContent('Expand')
+  })
+
+  it('has nothing to collapse without children', () => {
+    renderEpicNode({ ...defaultData, progress: { closed: 0, total: 0 } })
+
+    expect(screen.queryByTestId('epic-toggle')).toBeNull()
+    expect(screen.getByTestId('epic-progress')).toHaveTextContent('Open')
+  })
+
+  it('calls onSelect when the title is clicked', () => {
+    const onSelect = mock(() => {})
+    renderEpicNode({ ...defaultData, onSelect })
+
+    fireEvent.click(screen.getByTestId('issue-title'))
+
+    expect(onSelect).toHaveBeenCalledTimes(1)
+  })
+})
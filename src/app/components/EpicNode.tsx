@@ -0,0 +1,162 @@
+import type { NodeProps } from '@xyflow/react'
+import { Handle, Position } from '@xyflow/react'
+import {
+  type IssueNodeData,
+  priorityColors,
+  statusColors,
+  statusLabels,
+} from './IssueNode'
+
+export interface EpicProgress {
+  closed: number
+  total: number
+}
+
+export interface EpicNodeData extends IssueNodeData {
+  /** Closed and total children, across the whole graph */
+  progress: EpicProgress
+  /** Children are hidden and the epic is drawn as a single card */
+  collapsed: boolean
+  onToggleCollapse?: (issueId: string) => void
+}
+
+/**
+ * An epic, drawn as a group around its children with their rollup progress.
+ * Collapsed, or with no children, it is a card the size of an issue node.
+ */
+function EpicNode({ data }: NodeProps) {
+  const epicData = data as unknown as EpicNodeData
+  const { closed, total } = epicData.progress
+  const isGroup = !epicData.collapsed && total > 0
+
+  return (
+    <div
+      style={{
+        borderRadius: '12px',
+        backgroundColor: isGroup ? 'rgba(139, 92, 246, 0.06)' : '#ffffff',
+        border: `2px ${epicData.proposal ? 'dashed' : 'solid'} #8b5cf6`,
+        boxShadow: epicData.isReady
+          ? '0 0 0 4px rgba(34, 197, 94, 0.35), 0 2px 4px rgba(0, 0, 0, 0.1)'
+          : '0 2px 4px rgba(0, 0, 0, 0.1)',
+        outline: epicData.onCriticalPath ? '3px solid #dc2626' : undefined,
+        outlineOffset: '2px',
+        width: isGroup ? '100%' : '400px',
+        height: isGroup ? '100%' : undefined,
+        boxSizing: 'border-box',
+        position: 'relative',
+      }}
+      data-testid="epic-node"
+      data-issue-id={epicData.issueId}
+      data-issue-status={epicData.status}
+      data-epic-collapsed={epicData.collapsed ? 'true' : undefined}
+      data-critical-path={epicData.onCriticalPath ? 'true' : undefined}
+    >
+      <Handle type="target" position={Position.Left} />
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '12px 16px',
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => epicData.onSelect?.(epicData)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: 0,
+            border: 'none',
+            background: 'none',
+            textAlign: 'left',
+            cursor: 'pointer',
+          }}
+        >
+          <span
+            style={{
+              fontSize: '12px',
+              fontWeight: 600,
+              color: priorityColors[epicData.priority],
+            }}
+            data-testid="issue-type-priority"
+          >
+            {epicData.priority} epic
+          </span>
+          <div
+            style={{
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#1f2937',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+            data-testid="issue-title"
+          >
+            {epicData.title}
+          </div>
+        </button>
+
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-end',
+            gap: '4px',
+          }}
+          data-testid="epic-progress"
+          title={`${closed} of ${total} child issues closed`}
+        >
+          <span style={{ fontSize: '11px', color: '#4b5563' }}>
+            {total > 0
+              ? `${closed}/${total} closed`
+              : statusLabels[epicData.status]}
+          </span>
+          <div
+            style={{
+              width: '80px',
+              height: '6px',
+              borderRadius: '3px',
+              backgroundColor: '#e5e7eb',
+              overflow: 'hidden',
+            }}
+          >
+            <div
+              style={{
+                width: `${total > 0 ? (closed / total) * 100 : 0}%`,
+                height: '100%',
+                backgroundColor: statusColors.closed,
+              }}
+            />
+          </div>
+        </div>
+
+        {total > 0 && (
+          <button
+            type="button"
+            onClick={() => epicData.onToggleCollapse?.(epicData.issueId)}
+            aria-expanded={!epicData.collapsed}
+            style={{
+              padding: '2px 8px',
+              borderRadius: '4px',
+              border: '1px solid #e5e7eb',
+              backgroundColor: '#ffffff',
+              color: '#4b5563',
+              fontSize: '11px',
+              cursor: 'pointer',
+            }}
+            data-testid="epic-toggle"
+          >
+            {epicData.collapsed ? 'Expand' : 'Collapse'}
+          </button>
+        )}
+      </div>
+
+      <Handle type="source" position={Position.Right} />
+    </div>
+  )
+}
+
+export default EpicNode
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import { EMPTY_FILTERS, type IssueFilters } from '../transformers/issueFilters'
+import FilterToolbar from './FilterToolbar'
+
+function renderToolbar(
+  filters: IssueFilters = EMPTY_FILTERS,
+  onChange: (filters: IssueFilters) => void = mock(() => {})
+) {
+  return render(
+    <FilterToolbar
+      filters={filters}
+      onChange={onChange}
+      assignees={['alice', 'bob']}
+      labels={['auth', 'frontend']}
+      visibleCount={3}
+      totalCount={10}
+    />
+  )
+}
+
+describe('FilterToolbar', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('renders the search box and filters', () => {
+    renderToolbar()
+    expect(screen.getByTestId('filter-search')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-status')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-type')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-priority')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-assignee')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-label')).toBeInTheDocument()
+    expect(screen.getByTestId('filter-hide-closed')).toBeInTheDocument()
+  })
+
+  it('reports search text changes', () => {
+    const onChange = mock(() => {})
+    renderToolbar(EMPTY_FILTERS, onChange)
+    fireEvent.change(screen.getByTestId('filter-search'), {
+      target: { value: 'login' },
+    })
+    expect(onChange).toHaveBeenCalledWith({ ...EMPTY_FILTERS, query: 'login' })
+  })
+
+  it('reports select changes, using null for "all"', () => {
+    const onChange = mock(() => {})
+    renderToolbar({ ...EMPTY_FILTERS, type: 'bug' }, onChange)
+    fireEvent.change(screen.getByTestId('filter-assignee'), {
+      target: { value: 'bob' },
+    })
+    expect(onChange).toHaveBeenCalledWith({
+      ...EMPTY_FILTERS,
+      type: 'bug',
+      assignee: 'bob',
+    })
+
+    fireEvent.change(screen.getByTestId('filter-type'), {
+      target: { value: '' },
+    })
+    expect(onChange).toHaveBeenLastCalledWith(EMPTY_FILTERS)
+  })
+
+  it('reports the hide closed toggle', () => {
+    const onChange = mock(() => {})
+    renderToolbar(EMPTY_FILTERS, onChange)
+    fireEvent.click(screen.getByTestId('filter-hide-closed'))
+    expect(onChange).toHaveBeenCalledWith({
+      ...EMPTY_FILTERS,
+      hideClosed: true,
+    })
+  })
+
+  it('shows the match count and clear button only while filtering', () => {
+    renderToolbar()
+    expect(screen.queryByTestId('filter-count')).not.toBeInTheDocument()
+    cleanup()
+
+    const onChange = mock(() => {})
+    renderToolbar({ ...EMPTY_FILTERS, status: 'open' }, onChange)
+    expect(screen.getByTestId('filter-count')).toHaveTextContent(
+      '3 of 10 issues'
+    )
+    fireEvent.click(screen.getByTestId('filter-clear'))
+    expect(onChange).toHaveBeenCalledWith(EMPTY_FILTERS)
+  })
+})
@@ -0,0 +1,210 @@
+import type { CSSProperties } from 'react'
+import {
+  EMPTY_FILTERS,
+  hasActiveFilters,
+  type IssueFilters,
+} from '../transformers/issueFilters'
+import type { IssuePriority, IssueStatus, IssueType } from './IssueNode'
+
+interface FilterToolbarProps {
+  filters: IssueFilters
+  onChange: (filters: IssueFilters) => void
+  /** Assignees present in the graph */
+  assignees: string[]
+  /** Labels present in the graph */
+  labels: string[]
+  visibleCount: number
+  totalCount: number
+}
+
+const statusOptions: { value: IssueStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'closed', label: 'Closed' },
+]
+
+const typeOptions: { value: IssueType; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'bug', label: 'Bug' },
+  { value: 'feature', label: 'Feature' },
+  { value: 'epic', label: 'Epic' },
+]
+
+const priorityOptions: IssuePriority[] = ['P0', 'P1', 'P2', 'P3']
+
+// Value of the "any" option in each select
+const ANY = ''
+
+const controlStyle: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '6px',
+  border: '1px solid #e5e7eb',
+  backgroundColor: '#ffffff',
+  fontSize: '13px',
+  color: '#1f2937',
+}
+
+function FilterToolbar({
+  filters,
+  onChange,
+  assignees,
+  labels,
+  visibleCount,
+  totalCount,
+}: FilterToolbarProps) {
+  const update = (changes: Partial<IssueFilters>) =>
+    onChange({ ...filters, ...changes })
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Filter issues"
+      style={{
+        position: 'absolute',
+        top: '16px',
+        left: '16px',
+        right: '16px',
+        zIndex: 10,
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '8px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+      }}
+      data-testid="filter-toolbar"
+    >
+      <input
+        type="search"
+        placeholder="Search title, description or ID"
+        aria-label="Search issues"
+        value={filters.query}
+        onChange={e => update({ query: e.target.value })}
+        style={{ ...controlStyle, flex: '1 1 220px', minWidth: '160px' }}
+        data-testid="filter-search"
+      />
+
+      <select
+        aria-label="Filter by status"
+        value={filters.status ?? ANY}
+        onChange={e =>
+          update({ status: (e.target.value as IssueStatus) || null })
+        }
+        style={controlStyle}
+        data-testid="filter-status"
+      >
+        <option value={ANY}>All statuses</option>
+        {statusOptions.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Filter by type"
+        value={filters.type ?? ANY}
+        onChange={e => update({ type: (e.target.value as IssueType) || null })}
+        style={controlStyle}
+        data-testid="filter-type"
+      >
+        <option value={ANY}>All types</option>
+        {typeOptions.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Filter by priority"
+        value={filters.priority ?? ANY}
+        onChange={e =>
+          update({ priority: (e.target.value as IssuePriority) || null })
+        }
+        style={controlStyle}
+        data-testid="filter-priority"
+      >
+        <option value={ANY}>All priorities</option>
+        {priorityOptions.map(priority => (
+          <option key={priority} value={priority}>
+            {priority}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Filter by assignee"
+        value={filters.assignee ?? ANY}
+        onChange={e => update({ assignee: e.target.value || null })}
+        disabled={assignees.length === 0 && filters.assignee === null}
+        style={controlStyle}
+        data-testid="filter-assignee"
+      >
+        <option value={ANY}>All assignees</option>
+        {assignees.map(assignee => (
+          <option key={assignee} value={assignee}>
+            {assignee}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Filter by label"
+        value={filters.label ?? ANY}
+        onChange={e => update({ label: e.target.value || null })}
+        disabled={labels.length === 0 && filters.label === null}
+        style={controlStyle}
+        data-testid="filter-label"
+      >
+        <option value={ANY}>All labels</option>
+        {labels.map(label => (
+          <option key={label} value={label}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          fontSize: '13px',
+          color: '#1f2937',
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={filters.hideClosed}
+          onChange={e => update({ hideClosed: e.target.checked })}
+          data-testid="filter-hide-closed"
+        />
+        Hide closed
+      </label>
+
+      {hasActiveFilters(filters) && (
+        <>
+          <span
+            style={{ fontSize: '12px', color: '#6b7280' }}
+            data-testid="filter-count"
+          >
+            {visibleCount} of {totalCount} issues
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_FILTERS)}
+            style={{ ...controlStyle, cursor: 'pointer' }}
+            data-testid="filter-clear"
+          >
+            Clear
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default FilterToolbar
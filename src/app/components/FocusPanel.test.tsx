@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import FocusPanel from './FocusPanel'
+
+function renderPanel(props: Partial<Parameters<typeof FocusPanel>[0]> = {}) {
+  return render(
+    <FocusPanel
+      focus={{ issueId: 'bead-1', depth: 2 }}
+      title="Fix login redirect"
+      onDepthChange={() => {}}
+      onExit={() => {}}
+      {...props}
+    />
+  )
+}
+
+describe('FocusPanel', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('shows the focused issue and depth', () => {
+    renderPanel()
+
+    expect(screen.getByTestId('focus-issue')).toHaveTextContent(
+      'Focused on bead-1 Fix login redirect'
+    )
+    expect(screen.getByTestId('focus-depth')).toHaveValue('2')
+  })
+
+  it('changes the depth', () => {
+    const onDepthChange = mock(() => {})
+    renderPanel({ onDepthChange })
+
+    fireEvent.change(screen.getByTestId('focus-depth'), {
+      target: { value: '3' },
+    })
+    expect(onDepthChange).toHaveBeenCalledWith(3)
+
+    fireEvent.change(screen.getByTestId('focus-depth'), {
+      target: { value: '' },
+    })
+    expect(onDepthChange).toHaveBeenCalledWith(null)
+  })
+
+  it('exits focus mode', () => {
+    const onExit = mock(() => {})
+    renderPanel({ onExit })
+
+    fireEvent.click(screen.getByTestId('focus-exit'))
+
+    expect(onExit).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,102 @@
+import { FOCUS_DEPTHS, type IssueFocus } from '../transformers/focusGraph'
+
+interface FocusPanelProps {
+  focus: IssueFocus
+  /** Title of the focused issue, once the graph has loaded */
+  title?: string
+  onDepthChange: (depth: number | null) => void
+  onExit: () => void
+}
+
+// Value of the depth option that follows every link
+const ALL = ''
+
+/**
+ * Shows which issue the canvas is focused on, with controls to change how
+ * far out to look and to go back to the whole graph
+ */
+function FocusPanel({ focus, title, onDepthChange, onExit }: FocusPanelProps) {
+  return (
+    <aside
+      aria-label="Focus"
+      style={{
+        position: 'absolute',
+        top: '80px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 10,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        maxWidth: '480px',
+        padding: '8px 12px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        fontSize: '12px',
+        color: '#374151',
+      }}
+      data-testid="focus-panel"
+    >
+      <span
+        style={{
+          minWidth: 0,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+        title={title}
+        data-testid="focus-issue"
+      >
+        Focused on <strong>{focus.issueId}</strong>
+        {title && ` ${title}`}
+      </span>
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Depth
+        <select
+          value={focus.depth === null ? ALL : String(focus.depth)}
+          onChange={event =>
+            onDepthChange(
+              event.target.value === ALL ? null : Number(event.target.value)
+            )
+          }
+          style={{
+            padding: '2px 4px',
+            borderRadius: '4px',
+            border: '1px solid #e5e7eb',
+            fontSize: '12px',
+          }}
+          data-testid="focus-depth"
+        >
+          {FOCUS_DEPTHS.map(depth => (
+            <option key={depth} value={String(depth)}>
+              {depth}
+            </option>
+          ))}
+          <option value={ALL}>All</option>
+        </select>
+      </label>
+
+      <button
+        type="button"
+        onClick={onExit}
+        style={{
+          padding: '2px 8px',
+          borderRadius: '4px',
+          border: '1px solid #e5e7eb',
+          backgroundColor: '#ffffff',
+          color: '#4b5563',
+          fontSize: '12px',
+          cursor: 'pointer',
+          whiteSpace: 'nowrap',
+        }}
+        data-testid="focus-exit"
+      >
+        Show all
+      </button>
+    </aside>
+  )
+}
+
+export default FocusPanel
@@ -1,5 +1,11 @@
 import { afterEach, describe, expect, it, mock } from 'bun:test'
-import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react'
 import IssueDetailModal from './IssueDetailModal'
 import type { IssueNodeData } from './IssueNode'
 
@@ -139,6 +145,23 @@ describe('IssueDetailModal', () => {
     ).not.toBeInTheDocument()
   })
 
+  it('displays labels when provided', () => {
+    render(
+      <IssueDetailModal
+        issue={{ ...mockIssue, labels: ['frontend', 'auth'] }}
+        onClose={mock(() => {})}
+      />
+    )
+    const labels = screen.getByTestId('issue-detail-labels')
+    expect(labels).toHaveTextContent('frontend')
+    expect(labels).toHaveTextContent('auth')
+  })
+
+  it('does not display labels section without labels', () => {
+    render(<IssueDetailModal issue={mockIssue} onClose={mock(() => {})} />)
+    expect(screen.queryByTestId('issue-detail-labels')).not.toBeInTheDocument()
+  })
+
   it('renders multiline descriptions', () => {
     const issueWithMultilineDescription: IssueNodeData = {
       ...mockIssue,
@@ -259,4 +282,240 @@ describe('IssueDetailModal', () => {
     const description = screen.getByTestId('issue-detail-description')
     expect(description).toHaveClass('overflow-y-auto')
   })
+
+  describe('editing', () => {
+    it('offers editing only when onUpdate is provided', () => {
+      render(<IssueDetailModal issue={mockIssue} onClose={mock(() => {})} />)
+      expect(screen.queryByTestId('issue-edit-button')).not.toBeInTheDocument()
+    })
+
+    it('fills the form with the current values', () => {
+      render(
+        <IssueDetailModal
+          issue={{ ...mockIssue, description: 'Details', assignee: 'alice' }}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {})}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+
+      expect(screen.getByTestId('issue-edit-title')).toHaveValue(
+        'Test Issue Title'
+      )
+      expect(screen.getByTestId('issue-edit-status')).toHaveValue('open')
+      expect(screen.getByTestId('issue-edit-type')).toHaveValue('task')
+      expect(screen.getByTestId('issue-edit-priority')).toHaveValue('P2')
+      expect(screen.getByTestId('issue-edit-assignee')).toHaveValue('alice')
+      expect(screen.getByTestId('issue-edit-description')).toHaveValue(
+        'Details'
+      )
+    })
+
+    it('saves only the changed fields', async () => {
+      const onUpdate = mock(async () => {})
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={onUpdate}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.change(screen.getByTestId('issue-edit-title'), {
+        target: { value: 'New title ' },
+      })
+      fireEvent.change(screen.getByTestId('issue-edit-priority'), {
+        target: { value: 'P0' },
+      })
+      fireEvent.change(screen.getByTestId('issue-edit-status'), {
+        target: { value: 'in_progress' },
+      })
+      fireEvent.change(screen.getByTestId('issue-edit-assignee'), {
+        target: { value: 'bob' },
+      })
+      fireEvent.click(screen.getByTestId('issue-edit-save'))
+
+      await waitFor(() => {
+        expect(screen.queryByTestId('issue-edit-title')).not.toBeInTheDocument()
+      })
+      expect(onUpdate).toHaveBeenCalledWith('test-issue-123', {
+        title: 'New title',
+        priority: 'P0',
+        status: 'in_progress',
+        assignee: 'bob',
+      })
+    })
+
+    it('leaves edit mode without saving when nothing changed', () => {
+      const onUpdate = mock(async () => {})
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={onUpdate}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.click(screen.getByTestId('issue-edit-save'))
+
+      expect(onUpdate).not.toHaveBeenCalled()
+      expect(screen.getByTestId('issue-detail-title')).toBeInTheDocument()
+    })
+
+    it('discards changes on cancel', () => {
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {})}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.change(screen.getByTestId('issue-edit-title'), {
+        target: { value: 'Changed' },
+      })
+      fireEvent.click(screen.getByTestId('issue-edit-cancel'))
+
+      expect(screen.getByTestId('issue-detail-title')).toHaveTextContent(
+        'Test Issue Title'
+      )
+    })
+
+    it('disables saving with an empty title', () => {
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {})}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.change(screen.getByTestId('issue-edit-title'), {
+        target: { value: '  ' },
+      })
+
+      expect(screen.getByTestId('issue-edit-save')).toBeDisabled()
+    })
+
+    it('previews the description as markdown', () => {
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {})}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.change(screen.getByTestId('issue-edit-description'), {
+        target: { value: 'Some **bold** text' },
+      })
+      fireEvent.click(screen.getByTestId('issue-edit-preview-tab'))
+
+      const preview = screen.getByTestId('issue-edit-preview')
+      expect(preview.querySelector('strong')).toHaveTextContent('bold')
+
+      fireEvent.click(screen.getByTestId('issue-edit-write-tab'))
+      expect(screen.getByTestId('issue-edit-description')).toHaveValue(
+        'Some **bold** text'
+      )
+    })
+
+    it('keeps the form open and shows the error when saving fails', async () => {
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {
+            throw new Error('Issue not found')
+          })}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+      fireEvent.change(screen.getByTestId('issue-edit-title'), {
+        target: { value: 'Changed' },
+      })
+      fireEvent.click(screen.getByTestId('issue-edit-save'))
+
+      expect(await screen.findByTestId('issue-edit-error')).toHaveTextContent(
+        'Issue not found'
+      )
+      expect(screen.getByTestId('issue-edit-title')).toHaveValue('Changed')
+    })
+
+    it('shows closed issues as closed without allowing status edits', () => {
+      render(
+        <IssueDetailModal
+          issue={{ ...mockIssue, status: 'closed' }}
+          onClose={mock(() => {})}
+          onUpdate={mock(async () => {})}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-edit-button'))
+
+      expect(screen.getByTestId('issue-edit-status')).toHaveValue('closed')
+      expect(screen.getByTestId('issue-edit-status')).toBeDisabled()
+    })
+  })
+
+  describe('closing and reopening', () => {
+    it('asks to close an open issue', () => {
+      const onCloseIssue = mock(() => {})
+      render(
+        <IssueDetailModal
+          issue={mockIssue}
+          onClose={mock(() => {})}
+          onCloseIssue={onCloseIssue}
+          onReopenIssue={mock(async () => {})}
+        />
+      )
+      expect(
+        screen.queryByTestId('issue-reopen-button')
+      ).not.toBeInTheDocument()
+      fireEvent.click(screen.getByTestId('issue-close-button'))
+      expect(onCloseIssue).toHaveBeenCalledWith(mockIssue)
+    })
+
+    it('reopens a closed issue', () => {
+      const onReopenIssue = mock(async () => {})
+      render(
+        <IssueDetailModal
+          issue={{ ...mockIssue, status: 'closed' }}
+          onClose={mock(() => {})}
+          onCloseIssue={mock(() => {})}
+          onReopenIssue={onReopenIssue}
+        />
+      )
+      expect(screen.queryByTestId('issue-close-button')).not.toBeInTheDocument()
+      fireEvent.click(screen.getByTestId('issue-reopen-button'))
+      expect(onReopenIssue).toHaveBeenCalledWith('test-issue-123')
+    })
+
+    it('shows the error when reopening fails', async () => {
+      render(
+        <IssueDetailModal
+          issue={{ ...mockIssue, status: 'closed' }}
+          onClose={mock(() => {})}
+          onReopenIssue={mock(async () => {
+            throw new Error('Issue not found')
+          })}
+        />
+      )
+      fireEvent.click(screen.getByTestId('issue-reopen-button'))
+      expect(await screen.findByTestId('issue-edit-error')).toHaveTextContent(
+        'Issue not found'
+      )
+    })
+
+    it('displays the close reason of a closed issue', () => {
+      render(
+        <IssueDetailModal
+          issue={{ ...mockIssue, status: 'closed', closeReason: 'Duplicate' }}
+          onClose={mock(() => {})}
+        />
+      )
+      expect(screen.getByTestId('issue-detail-close-reason')).toHaveTextContent(
+        'Duplicate'
+      )
+    })
+  })
 })
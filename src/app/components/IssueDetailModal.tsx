@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react'
 import Markdown from 'react-markdown'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -8,11 +9,32 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import type { IssueNodeData } from './IssueNode'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { IssueNodeData, IssuePriority, IssueType } from './IssueNode'
+
+/**
+ * Fields changed by editing an issue. Closing and reopening are separate
+ * actions, so status only moves between open and in progress.
+ */
+export interface IssueChanges {
+  title?: string
+  description?: string
+  type?: IssueType
+  priority?: IssuePriority
+  status?: 'open' | 'in_progress'
+  assignee?: string
+}
 
 interface IssueDetailModalProps {
   issue: IssueNodeData | null
   onClose: () => void
+  /** Save edits to the issue; editing is unavailable without it */
+  onUpdate?: (issueId: string, changes: IssueChanges) => Promise<void>
+  /** Ask for the issue to be closed, with a reason */
+  onCloseIssue?: (issue: IssueNodeData) => void
+  onReopenIssue?: (issueId: string) => Promise<void>
 }
 
 const statusVariants: Record<string, string> = {
@@ -31,6 +53,7 @@ const typeLabels: Record<string, string> = {
   task: 'Task',
   bug: 'Bug',
   feature: 'Feature',
+  epic: 'Epic',
 }
 
 const priorityColors: Record<string, string> = {
@@ -47,8 +70,253 @@ const priorityLabels: Record<string, string> = {
   P3: 'P3 - Low',
 }
 
-function IssueDetailModal({ issue, onClose }: IssueDetailModalProps) {
+const selectClassName =
+  'border-input h-9 w-full rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50'
+
+interface IssueDraft {
+  title: string
+  description: string
+  type: IssueType
+  priority: IssuePriority
+  status: IssueNodeData['status']
+  assignee: string
+}
+
+function toDraft(issue: IssueNodeData): IssueDraft {
+  return {
+    title: issue.title,
+    description: issue.description ?? '',
+    type: issue.type,
+    priority: issue.priority,
+    status: issue.status,
+    assignee: issue.assignee ?? '',
+  }
+}
+
+/**
+ * Collect the fields of the draft that differ from the issue
+ */
+function getChanges(issue: IssueNodeData, draft: IssueDraft): IssueChanges {
+  const changes: IssueChanges = {}
+  const title = draft.title.trim()
+  if (title !== issue.title) changes.title = title
+  if (draft.description !== (issue.description ?? '')) {
+    changes.description = draft.description
+  }
+  if (draft.type !== issue.type) changes.type = draft.type
+  if (draft.priority !== issue.priority) changes.priority = draft.priority
+  if (draft.status !== issue.status && draft.status !== 'closed') {
+    changes.status = draft.status
+  }
+  const assignee = draft.assignee.trim()
+  if (assignee !== (issue.assignee ?? '')) changes.assignee = assignee
+  return changes
+}
+
+interface IssueEditFormProps {
+  draft: IssueDraft
+  onChange: (draft: IssueDraft) => void
+}
+
+function IssueEditForm({ draft, onChange }: IssueEditFormProps) {
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 overflow-y-auto">
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="issue-edit-title">Title</Label>
+        <Input
+          id="issue-edit-title"
+          value={draft.title}
+          onChange={e => onChange({ ...draft, title: e.target.value })}
+          data-testid="issue-edit-title"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="issue-edit-status">Status</Label>
+          <select
+            id="issue-edit-status"
+            className={selectClassName}
+            value={draft.status}
+            // Closed issues are reopened rather than edited back to open
+            disabled={draft.status === 'closed'}
+            onChange={e =>
+              onChange({
+                ...draft,
+                status: e.target.value as IssueDraft['status'],
+              })
+            }
+            data-testid="issue-edit-status"
+          >
+            <option value="open">Open</option>
+            <option value="in_progress">In Progress</option>
+            {draft.status === 'closed' && (
+              <option value="closed">Closed</option>
+            )}
+          </select>
+        </div>
+
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="issue-edit-type">Type</Label>
+          <select
+            id="issue-edit-type"
+            className={selectClassName}
+            value={draft.type}
+            onChange={e =>
+              onChange({ ...draft, type: e.target.value as IssueType })
+            }
+            data-testid="issue-edit-type"
+          >
+            {Object.entries(typeLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="issue-edit-priority">Priority</Label>
+          <select
+            id="issue-edit-priority"
+            className={selectClassName}
+            value={draft.priority}
+            onChange={e =>
+              onChange({
+                ...draft,
+                priority: e.target.value as IssuePriority,
+              })
+            }
+            data-testid="issue-edit-priority"
+          >
+            {Object.entries(priorityLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="issue-edit-assignee">Assignee</Label>
+        <Input
+          id="issue-edit-assignee"
+          value={draft.assignee}
+          placeholder="Unassigned"
+          onChange={e => onChange({ ...draft, assignee: e.target.value })}
+          data-testid="issue-edit-assignee"
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="issue-edit-description">Description</Label>
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant={isPreviewing ? 'ghost' : 'secondary'}
+              onClick={() => setIsPreviewing(false)}
+              data-testid="issue-edit-write-tab"
+            >
+              Write
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={isPreviewing ? 'secondary' : 'ghost'}
+              onClick={() => setIsPreviewing(true)}
+              data-testid="issue-edit-preview-tab"
+            >
+              Preview
+            </Button>
+          </div>
+        </div>
+        {isPreviewing ? (
+          <div
+            className="markdown-content prose prose-sm max-w-none min-h-16 rounded-md border px-3 py-2 text-foreground"
+            data-testid="issue-edit-preview"
+          >
+            {draft.description.trim() ? (
+              <Markdown>{draft.description}</Markdown>
+            ) : (
+              <p className="text-muted-foreground">Nothing to preview</p>
+            )}
+          </div>
+        ) : (
+          <Textarea
+            id="issue-edit-description"
+            className="min-h-32 font-mono"
+            value={draft.description}
+            placeholder="Markdown supported"
+            onChange={e => onChange({ ...draft, description: e.target.value })}
+            data-testid="issue-edit-description"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function IssueDetailModal({
+  issue,
+  onClose,
+  onUpdate,
+  onCloseIssue,
+  onReopenIssue,
+}: IssueDetailModalProps) {
   const isOpen = issue !== null
+  const [draft, setDraft] = useState<IssueDraft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const issueId = issue?.issueId
+
+  // Leave edit mode when a different issue is shown
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset on issue change
+  useEffect(() => {
+    setDraft(null)
+    setSaveError(null)
+  }, [issueId])
+
+  const handleReopen = async () => {
+    if (!issue || !onReopenIssue) return
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await onReopenIssue(issue.issueId)
+    } catch (error) {
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to reopen issue'
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!issue || !draft || !onUpdate) return
+    const changes = getChanges(issue, draft)
+    if (Object.keys(changes).length === 0) {
+      setDraft(null)
+      return
+    }
+
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await onUpdate(issue.issueId, changes)
+      setDraft(null)
+    } catch (error) {
+      setSaveError(
+        error instanceof Error ? error.message : 'Failed to save changes'
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
 
   return (
     <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
@@ -70,63 +338,178 @@ function IssueDetailModal({ issue, onClose }: IssueDetailModalProps) {
               </div>
             </DialogHeader>
 
-            <div className="flex gap-4 flex-shrink-0">
-              <div className="flex-1">
-                <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                  Status
-                </div>
-                <Badge
-                  className={statusVariants[issue.status] || ''}
-                  data-testid="issue-detail-status"
-                >
-                  {statusLabels[issue.status] || issue.status}
-                </Badge>
-              </div>
+            {draft ? (
+              <IssueEditForm draft={draft} onChange={setDraft} />
+            ) : (
+              <>
+                <div className="flex gap-4 flex-shrink-0">
+                  <div className="flex-1">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Status
+                    </div>
+                    <Badge
+                      className={statusVariants[issue.status] || ''}
+                      data-testid="issue-detail-status"
+                    >
+                      {statusLabels[issue.status] || issue.status}
+                    </Badge>
+                  </div>
 
-              <div className="flex-1">
-                <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                  Type
-                </div>
-                <div className="text-sm" data-testid="issue-detail-type">
-                  {typeLabels[issue.type] || issue.type}
-                </div>
-              </div>
+                  <div className="flex-1">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Type
+                    </div>
+                    <div className="text-sm" data-testid="issue-detail-type">
+                      {typeLabels[issue.type] || issue.type}
+                    </div>
+                  </div>
 
-              <div className="flex-1">
-                <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                  Priority
-                </div>
-                <div
-                  className={`text-sm font-semibold ${priorityColors[issue.priority] || 'text-gray-500'}`}
-                  data-testid="issue-detail-priority"
-                >
-                  {priorityLabels[issue.priority] || issue.priority}
+                  <div className="flex-1">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Priority
+                    </div>
+                    <div
+                      className={`text-sm font-semibold ${priorityColors[issue.priority] || 'text-gray-500'}`}
+                      data-testid="issue-detail-priority"
+                    >
+                      {priorityLabels[issue.priority] || issue.priority}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            {issue.description && (
-              <div className="flex flex-col min-h-0 flex-1">
-                <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground flex-shrink-0">
-                  Description
-                </div>
-                <div
-                  className="markdown-content prose prose-sm max-w-none text-foreground overflow-y-auto"
-                  data-testid="issue-detail-description"
-                >
-                  <Markdown>{issue.description}</Markdown>
-                </div>
-              </div>
+                {issue.status === 'closed' && issue.closeReason && (
+                  <div className="flex-shrink-0">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Close reason
+                    </div>
+                    <div
+                      className="text-sm"
+                      data-testid="issue-detail-close-reason"
+                    >
+                      {issue.closeReason}
+                    </div>
+                  </div>
+                )}
+
+                {issue.assignee && (
+                  <div className="flex-shrink-0">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Assignee
+                    </div>
+                    <div
+                      className="text-sm"
+                      data-testid="issue-detail-assignee"
+                    >
+                      {issue.assignee}
+                    </div>
+                  </div>
+                )}
+
+                {issue.labels && issue.labels.length > 0 && (
+                  <div className="flex-shrink-0">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Labels
+                    </div>
+                    <div
+                      className="flex flex-wrap gap-1"
+                      data-testid="issue-detail-labels"
+                    >
+                      {issue.labels.map(label => (
+                        <Badge key={label} variant="secondary">
+                          {label}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {issue.description && (
+                  <div className="flex flex-col min-h-0 flex-1">
+                    <div className="mb-1 text-xs font-semibold uppercase text-muted-foreground flex-shrink-0">
+                      Description
+                    </div>
+                    <div
+                      className="markdown-content prose prose-sm max-w-none text-foreground overflow-y-auto"
+                      data-testid="issue-detail-description"
+                    >
+                      <Markdown>{issue.description}</Markdown>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
 
-            <DialogFooter className="flex-shrink-0">
-              <Button
-                variant="outline"
-                onClick={onClose}
-                data-testid="close-button"
+            {saveError && (
+              <p
+                className="text-sm text-destructive flex-shrink-0"
+                data-testid="issue-edit-error"
               >
-                Close
-              </Button>
+                {saveError}
+              </p>
+            )}
+
+            <DialogFooter className="flex-shrink-0">
+              {draft ? (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setDraft(null)
+                      setSaveError(null)
+                    }}
+                    disabled={isSaving}
+                    data-testid="issue-edit-cancel"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleSave}
+                    disabled={isSaving || draft.title.trim() === ''}
+                    data-testid="issue-edit-save"
+                  >
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {issue.status === 'closed'
+                    ? onReopenIssue && (
+                        <Button
+                          variant="outline"
+                          onClick={handleReopen}
+                          disabled={isSaving}
+                          data-testid="issue-reopen-button"
+                        >
+                          {isSaving ? 'Reopening...' : 'Reopen'}
+                        </Button>
+                      )
+                    : onCloseIssue && (
+                        <Button
+                          variant="outline"
+                          onClick={() => onCloseIssue(issue)}
+                          data-testid="issue-close-button"
+                        >
+                          Close issue
+                        </Button>
+                      )}
+                  {onUpdate && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setDraft(toDraft(issue))}
+                      data-testid="issue-edit-button"
+                    >
+                      Edit
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={onClose}
+                    data-testid="close-button"
+                  >
+                    Close
+                  </Button>
+                </>
+              )}
             </DialogFooter>
           </>
         )}
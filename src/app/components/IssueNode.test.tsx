@@ -102,4 +102,46 @@ describe('IssueNode', () => {
       'P0 bug'
     )
   })
+
+  it('renders a chip for each label', () => {
+    renderIssueNode({ ...defaultData, labels: ['frontend', 'auth'] })
+    const chips = screen.getAllByTestId('issue-label')
+    expect(chips.map(chip => chip.textContent)).toEqual(['frontend', 'auth'])
+  })
+
+  it('marks ready issues', () => {
+    renderIssueNode({ ...defaultData, isReady: true })
+    expect(screen.getByTestId('issue-node')).toHaveAttribute(
+      'data-issue-ready',
+      'true'
+    )
+  })
+
+  it('marks issues on the critical path', () => {
+    renderIssueNode({ ...defaultData, onCriticalPath: true })
+    expect(screen.getByTestId('issue-node')).toHaveAttribute(
+      'data-critical-path',
+      'true'
+    )
+  })
+
+  it('does not mark issues that are not ready', () => {
+    renderIssueNode()
+    expect(screen.getByTestId('issue-node')).not.toHaveAttribute(
+      'data-issue-ready'
+    )
+  })
+
+  it('does not render labels section without labels', () => {
+    renderIssueNode({ ...defaultData, labels: [] })
+    expect(screen.queryByTestId('issue-labels')).not.toBeInTheDocument()
+  })
+
+  it('shows proposed issues as ghosts', () => {
+    renderIssueNode({ ...defaultData, proposal: 'create' })
+    const node = screen.getByTestId('issue-node')
+    expect(node).toHaveAttribute('data-issue-proposal', 'create')
+    expect(node).toHaveStyle({ opacity: '0.7' })
+    expect(screen.getByTestId('issue-status')).toHaveTextContent('Proposed')
+  })
 })
@@ -2,7 +2,7 @@ import type { NodeProps } from '@xyflow/react'
 import { Handle, Position } from '@xyflow/react'
 
 export type IssueStatus = 'open' | 'in_progress' | 'closed'
-export type IssueType = 'task' | 'bug' | 'feature'
+export type IssueType = 'task' | 'bug' | 'feature' | 'epic'
 export type IssuePriority = 'P0' | 'P1' | 'P2' | 'P3'
 
 export interface IssueNodeData extends Record<string, unknown> {
@@ -12,22 +12,32 @@ export interface IssueNodeData extends Record<string, unknown> {
   status: IssueStatus
   type: IssueType
   priority: IssuePriority
+  assignee?: string
+  labels?: string[]
+  /** Why the issue was closed */
+  closeReason?: string
+  /** Open with all blockers closed - next in line for the agent */
+  isReady?: boolean
+  /** Proposed in chat and not applied yet: a new issue or an edit */
+  proposal?: 'create' | 'update'
+  /** On the longest chain of unfinished blocking issues */
+  onCriticalPath?: boolean
   onSelect?: (data: IssueNodeData) => void
 }
 
-const statusColors: Record<IssueStatus, string> = {
+export const statusColors: Record<IssueStatus, string> = {
   open: '#6b9bd1',
   in_progress: '#d4a764',
   closed: '#6bb38a',
 }
 
-const statusLabels: Record<IssueStatus, string> = {
+export const statusLabels: Record<IssueStatus, string> = {
   open: 'Open',
   in_progress: 'In Progress',
   closed: 'Closed',
 }
 
-const priorityColors: Record<IssuePriority, string> = {
+export const priorityColors: Record<IssuePriority, string> = {
   P0: '#ef4444',
   P1: '#f97316',
   P2: '#eab308',
@@ -51,8 +61,17 @@ function IssueNode({ data }: NodeProps) {
         padding: '12px 16px',
         borderRadius: '8px',
         backgroundColor: '#ffffff',
-        border: `2px solid ${statusColors[issueData.status]}`,
-        boxShadow: '0 2px 4px rgba(0, 0, 0, 0.1)',
+        border: `2px ${issueData.proposal ? 'dashed' : 'solid'} ${
+          issueData.proposal === 'update'
+            ? '#3b82f6'
+            : statusColors[issueData.status]
+        }`,
+        opacity: issueData.proposal === 'create' ? 0.7 : 1,
+        boxShadow: issueData.isReady
+          ? '0 0 0 4px rgba(34, 197, 94, 0.35), 0 2px 4px rgba(0, 0, 0, 0.1)'
+          : '0 2px 4px rgba(0, 0, 0, 0.1)',
+        outline: issueData.onCriticalPath ? '3px solid #dc2626' : undefined,
+        outlineOffset: '2px',
         cursor: 'pointer',
         width: '400px',
         textAlign: 'left',
@@ -64,6 +83,9 @@ function IssueNode({ data }: NodeProps) {
       data-issue-status={issueData.status}
       data-issue-type={issueData.type}
       data-issue-priority={issueData.priority}
+      data-issue-ready={issueData.isReady ? 'true' : undefined}
+      data-issue-proposal={issueData.proposal}
+      data-critical-path={issueData.onCriticalPath ? 'true' : undefined}
     >
       <Handle type="target" position={Position.Left} />
 
@@ -97,7 +119,9 @@ function IssueNode({ data }: NodeProps) {
           }}
           data-testid="issue-status"
         >
-          {statusLabels[issueData.status]}
+          {issueData.proposal === 'create'
+            ? 'Proposed'
+            : statusLabels[issueData.status]}
         </div>
       </div>
 
@@ -115,6 +139,35 @@ function IssueNode({ data }: NodeProps) {
         {issueData.title}
       </div>
 
+      {issueData.labels && issueData.labels.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: '4px',
+            marginTop: '8px',
+          }}
+          data-testid="issue-labels"
+        >
+          {issueData.labels.map(label => (
+            <span
+              key={label}
+              style={{
+                padding: '1px 6px',
+                borderRadius: '4px',
+                backgroundColor: '#f3f4f6',
+                border: '1px solid #e5e7eb',
+                color: '#4b5563',
+                fontSize: '11px',
+              }}
+              data-testid="issue-label"
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
       <Handle type="source" position={Position.Right} />
     </button>
   )
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import LayoutControls from './LayoutControls'
+
+function renderControls(
+  props: Partial<Parameters<typeof LayoutControls>[0]> = {}
+) {
+  return render(
+    <LayoutControls
+      engine="dagre"
+      onEngineChange={() => {}}
+      direction="LR"
+      onDirectionChange={() => {}}
+      incremental={true}
+      onIncrementalChange={() => {}}
+      onReset={() => {}}
+      {...props}
+    />
+  )
+}
+
+describe('LayoutControls', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('offers each layout engine', () => {
+    renderControls()
+
+    const options = screen
+      .getByTestId('layout-engine-select')
+      .querySelectorAll('option')
+    expect([...options].map(option => option.textContent)).toEqual([
+      'Dagre',
+      'ELK',
+    ])
+  })
+
+  it('switches the engine and direction', () => {
+    const onEngineChange = mock(() => {})
+    const onDirectionChange = mock(() => {})
+    renderControls({ onEngineChange, onDirectionChange })
+
+    fireEvent.change(screen.getByTestId('layout-engine-select'), {
+      target: { value: 'elk' },
+    })
+    fireEvent.change(screen.getByTestId('layout-direction-select'), {
+      target: { value: 'TB' },
+    })
+
+    expect(onEngineChange).toHaveBeenCalledWith('elk')
+    expect(onDirectionChange).toHaveBeenCalledWith('TB')
+  })
+
+  it('toggles incremental layout', () => {
+    const onIncrementalChange = mock(() => {})
+    renderControls({ onIncrementalChange })
+
+    fireEvent.click(screen.getByTestId('layout-incremental-toggle'))
+
+    expect(onIncrementalChange).toHaveBeenCalledWith(false)
+  })
+
+  it('resets the layout', () => {
+    const onReset = mock(() => {})
+    renderControls({ onReset })
+
+    fireEvent.click(screen.getByTestId('layout-reset'))
+
+    expect(onReset).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,128 @@
+import type { CSSProperties } from 'react'
+import {
+  LAYOUT_ENGINES,
+  type LayoutDirection,
+  type LayoutEngineId,
+} from '../transformers/layoutEngines'
+
+interface LayoutControlsProps {
+  engine: LayoutEngineId
+  onEngineChange: (engine: LayoutEngineId) => void
+  direction: LayoutDirection
+  onDirectionChange: (direction: LayoutDirection) => void
+  /** Keep existing node positions when the graph changes */
+  incremental: boolean
+  onIncrementalChange: (incremental: boolean) => void
+  /** Unpin nodes moved by hand and lay the graph out afresh */
+  onReset: () => void
+}
+
+const directionOptions: { value: LayoutDirection; label: string }[] = [
+  { value: 'LR', label: 'Left to right' },
+  { value: 'TB', label: 'Top to bottom' },
+]
+
+const selectStyle: CSSProperties = {
+  padding: '2px 4px',
+  borderRadius: '4px',
+  border: '1px solid #e5e7eb',
+  fontSize: '12px',
+}
+
+function LayoutControls({
+  engine,
+  onEngineChange,
+  direction,
+  onDirectionChange,
+  incremental,
+  onIncrementalChange,
+  onReset,
+}: LayoutControlsProps) {
+  return (
+    <aside
+      aria-label="Layout"
+      style={{
+        position: 'absolute',
+        bottom: '64px',
+        left: '64px',
+        zIndex: 10,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '8px 12px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        fontSize: '12px',
+        color: '#374151',
+      }}
+      data-testid="layout-controls"
+    >
+      <span style={{ fontWeight: 600 }}>Layout</span>
+      <select
+        aria-label="Layout engine"
+        value={engine}
+        onChange={event => onEngineChange(event.target.value as LayoutEngineId)}
+        style={selectStyle}
+        data-testid="layout-engine-select"
+      >
+        {Object.values(LAYOUT_ENGINES).map(option => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Layout direction"
+        value={direction}
+        onChange={event =>
+          onDirectionChange(event.target.value as LayoutDirection)
+        }
+        style={selectStyle}
+        data-testid="layout-direction-select"
+      >
+        {directionOptions.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          cursor: 'pointer',
+        }}
+        title="Keep issues where they are when the graph changes, and only place new ones"
+      >
+        <input
+          type="checkbox"
+          checked={incremental}
+          onChange={event => onIncrementalChange(event.target.checked)}
+          data-testid="layout-incremental-toggle"
+        />
+        Keep positions
+      </label>
+      <button
+        type="button"
+        onClick={onReset}
+        style={{
+          padding: '2px 8px',
+          borderRadius: '4px',
+          border: '1px solid #e5e7eb',
+          backgroundColor: '#ffffff',
+          color: '#4b5563',
+          fontSize: '12px',
+          cursor: 'pointer',
+        }}
+        title="Put issues moved by hand back where the layout puts them"
+        data-testid="layout-reset"
+      >
+        Reset layout
+      </button>
+    </aside>
+  )
+}
+
+export default LayoutControls
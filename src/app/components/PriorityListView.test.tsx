@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import PriorityListView, { type PriorityListItem } from './PriorityListView'
+
+const issues: PriorityListItem[] = [
+  { issueId: 'bead-1', title: 'Fix login', priority: 'P0' },
+  { issueId: 'bead-2', title: 'Add search', priority: 'P1' },
+  { issueId: 'bead-3', title: 'Tidy styles', priority: 'P1' },
+  { issueId: 'bead-4', title: 'Write docs', priority: 'P3' },
+]
+
+function renderList(
+  onPriorityChange = mock(() => {}),
+  onSelect = mock(() => {})
+) {
+  render(
+    <PriorityListView
+      issues={issues}
+      onPriorityChange={onPriorityChange}
+      onSelect={onSelect}
+    />
+  )
+  fireEvent.click(screen.getByTestId('priority-list-toggle'))
+}
+
+function bucket(priority: string): HTMLElement {
+  const element = screen
+    .getAllByTestId('priority-bucket')
+    .find(section => section.getAttribute('data-priority') === priority)
+  if (!element) throw new Error(`No ${priority} bucket`)
+  return element
+}
+
+function item(issueId: string): HTMLElement {
+  const element = screen
+    .getAllByTestId('priority-list-item')
+    .find(li => li.getAttribute('data-issue-id') === issueId)
+  if (!element) throw new Error(`No item for ${issueId}`)
+  return element
+}
+
+function idsIn(priority: string): (string | null)[] {
+  return Array.from(
+    bucket(priority).querySelectorAll('[data-testid="priority-list-item"]')
+  ).map(li => li.getAttribute('data-issue-id'))
+}
+
+describe('PriorityListView', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('starts collapsed', () => {
+    render(
+      <PriorityListView
+        issues={issues}
+        onPriorityChange={mock(() => {})}
+        onSelect={mock(() => {})}
+      />
+    )
+    expect(screen.queryAllByTestId('priority-bucket')).toHaveLength(0)
+  })
+
+  it('groups issues into P0 to P3 buckets', () => {
+    renderList()
+    expect(idsIn('P0')).toEqual(['bead-1'])
+    expect(idsIn('P1')).toEqual(['bead-2', 'bead-3'])
+    expect(idsIn('P2')).toEqual([])
+    expect(idsIn('P3')).toEqual(['bead-4'])
+  })
+
+  it('changes priority when an issue is dropped on another bucket', () => {
+    const onPriorityChange = mock(() => {})
+    renderList(onPriorityChange)
+
+    fireEvent.dragStart(item('bead-4'))
+    fireEvent.dragOver(bucket('P0'))
+    fireEvent.drop(bucket('P0'))
+
+    expect(onPriorityChange).toHaveBeenCalledWith('bead-4', 'P0')
+  })
+
+  it('changes priority when an issue is dropped on an issue in another bucket', () => {
+    const onPriorityChange = mock(() => {})
+    renderList(onPriorityChange)
+
+    fireEvent.dragStart(item('bead-1'))
+    fireEvent.drop(item('bead-3'))
+
+    expect(onPriorityChange).toHaveBeenCalledWith('bead-1', 'P1')
+  })
+
+  it('reorders within a bucket without changing priority', () => {
+    const onPriorityChange = mock(() => {})
+    renderList(onPriorityChange)
+
+    fireEvent.dragStart(item('bead-3'))
+    fireEvent.drop(item('bead-2'))
+
+    expect(idsIn('P1')).toEqual(['bead-3', 'bead-2'])
+    expect(onPriorityChange).not.toHaveBeenCalled()
+  })
+
+  it('ignores drops that did not start in the list', () => {
+    const onPriorityChange = mock(() => {})
+    renderList(onPriorityChange)
+
+    fireEvent.drop(bucket('P2'))
+
+    expect(onPriorityChange).not.toHaveBeenCalled()
+  })
+
+  it('calls onSelect when an issue is clicked', () => {
+    const onSelect = mock(() => {})
+    renderList(
+      mock(() => {}),
+      onSelect
+    )
+    fireEvent.click(screen.getByText('Add search'))
+    expect(onSelect).toHaveBeenCalledWith('bead-2')
+  })
+})
@@ -0,0 +1,264 @@
+import { type DragEvent, useMemo, useRef, useState } from 'react'
+import type { IssuePriority } from './IssueNode'
+
+export interface PriorityListItem {
+  issueId: string
+  title: string
+  priority: IssuePriority
+}
+
+interface PriorityListViewProps {
+  /** Open issues, in the order to list them within each priority */
+  issues: PriorityListItem[]
+  onPriorityChange: (issueId: string, priority: IssuePriority) => void
+  onSelect: (issueId: string) => void
+}
+
+const PRIORITIES: IssuePriority[] = ['P0', 'P1', 'P2', 'P3']
+
+const priorityColors: Record<IssuePriority, string> = {
+  P0: '#ef4444',
+  P1: '#f97316',
+  P2: '#eab308',
+  P3: '#6b7280',
+}
+
+/**
+ * Arrange issue IDs in the user's drag order, with issues the user hasn't
+ * moved yet following in their incoming order
+ */
+function orderIssues(
+  issues: PriorityListItem[],
+  order: string[]
+): PriorityListItem[] {
+  const rank = new Map(order.map((issueId, index) => [issueId, index]))
+  return issues
+    .map((issue, index) => ({ issue, index }))
+    .sort((a, b) => {
+      const aRank = rank.get(a.issue.issueId) ?? order.length + a.index
+      const bRank = rank.get(b.issue.issueId) ?? order.length + b.index
+      return aRank - bRank
+    })
+    .map(({ issue }) => issue)
+}
+
+function PriorityListView({
+  issues,
+  onPriorityChange,
+  onSelect,
+}: PriorityListViewProps) {
+  const [isCollapsed, setIsCollapsed] = useState(true)
+  // beads has no rank within a priority, so order inside a bucket is only
+  // kept for this session
+  const [order, setOrder] = useState<string[]>([])
+  const [dropTarget, setDropTarget] = useState<IssuePriority | null>(null)
+  const draggedIssueId = useRef<string | null>(null)
+
+  const orderedIssues = useMemo(
+    () => orderIssues(issues, order),
+    [issues, order]
+  )
+
+  const handleDragStart = (event: DragEvent, issueId: string) => {
+    draggedIssueId.current = issueId
+    // Firefox won't start a drag without data
+    event.dataTransfer?.setData('text/plain', issueId)
+  }
+
+  const handleDragOver = (event: DragEvent, priority: IssuePriority) => {
+    if (!draggedIssueId.current) return
+    event.preventDefault()
+    setDropTarget(priority)
+  }
+
+  /**
+   * Move the dragged issue before another issue, or to the end of the
+   * bucket when dropped on the bucket itself
+   */
+  const handleDrop = (
+    event: DragEvent,
+    priority: IssuePriority,
+    beforeIssueId?: string
+  ) => {
+    event.preventDefault()
+    event.stopPropagation()
+    setDropTarget(null)
+
+    const issueId = draggedIssueId.current
+    draggedIssueId.current = null
+    const dragged = issues.find(issue => issue.issueId === issueId)
+    if (!issueId || !dragged || issueId === beforeIssueId) return
+
+    const remaining = orderedIssues
+      .map(issue => issue.issueId)
+      .filter(id => id !== issueId)
+    let insertAt = remaining.length
+    if (beforeIssueId) {
+      insertAt = remaining.indexOf(beforeIssueId)
+    } else {
+      const lastInBucket = orderedIssues
+        .filter(
+          issue => issue.priority === priority && issue.issueId !== issueId
+        )
+        .at(-1)
+      if (lastInBucket) {
+        insertAt = remaining.indexOf(lastInBucket.issueId) + 1
+      }
+    }
+    remaining.splice(insertAt, 0, issueId)
+    setOrder(remaining)
+
+    if (dragged.priority !== priority) {
+      onPriorityChange(issueId, priority)
+    }
+  }
+
+  return (
+    <aside
+      aria-label="Priorities"
+      style={{
+        position: 'absolute',
+        top: '80px',
+        left: '16px',
+        zIndex: 10,
+        width: isCollapsed ? 'auto' : '300px',
+        maxHeight: 'calc(100% - 176px)',
+        display: 'flex',
+        flexDirection: 'column',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+      }}
+      data-testid="priority-list"
+    >
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(collapsed => !collapsed)}
+        aria-expanded={!isCollapsed}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '8px',
+          padding: '10px 12px',
+          border: 'none',
+          background: 'none',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: 600,
+          color: '#1f2937',
+        }}
+        data-testid="priority-list-toggle"
+      >
+        <span>Priorities</span>
+        <span style={{ color: '#6b7280', fontSize: '11px', fontWeight: 400 }}>
+          {issues.length} open
+        </span>
+      </button>
+
+      {!isCollapsed && (
+        <div style={{ overflowY: 'auto', paddingBottom: '8px' }}>
+          {PRIORITIES.map(priority => {
+            const bucket = orderedIssues.filter(
+              issue => issue.priority === priority
+            )
+            return (
+              <section
+                key={priority}
+                aria-label={priority}
+                onDragOver={event => handleDragOver(event, priority)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={event => handleDrop(event, priority)}
+                style={{
+                  margin: '0 8px 6px',
+                  padding: '4px 0',
+                  borderRadius: '6px',
+                  border: `1px dashed ${
+                    dropTarget === priority
+                      ? priorityColors[priority]
+                      : 'transparent'
+                  }`,
+                  backgroundColor:
+                    dropTarget === priority ? '#f9fafb' : 'transparent',
+                }}
+                data-testid="priority-bucket"
+                data-priority={priority}
+              >
+                <h3
+                  style={{
+                    margin: 0,
+                    padding: '2px 8px',
+                    fontSize: '11px',
+                    fontWeight: 600,
+                    color: priorityColors[priority],
+                  }}
+                >
+                  {priority}{' '}
+                  <span style={{ color: '#9ca3af', fontWeight: 400 }}>
+                    ({bucket.length})
+                  </span>
+                </h3>
+                <ol style={{ margin: 0, padding: 0, listStyle: 'none' }}>
+                  {bucket.map(issue => (
+                    <li
+                      key={issue.issueId}
+                      draggable
+                      onDragStart={event =>
+                        handleDragStart(event, issue.issueId)
+                      }
+                      onDragEnd={() => {
+                        draggedIssueId.current = null
+                        setDropTarget(null)
+                      }}
+                      onDrop={event =>
+                        handleDrop(event, priority, issue.issueId)
+                      }
+                      style={{ cursor: 'grab' }}
+                      data-testid="priority-list-item"
+                      data-issue-id={issue.issueId}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onSelect(issue.issueId)}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'baseline',
+                          gap: '8px',
+                          width: '100%',
+                          padding: '4px 8px',
+                          border: 'none',
+                          background: 'none',
+                          cursor: 'inherit',
+                          textAlign: 'left',
+                          fontSize: '13px',
+                          color: '#1f2937',
+                        }}
+                      >
+                        <span style={{ color: '#9ca3af', fontSize: '11px' }}>
+                          {issue.issueId}
+                        </span>
+                        <span
+                          style={{
+                            flex: 1,
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                          }}
+                        >
+                          {issue.title}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )
+          })}
+        </div>
+      )}
+    </aside>
+  )
+}
+
+export default PriorityListView
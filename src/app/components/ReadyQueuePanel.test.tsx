@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import ReadyQueuePanel, { type ReadyQueueItem } from './ReadyQueuePanel'
+
+const issues: ReadyQueueItem[] = [
+  { issueId: 'bead-1', title: 'Fix login', priority: 'P0' },
+  { issueId: 'bead-2', title: 'Write docs', priority: 'P3' },
+]
+
+describe('ReadyQueuePanel', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('lists ready issues in queue order', () => {
+    render(<ReadyQueuePanel issues={issues} onSelect={mock(() => {})} />)
+    const items = screen.getAllByTestId('ready-queue-item')
+    expect(items.map(item => item.getAttribute('data-issue-id'))).toEqual([
+      'bead-1',
+      'bead-2',
+    ])
+    expect(items[0]).toHaveTextContent('1.P0Fix login')
+  })
+
+  it('shows the number of ready issues', () => {
+    render(<ReadyQueuePanel issues={issues} onSelect={mock(() => {})} />)
+    expect(screen.getByTestId('ready-queue-count')).toHaveTextContent('2')
+  })
+
+  it('calls onSelect with the issue ID when an item is clicked', () => {
+    const onSelect = mock(() => {})
+    render(<ReadyQueuePanel issues={issues} onSelect={onSelect} />)
+    fireEvent.click(screen.getAllByTestId('ready-queue-item')[1])
+    expect(onSelect).toHaveBeenCalledWith('bead-2')
+  })
+
+  it('shows an empty state when nothing is ready', () => {
+    render(<ReadyQueuePanel issues={[]} onSelect={mock(() => {})} />)
+    expect(screen.getByTestId('ready-queue-empty')).toBeInTheDocument()
+  })
+
+  it('collapses and expands the list', () => {
+    render(<ReadyQueuePanel issues={issues} onSelect={mock(() => {})} />)
+    fireEvent.click(screen.getByTestId('ready-queue-toggle'))
+    expect(screen.queryAllByTestId('ready-queue-item')).toHaveLength(0)
+    fireEvent.click(screen.getByTestId('ready-queue-toggle'))
+    expect(screen.getAllByTestId('ready-queue-item')).toHaveLength(2)
+  })
+})
@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import type { IssuePriority } from './IssueNode'
+
+export interface ReadyQueueItem {
+  issueId: string
+  title: string
+  priority: IssuePriority
+}
+
+interface ReadyQueuePanelProps {
+  /** Ready issues, in the order they will be picked up */
+  issues: ReadyQueueItem[]
+  onSelect: (issueId: string) => void
+}
+
+const priorityColors: Record<IssuePriority, string> = {
+  P0: '#ef4444',
+  P1: '#f97316',
+  P2: '#eab308',
+  P3: '#6b7280',
+}
+
+function ReadyQueuePanel({ issues, onSelect }: ReadyQueuePanelProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false)
+
+  return (
+    <aside
+      aria-label="Ready queue"
+      style={{
+        position: 'absolute',
+        top: '80px',
+        right: '16px',
+        zIndex: 10,
+        width: isCollapsed ? 'auto' : '280px',
+        maxHeight: 'calc(100% - 176px)',
+        display: 'flex',
+        flexDirection: 'column',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        overflow: 'hidden',
+      }}
+      data-testid="ready-queue-panel"
+    >
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(collapsed => !collapsed)}
+        aria-expanded={!isCollapsed}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: '8px',
+          padding: '10px 12px',
+          border: 'none',
+          background: 'none',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: 600,
+          color: '#1f2937',
+        }}
+        data-testid="ready-queue-toggle"
+      >
+        <span>Ready queue</span>
+        <span
+          style={{
+            padding: '0 6px',
+            borderRadius: '10px',
+            backgroundColor: '#dcfce7',
+            color: '#15803d',
+            fontSize: '11px',
+          }}
+          data-testid="ready-queue-count"
+        >
+          {issues.length}
+        </span>
+      </button>
+
+      {!isCollapsed && (
+        <ol
+          style={{
+            margin: 0,
+            padding: '0 0 8px',
+            listStyle: 'none',
+            overflowY: 'auto',
+          }}
+        >
+          {issues.length === 0 && (
+            <li
+              style={{
+                padding: '4px 12px',
+                fontSize: '12px',
+                color: '#6b7280',
+              }}
+              data-testid="ready-queue-empty"
+            >
+              Nothing is ready to work on
+            </li>
+          )}
+          {issues.map((issue, index) => (
+            <li key={issue.issueId}>
+              <button
+                type="button"
+                onClick={() => onSelect(issue.issueId)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  gap: '8px',
+                  width: '100%',
+                  padding: '6px 12px',
+                  border: 'none',
+                  background: 'none',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  fontSize: '13px',
+                  color: '#1f2937',
+                }}
+                data-testid="ready-queue-item"
+                data-issue-id={issue.issueId}
+              >
+                <span style={{ color: '#9ca3af', fontSize: '11px' }}>
+                  {index + 1}.
+                </span>
+                <span
+                  style={{
+                    color: priorityColors[issue.priority],
+                    fontSize: '11px',
+                    fontWeight: 600,
+                  }}
+                >
+                  {issue.priority}
+                </span>
+                <span
+                  style={{
+                    flex: 1,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {issue.title}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </aside>
+  )
+}
+
+export default ReadyQueuePanel
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { cleanup, render, screen } from '@testing-library/react'
+import type { SwimlaneNodeData } from '../transformers/swimlanes'
+import SwimlaneNode from './SwimlaneNode'
+
+function renderSwimlane(data: SwimlaneNodeData) {
+  return render(
+    <SwimlaneNode
+      id="lane:alice"
+      data={data}
+      type="swimlane"
+      dragging={false}
+      draggable={false}
+      zIndex={-1}
+      isConnectable={false}
+      positionAbsoluteX={0}
+      positionAbsoluteY={0}
+      selectable={false}
+      deletable={false}
+      selected={false}
+    />
+  )
+}
+
+describe('SwimlaneNode', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('shows the lane name and how many issues are in it', () => {
+    renderSwimlane({ label: 'alice', count: 3 })
+
+    expect(screen.getByTestId('swimlane-label')).toHaveTextContent('alice')
+    expect(screen.getByTestId('swimlane-count')).toHaveTextContent('3 issues')
+  })
+
+  it('counts a single issue', () => {
+    renderSwimlane({ label: 'Unassigned', count: 1 })
+
+    expect(screen.getByTestId('swimlane-count')).toHaveTextContent('1 issue')
+  })
+})
@@ -0,0 +1,49 @@
+import type { NodeProps } from '@xyflow/react'
+import type { SwimlaneNodeData } from '../transformers/swimlanes'
+
+/**
+ * Background band of a swimlane, named on its left with a count of the
+ * issues in it. Issues are drawn over it as nodes of their own.
+ */
+function SwimlaneNode({ data }: NodeProps) {
+  const laneData = data as unknown as SwimlaneNodeData
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        boxSizing: 'border-box',
+        borderTop: '1px solid #e5e7eb',
+        borderBottom: '1px solid #e5e7eb',
+        backgroundColor: 'rgba(243, 244, 246, 0.5)',
+        padding: '16px',
+      }}
+      data-testid="swimlane"
+    >
+      <div
+        style={{
+          width: '160px',
+          fontSize: '14px',
+          fontWeight: 600,
+          color: '#374151',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+        title={laneData.label}
+        data-testid="swimlane-label"
+      >
+        {laneData.label}
+      </div>
+      <div
+        style={{ fontSize: '12px', color: '#6b7280' }}
+        data-testid="swimlane-count"
+      >
+        {laneData.count} {laneData.count === 1 ? 'issue' : 'issues'}
+      </div>
+    </div>
+  )
+}
+
+export default SwimlaneNode
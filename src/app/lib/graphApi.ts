@@ -0,0 +1,543 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { ConversationSummary } from '../components/CreateIssueModal'
+import type { IssueChanges } from '../components/IssueDetailModal'
+import type { StoredConversation } from '../transformers/conversationToChatMessages'
+import type { CriticalPath } from '../transformers/criticalPath'
+import {
+  type BdDependency,
+  type DependencyType,
+  dependenciesToEdges,
+} from '../transformers/dependencyToEdge'
+import { type BdIssue, issuesToNodes } from '../transformers/issueToNode'
+import { dagError, dagLog, logGraphSummary } from '../utils/dagLogger'
+
+export const API_BASE_URL =
+  import.meta.env.VITE_API_URL || 'http://localhost:3001'
+
+export interface GraphApiResponse {
+  issues: BdIssue[]
+  dependencies: BdDependency[]
+  issueMap: Record<string, BdIssue>
+}
+
+// Last graph received per URL, reused when the server answers 304
+export const graphResponseCache = new Map<
+  string,
+  { etag: string; graph: GraphApiResponse }
+>()
+
+/**
+ * Build the URL of a graph endpoint for a GitHub repo or local path
+ */
+export function graphUrl(
+  path: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): URL {
+  const url = new URL(`${API_BASE_URL}${path}`)
+  if (owner && repo) {
+    url.searchParams.set('owner', owner)
+    url.searchParams.set('repo', repo)
+  } else if (localPath) {
+    url.searchParams.set('local', localPath)
+  }
+  return url
+}
+
+/**
+ * Fetch the issue graph as React Flow nodes and edges, revalidating against
+ * the last response with its ETag. Nodes are left for the caller to lay out.
+ */
+export async function fetchGraph(
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<{
+  nodes: Node[]
+  edges: Edge[]
+}> {
+  const url = graphUrl('/api/graph', owner, repo, localPath)
+
+  dagLog(`Fetching graph from ${url.toString()}`)
+
+  // Only include credentials when fetching from GitHub (requires auth)
+  // Bypass the browser cache - we revalidate against our own copy instead
+  const fetchOptions: RequestInit = {
+    cache: 'no-store',
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  }
+  const cached = graphResponseCache.get(url.toString())
+  if (cached) {
+    fetchOptions.headers = { 'If-None-Match': cached.etag }
+  }
+  const response = await fetch(url.toString(), fetchOptions)
+
+  let graph: GraphApiResponse
+  if (response.status === 304 && cached) {
+    dagLog('Graph not modified, using cached response')
+    graph = cached.graph
+  } else if (response.ok) {
+    graph = await response.json()
+    const etag = response.headers.get('etag')
+    if (etag) {
+      graphResponseCache.set(url.toString(), { etag, graph })
+    }
+  } else {
+    dagError(`Failed to fetch graph: ${response.status} ${response.statusText}`)
+    throw new Error('Failed to fetch graph')
+  }
+
+  dagLog('Received graph from API', {
+    issueCount: graph.issues?.length ?? 0,
+    dependencyCount: graph.dependencies?.length ?? 0,
+  })
+
+  const issues = graph.issues ?? []
+  const allDependencies = graph.dependencies ?? []
+  dagLog(
+    `Collected ${issues.length} issues, ${allDependencies.length} dependencies`
+  )
+
+  const nodes = issuesToNodes(issues)
+  const edges = dependenciesToEdges(allDependencies)
+
+  logGraphSummary(
+    issues.length,
+    allDependencies.length,
+    nodes.length,
+    edges.length
+  )
+
+  // Positions are left to the layout step, which lays out what is shown
+  dagLog('Graph fetch complete', {
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+  })
+
+  return { nodes, edges }
+}
+
+/**
+ * Pull the latest changes into the server's clone of a GitHub repository
+ */
+export async function pullRemoteRepository(
+  owner: string,
+  repo: string
+): Promise<void> {
+  dagLog(`Pulling latest changes for ${owner}/${repo}`)
+  const response = await fetch(
+    `${API_BASE_URL}/api/repos/${owner}/${repo}/pull`,
+    {
+      method: 'POST',
+      credentials: 'include',
+    }
+  )
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to pull repository')
+  }
+  dagLog(`Successfully pulled latest changes for ${owner}/${repo}`)
+}
+
+export async function createDependency(
+  blocked: string,
+  blocker: string,
+  type: DependencyType,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl('/api/dependencies', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ blocked, blocker, type }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to create dependency')
+  }
+}
+
+export async function deleteDependency(
+  blocked: string,
+  blocker: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl('/api/dependencies', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ blocked, blocker }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to delete dependency')
+  }
+}
+
+/**
+ * Fetch the longest chain of unfinished blocking issues
+ * @param weighted - Measure the chain by estimates rather than issue count
+ */
+export async function fetchCriticalPath(
+  weighted: boolean,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<CriticalPath> {
+  const url = graphUrl('/api/critical-path', owner, repo, localPath)
+  if (weighted) {
+    url.searchParams.set('weighted', 'true')
+  }
+  const response = await fetch(url.toString(), {
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+  if (!response.ok) {
+    throw new Error('Failed to fetch critical path')
+  }
+  return (await response.json()) as CriticalPath
+}
+
+/**
+ * Positions of nodes moved by hand, by issue ID
+ */
+export type PinnedPositions = Record<string, { x: number; y: number }>
+
+export async function fetchPinnedPositions(
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<PinnedPositions> {
+  const url = graphUrl('/api/layout', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+  if (!response.ok) {
+    throw new Error('Failed to fetch pinned positions')
+  }
+  return ((await response.json()) as { positions: PinnedPositions }).positions
+}
+
+export async function pinPositions(
+  positions: PinnedPositions,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl('/api/layout', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ positions }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to pin positions')
+  }
+}
+
+export async function resetPinnedPositions(
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl('/api/layout', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    method: 'DELETE',
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to reset layout')
+  }
+}
+
+/**
+ * Fetch the IDs of issues ready to work on, in the order `bd ready` lists them
+ */
+export async function fetchReadyIssueIds(
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<string[]> {
+  const url = graphUrl('/api/ready', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+  if (!response.ok) {
+    throw new Error('Failed to fetch ready queue')
+  }
+  const issues = (await response.json()) as BdIssue[]
+  return issues.map(issue => issue.id)
+}
+
+export async function fetchConversations(
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<ConversationSummary[]> {
+  const url = graphUrl('/api/conversations', owner, repo, localPath)
+  const response = await fetch(url.toString(), {
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to fetch conversations')
+  }
+  return response.json()
+}
+
+export async function fetchConversation(
+  conversationId: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<StoredConversation> {
+  const url = graphUrl(
+    `/api/conversations/${encodeURIComponent(conversationId)}`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to fetch conversation')
+  }
+  return response.json()
+}
+
+export async function renameConversation(
+  conversationId: string,
+  title: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl(
+    `/api/conversations/${encodeURIComponent(conversationId)}`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ title }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to rename conversation')
+  }
+}
+
+export async function deleteConversation(
+  conversationId: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl(
+    `/api/conversations/${encodeURIComponent(conversationId)}`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    method: 'DELETE',
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to delete conversation')
+  }
+}
+
+/**
+ * Apply the selected changes proposed in a conversation, in one commit
+ */
+export async function applyProposedChanges(
+  conversationId: string,
+  changeIds: string[],
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl(
+    `/api/conversations/${encodeURIComponent(conversationId)}/changeset/apply`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ changeIds }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to apply changes')
+  }
+}
+
+export async function discardProposedChanges(
+  conversationId: string,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl(
+    `/api/conversations/${encodeURIComponent(conversationId)}/changeset`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    method: 'DELETE',
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to discard changes')
+  }
+}
+
+/**
+ * Save changes to an issue. The server batches rapid changes into one commit.
+ */
+export async function updateIssue(
+  issueId: string,
+  changes: IssueChanges,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<void> {
+  const url = graphUrl(
+    `/api/issues/${encodeURIComponent(issueId)}`,
+    owner,
+    repo,
+    localPath
+  )
+  const { priority, ...fields } = changes
+  const response = await fetch(url.toString(), {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...fields,
+      ...(priority ? { priority: Number(priority.slice(1)) } : {}),
+    }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to update issue')
+  }
+}
+
+/**
+ * Close or reopen an issue, returning the updated issue
+ */
+export async function setIssueClosed(
+  issueId: string,
+  action: 'close' | 'reopen',
+  reason: string | undefined,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<BdIssue> {
+  const url = graphUrl(
+    `/api/issues/${encodeURIComponent(issueId)}/${action}`,
+    owner,
+    repo,
+    localPath
+  )
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ reason }),
+    ...(owner && repo ? { credentials: 'include' } : {}),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `Failed to ${action} issue`)
+  }
+  return response.json()
+}
+
+/**
+ * The body of a chat request; the server keeps the conversation history
+ */
+export interface ChatRequest {
+  messages?: { role: string; content: string }[]
+  conversationId?: string
+  mode: 'propose' | 'apply'
+  /** ID of an issue to ask the assistant to break down into subtasks */
+  decompose?: string
+}
+
+/**
+ * Send a chat message, returning a reader for the server-sent events the
+ * assistant's reply streams back as
+ */
+export async function sendChatMessage(
+  request: ChatRequest,
+  owner?: string,
+  repo?: string,
+  localPath?: string
+): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+  const response = await fetch(`${API_BASE_URL}/api/chat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...request, owner, repo, local: localPath }),
+    credentials: owner && repo ? 'include' : 'omit',
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to send message')
+  }
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+  return reader
+}
@@ -9,6 +9,7 @@ import AuthCallback from './pages/AuthCallback'
 import DagView from './pages/DagView'
 import Home from './pages/Home'
 import IssueDetail from './pages/IssueDetail'
+import SwimlaneView from './pages/SwimlaneView'
 
 const rootElement = document.getElementById('root')
 if (!rootElement) {
@@ -24,7 +25,12 @@ createRoot(rootElement).render(
             <Route path="/" element={<App />}>
               <Route index element={<Home />} />
               <Route path="local" element={<DagView />} />
+              <Route path="local/swimlanes" element={<SwimlaneView />} />
               <Route path="repos/:owner/:repo" element={<DagView />} />
+              <Route
+                path="repos/:owner/:repo/swimlanes"
+                element={<SwimlaneView />}
+              />
               <Route path="issues/:issueId" element={<IssueDetail />} />
             </Route>
             <Route path="/auth/callback" element={<AuthCallback />} />
@@ -1,144 +1,189 @@
-import type { Connection, Edge, Node } from '@xyflow/react'
-import { useCallback, useEffect, useState } from 'react'
+import type {
+  Connection,
+  Edge,
+  EdgeMouseHandler,
+  Node,
+  NodeMouseHandler,
+  OnNodeDrag,
+} from '@xyflow/react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useParams, useSearchParams } from 'react-router-dom'
+import ChangesetPanel from '../components/ChangesetPanel'
+import CloseIssueDialog from '../components/CloseIssueDialog'
+import ContextMenu from '../components/ContextMenu'
 import CreateIssueModal, {
   type ChatMessage,
+  type ConversationSummary,
 } from '../components/CreateIssueModal'
+import CriticalPathPanel from '../components/CriticalPathPanel'
 import DagCanvas from '../components/DagCanvas'
+import DependencyLegend from '../components/DependencyLegend'
+import FilterToolbar from '../components/FilterToolbar'
 import FloatingActionButton from '../components/FloatingActionButton'
-import IssueDetailModal from '../components/IssueDetailModal'
-import type { IssueNodeData } from '../components/IssueNode'
+import FocusPanel from '../components/FocusPanel'
+import IssueDetailModal, {
+  type IssueChanges,
+} from '../components/IssueDetailModal'
+import type { IssueNodeData, IssuePriority } from '../components/IssueNode'
+import LayoutControls from '../components/LayoutControls'
+import PriorityListView from '../components/PriorityListView'
+import ReadyQueuePanel from '../components/ReadyQueuePanel'
 import { useSyncStatus } from '../context/SyncContext'
-import { applyDagLayout } from '../transformers/dagLayout'
 import {
-  type BdDependency,
-  dependenciesToEdges,
+  applyProposedChanges,
+  createDependency,
+  deleteConversation,
+  deleteDependency,
+  discardProposedChanges,
+  fetchConversation,
+  fetchConversations,
+  fetchCriticalPath,
+  fetchGraph,
+  fetchPinnedPositions,
+  fetchReadyIssueIds,
+  graphResponseCache,
+  graphUrl,
+  type PinnedPositions,
+  pinPositions,
+  pullRemoteRepository,
+  renameConversation,
+  resetPinnedPositions,
+  sendChatMessage,
+  setIssueClosed,
+  updateIssue,
+} from '../lib/graphApi'
+import {
+  type ProposedChange,
+  previewChangeset,
+} from '../transformers/changesetPreview'
+import { conversationToChatMessages } from '../transformers/conversationToChatMessages'
+import {
+  type CriticalPath,
+  highlightCriticalPath,
+} from '../transformers/criticalPath'
+import {
+  type DependencyType,
+  isBlockingEdge,
 } from '../transformers/dependencyToEdge'
-import { type BdIssue, issuesToNodes } from '../transformers/issueToNode'
-import { dagError, dagLog, logGraphSummary } from '../utils/dagLogger'
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001'
-
-interface GraphApiResponse {
-  issues: BdIssue[]
-  dependencies: BdDependency[]
-  issueMap: Record<string, BdIssue>
-}
-
-async function createDependency(
-  blocked: string,
-  blocker: string
-): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/api/dependencies`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ blocked, blocker }),
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(errorData.error || 'Failed to create dependency')
-  }
-}
-
-async function pullRemoteRepository(
-  owner: string,
-  repo: string
-): Promise<void> {
-  dagLog(`Pulling latest changes for ${owner}/${repo}`)
-  const response = await fetch(
-    `${API_BASE_URL}/api/repos/${owner}/${repo}/pull`,
-    {
-      method: 'POST',
-      credentials: 'include',
-    }
-  )
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}))
-    throw new Error(errorData.error || 'Failed to pull repository')
-  }
-  dagLog(`Successfully pulled latest changes for ${owner}/${repo}`)
-}
-
-async function fetchGraph(
-  owner?: string,
-  repo?: string,
-  localPath?: string
-): Promise<{
-  nodes: Node[]
-  edges: Edge[]
-}> {
-  const url = new URL(`${API_BASE_URL}/api/graph`)
-  if (owner && repo) {
-    url.searchParams.set('owner', owner)
-    url.searchParams.set('repo', repo)
-  } else if (localPath) {
-    url.searchParams.set('local', localPath)
-  }
-
-  dagLog(`Fetching graph from ${url.toString()}`)
-
-  // Only include credentials when fetching from GitHub (requires auth)
-  const fetchOptions: RequestInit =
-    owner && repo ? { credentials: 'include' } : {}
-  const response = await fetch(url.toString(), fetchOptions)
-  if (!response.ok) {
-    dagError(`Failed to fetch graph: ${response.status} ${response.statusText}`)
-    throw new Error('Failed to fetch graph')
-  }
-  const graph: GraphApiResponse = await response.json()
-
-  dagLog('Received graph from API', {
-    issueCount: graph.issues?.length ?? 0,
-    dependencyCount: graph.dependencies?.length ?? 0,
-  })
-
-  const issues = graph.issues ?? []
-  const allDependencies = graph.dependencies ?? []
-  dagLog(
-    `Collected ${issues.length} issues, ${allDependencies.length} dependencies`
-  )
-
-  const nodes = issuesToNodes(issues)
-  const edges = dependenciesToEdges(allDependencies)
-
-  logGraphSummary(
-    issues.length,
-    allDependencies.length,
-    nodes.length,
-    edges.length
-  )
-
-  // Apply DAG layout for proper hierarchical positioning
-  const layoutedNodes = applyDagLayout(nodes, edges)
-
-  dagLog('Graph fetch complete', {
-    nodeCount: layoutedNodes.length,
-    edgeCount: edges.length,
-  })
+import {
+  epicProgress,
+  groupEpics,
+  isParentChildEdge,
+} from '../transformers/epicGroups'
+import {
+  focusGraph,
+  type IssueFocus,
+  parseIssueFocus,
+  writeIssueFocus,
+} from '../transformers/focusGraph'
+import {
+  applyGraphChanges,
+  type GraphChange,
+} from '../transformers/graphChanges'
+import { layoutGraph } from '../transformers/graphLayout'
+import {
+  filterGraph,
+  hasActiveFilters,
+  type IssueFilters,
+  parseIssueFilters,
+  writeIssueFilters,
+} from '../transformers/issueFilters'
+import {
+  LAYOUT_ENGINES,
+  type LayoutDirection,
+  type LayoutEngineId,
+} from '../transformers/layoutEngines'
+import { dagError, dagLog } from '../utils/dagLogger'
 
-  return { nodes: layoutedNodes, edges }
-}
+// Node data fields that can change without reloading the graph
+type IssueDataChanges = Partial<
+  Pick<
+    IssueNodeData,
+    | 'title'
+    | 'description'
+    | 'type'
+    | 'priority'
+    | 'status'
+    | 'assignee'
+    | 'closeReason'
+  >
+>
 
 function DagView() {
   const { owner, repo } = useParams<{ owner?: string; repo?: string }>()
-  const [searchParams] = useSearchParams()
+  const [searchParams, setSearchParams] = useSearchParams()
   const localPath = searchParams.get('path') ?? undefined
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [nodes, setNodes] = useState<Node[]>([])
   const [edges, setEdges] = useState<Edge[]>([])
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [isChatLoading, setIsChatLoading] = useState(false)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  // Stored conversation the chat continues, or null to start a new one
+  const [activeConversationId, setActiveConversationId] = useState<
+    string | null
+  >(null)
+  // Propose mode collects chat changes for review instead of making them
+  const [proposeMode, setProposeMode] = useState(false)
+  const [proposedChanges, setProposedChanges] = useState<ProposedChange[]>([])
+  const [deselectedChangeIds, setDeselectedChangeIds] = useState<Set<string>>(
+    new Set()
+  )
+  const [isApplyingChanges, setIsApplyingChanges] = useState(false)
+  // Type given to dependencies drawn on the canvas
+  const [connectType, setConnectType] = useState<DependencyType>('blocks')
+  const [hideNonBlocking, setHideNonBlocking] = useState(false)
+  // Epics drawn as a single card with their children hidden
+  const [collapsedEpicIds, setCollapsedEpicIds] = useState<Set<string>>(
+    new Set()
+  )
   const [selectedIssue, setSelectedIssue] = useState<IssueNodeData | null>(null)
+  const [closingIssue, setClosingIssue] = useState<IssueNodeData | null>(null)
+  const [contextMenu, setContextMenu] = useState<
+    | { x: number; y: number; issue: IssueNodeData }
+    | { x: number; y: number; edge: Edge }
+    | null
+  >(null)
+  const filters = useMemo(() => parseIssueFilters(searchParams), [searchParams])
+  const focus = useMemo(() => parseIssueFocus(searchParams), [searchParams])
+  const [readyIssueIds, setReadyIssueIds] = useState<string[]>([])
+  const [showCriticalPath, setShowCriticalPath] = useState(false)
+  const [weightCriticalPath, setWeightCriticalPath] = useState(false)
+  const [criticalPath, setCriticalPath] = useState<CriticalPath | null>(null)
+  const [layoutEngine, setLayoutEngine] = useState<LayoutEngineId>('dagre')
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('LR')
+  const [incrementalLayout, setIncrementalLayout] = useState(true)
+  // Nodes as last laid out, by ID
+  const [laidOutNodes, setLaidOutNodes] = useState<Map<string, Node>>(new Map())
+  // Positions the user dragged nodes to, which override the layout
+  const [pinnedPositions, setPinnedPositions] = useState<PinnedPositions>({})
+  // Bumped whenever issue data arrives, so requests that depend on the whole
+  // graph skip node changes like dragging and selecting
+  const [graphVersion, setGraphVersion] = useState(0)
+  // Bumped to lay the graph out afresh
+  const [layoutGeneration, setLayoutGeneration] = useState(0)
   const { setOnRefresh } = useSyncStatus()
+  // Latest nodes and edges, for applying pushed changes outside of render
+  const graphRef = useRef<{ nodes: Node[]; edges: Edge[] }>({
+    nodes: [],
+    edges: [],
+  })
+  graphRef.current = { nodes, edges }
 
   const handleIssueSelect = useCallback((issueData: IssueNodeData) => {
     setSelectedIssue(issueData)
   }, [])
 
+  const handleToggleEpic = useCallback((epicId: string) => {
+    setCollapsedEpicIds(prev => {
+      const next = new Set(prev)
+      if (!next.delete(epicId)) {
+        next.add(epicId)
+      }
+      return next
+    })
+  }, [])
+
   // Fetch graph data on mount and provide refresh function
   const refreshGraph = useCallback(
     async (pullFromRemote = false) => {
@@ -167,6 +212,7 @@ function DagView() {
         )
         setNodes(nodesWithCallback)
         setEdges(newEdges)
+        setGraphVersion(version => version + 1)
       } catch (error) {
         dagError('Failed to fetch graph', error)
       }
@@ -178,6 +224,53 @@ function DagView() {
     refreshGraph()
   }, [refreshGraph])
 
+  // Apply changes pushed by the server as .beads data changes
+  useEffect(() => {
+    const eventSource = new EventSource(
+      graphUrl('/api/graph/events', owner, repo, localPath).toString(),
+      { withCredentials: Boolean(owner && repo) }
+    )
+
+    eventSource.onmessage = event => {
+      try {
+        const data = JSON.parse(event.data)
+
+        if (data.type === 'connected') {
+          // Catch up on changes made before the stream was connected
+          const cached = graphResponseCache.get(
+            graphUrl('/api/graph', owner, repo, localPath).toString()
+          )
+          if (cached && cached.etag !== data.etag) {
+            refreshGraph()
+          }
+        } else if (data.type === 'changes') {
+          const changes = data.changes as GraphChange[]
+          dagLog(`Received ${changes.length} graph changes`)
+          const result = applyGraphChanges(
+            graphRef.current.nodes as Node<IssueNodeData>[],
+            graphRef.current.edges,
+            changes
+          )
+          const nextNodes = result.nodes.map(node => ({
+            ...node,
+            data: { ...node.data, onSelect: handleIssueSelect },
+          }))
+          // Keep the ref current in case more changes arrive before rendering
+          graphRef.current = { nodes: nextNodes, edges: result.edges }
+          setNodes(nextNodes)
+          setEdges(result.edges)
+          setGraphVersion(version => version + 1)
+        }
+      } catch (error) {
+        dagError('Failed to apply graph changes', error)
+      }
+    }
+
+    return () => {
+      eventSource.close()
+    }
+  }, [owner, repo, localPath, refreshGraph, handleIssueSelect])
+
   // Register refresh callback with SyncContext (pulls from remote when button clicked)
   useEffect(() => {
     setOnRefresh(async () => {
@@ -186,24 +279,305 @@ function DagView() {
     return () => setOnRefresh(null)
   }, [refreshGraph, setOnRefresh])
 
+  useEffect(() => {
+    let cancelled = false
+    fetchPinnedPositions(owner, repo, localPath)
+      .then(positions => {
+        if (!cancelled) setPinnedPositions(positions)
+      })
+      .catch(error => {
+        dagError('Failed to fetch pinned positions', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [owner, repo, localPath])
+
+  // Readiness depends on the whole graph, so recompute it whenever it changes
+  useEffect(() => {
+    if (graphVersion === 0) {
+      setReadyIssueIds([])
+      return
+    }
+    let cancelled = false
+    fetchReadyIssueIds(owner, repo, localPath)
+      .then(ids => {
+        if (!cancelled) setReadyIssueIds(ids)
+      })
+      .catch(error => {
+        dagError('Failed to fetch ready queue', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [graphVersion, owner, repo, localPath])
+
+  // The critical path also depends on the whole graph, but is only fetched
+  // while it is shown
+  useEffect(() => {
+    if (!showCriticalPath || graphVersion === 0) {
+      setCriticalPath(null)
+      return
+    }
+    let cancelled = false
+    fetchCriticalPath(weightCriticalPath, owner, repo, localPath)
+      .then(path => {
+        if (!cancelled) setCriticalPath(path)
+      })
+      .catch(error => {
+        dagError('Failed to fetch critical path', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [
+    graphVersion,
+    showCriticalPath,
+    weightCriticalPath,
+    owner,
+    repo,
+    localPath,
+  ])
+
   const handleConnect = useCallback(
     (connection: Connection) => {
       // In React Flow: source is where you drag FROM, target is where you drag TO
       // In our DAG: source handle (bottom) = blocker, target handle (top) = blocked
-      // So: source node blocks target node
+      // So: source node blocks target node (or is its parent, for parent-child)
       if (connection.source && connection.target) {
-        createDependency(connection.target, connection.source)
+        createDependency(
+          connection.target,
+          connection.source,
+          connectType,
+          owner,
+          repo,
+          localPath
+        )
           .then(() => refreshGraph())
           .catch(error => {
             console.error('Failed to create dependency:', error)
           })
       }
     },
-    [refreshGraph]
+    [refreshGraph, connectType, owner, repo, localPath]
+  )
+
+  const applyIssueChanges = useCallback(
+    (issueId: string, changes: IssueDataChanges) => {
+      setNodes(prev =>
+        prev.map(node =>
+          node.id === issueId
+            ? { ...node, data: { ...node.data, ...changes } }
+            : node
+        )
+      )
+      setSelectedIssue(prev =>
+        prev?.issueId === issueId ? { ...prev, ...changes } : prev
+      )
+    },
+    []
+  )
+
+  const handlePriorityChange = useCallback(
+    (issueId: string, priority: IssuePriority) => {
+      const node = graphRef.current.nodes.find(n => n.id === issueId)
+      if (!node) return
+      const previousPriority = (node.data as IssueNodeData).priority
+
+      // Show the new priority straight away rather than waiting for the
+      // debounced commit
+      applyIssueChanges(issueId, { priority })
+      updateIssue(issueId, { priority }, owner, repo, localPath).catch(
+        error => {
+          dagError('Failed to update priority', error)
+          applyIssueChanges(issueId, { priority: previousPriority })
+        }
+      )
+    },
+    [owner, repo, localPath, applyIssueChanges]
+  )
+
+  const handleIssueUpdate = useCallback(
+    async (issueId: string, changes: IssueChanges) => {
+      await updateIssue(issueId, changes, owner, repo, localPath)
+      applyIssueChanges(issueId, changes)
+    },
+    [owner, repo, localPath, applyIssueChanges]
+  )
+
+  const handleCloseIssue = useCallback(
+    async (issueId: string, reason: string) => {
+      const issue = await setIssueClosed(
+        issueId,
+        'close',
+        reason || undefined,
+        owner,
+        repo,
+        localPath
+      )
+      applyIssueChanges(issueId, {
+        status: 'closed',
+        closeReason: issue.close_reason ?? reason,
+      })
+      setClosingIssue(null)
+    },
+    [owner, repo, localPath, applyIssueChanges]
+  )
+
+  const handleReopenIssue = useCallback(
+    async (issueId: string) => {
+      await setIssueClosed(issueId, 'reopen', undefined, owner, repo, localPath)
+      applyIssueChanges(issueId, { status: 'open', closeReason: undefined })
+    },
+    [owner, repo, localPath, applyIssueChanges]
+  )
+
+  const handleNodeContextMenu: NodeMouseHandler = useCallback((event, node) => {
+    event.preventDefault()
+    setContextMenu({
+      x: event.clientX,
+      y: event.clientY,
+      issue: node.data as IssueNodeData,
+    })
+  }, [])
+
+  const handleEdgeContextMenu: EdgeMouseHandler = useCallback((event, edge) => {
+    event.preventDefault()
+    // Edges drawn to a collapsed epic stand in for its children's dependencies
+    if (edge.deletable === false) return
+    setContextMenu({ x: event.clientX, y: event.clientY, edge })
+  }, [])
+
+  const dismissContextMenu = useCallback(() => setContextMenu(null), [])
+
+  // Edges run from blocker (source) to blocked (target)
+  const handleEdgesDelete = useCallback(
+    (deleted: Edge[]) => {
+      const deletedIds = new Set(deleted.map(edge => edge.id))
+      setEdges(prev => prev.filter(edge => !deletedIds.has(edge.id)))
+
+      for (const edge of deleted) {
+        deleteDependency(
+          edge.target,
+          edge.source,
+          owner,
+          repo,
+          localPath
+        ).catch(error => {
+          dagError(
+            `Failed to delete dependency ${edge.source} → ${edge.target}`,
+            error
+          )
+          // Put the edge back, unless it has already been restored
+          setEdges(prev =>
+            prev.some(existing => existing.id === edge.id)
+              ? prev
+              : [...prev, edge]
+          )
+        })
+      }
+    },
+    [owner, repo, localPath]
+  )
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await fetchConversations(owner, repo, localPath))
+    } catch (error) {
+      dagError('Failed to fetch conversations', error)
+    }
+  }, [owner, repo, localPath])
+
+  // Conversations belong to a repository, so start afresh when it changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset on repository change
+  useEffect(() => {
+    setActiveConversationId(null)
+    setChatMessages([])
+    setConversations([])
+    setProposedChanges([])
+    setDeselectedChangeIds(new Set())
+  }, [owner, repo, localPath])
+
+  useEffect(() => {
+    if (isModalOpen) {
+      refreshConversations()
+    }
+  }, [isModalOpen, refreshConversations])
+
+  const showConversation = useCallback(
+    async (conversationId: string) => {
+      const conversation = await fetchConversation(
+        conversationId,
+        owner,
+        repo,
+        localPath
+      )
+      setActiveConversationId(conversation.id)
+      setChatMessages(conversationToChatMessages(conversation))
+      setProposedChanges(conversation.changeset?.changes ?? [])
+    },
+    [owner, repo, localPath]
+  )
+
+  const handleSelectConversation = useCallback(
+    async (conversationId: string) => {
+      try {
+        await showConversation(conversationId)
+        setDeselectedChangeIds(new Set())
+      } catch (error) {
+        dagError('Failed to load conversation', error)
+      }
+    },
+    [showConversation]
   )
 
+  const handleNewConversation = useCallback(() => {
+    setActiveConversationId(null)
+    setChatMessages([])
+    setProposedChanges([])
+    setDeselectedChangeIds(new Set())
+  }, [])
+
+  const handleRenameConversation = useCallback(
+    async (conversationId: string, title: string) => {
+      try {
+        await renameConversation(conversationId, title, owner, repo, localPath)
+        await refreshConversations()
+      } catch (error) {
+        dagError('Failed to rename conversation', error)
+      }
+    },
+    [owner, repo, localPath, refreshConversations]
+  )
+
+  const handleDeleteConversation = useCallback(
+    async (conversationId: string) => {
+      try {
+        await deleteConversation(conversationId, owner, repo, localPath)
+        if (conversationId === activeConversationId) {
+          handleNewConversation()
+        }
+        await refreshConversations()
+      } catch (error) {
+        dagError('Failed to delete conversation', error)
+      }
+    },
+    [
+      owner,
+      repo,
+      localPath,
+      activeConversationId,
+      handleNewConversation,
+      refreshConversations,
+    ]
+  )
+
+  /**
+   * Send a chat message, or with decompose, ask for the issue to be broken
+   * down into subtasks in a new conversation; message is then only shown
+   */
   const handleSendMessage = useCallback(
-    async (message: string) => {
+    async (message: string, decompose?: string) => {
       console.log('[CHAT] handleSendMessage called with:', message)
       // Add user message to chat
       const userMessage: ChatMessage = {
@@ -211,40 +585,40 @@ function DagView() {
         role: 'user',
         content: message,
       }
-      setChatMessages(prev => [...prev, userMessage])
+      setChatMessages(prev => (decompose ? [] : prev).concat(userMessage))
       setIsChatLoading(true)
 
+      // Set once the server says which conversation this is
+      let conversationId = decompose ? null : activeConversationId
+
       try {
-        // Build messages array for API (exclude IDs, include history)
-        const apiMessages = [...chatMessages, userMessage].map(m => ({
-          role: m.role,
-          content: m.content,
-        }))
+        // The server keeps the history, so only the new message is sent
+        const apiMessages = decompose
+          ? undefined
+          : [{ role: 'user', content: message }]
 
-        console.log('[CHAT] Sending request to:', `${API_BASE_URL}/api/chat`)
-        const response = await fetch(`${API_BASE_URL}/api/chat`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+        const reader = await sendChatMessage(
+          {
+            messages: apiMessages,
+            conversationId: conversationId ?? undefined,
+            mode: proposeMode ? 'propose' : 'apply',
+            decompose,
           },
-          body: JSON.stringify({ messages: apiMessages, owner, repo }),
-          credentials: owner && repo ? 'include' : 'omit',
-        })
-        console.log('[CHAT] Response status:', response.status)
-
-        if (!response.ok) {
-          throw new Error('Failed to send message')
-        }
-
-        // Handle SSE stream
-        const reader = response.body?.getReader()
-        if (!reader) {
-          throw new Error('No response body')
-        }
+          owner,
+          repo,
+          localPath
+        )
 
         const decoder = new TextDecoder()
         let assistantContent = ''
         const assistantMessageId = `assistant-${Date.now()}`
+        const updateAssistantMessage = (
+          update: (message: ChatMessage) => ChatMessage
+        ) => {
+          setChatMessages(prev =>
+            prev.map(m => (m.id === assistantMessageId ? update(m) : m))
+          )
+        }
 
         console.log('[CHAT] Starting SSE stream processing')
 
@@ -278,16 +652,66 @@ function DagView() {
               try {
                 const parsed = JSON.parse(data)
 
+                if (parsed.conversationId) {
+                  conversationId = parsed.conversationId
+                  setActiveConversationId(parsed.conversationId)
+                }
+
                 if (parsed.text) {
                   assistantContent += parsed.text
                   // Update the assistant message with accumulated content
-                  setChatMessages(prev =>
-                    prev.map(m =>
-                      m.id === assistantMessageId
-                        ? { ...m, content: assistantContent }
-                        : m
-                    )
-                  )
+                  updateAssistantMessage(m => ({
+                    ...m,
+                    content: assistantContent,
+                  }))
+                }
+
+                // Show each tool as it runs, then what it returned
+                if (parsed.toolCallStarted) {
+                  const { id, name, input } = parsed.toolCallStarted
+                  updateAssistantMessage(m => ({
+                    ...m,
+                    toolCalls: [
+                      ...(m.toolCalls ?? []),
+                      { id, name, input, status: 'running' },
+                    ],
+                  }))
+                }
+
+                if (parsed.toolCallResult) {
+                  const { id, success, result, error } = parsed.toolCallResult
+                  updateAssistantMessage(m => ({
+                    ...m,
+                    toolCalls: m.toolCalls?.map(toolCall =>
+                      toolCall.id === id
+                        ? {
+                            ...toolCall,
+                            result: success
+                              ? JSON.stringify(result)
+                              : `Error: ${error}`,
+                            status: success ? 'succeeded' : 'failed',
+                          }
+                        : toolCall
+                    ),
+                  }))
+                }
+
+                if (parsed.commit || parsed.push) {
+                  const kind = parsed.commit ? 'commit' : 'push'
+                  const { success, message, error } =
+                    parsed.commit ?? parsed.push
+                  updateAssistantMessage(m => ({
+                    ...m,
+                    activity: [
+                      ...(m.activity ?? []),
+                      { kind, success, detail: success ? message : error },
+                    ],
+                  }))
+                }
+
+                if (parsed.changeset) {
+                  // Preview the proposal on the graph as it grows
+                  setProposedChanges(parsed.changeset.changes)
                 }
 
                 if (parsed.graphUpdated) {
@@ -302,6 +726,11 @@ function DagView() {
           }
         }
         console.log('[CHAT] Stream processing complete')
+
+        // A new conversation gets its title from this message
+        if (conversationId) {
+          await refreshConversations()
+        }
       } catch (error) {
         console.error('Chat error:', error)
         // Add error message
@@ -317,7 +746,308 @@ function DagView() {
         setIsChatLoading(false)
       }
     },
-    [chatMessages, refreshGraph, owner, repo]
+    [
+      activeConversationId,
+      proposeMode,
+      refreshGraph,
+      owner,
+      repo,
+      localPath,
+      refreshConversations,
+    ]
+  )
+
+  // Subtasks are proposed, so they show on the canvas before being created
+  const handleDecompose = useCallback(
+    (issue: IssueNodeData) => {
+      setIsModalOpen(true)
+      setActiveConversationId(null)
+      setProposedChanges([])
+      setDeselectedChangeIds(new Set())
+      handleSendMessage(
+        `Break down ${issue.issueId} into subtasks`,
+        issue.issueId
+      )
+    },
+    [handleSendMessage]
+  )
+
+  const handleToggleChange = useCallback((changeId: string) => {
+    setDeselectedChangeIds(prev => {
+      const next = new Set(prev)
+      if (!next.delete(changeId)) {
+        next.add(changeId)
+      }
+      return next
+    })
+  }, [])
+
+  const handleApplyChanges = useCallback(async () => {
+    if (!activeConversationId) return
+    setIsApplyingChanges(true)
+    try {
+      await applyProposedChanges(
+        activeConversationId,
+        proposedChanges
+          .filter(change => !deselectedChangeIds.has(change.id))
+          .map(change => change.id),
+        owner,
+        repo,
+        localPath
+      )
+      setDeselectedChangeIds(new Set())
+      await refreshGraph()
+      // The conversation records what was applied
+      await showConversation(activeConversationId)
+    } catch (error) {
+      dagError('Failed to apply proposed changes', error)
+    } finally {
+      setIsApplyingChanges(false)
+    }
+  }, [
+    activeConversationId,
+    proposedChanges,
+    deselectedChangeIds,
+    owner,
+    repo,
+    localPath,
+    refreshGraph,
+    showConversation,
+  ])
+
+  const handleDiscardChanges = useCallback(async () => {
+    if (!activeConversationId) return
+    try {
+      await discardProposedChanges(activeConversationId, owner, repo, localPath)
+      setProposedChanges([])
+      setDeselectedChangeIds(new Set())
+    } catch (error) {
+      dagError('Failed to discard proposed changes', error)
+    }
+  }, [activeConversationId, owner, repo, localPath])
+
+  const handleFiltersChange = useCallback(
+    (nextFilters: IssueFilters) => {
+      // Replace rather than push so typing in the search box doesn't
+      // flood the browser history
+      setSearchParams(prev => writeIssueFilters(prev, nextFilters), {
+        replace: true,
+      })
+    },
+    [setSearchParams]
+  )
+
+  // Push rather than replace so the back button leaves focus mode
+  const handleFocusChange = useCallback(
+    (nextFocus: IssueFocus | null) => {
+      setSearchParams(prev => writeIssueFocus(prev, nextFocus))
+    },
+    [setSearchParams]
+  )
+
+  const { assignees, labels } = useMemo(() => {
+    const assigneeSet = new Set<string>()
+    const labelSet = new Set<string>()
+    for (const node of nodes) {
+      const data = node.data as IssueNodeData
+      if (data.assignee) assigneeSet.add(data.assignee)
+      for (const label of data.labels ?? []) {
+        labelSet.add(label)
+      }
+    }
+    return { assignees: [...assigneeSet].sort(), labels: [...labelSet].sort() }
+  }, [nodes])
+
+  // Parent-child links stay when non-blocking ones are hidden since they
+  // group epics
+  const visibleGraph = useMemo(() => {
+    let shown = { nodes, edges }
+    if (hideNonBlocking) {
+      shown = {
+        nodes,
+        edges: edges.filter(
+          edge => isBlockingEdge(edge) || isParentChildEdge(edge)
+        ),
+      }
+    }
+    if (focus) {
+      shown = focusGraph(shown.nodes, shown.edges, focus)
+    }
+    if (hasActiveFilters(filters)) {
+      shown = filterGraph(shown.nodes, shown.edges, filters)
+    }
+    return shown
+  }, [nodes, edges, filters, focus, hideNonBlocking])
+
+  const readyQueue = useMemo(() => {
+    const dataById = new Map(
+      nodes.map(node => [node.id, node.data as IssueNodeData])
+    )
+    return readyIssueIds
+      .map(id => dataById.get(id))
+      .filter((data): data is IssueNodeData => data !== undefined)
+  }, [nodes, readyIssueIds])
+
+  // Open issues for the priority list, ready ones first in queue order
+  const openIssues = useMemo(() => {
+    const readyRank = new Map(readyIssueIds.map((id, index) => [id, index]))
+    return nodes
+      .map(node => node.data as IssueNodeData)
+      .filter(data => data.status === 'open')
+      .sort(
+        (a, b) =>
+          (readyRank.get(a.issueId) ?? readyIssueIds.length) -
+          (readyRank.get(b.issueId) ?? readyIssueIds.length)
+      )
+  }, [nodes, readyIssueIds])
+
+  // Proposed issues are laid out among the rest, so reviewing a proposal
+  // shows where the new issues would go
+  const previewGraph = useMemo(() => {
+    if (proposedChanges.length === 0) {
+      return visibleGraph
+    }
+    return previewChangeset(
+      visibleGraph.nodes,
+      visibleGraph.edges,
+      proposedChanges,
+      deselectedChangeIds
+    )
+  }, [visibleGraph, proposedChanges, deselectedChangeIds])
+
+  // Rollup progress is counted from the whole graph, so filtering out an
+  // epic's closed children doesn't change it
+  const progressByEpic = useMemo(
+    () => epicProgress(nodes, edges),
+    [nodes, edges]
+  )
+
+  const groupedGraph = useMemo(() => {
+    const grouped = groupEpics(
+      previewGraph.nodes,
+      previewGraph.edges,
+      collapsedEpicIds,
+      progressByEpic
+    )
+    return highlightCriticalPath(
+      grouped.nodes,
+      grouped.edges,
+      criticalPath?.issueIds ?? []
+    )
+  }, [previewGraph, collapsedEpicIds, progressByEpic, criticalPath])
+
+  // Changing what is shown, or how it is arranged, lays the graph out
+  // afresh. Otherwise an incremental layout keeps issues where they are.
+  const layoutView = JSON.stringify([
+    filters,
+    focus,
+    hideNonBlocking,
+    [...collapsedEpicIds],
+    layoutEngine,
+    layoutDirection,
+    incrementalLayout,
+    layoutGeneration,
+  ])
+  const layoutViewRef = useRef(layoutView)
+  const laidOutNodesRef = useRef(laidOutNodes)
+  laidOutNodesRef.current = laidOutNodes
+  const pinnedPositionsRef = useRef(pinnedPositions)
+  pinnedPositionsRef.current = pinnedPositions
+
+  // Layout engines may run asynchronously, so the canvas shows the last
+  // positions until the new ones arrive
+  useEffect(() => {
+    const sameView = layoutViewRef.current === layoutView
+    layoutViewRef.current = layoutView
+    let cancelled = false
+    layoutGraph(groupedGraph.nodes, groupedGraph.edges, {
+      engine: LAYOUT_ENGINES[layoutEngine],
+      direction: layoutDirection,
+      // Pinned nodes stay where they were put, so new ones are placed
+      // around them
+      previous:
+        incrementalLayout && sameView
+          ? [...laidOutNodesRef.current.values()].map(node => ({
+              ...node,
+              position: pinnedPositionsRef.current[node.id] ?? node.position,
+            }))
+          : undefined,
+    })
+      .then(laidOut => {
+        if (!cancelled) {
+          setLaidOutNodes(new Map(laidOut.map(node => [node.id, node])))
+        }
+      })
+      .catch(error => {
+        dagError('Failed to lay out graph', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [
+    groupedGraph,
+    layoutView,
+    layoutEngine,
+    layoutDirection,
+    incrementalLayout,
+  ])
+
+  const canvasNodes = useMemo(() => {
+    const readyIds = new Set(readyIssueIds)
+    return groupedGraph.nodes.map(node => {
+      const laidOut = laidOutNodes.get(node.id)
+      return {
+        ...node,
+        position:
+          pinnedPositions[node.id] ?? laidOut?.position ?? node.position,
+        width: laidOut?.width,
+        height: laidOut?.height,
+        data: {
+          ...node.data,
+          ...(readyIds.has(node.id) && { isReady: true }),
+          ...(node.type === 'epic' && {
+            onToggleCollapse: handleToggleEpic,
+          }),
+        },
+      }
+    })
+  }, [
+    groupedGraph.nodes,
+    laidOutNodes,
+    pinnedPositions,
+    readyIssueIds,
+    handleToggleEpic,
+  ])
+
+  const handleNodeDragStop: OnNodeDrag = useCallback(
+    (_event, _node, draggedNodes) => {
+      const positions: PinnedPositions = Object.fromEntries(
+        draggedNodes.map(node => [node.id, node.position])
+      )
+      setPinnedPositions(prev => ({ ...prev, ...positions }))
+      pinPositions(positions, owner, repo, localPath).catch(error => {
+        dagError('Failed to pin positions', error)
+      })
+    },
+    [owner, repo, localPath]
+  )
+
+  const handleResetLayout = useCallback(() => {
+    setPinnedPositions({})
+    setLayoutGeneration(generation => generation + 1)
+    resetPinnedPositions(owner, repo, localPath).catch(error => {
+      dagError('Failed to reset layout', error)
+    })
+  }, [owner, repo, localPath])
+
+  const handleIssueIdSelect = useCallback(
+    (issueId: string) => {
+      const node = nodes.find(n => n.id === issueId)
+      if (node) {
+        setSelectedIssue(node.data as IssueNodeData)
+      }
+    },
+    [nodes]
   )
 
   return (
@@ -328,7 +1058,75 @@ function DagView() {
         position: 'relative',
       }}
     >
-      <DagCanvas nodes={nodes} edges={edges} onConnect={handleConnect} />
+      <DagCanvas
+        nodes={canvasNodes}
+        edges={groupedGraph.edges}
+        onConnect={handleConnect}
+        onNodeContextMenu={handleNodeContextMenu}
+        onEdgeContextMenu={handleEdgeContextMenu}
+        onNodeDragStop={handleNodeDragStop}
+        onEdgesDelete={handleEdgesDelete}
+      />
+      <FilterToolbar
+        filters={filters}
+        onChange={handleFiltersChange}
+        assignees={assignees}
+        labels={labels}
+        visibleCount={visibleGraph.nodes.length}
+        totalCount={nodes.length}
+      />
+      <PriorityListView
+        issues={openIssues}
+        onPriorityChange={handlePriorityChange}
+        onSelect={handleIssueIdSelect}
+      />
+      <ReadyQueuePanel issues={readyQueue} onSelect={handleIssueIdSelect} />
+      {focus && (
+        <FocusPanel
+          focus={focus}
+          title={
+            (
+              nodes.find(node => node.id === focus.issueId)?.data as
+                | IssueNodeData
+                | undefined
+            )?.title
+          }
+          onDepthChange={depth => handleFocusChange({ ...focus, depth })}
+          onExit={() => handleFocusChange(null)}
+        />
+      )}
+      <CriticalPathPanel
+        enabled={showCriticalPath}
+        onEnabledChange={setShowCriticalPath}
+        weighted={weightCriticalPath}
+        onWeightedChange={setWeightCriticalPath}
+        path={criticalPath}
+      />
+      <LayoutControls
+        engine={layoutEngine}
+        onEngineChange={setLayoutEngine}
+        direction={layoutDirection}
+        onDirectionChange={setLayoutDirection}
+        incremental={incrementalLayout}
+        onIncrementalChange={setIncrementalLayout}
+        onReset={handleResetLayout}
+      />
+      <DependencyLegend
+        connectType={connectType}
+        onConnectTypeChange={setConnectType}
+        hideNonBlocking={hideNonBlocking}
+        onHideNonBlockingChange={setHideNonBlocking}
+      />
+      {proposedChanges.length > 0 && (
+        <ChangesetPanel
+          changes={proposedChanges}
+          deselectedIds={deselectedChangeIds}
+          onToggle={handleToggleChange}
+          onApply={handleApplyChanges}
+          onDiscard={handleDiscardChanges}
+          isApplying={isApplyingChanges}
+        />
+      )}
       <FloatingActionButton
         onClick={() => setIsModalOpen(true)}
         disabled={isModalOpen}
@@ -339,11 +1137,85 @@ function DagView() {
         chatMessages={chatMessages}
         onSendMessage={handleSendMessage}
         isChatLoading={isChatLoading}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        onSelectConversation={handleSelectConversation}
+        onNewConversation={handleNewConversation}
+        onRenameConversation={handleRenameConversation}
+        onDeleteConversation={handleDeleteConversation}
+        proposeMode={proposeMode}
+        onProposeModeChange={setProposeMode}
       />
       <IssueDetailModal
         issue={selectedIssue}
         onClose={() => setSelectedIssue(null)}
+        onUpdate={handleIssueUpdate}
+        onCloseIssue={setClosingIssue}
+        onReopenIssue={handleReopenIssue}
       />
+      <CloseIssueDialog
+        issue={closingIssue}
+        onConfirm={handleCloseIssue}
+        onCancel={() => setClosingIssue(null)}
+      />
+      {contextMenu && 'edge' in contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          items={[
+            {
+              label: 'Delete dependency',
+              danger: true,
+              onSelect: () => handleEdgesDelete([contextMenu.edge]),
+            },
+          ]}
+          onDismiss={dismissContextMenu}
+        />
+      )}
+      {contextMenu && 'issue' in contextMenu && (
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          items={[
+            {
+              label: 'View details',
+              onSelect: () => setSelectedIssue(contextMenu.issue),
+            },
+            {
+              label: 'Focus on this issue',
+              onSelect: () =>
+                handleFocusChange({
+                  issueId: contextMenu.issue.issueId,
+                  depth: focus?.depth ?? null,
+                }),
+            },
+            ...(contextMenu.issue.status === 'closed'
+              ? []
+              : [
+                  {
+                    label: 'Decompose into subtasks',
+                    onSelect: () => handleDecompose(contextMenu.issue),
+                  },
+                ]),
+            contextMenu.issue.status === 'closed'
+              ? {
+                  label: 'Reopen issue',
+                  onSelect: () => {
+                    handleReopenIssue(contextMenu.issue.issueId).catch(
+                      error => {
+                        dagError('Failed to reopen issue', error)
+                      }
+                    )
+                  },
+                }
+              : {
+                  label: 'Close issue...',
+                  onSelect: () => setClosingIssue(contextMenu.issue),
+                },
+          ]}
+          onDismiss={dismissContextMenu}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,170 @@
+import type { Edge, Node } from '@xyflow/react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import DagCanvas from '../components/DagCanvas'
+import type { IssueNodeData } from '../components/IssueNode'
+import { useSyncStatus } from '../context/SyncContext'
+import { fetchGraph, graphUrl, pullRemoteRepository } from '../lib/graphApi'
+import { writeIssueFocus } from '../transformers/focusGraph'
+import {
+  parseSwimlaneField,
+  SWIMLANE_FIELDS,
+  type SwimlaneField,
+  swimlaneLayout,
+} from '../transformers/swimlanes'
+import { dagError, dagLog } from '../utils/dagLogger'
+
+/**
+ * The issue graph arranged into swimlanes by assignee, status, priority or
+ * label, for seeing who is working on what. Selecting an issue opens the
+ * graph focused on it.
+ */
+function SwimlaneView() {
+  const { owner, repo } = useParams<{ owner?: string; repo?: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const localPath = searchParams.get('path') ?? undefined
+  const field = parseSwimlaneField(searchParams.get('by'))
+  const navigate = useNavigate()
+  const [nodes, setNodes] = useState<Node[]>([])
+  const [edges, setEdges] = useState<Edge[]>([])
+  const { setOnRefresh } = useSyncStatus()
+
+  const handleIssueSelect = useCallback(
+    (issue: IssueNodeData) => {
+      const params = writeIssueFocus(
+        new URLSearchParams(localPath ? { path: localPath } : {}),
+        { issueId: issue.issueId, depth: null }
+      )
+      navigate({
+        pathname: owner && repo ? `/repos/${owner}/${repo}` : '/local',
+        search: `?${params}`,
+      })
+    },
+    [owner, repo, localPath, navigate]
+  )
+
+  const refreshGraph = useCallback(
+    async (pullFromRemote = false) => {
+      dagLog('Refreshing swimlanes')
+      try {
+        if (pullFromRemote && owner && repo) {
+          await pullRemoteRepository(owner, repo)
+        }
+        const graph = await fetchGraph(owner, repo, localPath)
+        setNodes(
+          graph.nodes.map(node => ({
+            ...node,
+            data: { ...node.data, onSelect: handleIssueSelect },
+          }))
+        )
+        setEdges(graph.edges)
+      } catch (error) {
+        dagError('Failed to fetch graph', error)
+      }
+    },
+    [owner, repo, localPath, handleIssueSelect]
+  )
+
+  useEffect(() => {
+    refreshGraph()
+  }, [refreshGraph])
+
+  // Refetch when the server pushes changes; the ETag keeps this cheap
+  useEffect(() => {
+    const eventSource = new EventSource(
+      graphUrl('/api/graph/events', owner, repo, localPath).toString(),
+      { withCredentials: Boolean(owner && repo) }
+    )
+    eventSource.onmessage = event => {
+      try {
+        if (JSON.parse(event.data).type === 'changes') {
+          refreshGraph()
+        }
+      } catch (error) {
+        dagError('Failed to read graph changes', error)
+      }
+    }
+    return () => {
+      eventSource.close()
+    }
+  }, [owner, repo, localPath, refreshGraph])
+
+  useEffect(() => {
+    setOnRefresh(async () => {
+      await refreshGraph(true)
+    })
+    return () => setOnRefresh(null)
+  }, [refreshGraph, setOnRefresh])
+
+  const lanes = useMemo(
+    () => swimlaneLayout(nodes, edges, field),
+    [nodes, edges, field]
+  )
+
+  const handleFieldChange = useCallback(
+    (nextField: SwimlaneField) => {
+      setSearchParams(
+        prev => {
+          const next = new URLSearchParams(prev)
+          next.set('by', nextField)
+          return next
+        },
+        { replace: true }
+      )
+    },
+    [setSearchParams]
+  )
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        position: 'relative',
+      }}
+    >
+      <DagCanvas nodes={lanes.nodes} edges={lanes.edges} readOnly />
+      <label
+        style={{
+          position: 'absolute',
+          top: '16px',
+          left: '16px',
+          zIndex: 10,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          borderRadius: '8px',
+          backgroundColor: 'rgba(255, 255, 255, 0.95)',
+          boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+          fontSize: '13px',
+          color: '#374151',
+        }}
+      >
+        Swimlanes by
+        <select
+          value={field}
+          onChange={event =>
+            handleFieldChange(event.target.value as SwimlaneField)
+          }
+          style={{
+            padding: '4px 8px',
+            borderRadius: '6px',
+            border: '1px solid #e5e7eb',
+            backgroundColor: '#ffffff',
+            fontSize: '13px',
+          }}
+          data-testid="swimlane-field-select"
+        >
+          {SWIMLANE_FIELDS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
+
+export default SwimlaneView
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test'
+import type { Edge } from '@xyflow/react'
+import type { IssueNodeData } from '../components/IssueNode'
+import { type ProposedChange, previewChangeset } from './changesetPreview'
+import { issueNode } from './testFixtures'
+
+const nodes = [issueNode('bd-1'), issueNode('bd-2')]
+const edges: Edge[] = [{ id: 'bd-1-bd-2', source: 'bd-1', target: 'bd-2' }]
+
+const changes: ProposedChange[] = [
+  {
+    id: 'change-1',
+    type: 'createIssue',
+    toolName: 'create_issue',
+    input: { title: 'Write docs', type: 'feature', priority: 1 },
+    summary: 'Create feature "Write docs"',
+    issueId: 'new-1',
+  },
+  {
+    id: 'change-2',
+    type: 'addDependency',
+    toolName: 'add_dependency',
+    input: { blocked_issue_id: 'new-1', blocker_issue_id: 'bd-2' },
+    summary: 'bd-2 blocks new-1',
+  },
+  {
+    id: 'change-3',
+    type: 'updateIssue',
+    toolName: 'close_issue',
+    input: { issue_id: 'bd-1' },
+    summary: 'Close bd-1',
+    issueId: 'bd-1',
+  },
+  {
+    id: 'change-4',
+    type: 'removeDependency',
+    toolName: 'remove_dependency',
+    input: { blocked_issue_id: 'bd-2', blocker_issue_id: 'bd-1' },
+    summary: 'bd-1 no longer blocks bd-2',
+  },
+]
+
+describe('previewChangeset', () => {
+  it('adds ghost nodes and dashed edges for the proposed changes', () => {
+    const preview = previewChangeset(nodes, edges, changes, new Set())
+
+    const ghost = preview.nodes.find(node => node.id === 'new-1')
+    expect(ghost?.data).toMatchObject({
+      title: 'Write docs',
+      type: 'feature',
+      priority: 'P1',
+      proposal: 'create',
+    })
+    expect(
+      (preview.nodes.find(node => node.id === 'bd-1')?.data as IssueNodeData)
+        .proposal
+    ).toBe('update')
+    expect(preview.edges).toEqual([
+      expect.objectContaining({
+        id: 'bd-1-bd-2',
+        data: { proposal: 'remove' },
+      }),
+      expect.objectContaining({
+        source: 'bd-2',
+        target: 'new-1',
+        data: { proposal: 'add' },
+      }),
+    ])
+  })
+
+  it('leaves out deselected changes and links to issues not shown', () => {
+    const preview = previewChangeset(
+      nodes,
+      edges,
+      changes,
+      new Set(['change-1', 'change-3', 'change-4'])
+    )
+
+    expect(preview.nodes).toEqual(nodes)
+    expect(preview.edges).toEqual(edges)
+  })
+
+  it('keeps the type of proposed dependencies', () => {
+    const preview = previewChangeset(
+      nodes,
+      edges,
+      [
+        changes[0],
+        {
+          ...changes[1],
+          input: { ...changes[1].input, type: 'parent-child' },
+        },
+      ],
+      new Set()
+    )
+
+    expect(preview.edges).toContainEqual(
+      expect.objectContaining({
+        source: 'bd-2',
+        target: 'new-1',
+        data: { proposal: 'add', dependencyType: 'parent-child' },
+      })
+    )
+  })
+
+  it('returns the graph as is without changes', () => {
+    const preview = previewChangeset(nodes, edges, [], new Set())
+
+    expect(preview.nodes).toBe(nodes)
+    expect(preview.edges).toBe(edges)
+  })
+})
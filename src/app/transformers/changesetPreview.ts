@@ -0,0 +1,131 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { IssueNodeData } from '../components/IssueNode'
+import { issueToNode } from './issueToNode'
+
+/**
+ * A graph change proposed in chat, as sent by the server. Issues it creates
+ * have placeholder IDs (new-1, new-2, ...) until the change is applied.
+ */
+export interface ProposedChange {
+  id: string
+  type: 'createIssue' | 'updateIssue' | 'addDependency' | 'removeDependency'
+  toolName: string
+  input: Record<string, unknown>
+  summary: string
+  issueId?: string
+}
+
+// Dashed edges for proposed links, so they read as not there yet
+const addedEdgeStyle = { stroke: '#3b82f6', strokeDasharray: '6 4' }
+const removedEdgeStyle = { stroke: '#ef4444', strokeDasharray: '6 4' }
+
+/**
+ * Show proposed changes on the graph: ghost nodes for new issues, marked
+ * nodes for edited ones, and dashed edges for dependencies being added or
+ * removed. Deselected changes are left out, as are dependencies on issues
+ * that aren't shown.
+ * @param deselectedIds - Changes the user has chosen not to apply
+ */
+export function previewChangeset(
+  nodes: Node[],
+  edges: Edge[],
+  changes: ProposedChange[],
+  deselectedIds: Set<string>
+): { nodes: Node[]; edges: Edge[] } {
+  const selected = changes.filter(change => !deselectedIds.has(change.id))
+  if (selected.length === 0) {
+    return { nodes, edges }
+  }
+
+  const ghostNodes: Node[] = []
+  const editedIds = new Set<string>()
+  const addedEdges: Edge[] = []
+  const removedEdgeIds = new Set<string>()
+
+  for (const change of selected) {
+    const { input } = change
+    switch (change.type) {
+      case 'createIssue': {
+        if (!change.issueId) break
+        const node = issueToNode(
+          {
+            id: change.issueId,
+            title: String(input.title ?? ''),
+            description: input.description as string | undefined,
+            status: 'open',
+            priority: (input.priority as number | undefined) ?? 2,
+            type: input.type as string | undefined,
+            labels: input.labels as string[] | undefined,
+            created_at: '',
+            updated_at: '',
+            dependency_count: 0,
+            dependent_count: 0,
+          },
+          { x: 0, y: 0 }
+        )
+        ghostNodes.push({
+          ...node,
+          data: { ...node.data, proposal: 'create' },
+        })
+        break
+      }
+      case 'updateIssue':
+        if (change.issueId) editedIds.add(change.issueId)
+        break
+      case 'addDependency': {
+        const source = String(input.blocker_issue_id)
+        const target = String(input.blocked_issue_id)
+        addedEdges.push({
+          id: `proposed-${change.id}`,
+          source,
+          target,
+          type: 'default',
+          animated: true,
+          style: addedEdgeStyle,
+          data: {
+            proposal: 'add',
+            // Proposed children are previewed inside their epic's group
+            ...(typeof input.type === 'string' && {
+              dependencyType: input.type,
+            }),
+          },
+        })
+        break
+      }
+      case 'removeDependency':
+        removedEdgeIds.add(
+          `${input.blocker_issue_id}-${input.blocked_issue_id}`
+        )
+        break
+    }
+  }
+
+  const previewNodes = [
+    ...nodes.map(node =>
+      editedIds.has(node.id)
+        ? {
+            ...node,
+            data: { ...(node.data as IssueNodeData), proposal: 'update' },
+          }
+        : node
+    ),
+    ...ghostNodes,
+  ]
+  const shownIds = new Set(previewNodes.map(node => node.id))
+  const previewEdges = [
+    ...edges.map(edge =>
+      removedEdgeIds.has(edge.id)
+        ? {
+            ...edge,
+            style: removedEdgeStyle,
+            data: { ...edge.data, proposal: 'remove' },
+          }
+        : edge
+    ),
+    ...addedEdges.filter(
+      edge => shownIds.has(edge.source) && shownIds.has(edge.target)
+    ),
+  ]
+
+  return { nodes: previewNodes, edges: previewEdges }
+}
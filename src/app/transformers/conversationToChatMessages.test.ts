@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test'
+import { conversationToChatMessages } from './conversationToChatMessages'
+
+describe('conversationToChatMessages', () => {
+  it('attaches tool results to the calls they answer', () => {
+    const messages = conversationToChatMessages({
+      id: 'c1',
+      title: 'Close bd-1',
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+      messages: [
+        { role: 'user', content: 'Close bd-1' },
+        {
+          role: 'assistant',
+          content: 'Closing it.',
+          toolCalls: [
+            { id: 'call-1', name: 'close_issue', input: { issue_id: 'bd-1' } },
+          ],
+        },
+        { role: 'tool', toolCallId: 'call-1', content: '{"id":"bd-1"}' },
+        { role: 'assistant', content: 'Closed bd-1.' },
+      ],
+    })
+
+    expect(messages).toEqual([
+      { id: 'c1-0', role: 'user', content: 'Close bd-1' },
+      {
+        id: 'c1-1',
+        role: 'assistant',
+        content: 'Closing it.',
+        toolCalls: [
+          {
+            id: 'call-1',
+            name: 'close_issue',
+            input: { issue_id: 'bd-1' },
+            result: '{"id":"bd-1"}',
+            status: 'succeeded',
+          },
+        ],
+      },
+      { id: 'c1-3', role: 'assistant', content: 'Closed bd-1.' },
+    ])
+  })
+
+  it('skips empty assistant messages', () => {
+    const messages = conversationToChatMessages({
+      id: 'c1',
+      title: 'Hi',
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: '' },
+      ],
+    })
+
+    expect(messages).toEqual([{ id: 'c1-0', role: 'user', content: 'Hi' }])
+  })
+
+  it('marks tools that returned an error as failed', () => {
+    const [message] = conversationToChatMessages({
+      id: 'c1',
+      title: 'Close bd-9',
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+      messages: [
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            { id: 'call-1', name: 'close_issue', input: { issue_id: 'bd-9' } },
+          ],
+        },
+        {
+          role: 'tool',
+          toolCallId: 'call-1',
+          content: 'Error: Issue not found',
+        },
+      ],
+    })
+
+    expect(message.toolCalls?.[0].status).toBe('failed')
+  })
+})
@@ -0,0 +1,71 @@
+import type { ChatMessage } from '../components/CreateIssueModal'
+import type { ProposedChange } from './changesetPreview'
+
+/**
+ * A message as stored by /api/conversations. Tool results are separate
+ * messages that follow the assistant message which called the tools.
+ */
+export type StoredChatMessage =
+  | { role: 'user'; content: string }
+  | {
+      role: 'assistant'
+      content: string
+      toolCalls?: {
+        id: string
+        name: string
+        input: Record<string, unknown>
+      }[]
+    }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+export interface StoredConversation {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messages: StoredChatMessage[]
+  /** Changes proposed in the conversation that haven't been applied */
+  changeset?: { changes: ProposedChange[] }
+}
+
+/**
+ * Convert a stored conversation to chat messages, attaching each tool
+ * result to the tool call it answers
+ */
+export function conversationToChatMessages(
+  conversation: StoredConversation
+): ChatMessage[] {
+  const chatMessages: ChatMessage[] = []
+
+  conversation.messages.forEach((message, index) => {
+    const id = `${conversation.id}-${index}`
+    if (message.role === 'tool') {
+      for (const chatMessage of chatMessages) {
+        const toolCall = chatMessage.toolCalls?.find(
+          call => call.id === message.toolCallId
+        )
+        if (toolCall) {
+          toolCall.result = message.content
+          // Failed tools report their error as the result
+          toolCall.status = message.content.startsWith('Error:')
+            ? 'failed'
+            : 'succeeded'
+        }
+      }
+    } else if (message.role === 'assistant') {
+      if (!message.content && !message.toolCalls?.length) return
+      chatMessages.push({
+        id,
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          toolCalls: message.toolCalls.map(toolCall => ({ ...toolCall })),
+        }),
+      })
+    } else {
+      chatMessages.push({ id, role: 'user', content: message.content })
+    }
+  })
+
+  return chatMessages
+}
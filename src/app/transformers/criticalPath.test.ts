@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test'
+import type { Edge, Node } from '@xyflow/react'
+import { formatCriticalPathLength, highlightCriticalPath } from './criticalPath'
+
+function node(id: string): Node {
+  return { id, position: { x: 0, y: 0 }, data: { issueId: id } }
+}
+
+const nodes = ['a', 'b', 'c'].map(node)
+const edges: Edge[] = [
+  { id: 'a-b', source: 'a', target: 'b' },
+  { id: 'a-c', source: 'a', target: 'c' },
+]
+
+describe('highlightCriticalPath', () => {
+  it('marks the issues on the path and the edges between them', () => {
+    const highlighted = highlightCriticalPath(nodes, edges, ['a', 'b'])
+
+    expect(highlighted.nodes.map(n => Boolean(n.data.onCriticalPath))).toEqual([
+      true,
+      true,
+      false,
+    ])
+    expect(highlighted.edges[0]).toMatchObject({
+      animated: true,
+      style: { stroke: '#dc2626' },
+    })
+    expect(highlighted.edges[1]).toBe(edges[1])
+  })
+
+  it('leaves the graph as it is without a path', () => {
+    expect(highlightCriticalPath(nodes, edges, [])).toEqual({ nodes, edges })
+  })
+})
+
+describe('formatCriticalPathLength', () => {
+  it('counts issues when not weighted', () => {
+    expect(
+      formatCriticalPathLength({ issueIds: ['a'], length: 1, weighted: false })
+    ).toBe('1 issue')
+    expect(
+      formatCriticalPathLength({
+        issueIds: ['a', 'b', 'c'],
+        length: 3,
+        weighted: false,
+      })
+    ).toBe('3 issues')
+  })
+
+  it('shows estimates as hours and minutes', () => {
+    const path = { issueIds: ['a'], weighted: true }
+
+    expect(formatCriticalPathLength({ ...path, length: 45 })).toBe('45m')
+    expect(formatCriticalPathLength({ ...path, length: 120 })).toBe('2h')
+    expect(formatCriticalPathLength({ ...path, length: 200 })).toBe('3h 20m')
+  })
+})
@@ -0,0 +1,65 @@
+import type { Edge, Node } from '@xyflow/react'
+
+/**
+ * The longest chain of unfinished blocking issues, as sent by the server
+ */
+export interface CriticalPath {
+  /** Issues on the path, each blocking the next */
+  issueIds: string[]
+  /** Number of issues on the path, or their total estimate in minutes */
+  length: number
+  weighted: boolean
+}
+
+const criticalEdgeStyle = { stroke: '#dc2626', strokeWidth: 3 }
+
+/**
+ * Mark the issues on the critical path and the edges between them
+ */
+export function highlightCriticalPath(
+  nodes: Node[],
+  edges: Edge[],
+  issueIds: string[]
+): { nodes: Node[]; edges: Edge[] } {
+  if (issueIds.length === 0) {
+    return { nodes, edges }
+  }
+
+  const onPath = new Set(issueIds)
+  const pathLinks = new Set(
+    issueIds.slice(1).map((id, index) => `${issueIds[index]}->${id}`)
+  )
+
+  return {
+    nodes: nodes.map(node =>
+      onPath.has(node.id)
+        ? { ...node, data: { ...node.data, onCriticalPath: true } }
+        : node
+    ),
+    edges: edges.map(edge =>
+      pathLinks.has(`${edge.source}->${edge.target}`)
+        ? {
+            ...edge,
+            animated: true,
+            style: { ...edge.style, ...criticalEdgeStyle },
+          }
+        : edge
+    ),
+  }
+}
+
+/**
+ * Describe the length of a critical path: minutes as hours and minutes
+ * when weighted by estimate, otherwise a count of issues
+ */
+export function formatCriticalPathLength(path: CriticalPath): string {
+  if (!path.weighted) {
+    return `${path.length} ${path.length === 1 ? 'issue' : 'issues'}`
+  }
+  const minutes = Math.round(path.length)
+  const hours = Math.floor(minutes / 60)
+  if (hours === 0) {
+    return `${minutes}m`
+  }
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`
+}
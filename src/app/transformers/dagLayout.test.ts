@@ -160,6 +160,26 @@ describe('applyDagLayout', () => {
     expect(verticalDistance).toBeGreaterThanOrEqual(200)
   })
 
+  it('lays out nodes at their own size when they have one', () => {
+    const nodes: Node[] = [
+      {
+        id: 'group',
+        position: { x: 0, y: 0 },
+        data: {},
+        width: 800,
+        height: 400,
+      },
+      { id: 'after', position: { x: 0, y: 0 }, data: {} },
+    ]
+    const edges: Edge[] = [{ id: 'e1', source: 'group', target: 'after' }]
+
+    const result = applyDagLayout(nodes, edges, { direction: 'LR' })
+
+    const group = findNodeById(result, 'group')
+    const after = findNodeById(result, 'after')
+    expect(after.position.x - group.position.x).toBeGreaterThanOrEqual(800)
+  })
+
   it('handles nodes without edges (isolated nodes)', () => {
     const nodes: Node[] = [
       { id: 'connected1', position: { x: 0, y: 0 }, data: {} },
@@ -30,7 +30,7 @@ export interface DagLayoutOptions {
   nodeHeight?: number
 }
 
-const DEFAULT_OPTIONS: Required<DagLayoutOptions> = {
+export const DEFAULT_LAYOUT_OPTIONS: Required<DagLayoutOptions> = {
   direction: 'LR',
   nodeSpacingX: 20,
   nodeSpacingY: 200,
@@ -41,7 +41,8 @@ const DEFAULT_OPTIONS: Required<DagLayoutOptions> = {
 /**
  * Applies a DAG (directed acyclic graph) layout to nodes using dagre.
  * Nodes with no dependencies are placed at the top/left,
- * dependent nodes are positioned below/right.
+ * dependent nodes are positioned below/right. Nodes with their own width
+ * and height (such as groups) are laid out at that size.
  *
  * @param nodes - Array of React Flow nodes
  * @param edges - Array of React Flow edges defining dependencies
@@ -61,7 +62,7 @@ export function applyDagLayout<T extends Record<string, unknown>>(
   }
 
   const startTime = performance.now()
-  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const opts = { ...DEFAULT_LAYOUT_OPTIONS, ...options }
 
   // Create a new dagre graph
   const dagreGraph = new dagre.graphlib.Graph()
@@ -79,8 +80,8 @@ export function applyDagLayout<T extends Record<string, unknown>>(
   for (const node of nodes) {
     nodeIds.add(node.id)
     dagreGraph.setNode(node.id, {
-      width: opts.nodeWidth,
-      height: opts.nodeHeight,
+      width: node.width ?? opts.nodeWidth,
+      height: node.height ?? opts.nodeHeight,
     })
   }
 
@@ -114,8 +115,8 @@ export function applyDagLayout<T extends Record<string, unknown>>(
       ...node,
       position: {
         // Dagre positions are center-based, convert to top-left
-        x: dagreNode.x - opts.nodeWidth / 2,
-        y: dagreNode.y - opts.nodeHeight / 2,
+        x: dagreNode.x - dagreNode.width / 2,
+        y: dagreNode.y - dagreNode.height / 2,
       },
     }
   })
@@ -3,6 +3,8 @@ import {
   type BdDependency,
   dependenciesToEdges,
   dependencyToEdge,
+  dependencyTypeInfo,
+  isBlockingEdge,
 } from './dependencyToEdge'
 
 describe('dependencyToEdge', () => {
@@ -42,7 +44,46 @@ describe('dependencyToEdge', () => {
     expect(edge.target).toBe('blocked-issue')
   })
 
-  it('uses bezier edge type', () => {
+  it('keeps the dependency type', () => {
+    const dependency: BdDependency = {
+      issue_id: 'child-issue',
+      depends_on_id: 'epic-issue',
+      type: 'parent-child',
+    }
+
+    const edge = dependencyToEdge(dependency)
+
+    expect(edge.data?.dependencyType).toBe('parent-child')
+  })
+
+  it('styles each dependency type differently', () => {
+    const blocks = dependencyToEdge({
+      issue_id: 'a',
+      depends_on_id: 'b',
+      type: 'blocks',
+    })
+    const related = dependencyToEdge({
+      issue_id: 'a',
+      depends_on_id: 'b',
+      type: 'related',
+    })
+
+    expect(blocks.style).toEqual(dependencyTypeInfo.blocks.style)
+    expect(related.style).toEqual(dependencyTypeInfo.related.style)
+    expect(related.style).not.toEqual(blocks.style)
+  })
+
+  it('styles unknown dependency types as related', () => {
+    const edge = dependencyToEdge({
+      issue_id: 'a',
+      depends_on_id: 'b',
+      type: 'tracks',
+    })
+
+    expect(edge.style).toEqual(dependencyTypeInfo.related.style)
+  })
+
+  it('uses the dependency edge type', () => {
     const dependency: BdDependency = {
       issue_id: 'issue-1',
       depends_on_id: 'issue-2',
@@ -51,7 +92,7 @@ describe('dependencyToEdge', () => {
 
     const edge = dependencyToEdge(dependency)
 
-    expect(edge.type).toBe('default')
+    expect(edge.type).toBe('dependency')
   })
 
   it('creates non-animated edges', () => {
@@ -154,7 +195,7 @@ describe('dependenciesToEdges', () => {
     expect(edges.map(e => e.target)).toEqual(['child-1', 'child-2'])
   })
 
-  it('all edges use bezier type', () => {
+  it('all edges use the dependency type', () => {
     const dependencies: BdDependency[] = [
       { issue_id: 'a', depends_on_id: 'b', type: 'blocks' },
       { issue_id: 'c', depends_on_id: 'd', type: 'blocks' },
@@ -162,6 +203,25 @@ describe('dependenciesToEdges', () => {
 
     const edges = dependenciesToEdges(dependencies)
 
-    expect(edges.every(e => e.type === 'default')).toBe(true)
+    expect(edges.every(e => e.type === 'dependency')).toBe(true)
+  })
+})
+
+describe('isBlockingEdge', () => {
+  it('treats blocks and untyped edges as blocking', () => {
+    expect(
+      isBlockingEdge(
+        dependencyToEdge({ issue_id: 'a', depends_on_id: 'b', type: 'blocks' })
+      )
+    ).toBe(true)
+    expect(isBlockingEdge({ id: 'b-a', source: 'b', target: 'a' })).toBe(true)
+  })
+
+  it('treats other dependency types as non-blocking', () => {
+    expect(
+      isBlockingEdge(
+        dependencyToEdge({ issue_id: 'a', depends_on_id: 'b', type: 'related' })
+      )
+    ).toBe(false)
   })
 })
@@ -1,6 +1,78 @@
 import type { Edge } from '@xyflow/react'
+import type { CSSProperties } from 'react'
 import { dagLog, dagWarn } from '../utils/dagLogger'
 
+/**
+ * Dependency types bd knows about. Only 'blocks' holds up work; the rest
+ * record how issues are related.
+ */
+export type DependencyType =
+  | 'blocks'
+  | 'related'
+  | 'parent-child'
+  | 'discovered-from'
+
+export const DEPENDENCY_TYPES: DependencyType[] = [
+  'blocks',
+  'related',
+  'parent-child',
+  'discovered-from',
+]
+
+export interface DependencyTypeInfo {
+  label: string
+  /** Edge style, also used for the legend swatch */
+  style: CSSProperties
+  /** Sentence describing the link, for the edge tooltip */
+  describe: (source: string, target: string) => string
+}
+
+export const dependencyTypeInfo: Record<DependencyType, DependencyTypeInfo> = {
+  blocks: {
+    label: 'Blocks',
+    style: { stroke: '#6b7280', strokeWidth: 2 },
+    describe: (source, target) => `${source} blocks ${target}`,
+  },
+  related: {
+    label: 'Related',
+    style: { stroke: '#9ca3af', strokeWidth: 1.5, strokeDasharray: '2 4' },
+    describe: (source, target) => `${source} is related to ${target}`,
+  },
+  'parent-child': {
+    label: 'Parent / child',
+    style: { stroke: '#8b5cf6', strokeWidth: 1.5, strokeDasharray: '8 4' },
+    describe: (source, target) => `${source} is the parent of ${target}`,
+  },
+  'discovered-from': {
+    label: 'Discovered from',
+    style: { stroke: '#d97706', strokeWidth: 1.5, strokeDasharray: '4 4' },
+    describe: (source, target) => `${target} was discovered from ${source}`,
+  },
+}
+
+/**
+ * Look up how to show a dependency type. Untyped dependencies block; types
+ * bd adds later are shown like 'related', since only 'blocks' holds up work.
+ */
+export function getDependencyTypeInfo(type: unknown): DependencyTypeInfo {
+  if (type === undefined) {
+    return dependencyTypeInfo.blocks
+  }
+  return (
+    dependencyTypeInfo[type as DependencyType] ?? dependencyTypeInfo.related
+  )
+}
+
+/**
+ * Whether an edge holds up its target; edges without a type block, as
+ * every dependency used to. Matches the server's isBlockingDependency, so
+ * focus mode agrees with the ready queue and critical path.
+ */
+export function isBlockingEdge(edge: Edge): boolean {
+  const type = edge.data?.dependencyType
+  return type === undefined || type === 'blocks'
+}
+
 /**
  * Raw dependency data from the bd graph API
  */
@@ -14,15 +86,18 @@ export interface BdDependency {
 
 /**
  * Transforms a single bd dependency to a React Flow edge
- * The edge goes from blocker (depends_on_id) to blocked (issue_id)
+ * The edge goes from blocker (depends_on_id) to blocked (issue_id), or from
+ * parent to child for parent-child dependencies
  */
 export function dependencyToEdge(dependency: BdDependency): Edge {
   return {
     id: `${dependency.depends_on_id}-${dependency.issue_id}`,
     source: dependency.depends_on_id,
     target: dependency.issue_id,
-    type: 'default',
+    type: 'dependency',
     animated: false,
+    style: getDependencyTypeInfo(dependency.type).style,
+    data: { dependencyType: dependency.type },
   }
 }
 
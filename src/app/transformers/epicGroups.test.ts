@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test'
+import type { EpicNodeData } from '../components/EpicNode'
+import { epicProgress, groupEpics } from './epicGroups'
+import { blocks, expectGroupsBeforeChildren, issueNode } from './testFixtures'
+
+const nodes = [
+  issueNode('epic', { type: 'epic' }),
+  issueNode('child-1', { status: 'closed' }),
+  issueNode('child-2'),
+  issueNode('other'),
+]
+const edges = [
+  blocks('epic', 'child-1', 'parent-child'),
+  blocks('epic', 'child-2', 'parent-child'),
+  blocks('child-1', 'child-2'),
+  blocks('child-2', 'other'),
+]
+
+describe('epicProgress', () => {
+  it('counts the closed and total children of each epic', () => {
+    expect(epicProgress(nodes, edges)).toEqual(
+      new Map([['epic', { closed: 1, total: 2 }]])
+    )
+  })
+
+  it('ignores blocking dependencies', () => {
+    expect(epicProgress(nodes, [blocks('epic', 'child-1')]).size).toBe(0)
+  })
+})
+
+describe('groupEpics', () => {
+  it('puts children inside their epic', () => {
+    const grouped = groupEpics(nodes, edges, new Set())
+
+    const epic = grouped.nodes.find(node => node.id === 'epic')
+    expect(epic?.type).toBe('epic')
+    expect(epic?.data).toMatchObject({
+      progress: { closed: 1, total: 2 },
+      collapsed: false,
+    } satisfies Partial<EpicNodeData>)
+    expect(
+      grouped.nodes
+        .filter(node => node.parentId === 'epic')
+        .map(node => node.id)
+    ).toEqual(['child-1', 'child-2'])
+    expectGroupsBeforeChildren(grouped.nodes)
+  })
+
+  it('drops parent-child edges into a group', () => {
+    const grouped = groupEpics(nodes, edges, new Set())
+
+    expect(grouped.edges.map(e => e.id)).toEqual([
+      'child-1-child-2',
+      'child-2-other',
+    ])
+  })
+
+  it('hides the children of a collapsed epic behind it', () => {
+    const grouped = groupEpics(nodes, edges, new Set(['epic']))
+
+    expect(grouped.nodes.map(node => node.id)).toEqual(['epic', 'other'])
+    expect(grouped.nodes[0].data.collapsed).toBe(true)
+    expect(grouped.edges).toEqual([
+      expect.objectContaining({
+        id: 'epic-other',
+        source: 'epic',
+        target: 'other',
+        deletable: false,
+      }),
+    ])
+  })
+
+  it('uses the progress it is given', () => {
+    const progress = new Map([['epic', { closed: 3, total: 5 }]])
+
+    const grouped = groupEpics(nodes, edges, new Set(), progress)
+
+    expect(grouped.nodes[0].data.progress).toEqual({ closed: 3, total: 5 })
+  })
+
+  it('leaves graphs without epic children as they are', () => {
+    const flat = [issueNode('a'), issueNode('b')]
+    const flatEdges = [blocks('a', 'b')]
+
+    expect(groupEpics(flat, flatEdges, new Set())).toEqual({
+      nodes: flat,
+      edges: flatEdges,
+    })
+  })
+})
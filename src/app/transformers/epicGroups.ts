@@ -0,0 +1,143 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { EpicNodeData, EpicProgress } from '../components/EpicNode'
+import type { IssueNodeData } from '../components/IssueNode'
+
+export function isParentChildEdge(edge: Edge): boolean {
+  return edge.data?.dependencyType === 'parent-child'
+}
+
+function isEpic(node: Node): boolean {
+  return (node.data as IssueNodeData).type === 'epic'
+}
+
+/**
+ * Find the epic each issue belongs to. Edges run from parent to child; an
+ * issue with more than one parent epic goes with the first. Epics stay at
+ * the top level, so nested epics are shown beside their parent rather than
+ * inside it.
+ * @returns Map of child ID to epic ID
+ */
+function findEpicChildren(nodes: Node[], edges: Edge[]): Map<string, string> {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const epicOf = new Map<string, string>()
+  for (const edge of edges) {
+    if (!isParentChildEdge(edge)) continue
+    const parent = byId.get(edge.source)
+    const child = byId.get(edge.target)
+    if (
+      parent &&
+      child &&
+      isEpic(parent) &&
+      !isEpic(child) &&
+      !epicOf.has(child.id)
+    ) {
+      epicOf.set(child.id, parent.id)
+    }
+  }
+  return epicOf
+}
+
+/**
+ * Count the closed and total children of each epic
+ */
+export function epicProgress(
+  nodes: Node[],
+  edges: Edge[]
+): Map<string, EpicProgress> {
+  const byId = new Map(nodes.map(node => [node.id, node]))
+  const progress = new Map<string, EpicProgress>()
+  for (const [childId, epicId] of findEpicChildren(nodes, edges)) {
+    const counts = progress.get(epicId) ?? { closed: 0, total: 0 }
+    counts.total++
+    if (byId.get(childId)?.data.status === 'closed') {
+      counts.closed++
+    }
+    progress.set(epicId, counts)
+  }
+  return progress
+}
+
+/**
+ * Show epics as groups containing their children. An expanded epic is a
+ * group around its children; a collapsed one hides them, and their edges to
+ * the rest of the graph are drawn to the epic instead. Parent-child edges
+ * into a group are dropped since the group already shows the link.
+ * Positions and group sizes are left to layoutGraph.
+ * @param collapsedIds - Epics whose children are hidden
+ * @param progress - Rollup shown on each epic, counted from the whole graph
+ *   so filters don't change it
+ * @returns Nodes, with each group before its children as React Flow
+ *   requires, and the edges between them
+ */
+export function groupEpics(
+  nodes: Node[],
+  edges: Edge[],
+  collapsedIds: Set<string>,
+  progress: Map<string, EpicProgress> = epicProgress(nodes, edges)
+): { nodes: Node[]; edges: Edge[] } {
+  const toEpicNode = (node: Node): Node =>
+    isEpic(node)
+      ? {
+          ...node,
+          type: 'epic',
+          data: {
+            ...(node.data as IssueNodeData),
+            progress: progress.get(node.id) ?? { closed: 0, total: 0 },
+            collapsed: collapsedIds.has(node.id),
+          } satisfies EpicNodeData,
+        }
+      : node
+
+  const epicOf = findEpicChildren(nodes, edges)
+  if (epicOf.size === 0) {
+    return { nodes: nodes.map(toEpicNode), edges }
+  }
+
+  // Expanded epics' children go inside the group
+  const childNodes: Node[] = []
+  for (const node of nodes) {
+    const epicId = epicOf.get(node.id)
+    if (epicId && !collapsedIds.has(epicId)) {
+      childNodes.push({ ...node, parentId: epicId, extent: 'parent' })
+    }
+  }
+
+  // Children of collapsed epics are hidden behind the epic
+  const shownAs = (id: string): string => {
+    const epicId = epicOf.get(id)
+    return epicId && collapsedIds.has(epicId) ? epicId : id
+  }
+
+  const shownEdges: Edge[] = []
+  const shownEdgeIds = new Set<string>()
+  for (const edge of edges) {
+    if (isParentChildEdge(edge) && epicOf.get(edge.target) === edge.source) {
+      continue
+    }
+    const source = shownAs(edge.source)
+    const target = shownAs(edge.target)
+    if (source === target) continue
+    const rerouted = source !== edge.source || target !== edge.target
+    const shown: Edge = rerouted
+      ? {
+          ...edge,
+          id: `${source}-${target}`,
+          source,
+          target,
+          // Stands in for dependencies of hidden issues, so can't be deleted
+          deletable: false,
+        }
+      : edge
+    if (shownEdgeIds.has(shown.id)) continue
+    shownEdgeIds.add(shown.id)
+    shownEdges.push(shown)
+  }
+
+  return {
+    nodes: [
+      ...nodes.filter(node => !epicOf.has(node.id)).map(toEpicNode),
+      ...childNodes,
+    ],
+    edges: shownEdges,
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test'
+import type { Node } from '@xyflow/react'
+import { focusGraph, parseIssueFocus, writeIssueFocus } from './focusGraph'
+import { blocks, createNode } from './testFixtures'
+
+const ids = (graph: { nodes: Node[] }) => graph.nodes.map(node => node.id)
+
+describe('parseIssueFocus', () => {
+  it('returns null without a focused issue', () => {
+    expect(parseIssueFocus(new URLSearchParams('depth=2'))).toBeNull()
+  })
+
+  it('reads the issue and depth', () => {
+    expect(parseIssueFocus(new URLSearchParams('focus=a&depth=2'))).toEqual({
+      issueId: 'a',
+      depth: 2,
+    })
+  })
+
+  it('follows every link for a missing or invalid depth', () => {
+    expect(parseIssueFocus(new URLSearchParams('focus=a'))?.depth).toBeNull()
+    expect(
+      parseIssueFocus(new URLSearchParams('focus=a&depth=-1'))?.depth
+    ).toBeNull()
+    expect(
+      parseIssueFocus(new URLSearchParams('focus=a&depth=all'))?.depth
+    ).toBeNull()
+  })
+})
+
+describe('writeIssueFocus', () => {
+  it('round-trips through parseIssueFocus', () => {
+    const focus = { issueId: 'a', depth: 3 }
+
+    expect(
+      parseIssueFocus(writeIssueFocus(new URLSearchParams(), focus))
+    ).toEqual(focus)
+  })
+
+  it('clears the focus and keeps unrelated params', () => {
+    const next = writeIssueFocus(
+      new URLSearchParams('focus=a&depth=2&status=open'),
+      null
+    )
+
+    expect(next.toString()).toBe('status=open')
+  })
+})
+
+describe('focusGraph', () => {
+  // a -> b -> c -> d -> e, with x off to the side
+  const nodes = ['a', 'b', 'c', 'd', 'e', 'x'].map(id => createNode(id))
+  const edges = [
+    blocks('a', 'b'),
+    blocks('b', 'c'),
+    blocks('c', 'd'),
+    blocks('d', 'e'),
+    blocks('x', 'e'),
+  ]
+
+  it('keeps all transitive blockers and dependents', () => {
+    const focused = focusGraph(nodes, edges, { issueId: 'c', depth: null })
+
+    expect(ids(focused)).toEqual(['a', 'b', 'c', 'd', 'e'])
+    expect(focused.edges).toHaveLength(4)
+  })
+
+  it('stops at the focus depth', () => {
+    const focused = focusGraph(nodes, edges, { issueId: 'c', depth: 1 })
+
+    expect(ids(focused)).toEqual(['b', 'c', 'd'])
+    expect(focused.edges.map(edge => edge.id)).toEqual([
+      edges[1].id,
+      edges[2].id,
+    ])
+  })
+
+  it('does not follow non-blocking links', () => {
+    const focused = focusGraph(
+      nodes,
+      [blocks('a', 'b'), blocks('b', 'c', 'related')],
+      { issueId: 'b', depth: null }
+    )
+
+    expect(ids(focused)).toEqual(['a', 'b'])
+  })
+
+  it('keeps edges between focused issues even when not followed', () => {
+    const focused = focusGraph(
+      nodes,
+      [blocks('a', 'b'), blocks('b', 'c'), blocks('a', 'c', 'related')],
+      { issueId: 'b', depth: null }
+    )
+
+    expect(focused.edges).toHaveLength(3)
+  })
+
+  it('leaves the graph alone when the issue is missing', () => {
+    const focused = focusGraph(nodes, edges, { issueId: 'gone', depth: 1 })
+
+    expect(focused.nodes).toBe(nodes)
+    expect(focused.edges).toBe(edges)
+  })
+
+  it('survives cycles', () => {
+    const focused = focusGraph(nodes, [blocks('a', 'b'), blocks('b', 'a')], {
+      issueId: 'a',
+      depth: null,
+    })
+
+    expect(ids(focused)).toEqual(['a', 'b'])
+  })
+})
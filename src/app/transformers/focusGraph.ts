@@ -0,0 +1,114 @@
+import type { Edge, Node } from '@xyflow/react'
+import { isBlockingEdge } from './dependencyToEdge'
+
+/**
+ * An issue the DAG view is narrowed to, with what blocks it and what it
+ * unblocks
+ */
+export interface IssueFocus {
+  issueId: string
+  /** How many links to follow each way, or null to follow them all */
+  depth: number | null
+}
+
+export const FOCUS_DEPTHS = [1, 2, 3]
+
+// URL search param names
+const PARAMS = {
+  issueId: 'focus',
+  depth: 'depth',
+} as const
+
+/**
+ * Read the focus from URL search params. An invalid depth follows every link.
+ */
+export function parseIssueFocus(params: URLSearchParams): IssueFocus | null {
+  const issueId = params.get(PARAMS.issueId)
+  if (!issueId) {
+    return null
+  }
+  const depth = Number(params.get(PARAMS.depth))
+  return {
+    issueId,
+    depth: Number.isInteger(depth) && depth > 0 ? depth : null,
+  }
+}
+
+/**
+ * Write the focus into a copy of the URL search params, or clear it when
+ * focus is null
+ */
+export function writeIssueFocus(
+  params: URLSearchParams,
+  focus: IssueFocus | null
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  if (focus) {
+    next.set(PARAMS.issueId, focus.issueId)
+  } else {
+    next.delete(PARAMS.issueId)
+  }
+  if (focus?.depth) {
+    next.set(PARAMS.depth, String(focus.depth))
+  } else {
+    next.delete(PARAMS.depth)
+  }
+  return next
+}
+
+/**
+ * Keep the focused issue, its transitive blockers and the issues it
+ * transitively blocks up to the focus depth, and the edges between them.
+ * Only blocking edges are followed. If the issue isn't in the graph the
+ * graph is returned unchanged.
+ */
+export function focusGraph<T extends Node>(
+  nodes: T[],
+  edges: Edge[],
+  focus: IssueFocus
+): { nodes: T[]; edges: Edge[] } {
+  if (!nodes.some(node => node.id === focus.issueId)) {
+    return { nodes, edges }
+  }
+
+  const blockers = new Map<string, string[]>()
+  const blocked = new Map<string, string[]>()
+  for (const edge of edges) {
+    if (!isBlockingEdge(edge)) continue
+    blockers.set(edge.target, [
+      ...(blockers.get(edge.target) ?? []),
+      edge.source,
+    ])
+    blocked.set(edge.source, [...(blocked.get(edge.source) ?? []), edge.target])
+  }
+
+  const focusedIds = new Set([focus.issueId])
+  // Walk each direction breadth-first, one level of links at a time
+  for (const links of [blockers, blocked]) {
+    const seen = new Set([focus.issueId])
+    let level = [focus.issueId]
+    for (
+      let depth = 0;
+      level.length > 0 && (focus.depth === null || depth < focus.depth);
+      depth++
+    ) {
+      const nextLevel: string[] = []
+      for (const id of level) {
+        for (const linkedId of links.get(id) ?? []) {
+          if (seen.has(linkedId)) continue
+          seen.add(linkedId)
+          focusedIds.add(linkedId)
+          nextLevel.push(linkedId)
+        }
+      }
+      level = nextLevel
+    }
+  }
+
+  return {
+    nodes: nodes.filter(node => focusedIds.has(node.id)),
+    edges: edges.filter(
+      edge => focusedIds.has(edge.source) && focusedIds.has(edge.target)
+    ),
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'bun:test'
+import type { Edge, Node } from '@xyflow/react'
+import type { IssueNodeData } from '../components/IssueNode'
+import { dependencyToEdge } from './dependencyToEdge'
+import { applyGraphChanges } from './graphChanges'
+import { type BdIssue, issueToNode } from './issueToNode'
+
+const createMockIssue = (overrides: Partial<BdIssue> = {}): BdIssue => ({
+  id: 'issue-1',
+  title: 'Test Issue',
+  status: 'open',
+  priority: 2,
+  type: 'task',
+  created_at: '2026-01-14T00:00:00Z',
+  updated_at: '2026-01-14T00:00:00Z',
+  dependency_count: 0,
+  dependent_count: 0,
+  ...overrides,
+})
+
+function createGraph(): { nodes: Node<IssueNodeData>[]; edges: Edge[] } {
+  return {
+    nodes: [
+      issueToNode(createMockIssue({ id: 'a', title: 'A' }), { x: 0, y: 0 }),
+      issueToNode(createMockIssue({ id: 'b', title: 'B' }), { x: 500, y: 0 }),
+    ],
+    edges: [
+      dependencyToEdge({ issue_id: 'b', depends_on_id: 'a', type: 'blocks' }),
+    ],
+  }
+}
+
+describe('applyGraphChanges', () => {
+  it('updates node data without moving the node', () => {
+    const { nodes, edges } = createGraph()
+    const onSelect = () => {}
+    nodes[0] = { ...nodes[0], data: { ...nodes[0].data, onSelect } }
+
+    const result = applyGraphChanges(nodes, edges, [
+      {
+        type: 'issueClosed',
+        issue: createMockIssue({ id: 'a', title: 'A', status: 'closed' }),
+      },
+    ])
+
+    expect(result.nodes[0].position).toEqual({ x: 0, y: 0 })
+    expect(result.nodes[0].data.status).toBe('closed')
+    expect(result.nodes[0].data.onSelect).toBe(onSelect)
+  })
+
+  it('places a created issue one rank after its blocker', () => {
+    const { nodes, edges } = createGraph()
+
+    const result = applyGraphChanges(nodes, edges, [
+      { type: 'issueCreated', issue: createMockIssue({ id: 'c' }) },
+      {
+        type: 'dependencyAdded',
+        dependency: { issue_id: 'c', depends_on_id: 'b', type: 'blocks' },
+      },
+    ])
+
+    const created = result.nodes.find(node => node.id === 'c')
+    expect(created?.position).toEqual({ x: 1000, y: 0 })
+    expect(result.edges.map(edge => edge.id)).toContain('b-c')
+    expect(result.nodes.slice(0, 2).map(node => node.position)).toEqual([
+      { x: 0, y: 0 },
+      { x: 500, y: 0 },
+    ])
+  })
+
+  it('places unconnected issues below the graph without overlapping', () => {
+    const { nodes, edges } = createGraph()
+
+    const result = applyGraphChanges(nodes, edges, [
+      { type: 'issueCreated', issue: createMockIssue({ id: 'c' }) },
+      { type: 'issueCreated', issue: createMockIssue({ id: 'd' }) },
+    ])
+
+    const positions = result.nodes
+      .filter(node => node.id === 'c' || node.id === 'd')
+      .map(node => node.position)
+    expect(positions).toEqual([
+      { x: 0, y: 100 },
+      { x: 0, y: 200 },
+    ])
+  })
+
+  it('removes issues along with their edges', () => {
+    const { nodes, edges } = createGraph()
+
+    const result = applyGraphChanges(nodes, edges, [
+      { type: 'issueRemoved', issueId: 'a' },
+    ])
+
+    expect(result.nodes.map(node => node.id)).toEqual(['b'])
+    expect(result.edges).toEqual([])
+  })
+
+  it('removes dependencies', () => {
+    const { nodes, edges } = createGraph()
+
+    const result = applyGraphChanges(nodes, edges, [
+      {
+        type: 'dependencyRemoved',
+        dependency: { issue_id: 'b', depends_on_id: 'a', type: 'blocks' },
+      },
+    ])
+
+    expect(result.edges).toEqual([])
+  })
+
+  it('ignores changes already reflected in the graph', () => {
+    const { nodes, edges } = createGraph()
+
+    const result = applyGraphChanges(nodes, edges, [
+      {
+        type: 'dependencyAdded',
+        dependency: { issue_id: 'b', depends_on_id: 'a', type: 'blocks' },
+      },
+      { type: 'issueCreated', issue: createMockIssue({ id: 'a', title: 'A' }) },
+    ])
+
+    expect(result.edges).toHaveLength(1)
+    expect(result.nodes).toHaveLength(2)
+    expect(result.nodes[0].position).toEqual({ x: 0, y: 0 })
+  })
+})
@@ -0,0 +1,166 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { IssueNodeData } from '../components/IssueNode'
+import { dagLog } from '../utils/dagLogger'
+import type { DagLayoutOptions } from './dagLayout'
+import { type BdDependency, dependencyToEdge } from './dependencyToEdge'
+import { type BdIssue, issueToNode } from './issueToNode'
+
+/**
+ * A change pushed by the /api/graph/events stream
+ */
+export type GraphChange =
+  | { type: 'issueCreated'; issue: BdIssue }
+  | { type: 'issueUpdated'; issue: BdIssue }
+  | { type: 'issueClosed'; issue: BdIssue }
+  | { type: 'issueRemoved'; issueId: string }
+  | { type: 'dependencyAdded'; dependency: BdDependency }
+  | { type: 'dependencyRemoved'; dependency: BdDependency }
+
+// Match the node size and spacing used by applyDagLayout
+const NODE_WIDTH = 300
+const NODE_HEIGHT = 80
+const RANK_SPACING = 200
+const NODE_SPACING = 20
+
+function overlaps(position: { x: number; y: number }, node: Node): boolean {
+  return (
+    Math.abs(node.position.x - position.x) < NODE_WIDTH &&
+    Math.abs(node.position.y - position.y) < NODE_HEIGHT + NODE_SPACING
+  )
+}
+
+/**
+ * Pick a position for a new node without moving any existing ones:
+ * one rank after its furthest blocker, or after everything if it has no
+ * blockers, then along the rank until it doesn't overlap another node.
+ * Left to right, ranks run rightwards and nodes stack downwards; top to
+ * bottom, the other way round.
+ */
+function placeNode(
+  id: string,
+  nodes: Node[],
+  edges: Edge[],
+  direction: DagLayoutOptions['direction'] = 'LR'
+) {
+  // Lay out as if left to right, swapping axes for top to bottom
+  const swap = (p: { x: number; y: number }) =>
+    direction === 'TB' ? { x: p.y, y: p.x } : p
+  const rankSize = direction === 'TB' ? NODE_HEIGHT : NODE_WIDTH
+  const stackSize = direction === 'TB' ? NODE_WIDTH : NODE_HEIGHT
+
+  const nodeById = new Map(nodes.map(node => [node.id, node]))
+  const blockers = edges
+    .filter(edge => edge.target === id)
+    .map(edge => nodeById.get(edge.source))
+    .filter((node): node is Node => node !== undefined)
+    .map(node => swap(node.position))
+  const placed = nodes.map(node => swap(node.position))
+
+  let position: { x: number; y: number }
+  if (blockers.length > 0) {
+    const furthest = blockers.reduce((a, b) => (b.x > a.x ? b : a))
+    position = { x: furthest.x + rankSize + RANK_SPACING, y: furthest.y }
+  } else if (placed.length > 0) {
+    position = {
+      x: Math.min(...placed.map(p => p.x)),
+      y: Math.max(...placed.map(p => p.y)) + stackSize + NODE_SPACING,
+    }
+  } else {
+    position = { x: 0, y: 0 }
+  }
+
+  while (nodes.some(node => overlaps(swap(position), node))) {
+    position = { ...position, y: position.y + stackSize + NODE_SPACING }
+  }
+  return swap(position)
+}
+
+/**
+ * Place new nodes among ones already laid out, in the given order, so each
+ * can go next to blockers placed before it. Other nodes keep their positions.
+ */
+export function placeNodes<T extends Node>(
+  nodes: T[],
+  edges: Edge[],
+  newIds: string[],
+  direction: DagLayoutOptions['direction'] = 'LR'
+): T[] {
+  let placedNodes = nodes
+  const unplaced = new Set(newIds)
+  for (const id of newIds) {
+    const placed = placedNodes.filter(node => !unplaced.has(node.id))
+    const position = placeNode(id, placed, edges, direction)
+    placedNodes = placedNodes.map(node =>
+      node.id === id ? { ...node, position } : node
+    )
+    unplaced.delete(id)
+  }
+  return placedNodes
+}
+
+/**
+ * Apply graph changes to React Flow nodes and edges.
+ * Existing nodes keep their positions and any extra data (e.g. callbacks);
+ * new nodes are placed next to their blockers instead of re-running the
+ * layout. Changes already reflected in the graph are ignored.
+ */
+export function applyGraphChanges(
+  nodes: Node<IssueNodeData>[],
+  edges: Edge[],
+  changes: GraphChange[]
+): { nodes: Node<IssueNodeData>[]; edges: Edge[] } {
+  dagLog(`Applying ${changes.length} graph changes`, changes)
+
+  let nextNodes = [...nodes]
+  let nextEdges = [...edges]
+  const createdIds: string[] = []
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'issueCreated':
+      case 'issueUpdated':
+      case 'issueClosed': {
+        const index = nextNodes.findIndex(node => node.id === change.issue.id)
+        if (index === -1) {
+          createdIds.push(change.issue.id)
+          nextNodes.push(issueToNode(change.issue, { x: 0, y: 0 }))
+        } else {
+          const existing = nextNodes[index]
+          nextNodes[index] = {
+            ...existing,
+            data: {
+              ...existing.data,
+              ...issueToNode(change.issue, existing.position).data,
+            },
+          }
+        }
+        break
+      }
+      case 'issueRemoved':
+        nextNodes = nextNodes.filter(node => node.id !== change.issueId)
+        nextEdges = nextEdges.filter(
+          edge =>
+            edge.source !== change.issueId && edge.target !== change.issueId
+        )
+        break
+      case 'dependencyAdded': {
+        const edge = dependencyToEdge(change.dependency)
+        if (!nextEdges.some(existing => existing.id === edge.id)) {
+          nextEdges.push(edge)
+        }
+        break
+      }
+      case 'dependencyRemoved': {
+        const edgeId = dependencyToEdge(change.dependency).id
+        nextEdges = nextEdges.filter(edge => edge.id !== edgeId)
+        break
+      }
+    }
+  }
+
+  // Place new nodes once their edges are known, in the order they arrived
+  return {
+    nodes: placeNodes(nextNodes, nextEdges, createdIds),
+    edges: nextEdges,
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'bun:test'
+import type { Node } from '@xyflow/react'
+import { layoutGraph } from './graphLayout'
+import { dagreLayoutEngine } from './layoutEngines'
+import {
+  createEdge,
+  createNode,
+  expectGroupsBeforeChildren,
+  findNode,
+} from './testFixtures'
+
+const childNode = (id: string, parentId: string): Node =>
+  createNode(id, { parentId, extent: 'parent' })
+
+const engine = dagreLayoutEngine
+
+describe('layoutGraph', () => {
+  it('lays out a flat graph with the engine', async () => {
+    const nodes = await layoutGraph(
+      [createNode('a'), createNode('b')],
+      [createEdge('a', 'b')],
+      { engine }
+    )
+
+    expect(findNode(nodes, 'b').position.x).toBeGreaterThan(
+      findNode(nodes, 'a').position.x
+    )
+  })
+
+  it('sizes groups around their children', async () => {
+    const nodes = await layoutGraph(
+      [
+        createNode('epic'),
+        childNode('child-1', 'epic'),
+        childNode('child-2', 'epic'),
+        createNode('other'),
+      ],
+      [createEdge('child-1', 'child-2'), createEdge('child-2', 'other')],
+      { engine }
+    )
+
+    const epic = findNode(nodes, 'epic')
+    const child2 = findNode(nodes, 'child-2')
+    // Child positions are relative to the group and fit inside it
+    expect(findNode(nodes, 'child-1').position).toEqual({ x: 24, y: 72 })
+    expect(child2.position.x + 400).toBeLessThan(epic.width ?? 0)
+    // The edge out of the group places the group before its target
+    expect(findNode(nodes, 'other').position.x).toBeGreaterThanOrEqual(
+      epic.position.x + (epic.width ?? 0)
+    )
+    expectGroupsBeforeChildren(nodes)
+  })
+
+  it('lays out top to bottom', async () => {
+    const nodes = await layoutGraph(
+      [createNode('a'), createNode('b')],
+      [createEdge('a', 'b')],
+      { engine, direction: 'TB' }
+    )
+
+    expect(findNode(nodes, 'b').position.y).toBeGreaterThan(
+      findNode(nodes, 'a').position.y
+    )
+  })
+
+  describe('incrementally', () => {
+    const previous: Node[] = [
+      { ...createNode('a'), position: { x: 1000, y: 1000 } },
+      { ...createNode('b'), position: { x: -500, y: 40 } },
+    ]
+
+    it('keeps existing positions', async () => {
+      const nodes = await layoutGraph(
+        [createNode('a'), createNode('b')],
+        [createEdge('a', 'b')],
+        { engine, previous }
+      )
+
+      expect(nodes.map(node => node.position)).toEqual([
+        { x: 1000, y: 1000 },
+        { x: -500, y: 40 },
+      ])
+    })
+
+    it('places only new nodes, next to their blockers', async () => {
+      const nodes = await layoutGraph(
+        [createNode('a'), createNode('b'), createNode('c')],
+        [createEdge('a', 'b'), createEdge('a', 'c')],
+        { engine, previous }
+      )
+
+      expect(findNode(nodes, 'a').position).toEqual({ x: 1000, y: 1000 })
+      expect(findNode(nodes, 'b').position).toEqual({ x: -500, y: 40 })
+      expect(findNode(nodes, 'c').position).toEqual({ x: 1500, y: 1000 })
+    })
+
+    it('places new nodes below their blockers top to bottom', async () => {
+      const nodes = await layoutGraph(
+        [createNode('a'), createNode('c')],
+        [createEdge('a', 'c')],
+        { engine, direction: 'TB', previous }
+      )
+
+      expect(findNode(nodes, 'c').position).toEqual({ x: 1000, y: 1280 })
+    })
+
+    it('lays out afresh when nothing was laid out before', async () => {
+      const nodes = await layoutGraph(
+        [createNode('c'), createNode('d')],
+        [createEdge('c', 'd')],
+        { engine, previous }
+      )
+
+      expect(findNode(nodes, 'd').position.x).toBeGreaterThan(
+        findNode(nodes, 'c').position.x
+      )
+    })
+
+    it('treats a node that moved into a group as new', async () => {
+      const nodes = await layoutGraph(
+        [createNode('epic'), childNode('a', 'epic')],
+        [],
+        { engine, previous }
+      )
+
+      expect(findNode(nodes, 'a').position).toEqual({ x: 24, y: 72 })
+    })
+  })
+})
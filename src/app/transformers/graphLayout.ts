@@ -0,0 +1,135 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { DagLayoutOptions } from './dagLayout'
+import { placeNodes } from './graphChanges'
+import type { LayoutDirection, LayoutEngine } from './layoutEngines'
+
+// Children are laid out at the size IssueNode renders at, so they fit the group
+const CHILD_WIDTH = 400
+const CHILD_HEIGHT = 80
+// Space around the children, with room for the group's header at the top
+const GROUP_PADDING = 24
+const GROUP_HEADER_HEIGHT = 72
+
+export interface GraphLayoutOptions {
+  engine: LayoutEngine
+  direction?: LayoutDirection
+  /**
+   * Nodes from the last layout, for an incremental layout: nodes still in
+   * the graph keep their positions and only new ones are placed
+   */
+  previous?: Node[]
+}
+
+/**
+ * Lay out a graph whose nodes may be grouped under a parent (see
+ * groupEpics). Each group's children are laid out on their own to size the
+ * group, then the top level is laid out with each group as one node, with
+ * edges into a group drawn to the group itself.
+ * @returns Nodes with positions, child positions relative to their group,
+ *   and sizes set on groups
+ */
+export async function layoutGraph(
+  nodes: Node[],
+  edges: Edge[],
+  { engine, direction = 'LR', previous }: GraphLayoutOptions
+): Promise<Node[]> {
+  const previousById = new Map(previous?.map(node => [node.id, node]))
+
+  // Lay out one level of the graph, keeping previous positions of nodes
+  // still at that level when incremental
+  const arrange = async (
+    level: Node[],
+    levelEdges: Edge[],
+    sizes: DagLayoutOptions = {}
+  ): Promise<Node[]> => {
+    const kept = level.filter(node => {
+      const before = previousById.get(node.id)
+      return before !== undefined && before.parentId === node.parentId
+    })
+    if (kept.length === 0) {
+      return engine.layout(level, levelEdges, { direction, ...sizes })
+    }
+    const keptPositions = new Map(
+      kept.map(node => [node.id, previousById.get(node.id)?.position])
+    )
+    return placeNodes(
+      level.map(node => {
+        const position = keptPositions.get(node.id)
+        return position ? { ...node, position } : node
+      }),
+      levelEdges,
+      level.filter(node => !keptPositions.has(node.id)).map(node => node.id),
+      direction
+    )
+  }
+
+  const childrenByGroup = new Map<string, Node[]>()
+  for (const node of nodes) {
+    if (node.parentId) {
+      childrenByGroup.set(node.parentId, [
+        ...(childrenByGroup.get(node.parentId) ?? []),
+        node,
+      ])
+    }
+  }
+
+  const groupSizes = new Map<string, { width: number; height: number }>()
+  const childNodes: Node[] = []
+  for (const [groupId, children] of childrenByGroup) {
+    const childIds = new Set(children.map(child => child.id))
+    const laidOut = await arrange(
+      children,
+      edges.filter(
+        edge => childIds.has(edge.source) && childIds.has(edge.target)
+      ),
+      { nodeWidth: CHILD_WIDTH, nodeHeight: CHILD_HEIGHT }
+    )
+    // Shift the children into the group below its header
+    const minX = Math.min(...laidOut.map(child => child.position.x))
+    const minY = Math.min(...laidOut.map(child => child.position.y))
+    const placed = laidOut.map(child => ({
+      ...child,
+      position: {
+        x: child.position.x - minX + GROUP_PADDING,
+        y: child.position.y - minY + GROUP_HEADER_HEIGHT,
+      },
+    }))
+    groupSizes.set(groupId, {
+      width:
+        Math.max(...placed.map(child => child.position.x)) +
+        CHILD_WIDTH +
+        GROUP_PADDING,
+      height:
+        Math.max(...placed.map(child => child.position.y)) +
+        CHILD_HEIGHT +
+        GROUP_PADDING,
+    })
+    childNodes.push(...placed)
+  }
+
+  // Lay out the top level with each group as one node of its size
+  const groupOf = new Map(
+    childNodes.map(child => [child.id, child.parentId as string])
+  )
+  const topLevel = nodes
+    .filter(node => !node.parentId)
+    .map(node => ({ ...node, ...groupSizes.get(node.id) }))
+  const topLevelEdges = new Map<string, Edge>()
+  for (const edge of edges) {
+    const source = groupOf.get(edge.source) ?? edge.source
+    const target = groupOf.get(edge.target) ?? edge.target
+    if (source !== target) {
+      topLevelEdges.set(`${source}-${target}`, {
+        ...edge,
+        id: `${source}-${target}`,
+        source,
+        target,
+      })
+    }
+  }
+
+  return [
+    ...(await arrange(topLevel, [...topLevelEdges.values()])),
+    ...childNodes,
+  ]
+}
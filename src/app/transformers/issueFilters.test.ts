@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'bun:test'
+import type { IssueNodeData } from '../components/IssueNode'
+import { dependencyToEdge } from './dependencyToEdge'
+import {
+  EMPTY_FILTERS,
+  filterGraph,
+  hasActiveFilters,
+  matchesIssueFilters,
+  parseIssueFilters,
+  writeIssueFilters,
+} from './issueFilters'
+import { issueToNode } from './issueToNode'
+
+const createIssueData = (
+  overrides: Partial<IssueNodeData> = {}
+): IssueNodeData => ({
+  issueId: 'bead-abc',
+  title: 'Fix login redirect',
+  description: 'Users land on a blank page',
+  status: 'open',
+  type: 'bug',
+  priority: 'P1',
+  assignee: 'alice',
+  labels: ['auth'],
+  ...overrides,
+})
+
+describe('parseIssueFilters', () => {
+  it('returns empty filters for empty params', () => {
+    expect(parseIssueFilters(new URLSearchParams())).toEqual(EMPTY_FILTERS)
+  })
+
+  it('reads every filter from the URL', () => {
+    const params = new URLSearchParams(
+      'q=login&status=in_progress&type=bug&priority=P0&assignee=bob&label=ux&hideClosed=true'
+    )
+
+    expect(parseIssueFilters(params)).toEqual({
+      query: 'login',
+      status: 'in_progress',
+      type: 'bug',
+      priority: 'P0',
+      assignee: 'bob',
+      label: 'ux',
+      hideClosed: true,
+    })
+  })
+
+  it('ignores invalid values', () => {
+    const params = new URLSearchParams('status=done&type=story&priority=P9')
+
+    expect(parseIssueFilters(params)).toEqual(EMPTY_FILTERS)
+  })
+})
+
+describe('writeIssueFilters', () => {
+  it('round-trips through parseIssueFilters', () => {
+    const filters = {
+      ...EMPTY_FILTERS,
+      query: 'login',
+      priority: 'P2' as const,
+      hideClosed: true,
+    }
+
+    const params = writeIssueFilters(new URLSearchParams(), filters)
+
+    expect(parseIssueFilters(params)).toEqual(filters)
+  })
+
+  it('removes cleared filters and keeps unrelated params', () => {
+    const params = new URLSearchParams('path=/repo&status=open&q=login')
+
+    const next = writeIssueFilters(params, EMPTY_FILTERS)
+
+    expect(next.toString()).toBe('path=%2Frepo')
+  })
+})
+
+describe('hasActiveFilters', () => {
+  it('is false for empty filters and whitespace-only queries', () => {
+    expect(hasActiveFilters(EMPTY_FILTERS)).toBe(false)
+    expect(hasActiveFilters({ ...EMPTY_FILTERS, query: '  ' })).toBe(false)
+  })
+
+  it('is true when any filter is set', () => {
+    expect(hasActiveFilters({ ...EMPTY_FILTERS, hideClosed: true })).toBe(true)
+    expect(hasActiveFilters({ ...EMPTY_FILTERS, label: 'auth' })).toBe(true)
+  })
+})
+
+describe('matchesIssueFilters', () => {
+  it('matches everything with empty filters', () => {
+    expect(matchesIssueFilters(createIssueData(), EMPTY_FILTERS)).toBe(true)
+  })
+
+  it('searches title, description and ID case-insensitively', () => {
+    const issue = createIssueData()
+
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, query: 'LOGIN' })
+    ).toBe(true)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, query: 'blank page' })
+    ).toBe(true)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, query: 'bead-ab' })
+    ).toBe(true)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, query: 'payment' })
+    ).toBe(false)
+  })
+
+  it('filters by status, type, priority, assignee and label', () => {
+    const issue = createIssueData()
+
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, status: 'closed' })
+    ).toBe(false)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, type: 'feature' })
+    ).toBe(false)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, priority: 'P1' })
+    ).toBe(true)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, assignee: 'bob' })
+    ).toBe(false)
+    expect(
+      matchesIssueFilters(issue, { ...EMPTY_FILTERS, label: 'auth' })
+    ).toBe(true)
+  })
+
+  it('hides closed issues', () => {
+    const closed = createIssueData({ status: 'closed' })
+
+    expect(
+      matchesIssueFilters(closed, { ...EMPTY_FILTERS, hideClosed: true })
+    ).toBe(false)
+  })
+})
+
+describe('filterGraph', () => {
+  it('keeps only edges between visible nodes', () => {
+    const nodes = [
+      issueToNode(
+        {
+          id: 'a',
+          title: 'Closed blocker',
+          status: 'closed',
+          priority: 2,
+          created_at: '',
+          updated_at: '',
+          dependency_count: 0,
+          dependent_count: 1,
+        },
+        { x: 0, y: 0 }
+      ),
+      issueToNode(
+        {
+          id: 'b',
+          title: 'Open task',
+          status: 'open',
+          priority: 2,
+          created_at: '',
+          updated_at: '',
+          dependency_count: 1,
+          dependent_count: 0,
+        },
+        { x: 0, y: 0 }
+      ),
+    ]
+    const edges = [
+      dependencyToEdge({ issue_id: 'b', depends_on_id: 'a', type: 'blocks' }),
+    ]
+
+    const result = filterGraph(nodes, edges, {
+      ...EMPTY_FILTERS,
+      hideClosed: true,
+    })
+
+    expect(result.nodes.map(node => node.id)).toEqual(['b'])
+    expect(result.edges).toEqual([])
+  })
+})
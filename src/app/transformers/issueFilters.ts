@@ -0,0 +1,156 @@
+import type { Edge, Node } from '@xyflow/react'
+import type {
+  IssueNodeData,
+  IssuePriority,
+  IssueStatus,
+  IssueType,
+} from '../components/IssueNode'
+
+/**
+ * Filters applied to the issues shown in the DAG view.
+ * null means "any" for the single-value filters.
+ */
+export interface IssueFilters {
+  /** Case-insensitive search over title, description and ID */
+  query: string
+  status: IssueStatus | null
+  type: IssueType | null
+  priority: IssuePriority | null
+  assignee: string | null
+  label: string | null
+  hideClosed: boolean
+}
+
+export const EMPTY_FILTERS: IssueFilters = {
+  query: '',
+  status: null,
+  type: null,
+  priority: null,
+  assignee: null,
+  label: null,
+  hideClosed: false,
+}
+
+const STATUSES: IssueStatus[] = ['open', 'in_progress', 'closed']
+const TYPES: IssueType[] = ['task', 'bug', 'feature', 'epic']
+const PRIORITIES: IssuePriority[] = ['P0', 'P1', 'P2', 'P3']
+
+// URL search param names for each filter
+const PARAMS = {
+  query: 'q',
+  status: 'status',
+  type: 'type',
+  priority: 'priority',
+  assignee: 'assignee',
+  label: 'label',
+  hideClosed: 'hideClosed',
+} as const
+
+function oneOf<T extends string>(value: string | null, allowed: T[]): T | null {
+  return allowed.includes(value as T) ? (value as T) : null
+}
+
+/**
+ * Read filters from URL search params, ignoring invalid values
+ */
+export function parseIssueFilters(params: URLSearchParams): IssueFilters {
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    status: oneOf(params.get(PARAMS.status), STATUSES),
+    type: oneOf(params.get(PARAMS.type), TYPES),
+    priority: oneOf(params.get(PARAMS.priority), PRIORITIES),
+    assignee: params.get(PARAMS.assignee) || null,
+    label: params.get(PARAMS.label) || null,
+    hideClosed: params.get(PARAMS.hideClosed) === 'true',
+  }
+}
+
+/**
+ * Write filters into a copy of the URL search params, leaving unrelated
+ * params (e.g. the local repository path) untouched
+ */
+export function writeIssueFilters(
+  params: URLSearchParams,
+  filters: IssueFilters
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const values: Record<keyof IssueFilters, string | null> = {
+    query: filters.query.trim() || null,
+    status: filters.status,
+    type: filters.type,
+    priority: filters.priority,
+    assignee: filters.assignee,
+    label: filters.label,
+    hideClosed: filters.hideClosed ? 'true' : null,
+  }
+
+  for (const key of Object.keys(PARAMS) as (keyof IssueFilters)[]) {
+    const value = values[key]
+    if (value) {
+      next.set(PARAMS[key], value)
+    } else {
+      next.delete(PARAMS[key])
+    }
+  }
+  return next
+}
+
+/**
+ * Check whether any filter narrows the view
+ */
+export function hasActiveFilters(filters: IssueFilters): boolean {
+  return (
+    filters.query.trim() !== '' ||
+    filters.status !== null ||
+    filters.type !== null ||
+    filters.priority !== null ||
+    filters.assignee !== null ||
+    filters.label !== null ||
+    filters.hideClosed
+  )
+}
+
+/**
+ * Check whether an issue passes all filters
+ */
+export function matchesIssueFilters(
+  issue: IssueNodeData,
+  filters: IssueFilters
+): boolean {
+  if (filters.hideClosed && issue.status === 'closed') return false
+  if (filters.status && issue.status !== filters.status) return false
+  if (filters.type && issue.type !== filters.type) return false
+  if (filters.priority && issue.priority !== filters.priority) return false
+  if (filters.assignee && issue.assignee !== filters.assignee) return false
+  if (filters.label && !(issue.labels ?? []).includes(filters.label)) {
+    return false
+  }
+
+  const query = filters.query.trim().toLowerCase()
+  if (query) {
+    const haystack = [issue.issueId, issue.title, issue.description ?? '']
+      .join('\n')
+      .toLowerCase()
+    if (!haystack.includes(query)) return false
+  }
+
+  return true
+}
+
+/**
+ * Keep only the nodes matching the filters and the edges between them
+ */
+export function filterGraph<T extends Node>(
+  nodes: T[],
+  edges: Edge[],
+  filters: IssueFilters
+): { nodes: T[]; edges: Edge[] } {
+  const visibleNodes = nodes.filter(node =>
+    matchesIssueFilters(node.data as IssueNodeData, filters)
+  )
+  const visibleIds = new Set(visibleNodes.map(node => node.id))
+  const visibleEdges = edges.filter(
+    edge => visibleIds.has(edge.source) && visibleIds.has(edge.target)
+  )
+  return { nodes: visibleNodes, edges: visibleEdges }
+}
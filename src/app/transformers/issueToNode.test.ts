@@ -35,6 +35,8 @@ describe('issueToNode', () => {
       status: 'open',
       type: 'task',
       priority: 'P2',
+      assignee: undefined,
+      labels: [],
     })
   })
 
@@ -84,6 +86,12 @@ describe('issueToNode', () => {
       y: 0,
     })
     expect(featureNode.data.type).toBe('feature')
+
+    const epicNode = issueToNode(createMockIssue({ type: 'epic' }), {
+      x: 0,
+      y: 0,
+    })
+    expect(epicNode.data.type).toBe('epic')
   })
 
   it('defaults unknown issue type to task', () => {
@@ -112,6 +120,27 @@ describe('issueToNode', () => {
     const node = issueToNode(createMockIssue({ priority: 99 }), { x: 0, y: 0 })
     expect(node.data.priority).toBe('P2')
   })
+
+  it('copies labels', () => {
+    const node = issueToNode(createMockIssue({ labels: ['frontend'] }), {
+      x: 0,
+      y: 0,
+    })
+    expect(node.data.labels).toEqual(['frontend'])
+  })
+
+  it('defaults missing labels to an empty list', () => {
+    const node = issueToNode(createMockIssue(), { x: 0, y: 0 })
+    expect(node.data.labels).toEqual([])
+  })
+
+  it('copies the close reason', () => {
+    const node = issueToNode(
+      createMockIssue({ status: 'closed', close_reason: 'Duplicate' }),
+      { x: 0, y: 0 }
+    )
+    expect(node.data.closeReason).toBe('Duplicate')
+  })
 })
 
 describe('issuesToNodes', () => {
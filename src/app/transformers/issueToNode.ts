@@ -19,6 +19,9 @@ export interface BdIssue {
   priority: number
   type?: string
   owner?: string
+  assignee?: string
+  labels?: string[]
+  close_reason?: string
   created_at: string
   created_by?: string
   updated_at: string
@@ -54,6 +57,8 @@ function mapType(issueType: string): IssueType {
       return 'bug'
     case 'feature':
       return 'feature'
+    case 'epic':
+      return 'epic'
     default:
       dagWarn(`Unknown issue type "${issueType}", defaulting to "task"`)
       return 'task'
@@ -131,6 +136,9 @@ export function issueToNode(
       status: mapStatus(issue.status),
       type: mapType(issue.type ?? 'task'),
       priority: mapPriority(issue.priority),
+      assignee: issue.assignee,
+      labels: issue.labels ?? [],
+      closeReason: issue.close_reason,
     },
   }
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test'
+import type { Node } from '@xyflow/react'
+import { LAYOUT_ENGINES } from './layoutEngines'
+import { createEdge, createNode, findNode } from './testFixtures'
+
+const positionOf = (nodes: Node[], id: string) => findNode(nodes, id).position
+
+describe.each(Object.values(LAYOUT_ENGINES))('$label layout engine', engine => {
+  it('returns an empty array for no nodes', async () => {
+    expect(await engine.layout([], [])).toEqual([])
+  })
+
+  it('places blocked issues after their blockers left to right', async () => {
+    const nodes = await engine.layout(
+      [createNode('a'), createNode('b')],
+      [createEdge('a', 'b')]
+    )
+
+    expect(positionOf(nodes, 'b').x).toBeGreaterThan(positionOf(nodes, 'a').x)
+  })
+
+  it('places blocked issues below their blockers top to bottom', async () => {
+    const nodes = await engine.layout(
+      [createNode('a'), createNode('b')],
+      [createEdge('a', 'b')],
+      { direction: 'TB' }
+    )
+
+    expect(positionOf(nodes, 'b').y).toBeGreaterThan(positionOf(nodes, 'a').y)
+  })
+
+  it('leaves room for nodes with their own size', async () => {
+    const nodes = await engine.layout(
+      [createNode('group', { width: 1000, height: 600 }), createNode('b')],
+      [createEdge('group', 'b')]
+    )
+
+    expect(positionOf(nodes, 'b').x).toBeGreaterThanOrEqual(
+      positionOf(nodes, 'group').x + 1000
+    )
+  })
+
+  it('ignores edges to missing nodes', async () => {
+    const nodes = await engine.layout(
+      [createNode('a')],
+      [createEdge('a', 'missing')]
+    )
+
+    expect(nodes.map(node => node.id)).toEqual(['a'])
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'bun:test'
+import type { Node } from '@xyflow/react'
+import { parseSwimlaneField, swimlaneLayout } from './swimlanes'
+import { blocks, findNode, issueNode } from './testFixtures'
+
+const laneLabels = (nodes: Node[]) =>
+  nodes.filter(node => node.type === 'swimlane').map(node => node.data.label)
+
+describe('parseSwimlaneField', () => {
+  it('reads a valid field and defaults to assignee', () => {
+    expect(parseSwimlaneField('label')).toBe('label')
+    expect(parseSwimlaneField('team')).toBe('assignee')
+    expect(parseSwimlaneField(null)).toBe('assignee')
+  })
+})
+
+describe('swimlaneLayout', () => {
+  const nodes = [
+    issueNode('a', { assignee: 'bob', status: 'closed', priority: 'P1' }),
+    issueNode('b', { assignee: 'alice', status: 'in_progress' }),
+    issueNode('c', { priority: 'P0', labels: ['ux', 'api'] }),
+  ]
+
+  it('puts issues in lanes by assignee, unassigned last', () => {
+    const { nodes: laidOut } = swimlaneLayout(nodes, [], 'assignee')
+
+    expect(laneLabels(laidOut)).toEqual(['alice', 'bob', 'Unassigned'])
+    expect(findNode(laidOut, 'lane:alice').data.count).toBe(1)
+  })
+
+  it('orders status and priority lanes by their meaning', () => {
+    expect(laneLabels(swimlaneLayout(nodes, [], 'status').nodes)).toEqual([
+      'In Progress',
+      'Open',
+      'Closed',
+    ])
+    expect(laneLabels(swimlaneLayout(nodes, [], 'priority').nodes)).toEqual([
+      'P0',
+      'P1',
+      'P2',
+    ])
+  })
+
+  it('puts issues with several labels in the first label lane', () => {
+    expect(laneLabels(swimlaneLayout(nodes, [], 'label').nodes)).toEqual([
+      'api',
+      'No label',
+    ])
+  })
+
+  it('places each lane below the last and each issue inside its lane', () => {
+    const { nodes: laidOut } = swimlaneLayout(nodes, [], 'assignee')
+
+    const alice = findNode(laidOut, 'lane:alice')
+    const bob = findNode(laidOut, 'lane:bob')
+    expect(bob.position.y).toBe(alice.position.y + (alice.height ?? 0))
+    const b = findNode(laidOut, 'b')
+    expect(b.position.y).toBeGreaterThan(alice.position.y)
+    expect(b.position.y).toBeLessThan(bob.position.y)
+    // Each lane comes before its issues, so it is drawn behind them
+    expect(laidOut.indexOf(alice)).toBeLessThan(laidOut.indexOf(b))
+  })
+
+  it('orders issues after their blockers, across lanes', () => {
+    const edges = [blocks('b', 'a'), blocks('a', 'c'), blocks('b', 'c')]
+    const laidOut = swimlaneLayout(nodes, edges, 'assignee')
+
+    const x = (id: string) => findNode(laidOut.nodes, id).position.x
+    expect(x('a')).toBeGreaterThan(x('b'))
+    expect(x('c')).toBeGreaterThan(x('a'))
+    expect(laidOut.edges).toBe(edges)
+  })
+
+  it('does not rank by non-blocking links', () => {
+    const laidOut = swimlaneLayout(
+      nodes,
+      [blocks('b', 'a', 'related')],
+      'status'
+    )
+
+    expect(findNode(laidOut.nodes, 'a').position.x).toBe(
+      findNode(laidOut.nodes, 'b').position.x
+    )
+  })
+
+  it('stacks issues of the same rank down their lane', () => {
+    const { nodes: laidOut } = swimlaneLayout(
+      [issueNode('x'), issueNode('y')],
+      [],
+      'assignee'
+    )
+
+    expect(findNode(laidOut, 'x').position.x).toBe(
+      findNode(laidOut, 'y').position.x
+    )
+    expect(findNode(laidOut, 'y').position.y).toBeGreaterThan(
+      findNode(laidOut, 'x').position.y
+    )
+  })
+
+  it('survives cycles', () => {
+    const laidOut = swimlaneLayout(
+      nodes,
+      [blocks('a', 'b'), blocks('b', 'a')],
+      'assignee'
+    )
+
+    expect(laidOut.nodes).toHaveLength(6)
+  })
+})
@@ -0,0 +1,192 @@
+import type { Edge, Node } from '@xyflow/react'
+import {
+  type IssueNodeData,
+  type IssuePriority,
+  type IssueStatus,
+  statusLabels,
+} from '../components/IssueNode'
+import { isBlockingEdge } from './dependencyToEdge'
+
+export type SwimlaneField = 'assignee' | 'status' | 'priority' | 'label'
+
+export const SWIMLANE_FIELDS: { value: SwimlaneField; label: string }[] = [
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'label', label: 'Label' },
+]
+
+export interface SwimlaneNodeData extends Record<string, unknown> {
+  label: string
+  count: number
+}
+
+// Issues are laid out at the size IssueNode renders at
+const ISSUE_WIDTH = 400
+const ISSUE_HEIGHT = 80
+const RANK_SPACING = 80
+const ISSUE_SPACING = 20
+// Room for the lane's name on its left, and around its issues
+const LANE_HEADER_WIDTH = 200
+const LANE_PADDING = 20
+
+const STATUS_ORDER: IssueStatus[] = ['in_progress', 'open', 'closed']
+const PRIORITY_ORDER: IssuePriority[] = ['P0', 'P1', 'P2', 'P3']
+
+// Lanes for issues without a value, which go last
+const NO_VALUE = ''
+const noValueLabels: Record<SwimlaneField, string> = {
+  assignee: 'Unassigned',
+  status: 'No status',
+  priority: 'No priority',
+  label: 'No label',
+}
+
+/**
+ * Read the URL param choosing the lanes, defaulting to assignee
+ */
+export function parseSwimlaneField(value: string | null): SwimlaneField {
+  return SWIMLANE_FIELDS.some(field => field.value === value)
+    ? (value as SwimlaneField)
+    : 'assignee'
+}
+
+/**
+ * The lane an issue goes in. An issue with several labels goes in the lane
+ * of the first alphabetically, since it can only be drawn once.
+ */
+function laneOf(issue: IssueNodeData, field: SwimlaneField): string {
+  switch (field) {
+    case 'assignee':
+      return issue.assignee ?? NO_VALUE
+    case 'status':
+      return issue.status
+    case 'priority':
+      return issue.priority
+    case 'label':
+      return [...(issue.labels ?? [])].sort()[0] ?? NO_VALUE
+  }
+}
+
+function compareLanes(field: SwimlaneField) {
+  return (a: string, b: string): number => {
+    if (a === NO_VALUE || b === NO_VALUE) {
+      return a === b ? 0 : a === NO_VALUE ? 1 : -1
+    }
+    if (field === 'status') {
+      return (
+        STATUS_ORDER.indexOf(a as IssueStatus) -
+        STATUS_ORDER.indexOf(b as IssueStatus)
+      )
+    }
+    if (field === 'priority') {
+      return (
+        PRIORITY_ORDER.indexOf(a as IssuePriority) -
+        PRIORITY_ORDER.indexOf(b as IssuePriority)
+      )
+    }
+    return a.localeCompare(b)
+  }
+}
+
+function laneLabel(lane: string, field: SwimlaneField): string {
+  if (lane === NO_VALUE) return noValueLabels[field]
+  return field === 'status' ? statusLabels[lane as IssueStatus] : lane
+}
+
+/**
+ * Rank each issue by the longest chain of blockers before it, so blocking
+ * edges point rightwards even between lanes. Issues caught in a cycle keep
+ * the rank they had reached.
+ */
+function rankIssues(nodes: Node[], edges: Edge[]): Map<string, number> {
+  const ids = new Set(nodes.map(node => node.id))
+  const blocking = edges.filter(
+    edge => isBlockingEdge(edge) && ids.has(edge.source) && ids.has(edge.target)
+  )
+  const rank = new Map(nodes.map(node => [node.id, 0]))
+  // At most one pass per node is needed to settle an acyclic graph
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false
+    for (const edge of blocking) {
+      const through = (rank.get(edge.source) ?? 0) + 1
+      if (through > (rank.get(edge.target) ?? 0)) {
+        rank.set(edge.target, through)
+        changed = true
+      }
+    }
+    if (!changed) break
+  }
+  return rank
+}
+
+/**
+ * Arrange issues into horizontal lanes by a field, ordered left to right by
+ * how many blockers stand before them. Each lane is a background node
+ * before the issues in it; edges are drawn as they are, across lanes.
+ */
+export function swimlaneLayout(
+  nodes: Node[],
+  edges: Edge[],
+  field: SwimlaneField
+): { nodes: Node[]; edges: Edge[] } {
+  const rank = rankIssues(nodes, edges)
+
+  const issuesByLane = new Map<string, Node[]>()
+  for (const node of nodes) {
+    const lane = laneOf(node.data as IssueNodeData, field)
+    issuesByLane.set(lane, [...(issuesByLane.get(lane) ?? []), node])
+  }
+  const lanes = [...issuesByLane.keys()].sort(compareLanes(field))
+  const maxRank = Math.max(0, ...rank.values())
+  const laneWidth =
+    LANE_HEADER_WIDTH +
+    (maxRank + 1) * (ISSUE_WIDTH + RANK_SPACING) -
+    RANK_SPACING +
+    LANE_PADDING
+
+  const laidOut: Node[] = []
+  let laneY = 0
+  for (const lane of lanes) {
+    const issues = issuesByLane.get(lane) ?? []
+    // Issues of the same rank stack down the lane
+    const rowsUsed = new Map<number, number>()
+    const placed = issues.map(node => {
+      const issueRank = rank.get(node.id) ?? 0
+      const row = rowsUsed.get(issueRank) ?? 0
+      rowsUsed.set(issueRank, row + 1)
+      return {
+        ...node,
+        position: {
+          x: LANE_HEADER_WIDTH + issueRank * (ISSUE_WIDTH + RANK_SPACING),
+          y: laneY + LANE_PADDING + row * (ISSUE_HEIGHT + ISSUE_SPACING),
+        },
+      }
+    })
+    const rows = Math.max(...rowsUsed.values())
+    const laneHeight =
+      rows * (ISSUE_HEIGHT + ISSUE_SPACING) - ISSUE_SPACING + LANE_PADDING * 2
+
+    laidOut.push(
+      {
+        id: `lane:${lane}`,
+        type: 'swimlane',
+        position: { x: 0, y: laneY },
+        width: laneWidth,
+        height: laneHeight,
+        draggable: false,
+        selectable: false,
+        connectable: false,
+        zIndex: -1,
+        data: {
+          label: laneLabel(lane, field),
+          count: issues.length,
+        } satisfies SwimlaneNodeData,
+      },
+      ...placed
+    )
+    laneY += laneHeight
+  }
+
+  return { nodes: laidOut, edges }
+}
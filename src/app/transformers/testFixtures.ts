@@ -0,0 +1,69 @@
+import { expect } from 'bun:test'
+import type { Edge, Node } from '@xyflow/react'
+import type { IssueNodeData } from '../components/IssueNode'
+import { dependencyToEdge } from './dependencyToEdge'
+
+/**
+ * React Flow node and edge fixtures shared by the transformer tests
+ */
+
+export function createNode(id: string, overrides: Partial<Node> = {}): Node {
+  return {
+    id,
+    position: { x: 0, y: 0 },
+    data: { issueId: id },
+    ...overrides,
+  }
+}
+
+export function issueNode(
+  id: string,
+  overrides: Partial<IssueNodeData> = {}
+): Node {
+  return {
+    id,
+    type: 'issue',
+    position: { x: 0, y: 0 },
+    data: {
+      issueId: id,
+      title: `Issue ${id}`,
+      status: 'open',
+      type: 'task',
+      priority: 'P2',
+      ...overrides,
+    } satisfies IssueNodeData,
+  }
+}
+
+export function createEdge(source: string, target: string): Edge {
+  return { id: `${source}-${target}`, source, target }
+}
+
+/**
+ * Edge for a dependency, as the DAG view gets it from the API
+ */
+export function blocks(
+  blocker: string,
+  blocked: string,
+  type = 'blocks'
+): Edge {
+  return dependencyToEdge({ issue_id: blocked, depends_on_id: blocker, type })
+}
+
+export function findNode(nodes: Node[], id: string): Node {
+  const node = nodes.find(n => n.id === id)
+  if (!node) throw new Error(`Node with id "${id}" not found`)
+  return node
+}
+
+/**
+ * React Flow needs each group before its children
+ */
+export function expectGroupsBeforeChildren(nodes: Node[]): void {
+  const ids = nodes.map(node => node.id)
+  for (const [index, node] of nodes.entries()) {
+    if (node.parentId) {
+      expect(ids.slice(0, index)).toContain(node.parentId)
+    }
+  }
+}